@@ -0,0 +1,43 @@
+-- Brings databases created from the init migration in line with the schema
+-- as it stood before the migrations below. Databases that were created with
+-- `prisma db push` already match it: mark this and the init migration as
+-- applied there (`prisma migrate resolve --applied <name>`) instead.
+
+-- AlterTable
+ALTER TABLE "ArchivedStudentRecord" ADD COLUMN     "gradeLevel" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "ArchivedStudentRecord" ALTER COLUMN "gradeLevel" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "courseId" TEXT,
+ADD COLUMN     "description" TEXT;
+
+-- AlterTable
+ALTER TABLE "AttendanceRecord" ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "courseId" DROP NOT NULL;
+ALTER TABLE "AttendanceRecord" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "MeetingRequest" ADD COLUMN     "rescheduledDateTime" TIMESTAMP(3),
+ADD COLUMN     "teacherNotes" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Teacher" ADD CONSTRAINT "Teacher_transportRouteId_fkey" FOREIGN KEY ("transportRouteId") REFERENCES "TransportRoute"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Teacher" ADD CONSTRAINT "Teacher_busStopId_fkey" FOREIGN KEY ("busStopId") REFERENCES "BusStop"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Student" ADD CONSTRAINT "Student_transportRouteId_fkey" FOREIGN KEY ("transportRouteId") REFERENCES "TransportRoute"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Student" ADD CONSTRAINT "Student_busStopId_fkey" FOREIGN KEY ("busStopId") REFERENCES "BusStop"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendanceRecord" ADD CONSTRAINT "AttendanceRecord_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendanceRecord" ADD CONSTRAINT "AttendanceRecord_classId_fkey" FOREIGN KEY ("classId") REFERENCES "SchoolClass"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "PaymentOrderStatus" AS ENUM ('created', 'paid', 'failed', 'refunded');
+
+-- CreateTable
+CREATE TABLE "PaymentOrder" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "feeRecordId" TEXT NOT NULL,
+    "gatewayOrderId" TEXT NOT NULL,
+    "gatewayPaymentId" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "status" "PaymentOrderStatus" NOT NULL DEFAULT 'created',
+    "failureReason" TEXT,
+    "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "feePaymentId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "gatewayOrderId" TEXT,
+    "payload" JSONB NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentOrder_gatewayOrderId_key" ON "PaymentOrder"("gatewayOrderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentOrder_gatewayPaymentId_key" ON "PaymentOrder"("gatewayPaymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentOrder_feePaymentId_key" ON "PaymentOrder"("feePaymentId");
+
+-- CreateIndex
+CREATE INDEX "PaymentOrder_branchId_idx" ON "PaymentOrder"("branchId");
+
+-- CreateIndex
+CREATE INDEX "PaymentOrder_studentId_idx" ON "PaymentOrder"("studentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentWebhookEvent_eventId_key" ON "PaymentWebhookEvent"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentOrder" ADD CONSTRAINT "PaymentOrder_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentOrder" ADD CONSTRAINT "PaymentOrder_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentOrder" ADD CONSTRAINT "PaymentOrder_feeRecordId_fkey" FOREIGN KEY ("feeRecordId") REFERENCES "FeeRecord"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentOrder" ADD CONSTRAINT "PaymentOrder_feePaymentId_fkey" FOREIGN KEY ("feePaymentId") REFERENCES "FeePayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "FeeInstalmentFrequency" AS ENUM ('Monthly', 'Quarterly', 'HalfYearly', 'Annual');
+
+-- AlterTable
+ALTER TABLE "FeeTemplate" ADD COLUMN     "instalmentDueDay" INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN     "instalmentFrequency" "FeeInstalmentFrequency" NOT NULL DEFAULT 'Monthly';
+
+-- CreateTable
+CREATE TABLE "FeeInstalment" (
+    "id" TEXT NOT NULL,
+    "feeRecordId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "components" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeeInstalment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FeePaymentAllocation" (
+    "id" TEXT NOT NULL,
+    "feePaymentId" TEXT NOT NULL,
+    "instalmentId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeePaymentAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeeInstalment_feeRecordId_sequence_key" ON "FeeInstalment"("feeRecordId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "FeePaymentAllocation_feePaymentId_idx" ON "FeePaymentAllocation"("feePaymentId");
+
+-- CreateIndex
+CREATE INDEX "FeePaymentAllocation_instalmentId_idx" ON "FeePaymentAllocation"("instalmentId");
+
+-- AddForeignKey
+ALTER TABLE "FeeInstalment" ADD CONSTRAINT "FeeInstalment_feeRecordId_fkey" FOREIGN KEY ("feeRecordId") REFERENCES "FeeRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeePaymentAllocation" ADD CONSTRAINT "FeePaymentAllocation_feePaymentId_fkey" FOREIGN KEY ("feePaymentId") REFERENCES "FeePayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeePaymentAllocation" ADD CONSTRAINT "FeePaymentAllocation_instalmentId_fkey" FOREIGN KEY ("instalmentId") REFERENCES "FeeInstalment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "LateFeeChargeType" AS ENUM ('flat', 'percentage');
+
+-- CreateEnum
+CREATE TYPE "LateFeeChargeStatus" AS ENUM ('applied', 'waived');
+
+-- AlterTable
+ALTER TABLE "FeeAdjustment" ADD COLUMN     "lateFeeChargeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "LateFeeRule" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "chargeType" "LateFeeChargeType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "graceDays" INTEGER NOT NULL DEFAULT 0,
+    "chargePerDay" BOOLEAN NOT NULL DEFAULT false,
+    "maxAmount" DOUBLE PRECISION,
+    "waivedCategories" "StudentCategory"[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LateFeeRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LateFeeCharge" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "instalmentId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "daysLate" INTEGER NOT NULL DEFAULT 0,
+    "status" "LateFeeChargeStatus" NOT NULL DEFAULT 'applied',
+    "waivedById" TEXT,
+    "waivedByName" TEXT,
+    "waiverReason" TEXT,
+    "waivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LateFeeCharge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LateFeeRule_branchId_idx" ON "LateFeeRule"("branchId");
+
+-- CreateIndex
+CREATE INDEX "LateFeeCharge_branchId_status_idx" ON "LateFeeCharge"("branchId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LateFeeCharge_ruleId_instalmentId_key" ON "LateFeeCharge"("ruleId", "instalmentId");
+
+-- AddForeignKey
+ALTER TABLE "FeeAdjustment" ADD CONSTRAINT "FeeAdjustment_lateFeeChargeId_fkey" FOREIGN KEY ("lateFeeChargeId") REFERENCES "LateFeeCharge"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LateFeeRule" ADD CONSTRAINT "LateFeeRule_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LateFeeCharge" ADD CONSTRAINT "LateFeeCharge_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "LateFeeRule"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LateFeeCharge" ADD CONSTRAINT "LateFeeCharge_instalmentId_fkey" FOREIGN KEY ("instalmentId") REFERENCES "FeeInstalment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LateFeeCharge" ADD CONSTRAINT "LateFeeCharge_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
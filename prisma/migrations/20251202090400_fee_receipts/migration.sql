@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "FeeReceiptStatus" AS ENUM ('issued', 'void');
+
+-- AlterTable
+ALTER TABLE "FeePayment" ADD COLUMN     "paymentMode" TEXT;
+
+-- CreateTable
+CREATE TABLE "FeeReceiptSequence" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "sessionStartYear" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "FeeReceiptSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FeeReceipt" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "feePaymentId" TEXT NOT NULL,
+    "sessionStartYear" INTEGER NOT NULL,
+    "sequenceNumber" INTEGER NOT NULL,
+    "receiptNumber" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "balanceAfter" DOUBLE PRECISION NOT NULL,
+    "lineItems" JSONB NOT NULL,
+    "status" "FeeReceiptStatus" NOT NULL DEFAULT 'issued',
+    "voidReason" TEXT,
+    "voidedById" TEXT,
+    "voidedAt" TIMESTAMP(3),
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeeReceipt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeeReceiptSequence_branchId_sessionStartYear_key" ON "FeeReceiptSequence"("branchId", "sessionStartYear");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeeReceipt_feePaymentId_key" ON "FeeReceipt"("feePaymentId");
+
+-- CreateIndex
+CREATE INDEX "FeeReceipt_studentId_idx" ON "FeeReceipt"("studentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeeReceipt_branchId_sessionStartYear_sequenceNumber_key" ON "FeeReceipt"("branchId", "sessionStartYear", "sequenceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeeReceipt_branchId_receiptNumber_key" ON "FeeReceipt"("branchId", "receiptNumber");
+
+-- AddForeignKey
+ALTER TABLE "FeeReceiptSequence" ADD CONSTRAINT "FeeReceiptSequence_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeReceipt" ADD CONSTRAINT "FeeReceipt_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeReceipt" ADD CONSTRAINT "FeeReceipt_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeReceipt" ADD CONSTRAINT "FeeReceipt_feePaymentId_fkey" FOREIGN KEY ("feePaymentId") REFERENCES "FeePayment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "FeeRefundType" AS ENUM ('refund', 'reversal');
+
+-- AlterTable
+ALTER TABLE "FeePayment" ADD COLUMN     "reversalOfId" TEXT;
+
+-- CreateTable
+CREATE TABLE "FeeRefundRequest" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "feePaymentId" TEXT NOT NULL,
+    "requestType" "FeeRefundType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "registrarId" TEXT NOT NULL,
+    "registrarName" TEXT NOT NULL,
+    "status" "RequestStatus" NOT NULL DEFAULT 'Pending',
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "reversalPaymentId" TEXT,
+    "gatewayRefundId" TEXT,
+    "gatewayRefundStatus" TEXT,
+
+    CONSTRAINT "FeeRefundRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeeRefundRequest_reversalPaymentId_key" ON "FeeRefundRequest"("reversalPaymentId");
+
+-- CreateIndex
+CREATE INDEX "FeeRefundRequest_branchId_status_idx" ON "FeeRefundRequest"("branchId", "status");
+
+-- CreateIndex
+CREATE INDEX "FeeRefundRequest_feePaymentId_idx" ON "FeeRefundRequest"("feePaymentId");
+
+-- AddForeignKey
+ALTER TABLE "FeePayment" ADD CONSTRAINT "FeePayment_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "FeePayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeRefundRequest" ADD CONSTRAINT "FeeRefundRequest_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeRefundRequest" ADD CONSTRAINT "FeeRefundRequest_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeRefundRequest" ADD CONSTRAINT "FeeRefundRequest_feePaymentId_fkey" FOREIGN KEY ("feePaymentId") REFERENCES "FeePayment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeRefundRequest" ADD CONSTRAINT "FeeRefundRequest_reversalPaymentId_fkey" FOREIGN KEY ("reversalPaymentId") REFERENCES "FeePayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeRefundRequest" ADD CONSTRAINT "FeeRefundRequest_registrarId_fkey" FOREIGN KEY ("registrarId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeRefundRequest" ADD CONSTRAINT "FeeRefundRequest_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
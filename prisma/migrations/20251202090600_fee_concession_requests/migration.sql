@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "FeeAdjustment" ADD COLUMN     "feeRecordId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ConcessionRequest" ADD COLUMN     "approvedAmount" DOUBLE PRECISION,
+ADD COLUMN     "documentUrls" TEXT[],
+ADD COLUMN     "feeAdjustmentId" TEXT,
+ADD COLUMN     "feeRecordId" TEXT,
+ADD COLUMN     "reviewNote" TEXT;
+
+-- CreateTable
+CREATE TABLE "UserNotification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "type" TEXT,
+    "targetId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserNotification_userId_readAt_idx" ON "UserNotification"("userId", "readAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConcessionRequest_feeAdjustmentId_key" ON "ConcessionRequest"("feeAdjustmentId");
+
+-- AddForeignKey
+ALTER TABLE "FeeAdjustment" ADD CONSTRAINT "FeeAdjustment_feeRecordId_fkey" FOREIGN KEY ("feeRecordId") REFERENCES "FeeRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConcessionRequest" ADD CONSTRAINT "ConcessionRequest_feeRecordId_fkey" FOREIGN KEY ("feeRecordId") REFERENCES "FeeRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConcessionRequest" ADD CONSTRAINT "ConcessionRequest_feeAdjustmentId_fkey" FOREIGN KEY ("feeAdjustmentId") REFERENCES "FeeAdjustment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserNotification" ADD CONSTRAINT "UserNotification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
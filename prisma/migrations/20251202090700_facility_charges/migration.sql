@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "FacilityType" AS ENUM ('hostel', 'transport');
+
+-- AlterTable
+ALTER TABLE "FeeAdjustment" ADD COLUMN     "facilityChargeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "FacilityFeeCharge" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "feeRecordId" TEXT NOT NULL,
+    "facility" "FacilityType" NOT NULL,
+    "roomId" TEXT,
+    "busStopId" TEXT,
+    "description" TEXT NOT NULL,
+    "monthlyRate" DOUBLE PRECISION NOT NULL,
+    "sessionStartYear" INTEGER NOT NULL,
+    "fromMonth" INTEGER NOT NULL,
+    "toMonth" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "FacilityFeeCharge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FacilityFeeCharge_studentId_facility_isActive_idx" ON "FacilityFeeCharge"("studentId", "facility", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "FeeAdjustment" ADD CONSTRAINT "FeeAdjustment_facilityChargeId_fkey" FOREIGN KEY ("facilityChargeId") REFERENCES "FacilityFeeCharge"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FacilityFeeCharge" ADD CONSTRAINT "FacilityFeeCharge_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FacilityFeeCharge" ADD CONSTRAINT "FacilityFeeCharge_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FacilityFeeCharge" ADD CONSTRAINT "FacilityFeeCharge_feeRecordId_fkey" FOREIGN KEY ("feeRecordId") REFERENCES "FeeRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FacilityFeeCharge" ADD CONSTRAINT "FacilityFeeCharge_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FacilityFeeCharge" ADD CONSTRAINT "FacilityFeeCharge_busStopId_fkey" FOREIGN KEY ("busStopId") REFERENCES "BusStop"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
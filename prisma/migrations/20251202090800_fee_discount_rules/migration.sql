@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "FeeDiscountRuleType" AS ENUM ('sibling', 'staffWard', 'category');
+
+-- CreateEnum
+CREATE TYPE "FeeDiscountValueType" AS ENUM ('flat', 'percentage');
+
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN     "staffParentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "FeeAdjustment" ADD COLUMN     "discountApplicationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "FeeDiscountRule" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ruleType" "FeeDiscountRuleType" NOT NULL,
+    "valueType" "FeeDiscountValueType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "categories" "StudentCategory"[],
+    "minSiblingPosition" INTEGER NOT NULL DEFAULT 2,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "stackable" BOOLEAN NOT NULL DEFAULT true,
+    "maxAmount" DOUBLE PRECISION,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeeDiscountRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FeeDiscountApplication" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "feeRecordId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeeDiscountApplication_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeeDiscountRule_branchId_idx" ON "FeeDiscountRule"("branchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeeDiscountApplication_ruleId_feeRecordId_key" ON "FeeDiscountApplication"("ruleId", "feeRecordId");
+
+-- AddForeignKey
+ALTER TABLE "Student" ADD CONSTRAINT "Student_staffParentId_fkey" FOREIGN KEY ("staffParentId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeAdjustment" ADD CONSTRAINT "FeeAdjustment_discountApplicationId_fkey" FOREIGN KEY ("discountApplicationId") REFERENCES "FeeDiscountApplication"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeDiscountRule" ADD CONSTRAINT "FeeDiscountRule_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeDiscountApplication" ADD CONSTRAINT "FeeDiscountApplication_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "FeeDiscountRule"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeDiscountApplication" ADD CONSTRAINT "FeeDiscountApplication_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeDiscountApplication" ADD CONSTRAINT "FeeDiscountApplication_feeRecordId_fkey" FOREIGN KEY ("feeRecordId") REFERENCES "FeeRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "PayrollRunStatus" AS ENUM ('locked', 'superseded');
+
+-- AlterTable
+ALTER TABLE "PayrollRecord" ADD COLUMN     "breakdown" JSONB,
+ADD COLUMN     "daysInMonth" INTEGER,
+ADD COLUMN     "runId" TEXT,
+ALTER COLUMN "unpaidLeaveDays" SET DATA TYPE DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "PayrollRun" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "PayrollRunStatus" NOT NULL DEFAULT 'locked',
+    "totalNetPay" DOUBLE PRECISION NOT NULL,
+    "computedById" TEXT NOT NULL,
+    "computedByName" TEXT NOT NULL,
+    "lockedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "supersededAt" TIMESTAMP(3),
+
+    CONSTRAINT "PayrollRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollRun_branchId_month_version_key" ON "PayrollRun"("branchId", "month", "version");
+
+-- CreateIndex
+CREATE INDEX "PayrollRecord_branchId_month_idx" ON "PayrollRecord"("branchId", "month");
+
+-- AddForeignKey
+ALTER TABLE "PayrollRun" ADD CONSTRAINT "PayrollRun_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollRecord" ADD CONSTRAINT "PayrollRecord_runId_fkey" FOREIGN KEY ("runId") REFERENCES "PayrollRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
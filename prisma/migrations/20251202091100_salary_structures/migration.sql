@@ -0,0 +1,71 @@
+-- AlterTable
+ALTER TABLE "PayrollRecord" ADD COLUMN     "deductions" JSONB,
+ADD COLUMN     "earnings" JSONB,
+ADD COLUMN     "employerContributions" JSONB,
+ADD COLUMN     "grossEarnings" DOUBLE PRECISION,
+ADD COLUMN     "totalDeductions" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "SalaryStructure" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "staffId" TEXT NOT NULL,
+    "basic" DOUBLE PRECISION NOT NULL,
+    "dearnessAllowance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "houseRentAllowance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "otherAllowances" JSONB,
+    "otherDeductions" JSONB,
+    "pfApplicable" BOOLEAN NOT NULL DEFAULT true,
+    "esiApplicable" BOOLEAN NOT NULL DEFAULT true,
+    "professionalTaxApplicable" BOOLEAN NOT NULL DEFAULT true,
+    "tdsApplicable" BOOLEAN NOT NULL DEFAULT true,
+    "declaredAnnualExemptions" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "pan" TEXT,
+    "uan" TEXT,
+    "esiNumber" TEXT,
+    "updatedByName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SalaryStructure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayrollStatutorySettings" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "pfEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "pfEmployeeRate" DOUBLE PRECISION NOT NULL DEFAULT 12,
+    "pfEmployerRate" DOUBLE PRECISION NOT NULL DEFAULT 12,
+    "pfWageCeiling" DOUBLE PRECISION DEFAULT 15000,
+    "esiEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "esiEmployeeRate" DOUBLE PRECISION NOT NULL DEFAULT 0.75,
+    "esiEmployerRate" DOUBLE PRECISION NOT NULL DEFAULT 3.25,
+    "esiWageLimit" DOUBLE PRECISION NOT NULL DEFAULT 21000,
+    "ptEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "ptSlabs" JSONB NOT NULL,
+    "tdsEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "tdsSlabs" JSONB NOT NULL,
+    "tdsStandardDeduction" DOUBLE PRECISION NOT NULL DEFAULT 75000,
+    "tdsRebateLimit" DOUBLE PRECISION NOT NULL DEFAULT 1200000,
+    "tdsCessRate" DOUBLE PRECISION NOT NULL DEFAULT 4,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollStatutorySettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalaryStructure_staffId_key" ON "SalaryStructure"("staffId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollStatutorySettings_branchId_key" ON "PayrollStatutorySettings"("branchId");
+
+-- AddForeignKey
+ALTER TABLE "SalaryStructure" ADD CONSTRAINT "SalaryStructure_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalaryStructure" ADD CONSTRAINT "SalaryStructure_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollStatutorySettings" ADD CONSTRAINT "PayrollStatutorySettings_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
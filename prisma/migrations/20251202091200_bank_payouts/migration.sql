@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "PayrollPayoutBatchStatus" AS ENUM ('exported', 'partially_settled', 'settled');
+
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "payrollDebitAccount" TEXT;
+
+-- AlterTable
+ALTER TABLE "PayrollRecord" ADD COLUMN     "payoutBatchId" TEXT,
+ADD COLUMN     "payoutFailureReason" TEXT,
+ADD COLUMN     "payoutReference" TEXT,
+ADD COLUMN     "payoutUtr" TEXT;
+
+-- CreateTable
+CREATE TABLE "StaffBankAccount" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accountHolderName" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "accountLast4" TEXT NOT NULL,
+    "ifsc" TEXT NOT NULL,
+    "bankName" TEXT,
+    "updatedByName" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StaffBankAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayrollPayoutBatch" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "debitAccount" TEXT NOT NULL,
+    "paymentDate" TIMESTAMP(3) NOT NULL,
+    "recordCount" INTEGER NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "status" "PayrollPayoutBatchStatus" NOT NULL DEFAULT 'exported',
+    "createdById" TEXT NOT NULL,
+    "createdByName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "responseImportedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PayrollPayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StaffBankAccount_userId_key" ON "StaffBankAccount"("userId");
+
+-- CreateIndex
+CREATE INDEX "PayrollPayoutBatch_branchId_month_idx" ON "PayrollPayoutBatch"("branchId", "month");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollRecord_payoutReference_key" ON "PayrollRecord"("payoutReference");
+
+-- AddForeignKey
+ALTER TABLE "StaffBankAccount" ADD CONSTRAINT "StaffBankAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollPayoutBatch" ADD CONSTRAINT "PayrollPayoutBatch_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollRecord" ADD CONSTRAINT "PayrollRecord_payoutBatchId_fkey" FOREIGN KEY ("payoutBatchId") REFERENCES "PayrollPayoutBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
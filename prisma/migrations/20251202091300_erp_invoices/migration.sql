@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "ErpInvoiceStatus" AS ENUM ('issued', 'partially_paid', 'paid', 'void');
+
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "suspendedForNonPaymentAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ErpPayment" ADD COLUMN     "invoiceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN     "erpGracePeriodDays" INTEGER,
+ADD COLUMN     "erpInvoiceLeadDays" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "erpReminderIntervalDays" INTEGER NOT NULL DEFAULT 3;
+
+-- CreateTable
+CREATE TABLE "ErpInvoice" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "billingCycle" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "studentCount" INTEGER NOT NULL,
+    "pricePerStudent" DOUBLE PRECISION NOT NULL,
+    "months" INTEGER NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "concessionPercentage" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "concessionAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "status" "ErpInvoiceStatus" NOT NULL DEFAULT 'issued',
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "paidAt" TIMESTAMP(3),
+    "reminderCount" INTEGER NOT NULL DEFAULT 0,
+    "lastReminderAt" TIMESTAMP(3),
+    "voidReason" TEXT,
+
+    CONSTRAINT "ErpInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ErpInvoiceSequence" (
+    "fiscalStartYear" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ErpInvoiceSequence_pkey" PRIMARY KEY ("fiscalStartYear")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ErpInvoice_invoiceNumber_key" ON "ErpInvoice"("invoiceNumber");
+
+-- CreateIndex
+CREATE INDEX "ErpInvoice_status_dueDate_idx" ON "ErpInvoice"("status", "dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ErpInvoice_branchId_periodStart_key" ON "ErpInvoice"("branchId", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "ErpPayment" ADD CONSTRAINT "ErpPayment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "ErpInvoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ErpInvoice" ADD CONSTRAINT "ErpInvoice_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "gstin" TEXT;
+
+-- AlterTable
+ALTER TABLE "ErpInvoice" ADD COLUMN     "cgstAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "cgstRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "creditedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "igstAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "igstRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "placeOfSupply" TEXT,
+ADD COLUMN     "recipientGstin" TEXT,
+ADD COLUMN     "sacCode" TEXT,
+ADD COLUMN     "sgstAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "sgstRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "supplierGstin" TEXT,
+ADD COLUMN     "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxableAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ErpInvoiceSequence" DROP CONSTRAINT "ErpInvoiceSequence_pkey",
+ADD COLUMN     "series" TEXT NOT NULL DEFAULT 'ERP',
+ADD CONSTRAINT "ErpInvoiceSequence_pkey" PRIMARY KEY ("series", "fiscalStartYear");
+
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN     "erpGstRate" DOUBLE PRECISION NOT NULL DEFAULT 18,
+ADD COLUMN     "erpSacCode" TEXT NOT NULL DEFAULT '997331',
+ADD COLUMN     "platformAddress" TEXT,
+ADD COLUMN     "platformGstin" TEXT,
+ADD COLUMN     "platformLegalName" TEXT;
+
+-- CreateTable
+CREATE TABLE "ErpCreditNote" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "creditNoteNumber" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "taxableAmount" DOUBLE PRECISION NOT NULL,
+    "cgstAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "sgstAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "igstAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdByName" TEXT NOT NULL,
+
+    CONSTRAINT "ErpCreditNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ErpCreditNote_creditNoteNumber_key" ON "ErpCreditNote"("creditNoteNumber");
+
+-- CreateIndex
+CREATE INDEX "ErpCreditNote_issuedAt_idx" ON "ErpCreditNote"("issuedAt");
+
+-- AddForeignKey
+ALTER TABLE "ErpCreditNote" ADD CONSTRAINT "ErpCreditNote_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "ErpInvoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
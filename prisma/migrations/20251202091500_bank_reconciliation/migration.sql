@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "BankStatementLineStatus" AS ENUM ('unmatched', 'matched', 'suspicious', 'ignored');
+
+-- CreateTable
+CREATE TABLE "BankStatement" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "accountNumber" TEXT,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "lineCount" INTEGER NOT NULL DEFAULT 0,
+    "duplicateCount" INTEGER NOT NULL DEFAULT 0,
+    "uploadedById" TEXT,
+    "uploadedByName" TEXT NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BankStatement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankStatementLine" (
+    "id" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "lineNumber" INTEGER NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "description" TEXT NOT NULL,
+    "reference" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "balance" DOUBLE PRECISION,
+    "fingerprint" TEXT NOT NULL,
+    "status" "BankStatementLineStatus" NOT NULL DEFAULT 'unmatched',
+    "matchType" TEXT,
+    "matchedId" TEXT,
+    "confidence" DOUBLE PRECISION,
+    "matchDetails" JSONB,
+    "matchedBy" TEXT,
+    "matchedById" TEXT,
+    "matchedByName" TEXT,
+    "matchedAt" TIMESTAMP(3),
+    "note" TEXT,
+
+    CONSTRAINT "BankStatementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BankStatement_branchId_uploadedAt_idx" ON "BankStatement"("branchId", "uploadedAt");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_branchId_status_idx" ON "BankStatementLine"("branchId", "status");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_branchId_date_idx" ON "BankStatementLine"("branchId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementLine_branchId_fingerprint_key" ON "BankStatementLine"("branchId", "fingerprint");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementLine_matchType_matchedId_key" ON "BankStatementLine"("matchType", "matchedId");
+
+-- AddForeignKey
+ALTER TABLE "BankStatement" ADD CONSTRAINT "BankStatement_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "BankStatement"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "CashCounterStatus" AS ENUM ('open', 'closed', 'pending_signoff', 'signed_off');
+
+-- AlterTable
+ALTER TABLE "FeePayment" ADD COLUMN     "collectedById" TEXT,
+ADD COLUMN     "counterSessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CashCounterSession" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "registrarId" TEXT NOT NULL,
+    "registrarName" TEXT NOT NULL,
+    "businessDate" TEXT NOT NULL,
+    "status" "CashCounterStatus" NOT NULL DEFAULT 'open',
+    "openingFloat" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "openingDenominations" JSONB,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "closingDenominations" JSONB,
+    "countedCash" DOUBLE PRECISION,
+    "countedCheques" DOUBLE PRECISION,
+    "chequeCount" INTEGER,
+    "expectedCash" DOUBLE PRECISION,
+    "expectedCheques" DOUBLE PRECISION,
+    "collectionsByMode" JSONB,
+    "cashVariance" DOUBLE PRECISION,
+    "chequeVariance" DOUBLE PRECISION,
+    "varianceNote" TEXT,
+    "signedOffById" TEXT,
+    "signedOffByName" TEXT,
+    "signedOffAt" TIMESTAMP(3),
+    "signOffNote" TEXT,
+
+    CONSTRAINT "CashCounterSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CashCounterSession_branchId_businessDate_idx" ON "CashCounterSession"("branchId", "businessDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CashCounterSession_registrarId_businessDate_key" ON "CashCounterSession"("registrarId", "businessDate");
+
+-- AddForeignKey
+ALTER TABLE "FeePayment" ADD CONSTRAINT "FeePayment_counterSessionId_fkey" FOREIGN KEY ("counterSessionId") REFERENCES "CashCounterSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashCounterSession" ADD CONSTRAINT "CashCounterSession_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "WalletTransactionType" AS ENUM ('credit', 'debit');
+
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN     "walletBalance" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "FeeRecord" ADD COLUMN     "sessionStartYear" INTEGER;
+
+-- AlterTable
+ALTER TABLE "FeePayment" ADD COLUMN     "advanceAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "WalletTransaction" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "type" "WalletTransactionType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "balanceAfter" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "feeRecordId" TEXT,
+    "feePaymentId" TEXT,
+    "createdById" TEXT,
+    "createdByName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FeeCarryForward" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "fromFeeRecordId" TEXT NOT NULL,
+    "toFeeRecordId" TEXT NOT NULL,
+    "fromSessionStartYear" INTEGER NOT NULL,
+    "toSessionStartYear" INTEGER NOT NULL,
+    "duesCarried" DOUBLE PRECISION NOT NULL,
+    "creditToWallet" DOUBLE PRECISION NOT NULL,
+    "walletApplied" DOUBLE PRECISION NOT NULL,
+    "createdById" TEXT,
+    "createdByName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeeCarryForward_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_studentId_createdAt_idx" ON "WalletTransaction"("studentId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeeCarryForward_fromFeeRecordId_key" ON "FeeCarryForward"("fromFeeRecordId");
+
+-- CreateIndex
+CREATE INDEX "FeeCarryForward_branchId_toSessionStartYear_idx" ON "FeeCarryForward"("branchId", "toSessionStartYear");
+
+-- AddForeignKey
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_feeRecordId_fkey" FOREIGN KEY ("feeRecordId") REFERENCES "FeeRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_feePaymentId_fkey" FOREIGN KEY ("feePaymentId") REFERENCES "FeePayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeCarryForward" ADD CONSTRAINT "FeeCarryForward_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeCarryForward" ADD CONSTRAINT "FeeCarryForward_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeCarryForward" ADD CONSTRAINT "FeeCarryForward_fromFeeRecordId_fkey" FOREIGN KEY ("fromFeeRecordId") REFERENCES "FeeRecord"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeeCarryForward" ADD CONSTRAINT "FeeCarryForward_toFeeRecordId_fkey" FOREIGN KEY ("toFeeRecordId") REFERENCES "FeeRecord"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
@@ -0,0 +1,101 @@
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "expenseApprovalThreshold" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "ManualExpense" ADD COLUMN     "categoryId" TEXT,
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "enteredById" TEXT,
+ADD COLUMN     "receiptFileName" TEXT,
+ADD COLUMN     "receiptUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "ExpenseCategory" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ledgerCategory" "ManualExpenseCategory" NOT NULL DEFAULT 'Miscellaneous',
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "isArchived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExpenseCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExpenseBudget" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "alertLevel" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "createdByName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExpenseBudget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ManualExpenseRequest" (
+    "id" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "receiptUrl" TEXT,
+    "receiptFileName" TEXT,
+    "requestedById" TEXT NOT NULL,
+    "requestedByName" TEXT NOT NULL,
+    "status" "RequestStatus" NOT NULL DEFAULT 'Pending',
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedById" TEXT,
+    "reviewedByName" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "manualExpenseId" TEXT,
+
+    CONSTRAINT "ManualExpenseRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpenseCategory_branchId_name_key" ON "ExpenseCategory"("branchId", "name");
+
+-- CreateIndex
+CREATE INDEX "ExpenseBudget_branchId_month_idx" ON "ExpenseBudget"("branchId", "month");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpenseBudget_categoryId_month_key" ON "ExpenseBudget"("categoryId", "month");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ManualExpenseRequest_manualExpenseId_key" ON "ManualExpenseRequest"("manualExpenseId");
+
+-- CreateIndex
+CREATE INDEX "ManualExpenseRequest_branchId_status_idx" ON "ManualExpenseRequest"("branchId", "status");
+
+-- CreateIndex
+CREATE INDEX "ManualExpense_branchId_date_idx" ON "ManualExpense"("branchId", "date");
+
+-- AddForeignKey
+ALTER TABLE "ManualExpense" ADD CONSTRAINT "ManualExpense_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseCategory" ADD CONSTRAINT "ExpenseCategory_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseBudget" ADD CONSTRAINT "ExpenseBudget_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseBudget" ADD CONSTRAINT "ExpenseBudget_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ManualExpenseRequest" ADD CONSTRAINT "ManualExpenseRequest_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ManualExpenseRequest" ADD CONSTRAINT "ManualExpenseRequest_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ManualExpenseRequest" ADD CONSTRAINT "ManualExpenseRequest_manualExpenseId_fkey" FOREIGN KEY ("manualExpenseId") REFERENCES "ManualExpense"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
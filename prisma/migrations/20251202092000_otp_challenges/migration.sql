@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "OtpPurpose" AS ENUM ('login', 'profile_access');
+
+-- CreateEnum
+CREATE TYPE "OtpChannel" AS ENUM ('email', 'sms');
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "currentOtp",
+DROP COLUMN "otpExpiry",
+DROP COLUMN "profileAccessOtp";
+
+-- CreateTable
+CREATE TABLE "OtpChallenge" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "purpose" "OtpPurpose" NOT NULL,
+    "channel" "OtpChannel" NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OtpChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OtpChallenge_userId_purpose_createdAt_idx" ON "OtpChallenge"("userId", "purpose", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OtpChallenge" ADD CONSTRAINT "OtpChallenge_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
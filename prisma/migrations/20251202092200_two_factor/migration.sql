@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "OtpChannel" ADD VALUE 'totp';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "totpEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "totpLastStep" INTEGER,
+ADD COLUMN     "totpPendingSecret" TEXT,
+ADD COLUMN     "totpSecret" TEXT;
+
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "twoFactorRequiredRoles" "UserRole"[] DEFAULT ARRAY[]::"UserRole"[];
+
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN     "twoFactorRequiredRoles" "UserRole"[] DEFAULT ARRAY[]::"UserRole"[];
+
+-- CreateTable
+CREATE TABLE "TotpBackupCode" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TotpBackupCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TotpBackupCode_userId_idx" ON "TotpBackupCode"("userId");
+
+-- AddForeignKey
+ALTER TABLE "TotpBackupCode" ADD CONSTRAINT "TotpBackupCode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
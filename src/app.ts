@@ -5,6 +5,7 @@ import cors from "cors";
 import dotenv from "dotenv";
 dotenv.config();
 import { auditLogMiddleware } from "../src/middlewares/auditLogMiddleware"; 
+import { HttpError } from "./utils/httpError";
 // Import all routers
 import authRoutes from "./routes/auth";
 import adminRoutes from "./routes/admin";
@@ -16,8 +17,13 @@ import teacherRoutes from "./routes/teacher";
 import studentRoutes from "./routes/student";
 import generalRoutes from "./routes/general";
 import blobUploadRoutes from "./routes/blobUploadRoutes";
+import webhookRoutes from "./routes/webhooks";
 const app: Express = express();
 
+// Behind Vercel's proxy; per-IP login limits need the client's address
+// from X-Forwarded-For rather than the proxy's.
+app.set("trust proxy", Number(process.env.TRUST_PROXY_HOPS ?? 1));
+
 // --- Middlewares ---
 const allowedOrigins = ["https://verticx.vercel.app"];
 
@@ -36,6 +42,7 @@ const allowedOrigins = ["https://verticx.vercel.app"];
 // };
 app.use(cors());//corsOptions
 app.use("/api", blobUploadRoutes);
+app.use("/api/webhooks", webhookRoutes);
 
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -65,6 +72,9 @@ app.get("/", (req, res) =>
 
 // --- Error Handling ---
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ message: err.message });
+  }
   console.error("Server Error:", err.stack);
   res.status(500).json({ message: "Something went wrong on the server!" });
 });
@@ -1,9 +1,49 @@
 // src/controllers/adminController.ts
 import { Request, Response, NextFunction } from "express";
 import prisma from "../prisma";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
 import bcrypt from "bcryptjs";
 import { generatePassword } from "../utils/helpers";
-import { User,UserRole, BranchStatus } from "@prisma/client";
+import { toPublicBranch } from "../services/paymentGatewayService";
+import {
+  generateDueErpInvoices,
+  listErpInvoices,
+  processOverdueErpInvoices,
+  recordErpInvoicePayment,
+  voidErpInvoice as voidErpInvoiceById,
+} from "../services/erpBillingService";
+import {
+  getGstr1Export,
+  issueErpCreditNote,
+  listErpCreditNotes,
+  renderErpCreditNotePdf,
+  renderErpInvoicePdf,
+} from "../services/erpTaxInvoiceService";
+import {
+  listManualExpenseRequests,
+  reviewManualExpenseRequest,
+} from "../services/expenseBudgetService";
+import {
+  getFinancialReport as buildFinancialReport,
+  parseReportFormat,
+  renderFinancialReport,
+} from "../services/financialReportService";
+import { resetToTemporaryPassword } from "../services/passwordService";
+import { unlockAccount } from "../services/loginProtectionService";
+import {
+  clearSystemTwoFactorPolicyCache,
+  parseTwoFactorRoles,
+  resetTwoFactor,
+  setBranchTwoFactorPolicy,
+} from "../services/twoFactorService";
+import { isValidGstin, normalizeGstin } from "../utils/gst";
+import {
+  User,
+  UserRole,
+  BranchStatus,
+  ErpInvoiceStatus,
+  RequestStatus,
+} from "@prisma/client";
 
 // A custom interface to add the 'user' property from your 'protect' middleware
 interface AuthenticatedRequest extends Request {
@@ -111,6 +151,7 @@ export const approveRequest = async (
             email: request.email,
             name: request.principalName,
             passwordHash: hashedPassword,
+            mustChangePassword: true,
             phone: request.phone,
             role: "Principal",
             designation: "Principal",
@@ -231,7 +272,7 @@ export const getBranches = async (
       orderBy: { createdAt: "desc" },
     });
     const branchesWithStats = branches.map((b) => ({
-      ...b,
+      ...toPublicBranch(b),
       stats: {
         students: b._count.students,
         teachers: b._count.teachers,
@@ -290,7 +331,7 @@ export const getSchoolDetails = async (
     const branch = await prisma.branch.findUnique({
       where: { id: branchId },
       include: {
-        principal: true,
+        principal: { omit: USER_PRIVATE_FIELDS },
         teachers: true,
         students: { select: { id: true, name: true, gradeLevel: true } },
         classes: { include: { _count: { select: { students: true } } } },
@@ -370,7 +411,7 @@ export const getSchoolDetails = async (
     const paidFees = feeDetails._sum?.paidAmount ?? 0;
 
     const schoolDetails = {
-      branch,
+      branch: toPublicBranch(branch),
       principal: branch.principal,
       students: branch.students,
       teachers: branch.teachers,
@@ -432,6 +473,8 @@ export const updateBranchDetails = async (
     erpPricePerStudent,
     erpConcessionPercentage,
     enabledFeatures, 
+    gstin,
+    expenseApprovalThreshold,
   } = req.body;
 
   // 2. Create a clean data object with only those allowed fields.
@@ -452,6 +495,27 @@ export const updateBranchDetails = async (
     updates.erpConcessionPercentage = Number(erpConcessionPercentage);
   }
 
+  if (gstin !== undefined) {
+    if (gstin && !isValidGstin(gstin)) {
+      return res.status(400).json({ message: "Invalid GSTIN." });
+    }
+    updates.gstin = gstin ? normalizeGstin(gstin) : null;
+  }
+
+  // Empty clears the threshold, so every expense is booked directly.
+  if (expenseApprovalThreshold !== undefined) {
+    const threshold =
+      expenseApprovalThreshold === null || expenseApprovalThreshold === ""
+        ? null
+        : Number(expenseApprovalThreshold);
+    if (threshold !== null && (!Number.isFinite(threshold) || threshold < 0)) {
+      return res
+        .status(400)
+        .json({ message: "expenseApprovalThreshold must be 0 or more." });
+    }
+    updates.expenseApprovalThreshold = threshold;
+  }
+
   // 4. Conditionally add the feature toggles object.
   // This is a safety check to ensure it's a valid object before saving.
   if (enabledFeatures !== undefined && typeof enabledFeatures === "object") {
@@ -811,18 +875,58 @@ export const resetUserPassword = async (
   next: NextFunction
 ) => {
   try {
-    const newPassword = generatePassword();
-    const hashedPassword = await bcrypt.hash(newPassword, 10);
-    await prisma.user.update({
-      where: { id: req.params.id },
-      data: { passwordHash: hashedPassword },
-    });
+    const newPassword = await resetToTemporaryPassword(req.params.id);
     res.status(200).json({ newPassword });
   } catch (error) {
     next(error);
   }
 };
 
+/** Lifts a login lockout before it runs out. */
+export const unlockUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await unlockAccount(req.params.id, req.user!);
+    res.status(200).json({ message: "Account unlocked.", ...result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/** Removes a user's authenticator app, e.g. after they lost the device. */
+export const resetUserTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await resetTwoFactor(req.params.id, req.user!);
+    res.status(200).json({ message: "Two-factor sign-in has been reset." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/** Roles in a branch that must sign in with an authenticator app. */
+export const updateBranchTwoFactorPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const policy = await setBranchTwoFactorPolicy(
+      req.params.id,
+      req.body.requiredRoles
+    );
+    res.status(200).json(policy);
+  } catch (error) {
+    next(error);
+  }
+};
+
 // --- Communication ---
 export const getAdminCommunicationHistory = async (
   req: Request,
@@ -1077,59 +1181,209 @@ export const recordManualErpPayment = async (
       return res.status(401).json({ message: "Authentication required." });
     }
 
-    const { branchId, amount, paymentDate, notes, periodEndDate } = req.body;
+    const { branchId, invoiceId, amount, paymentDate, notes, periodEndDate } =
+      req.body;
 
-    if (!branchId || !amount || !paymentDate || !periodEndDate) {
-      return res
-        .status(400)
-        .json({
-          message:
-            "Branch ID, amount, payment date, and period end date are required.",
-        });
+    if (!branchId || !amount || !paymentDate) {
+      return res.status(400).json({
+        message: "Branch ID, amount and payment date are required.",
+      });
     }
 
-    // --- THIS IS THE FIX ---
-    // We use a transaction to ensure both the payment is created AND the branch is updated.
-    // If either operation fails, the whole thing is rolled back.
+    // The payment settles an invoice; nextDueDate is owned by invoicing now.
+    const { payment, invoice, reinstated } = await recordErpInvoicePayment({
+      branchId,
+      invoiceId,
+      amount: Number(amount),
+      paymentDate: new Date(paymentDate),
+      transactionId: `MANUAL-${req.user.id}-${Date.now()}`,
+      notes,
+      periodEndDate: periodEndDate ? new Date(periodEndDate) : undefined,
+    });
 
-    const [newPayment, updatedBranch] = await prisma.$transaction(
-      async (tx) => {
-        // 1. Create the detailed payment record
-        const payment = await tx.erpPayment.create({
-          data: {
-            branchId,
-            amount: Number(amount),
-            paymentDate: new Date(paymentDate),
-            transactionId: `MANUAL-${req.user!.id}-${Date.now()}`,
-            notes, // Now saving notes
-            periodEndDate: new Date(periodEndDate), // And the period end date
-          },
-        });
+    res.status(201).json({
+      message: "Manual ERP payment recorded successfully.",
+      payment,
+      invoice,
+      reinstated,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-        // 2. Calculate the next due date (e.g., the first day of the next month)
-        const periodEnd = new Date(periodEndDate);
-        const nextDueDate = new Date(
-          periodEnd.getFullYear(),
-          periodEnd.getMonth() + 1,
-          1
-        );
-
-        // 3. Update the branch with the new due date
-        const branch = await tx.branch.update({
-          where: { id: branchId },
-          data: {
-            nextDueDate: nextDueDate,
-          },
-        });
+export const getErpInvoices = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { branchId, status } = req.query as {
+      branchId?: string;
+      status?: ErpInvoiceStatus;
+    };
+    res.status(200).json(await listErpInvoices({ branchId, status }));
+  } catch (error) {
+    next(error);
+  }
+};
 
-        return [payment, branch];
-      }
+export const generateErpInvoices = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { branchId, backfill } = req.body as {
+      branchId?: string;
+      backfill?: boolean;
+    };
+    const generated = await generateDueErpInvoices({
+      branchId,
+      backfill: backfill === true,
+    });
+    const overdue = await processOverdueErpInvoices();
+    res.status(200).json({ ...generated, ...overdue });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const voidErpInvoice = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required." });
+    }
+    const invoice = await voidErpInvoiceById(
+      req.params.id,
+      req.body.reason,
+      req.user
     );
+    res.status(200).json({ message: "Invoice voided.", invoice });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    res.status(201).json({
-      message: "Manual ERP payment recorded successfully.",
-      payment: newPayment,
+export const downloadErpInvoice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { fileName, pdf } = await renderErpInvoicePdf({ id: req.params.id });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createErpCreditNote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required." });
+    }
+    const { taxableAmount, reason } = req.body;
+    const creditNote = await issueErpCreditNote(
+      req.params.id,
+      {
+        taxableAmount:
+          taxableAmount === undefined ? undefined : Number(taxableAmount),
+        reason,
+      },
+      req.user
+    );
+    res.status(201).json(creditNote);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getErpCreditNotes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { branchId } = req.query as { branchId?: string };
+    res
+      .status(200)
+      .json(await listErpCreditNotes(branchId ? { invoice: { branchId } } : {}));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const downloadErpCreditNote = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { fileName, pdf } = await renderErpCreditNotePdf({
+      id: req.params.id,
     });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getGstr1Report = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const report = await getGstr1Export(
+      req.query.month as string,
+      req.query.section as string | undefined
+    );
+    res.status(200).json(report);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Financial reports for one branch (`?branchId=`) or all branches together.
+ * `?format=csv|xlsx|pdf` downloads the report instead of returning JSON.
+ */
+export const getFinancialReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const format = parseReportFormat(req.query.format);
+    const { report, tables } = await buildFinancialReport(
+      req.params.report,
+      req.query,
+      (req.query.branchId as string) || undefined
+    );
+    if (format === "json") {
+      return res.status(200).json(report);
+    }
+    const { fileName, contentType, content } = await renderFinancialReport(
+      report,
+      tables,
+      format
+    );
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(content);
   } catch (error) {
     next(error);
   }
@@ -1330,14 +1584,14 @@ export const getSuperAdminContactDetails = async (
   try {
     const superAdmin = await prisma.user.findFirst({
       where: { role: "SuperAdmin"},
+      omit: USER_PRIVATE_FIELDS,
     });
     if (!superAdmin) {
       return res
         .status(404)
         .json({ message: "Super Admin contact details not found." });
     }
-    const { passwordHash: _, ...contactDetails } = superAdmin;
-    res.status(200).json(contactDetails);
+    res.status(200).json(superAdmin);
   } catch (error) {
     next(error);
   }
@@ -1382,11 +1636,27 @@ export const updateMasterConfig = async (
   next: NextFunction
 ) => {
   try {
-    const { defaultErpPrice, globalFeatureToggles, loginPageAnnouncement } = req.body;
+    const {
+      defaultErpPrice,
+      globalFeatureToggles,
+      loginPageAnnouncement,
+      erpInvoiceLeadDays,
+      erpReminderIntervalDays,
+      erpGracePeriodDays,
+      platformLegalName,
+      platformAddress,
+      platformGstin,
+      erpSacCode,
+      erpGstRate,
+      twoFactorRequiredRoles,
+    } = req.body;
 
     if (defaultErpPrice === undefined || globalFeatureToggles === undefined) {
       return res.status(400).json({ message: "Invalid request body. Required fields are missing." });
     }
+    if (platformGstin && !isValidGstin(platformGstin)) {
+      return res.status(400).json({ message: "Invalid platform GSTIN." });
+    }
 
     const updatedSettings = await prisma.systemSettings.update({
       where: { id: "global" },
@@ -1394,8 +1664,26 @@ export const updateMasterConfig = async (
         defaultErpPrice,
         globalFeatureToggles,
         loginPageAnnouncement,
+        erpInvoiceLeadDays,
+        erpReminderIntervalDays,
+        erpGracePeriodDays,
+        platformLegalName,
+        platformAddress,
+        platformGstin:
+          platformGstin === undefined
+            ? undefined
+            : platformGstin
+            ? normalizeGstin(platformGstin)
+            : null,
+        erpSacCode,
+        erpGstRate: erpGstRate === undefined ? undefined : Number(erpGstRate),
+        twoFactorRequiredRoles:
+          twoFactorRequiredRoles === undefined
+            ? undefined
+            : parseTwoFactorRoles(twoFactorRequiredRoles, "system"),
       },
     });
+    clearSystemTwoFactorPolicyCache();
 
     res.status(200).json({
       message: "Master configuration has been updated successfully.",
@@ -1404,4 +1692,44 @@ export const updateMasterConfig = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+// --- Manual Expense Approvals ---
+
+export const getManualExpenseRequests = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { status, branchId } = req.query;
+    const requests = await listManualExpenseRequests({
+      branchId: typeof branchId === "string" ? branchId : undefined,
+      status: status ? (status as RequestStatus) : undefined,
+    });
+    res.status(200).json(requests);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reviewManualExpense = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required." });
+    }
+    const { decision, note } = req.body;
+    const request = await reviewManualExpenseRequest(
+      req.params.id,
+      { id: req.user.id, name: req.user.name },
+      { decision, note }
+    );
+    res.status(200).json(request);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,15 +1,45 @@
 //`src/controllers/authController.ts`
 
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import prisma from "../prisma";
 import { User, UserRole } from "../types/api";
-import { randomInt } from "crypto";
-import { sendOtpEmail } from "../services/emailService"; 
-const JWT_SECRET =
-  process.env.JWT_SECRET ||
-  "Lq9w1fe&hbA//=r5H%l=+WSG*^7@j@Ncw7+B!mp=m@t^Qi^CNaf@uKBf@vu2fiJv@$ih$oQRcpLlo%gJ2de7tT!C*/GY$Lp5yyfpDPyQAJnZkn/7zHNeTd16S6COSpMW";
+import { HttpError } from "../utils/httpError";
+import { toPublicUser } from "../utils/authUtils";
+import {
+  assertPasswordPolicy,
+  requestPasswordReset,
+  resetPasswordWithToken,
+  setUserPassword,
+} from "../services/passwordService";
+import {
+  beginTotpSetup,
+  confirmTotpSetup,
+  disableTotp,
+  getTwoFactorStatus as getTwoFactorStatusFor,
+  isTwoFactorRequired,
+  regenerateBackupCodes as regenerateBackupCodesFor,
+  resendSecondFactor,
+  startSecondFactor,
+  verifySecondFactor,
+} from "../services/twoFactorService";
+import {
+  ClientInfo,
+  listActiveSessions,
+  refreshSession,
+  isUserActive,
+  resolveSessionUser,
+  revokeAllSessions,
+  revokeSession,
+  startSession,
+} from "../services/authSessionService";
+import {
+  checkLoginAllowed,
+  listLoginHistory,
+  recordLoginAttempt,
+  registerLoginFailure,
+  registerLoginSuccess,
+} from "../services/loginProtectionService";
 
 interface AuthenticatedRequest extends Request {
   user?: UserPayload;
@@ -20,31 +50,13 @@ export interface UserPayload {
   name: string;
   role: UserRole;
   branchId: string | null;
+  sessionId?: string;
 }
 
-export const createToken = (user: {
-  id: string;
-  name: string;
-  role: UserRole;
-  branchId?: string | null;
-}): string => {
-  const payload: UserPayload = {
-    id: user.id,
-    name: user.name,
-    role: user.role,
-    branchId: user.branchId ?? null,
-  };
-  const expiresIn = 86400; // 24 hours
-  return jwt.sign(payload, JWT_SECRET, { expiresIn });
-};
-
-export const verifyToken = (token: string): UserPayload => {
-  try {
-    return jwt.verify(token, JWT_SECRET) as UserPayload;
-  } catch (error) {
-    throw new Error("Invalid or expired token");
-  }
-};
+const clientInfo = (req: Request): ClientInfo => ({
+  userAgent: req.get("user-agent"),
+  ipAddress: req.ip,
+});
 
 // --- CONTROLLER FUNCTIONS ---
 
@@ -61,11 +73,22 @@ export const login = async (
         .status(400)
         .json({ message: "Username/Email and password are required." });
     }
+    const client = clientInfo(req);
     const user = await prisma.user.findFirst({
       where: { OR: [{ email: identifier }, { userId: identifier }] },
     });
 
+    // Throttled before the password is looked at, so a blocked caller
+    // cannot keep guessing.
+    const check = await checkLoginAllowed(client, user);
+    if (!check.allowed) {
+      await recordLoginAttempt(identifier, check.result, client, user?.id);
+      res.setHeader("Retry-After", String(check.retryAfterSeconds));
+      return res.status(check.status).json({ message: check.message });
+    }
+
     if (!user) {
+      await recordLoginAttempt(identifier, "invalid_credentials", client);
       return res.status(401).json({ message: "Invalid credentials" });
     }
     if (!user.name) {
@@ -80,8 +103,13 @@ export const login = async (
     const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
 
     if (!isPasswordValid) {
+      await registerLoginFailure(user, identifier, client);
       return res.status(401).json({ message: "Invalid credentials" });
     }
+    if (!isUserActive(user)) {
+      await recordLoginAttempt(identifier, "account_inactive", client, user.id);
+      return res.status(403).json({ message: "User account is not active." });
+    }
 
     const rolesRequiringOtp: UserRole[] = [
       "SuperAdmin",
@@ -90,21 +118,28 @@ export const login = async (
       "Registrar",
     ];
 
-    if (rolesRequiringOtp.includes(user.role)) {
-      const otp = randomInt(100000, 999999).toString();
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { currentOtp: otp },
+    // An authenticator app, once set up, is asked for whatever the role.
+    if (user.totpEnabledAt || rolesRequiringOtp.includes(user.role)) {
+      const delivery = await startSecondFactor(user, "login", {
+        channel: req.body.otpChannel,
       });
-      console.log(`OTP for ${user.email}: ${otp}`);
-      const { passwordHash: _, ...userWithoutPassword } = user;
+      await registerLoginSuccess(
+        user,
+        identifier,
+        "second_factor_required",
+        client
+      );
       return res
         .status(200)
-        .json({ user: userWithoutPassword, otpRequired: true });
+        .json({ user: toPublicUser(user), otpRequired: true, ...delivery });
     } else {
-      const token = createToken(user as UserPayload);
-      const { passwordHash: _, ...userWithoutPassword } = user;
-      return res.status(200).json({ user: userWithoutPassword, token });
+      await registerLoginSuccess(user, identifier, "success", client);
+      const tokens = await startSession(await resolveSessionUser(user), client);
+      return res.status(200).json({
+        user: toPublicUser(user),
+        twoFactorSetupRequired: await isTwoFactorRequired(user),
+        ...tokens,
+      });
     }
   } catch (error) {
     next(error);
@@ -117,12 +152,14 @@ export const verifyOtp = async (
   next: NextFunction
 ) => {
   try {
-    const { userId, otp } = req.body;
-    if (!userId || !otp) {
-      return res.status(400).json({ message: "User ID and OTP are required." });
+    const { userId, otp, totpCode, backupCode } = req.body;
+    if (!userId || !(otp || totpCode || backupCode)) {
+      return res
+        .status(400)
+        .json({ message: "User ID and a verification code are required." });
     }
     const user = await prisma.user.findUnique({ where: { id: userId } });
-    if (!user || !user.currentOtp) {
+    if (!user) {
       return res.status(401).json({ message: "Invalid OTP request." });
     }
     if (!user.name) {
@@ -130,34 +167,62 @@ export const verifyOtp = async (
         .status(500)
         .json({ message: "User account is corrupted (missing name)." });
     }
-    const isOtpValid = user.currentOtp === otp;
-    if (!isOtpValid) {
-      return res.status(401).json({ message: "Invalid OTP." });
+    const client = clientInfo(req);
+    // The same lockout and backoff as the password step, so a known
+    // password does not open unlimited guesses at the code.
+    const check = await checkLoginAllowed(client, user);
+    if (!check.allowed) {
+      await recordLoginAttempt(user.userId, check.result, client, user.id);
+      res.setHeader("Retry-After", String(check.retryAfterSeconds));
+      return res.status(check.status).json({ message: check.message });
     }
-    // Clear the OTP
-    await prisma.user.update({
-      where: { id: userId },
-      data: { currentOtp: null },
+    try {
+      await verifySecondFactor(user.id, "login", { otp, totpCode, backupCode });
+    } catch (error) {
+      if (error instanceof HttpError && [401, 429].includes(error.status)) {
+        await registerLoginFailure(
+          user,
+          user.userId,
+          client,
+          "second_factor_failed"
+        );
+      }
+      throw error;
+    }
+    if (!isUserActive(user)) {
+      return res.status(403).json({ message: "User account is not active." });
+    }
+    await registerLoginSuccess(user, user.userId, "success", client);
+    const userPayload = await resolveSessionUser(user);
+    const tokens = await startSession(userPayload, client);
+    res.status(200).json({
+      user: userPayload,
+      mustChangePassword: user.mustChangePassword,
+      twoFactorSetupRequired:
+        !user.totpEnabledAt && (await isTwoFactorRequired(user)),
+      ...tokens,
     });
-    let userBranchId: string | null = user.branchId;
+  } catch (error) {
+    next(error);
+  }
+};
 
-    if (user.role === "Principal") {
-      const branch = await prisma.branch.findUnique({
-        where: { principalId: user.id },
-        select: { id: true },
-      });
-      if (branch) {
-        userBranchId = branch.id;
-      }
+export const resendOtp = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, channel } = req.body;
+    if (!userId) {
+      return res.status(400).json({ message: "User ID is required." });
     }
-    const userPayload: UserPayload = {
-      id: user.id,
-      name: user.name,
-      role: user.role,
-      branchId: userBranchId,
-    };
-    const token = createToken(userPayload);
-    res.status(200).json({ user: userPayload, token });
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(400).json({ message: "Invalid OTP request." });
+    }
+    const delivery = await resendSecondFactor(user, "login", channel);
+    res.status(200).json({ message: "A new code has been sent.", ...delivery });
   } catch (error) {
     next(error);
   }
@@ -226,14 +291,92 @@ export const registerSchool = async (
 };
 
 export const logout = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (req.user?.sessionId) {
+      await revokeSession(req.user.sessionId, "logout");
+    }
+    res.status(200).json({ message: "Logged out successfully." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logoutAllDevices = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userFromToken = req.user;
+    if (!userFromToken) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    // `?keepCurrent=true` signs out every other device only.
+    const keepCurrent = req.query.keepCurrent === "true";
+    const sessionsRevoked = await revokeAllSessions(
+      userFromToken.id,
+      "logout_all",
+      keepCurrent ? userFromToken.sessionId : undefined
+    );
+    res.status(200).json({
+      message: "Signed out of all devices.",
+      sessionsRevoked,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refreshToken = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
+    const result = await refreshSession(req.body.refreshToken, clientInfo(req));
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSessions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userFromToken = req.user;
+    if (!userFromToken) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    const sessions = await listActiveSessions(
+      userFromToken.id,
+      userFromToken.sessionId
+    );
+    res.status(200).json(sessions);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getLoginHistory = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userFromToken = req.user;
+    if (!userFromToken) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
     res
       .status(200)
-      .json({ message: "Logged out successfully. Please clear your token." });
+      .json(await listLoginHistory(userFromToken.id, req.query.limit));
   } catch (error) {
     next(error);
   }
@@ -297,11 +440,17 @@ export const changePassword = async (
       return res.status(401).json({ message: "Incorrect current password." });
     }
 
-    const hashedNewPassword = await bcrypt.hash(newPassword, 10);
+    const password = assertPasswordPolicy(newPassword, user);
+    if (await bcrypt.compare(password, user.passwordHash)) {
+      return res.status(400).json({
+        message: "New password must be different from the current one.",
+      });
+    }
 
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { passwordHash: hashedNewPassword },
+    // Other devices are signed out; this one stays signed in.
+    await setUserPassword(user.id, password, {
+      keepSessionId: userFromToken.sessionId,
+      reason: "password_changed",
     });
 
     res.status(200).json({ message: "Password changed successfully." });
@@ -310,36 +459,130 @@ export const changePassword = async (
   }
 };
 
-
-
-export const sendLoginOtp = async (
+export const forgotPassword = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  const { email } = req.body;
+  try {
+    await requestPasswordReset(req.body.identifier ?? req.body.email, req.ip);
+    res.status(200).json({
+      message:
+        "If an account matches, a password reset link has been sent to its email address.",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-  if (!email) {
-    return res.status(400).json({ message: "Email is required." });
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token, newPassword } = req.body;
+    await resetPasswordWithToken(token, newPassword);
+    res.status(200).json({
+      message: "Password has been reset. Please sign in with your new password.",
+    });
+  } catch (error) {
+    next(error);
   }
+};
 
+export const getTwoFactorStatus = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    const user = await prisma.user.findUnique({ where: { email } });
-    if (!user) {
-      return res.status(404).json({ message: "User not found." });
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
     }
+    res.status(200).json(await getTwoFactorStatusFor(req.user.id));
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const otp = Math.floor(100000 + Math.random() * 900000).toString();
-    const otpExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
+export const setupTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    // The client renders `otpauthUrl` as the QR code to scan.
+    res
+      .status(200)
+      .json(await beginTotpSetup(req.user.id, req.body.password));
+  } catch (error) {
+    next(error);
+  }
+};
 
-    await prisma.user.update({
-      where: { email },
-      data: { currentOtp: otp, otpExpiry: otpExpiry },
+export const confirmTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    const { backupCodes } = await confirmTotpSetup(
+      req.user.id,
+      req.body.totpCode,
+      req.body.password
+    );
+    res.status(200).json({
+      message:
+        "Authenticator app set up. Keep these backup codes somewhere safe; each works once.",
+      backupCodes,
     });
-    await sendOtpEmail(email, otp);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    const { password, totpCode, backupCode } = req.body;
+    await disableTotp(req.user.id, { password, totpCode, backupCode });
+    res.status(200).json({ message: "Authenticator app removed." });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    res.status(200).json({ message: "OTP has been sent to your email." });
+export const regenerateBackupCodes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    const { backupCodes } = await regenerateBackupCodesFor(
+      req.user.id,
+      req.body.totpCode
+    );
+    res.status(200).json({
+      message: "New backup codes issued. The old ones no longer work.",
+      backupCodes,
+    });
   } catch (error) {
-    next(error); 
+    next(error);
   }
-};
\ No newline at end of file
+};
@@ -1,6 +1,17 @@
 // backend/src/controllers/generalController.ts
 import { Request, Response, NextFunction } from "express";
 import prisma from "../prisma";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
+import { toPublicBranch } from "../services/paymentGatewayService";
+import {
+  listNotifications,
+  markNotificationRead,
+} from "../services/notificationService";
+import { listPayslips, renderPayslipPdf } from "../services/payrollService";
+import {
+  getStaffBankAccount,
+  saveStaffBankAccount,
+} from "../services/bankPayoutService";
 
 // --- HELPER FUNCTION ---
 const getAuthenticatedBranchId = (req: Request): string | null => {
@@ -42,8 +53,8 @@ export const getBranch = async (
     // 2. Check if the authenticated user is the 'owner' of this branch
     if (authBranchId === branch.id) {
       // If they are the owner, send the full branch object
-      // This includes `enabledFeatures`
-      return res.status(200).json(branch);
+      // This includes `enabledFeatures` (gateway secrets are never sent)
+      return res.status(200).json(toPublicBranch(branch));
     } else {
       // If they are NOT the owner (or are not logged in),
       // send only the safe, public data.
@@ -106,6 +117,7 @@ export async function updateProfile(
     const updatedUser = await prisma.user.update({
       where: { id: req.user.id },
       data: { name, phone },
+      omit: USER_PRIVATE_FIELDS,
     });
     res.status(200).json(updatedUser);
   } catch (error: any) {
@@ -238,6 +250,82 @@ export const createLeaveApplication = async (
   }
 };
 
+export const getMyNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ message: "Authentication required." });
+  }
+  try {
+    const notifications = await listNotifications(
+      userId,
+      req.query.unread === "true"
+    );
+    res.status(200).json(notifications);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markMyNotificationRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ message: "Authentication required." });
+  }
+  try {
+    await markNotificationRead(userId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyPayslips = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ message: "Authentication required." });
+  }
+  try {
+    const payslips = await listPayslips(userId);
+    res.status(200).json(payslips);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const downloadMyPayslip = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ message: "Authentication required." });
+  }
+  try {
+    const { fileName, pdf } = await renderPayslipPdf({
+      id: req.params.id,
+      staffId: userId,
+    });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
 // --- NEW SHARED FUNCTIONS (For Teacher Portal) ---
 
 export const getSchoolEvents = async (
@@ -400,3 +488,41 @@ export const searchLibraryBooks = async (
     next(error);
   }
 };
+
+export const getMyBankAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ message: "Authentication required." });
+  }
+  try {
+    res.status(200).json(await getStaffBankAccount(userId));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateMyBankAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const user = req.user;
+  if (!user) {
+    return res.status(401).json({ message: "Authentication required." });
+  }
+  if (user.role === "Student" || user.role === "Parent") {
+    return res
+      .status(403)
+      .json({ message: "Only staff members have salary bank details." });
+  }
+  try {
+    const account = await saveStaffBankAccount(user.id, req.body, user);
+    res.status(200).json(account);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,20 @@
 import { Request, Response, NextFunction } from "express";
 import prisma from "../prisma";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
 import { FeeAdjustment, FeePayment, Prisma } from "@prisma/client";
+import {
+  createFeePaymentOrder as createFeePaymentOrderForRecord,
+  verifyAndSettleCheckout,
+} from "../services/feePaymentService";
+import {
+  listFeeReceipts,
+  renderFeeReceiptPdf,
+} from "../services/feeReceiptService";
+import {
+  listConcessionRequests,
+  submitConcessionRequest,
+} from "../services/concessionService";
+import { toPublicBranch } from "../services/paymentGatewayService";
 
 
 type ParentAuthResult = {
@@ -85,6 +99,7 @@ export const getParentDashboardData = async (
         }),
         prisma.feeRecord.findFirst({
           where: { studentId: studentId },
+          orderBy: { createdAt: "desc" },
           include: { payments: true },
         }),
         prisma.attendanceRecord.findMany({
@@ -160,7 +175,7 @@ export const getParentDashboardData = async (
           gradeLevel: classInfo.gradeLevel,
           parentId: parentId,
         },
-        branch,
+        branch: toPublicBranch(branch),
         branchId,
         profile,
         performance,
@@ -217,7 +232,7 @@ export const getStudentProfileDetails = async (
       where: { id: studentId },
       include: {
         class: { select: { gradeLevel: true, section: true } },
-        parent: true,
+        parent: { omit: USER_PRIVATE_FIELDS },
         FeeAdjustment: true,
         feeRecords: { include: { payments: true } },
         attendanceRecords: true,
@@ -463,12 +478,29 @@ export const getFeeRecordForStudent = async (
       return res.status(403).json({ message: "Unauthorized." });
     }
 
-    const record = await prisma.feeRecord.findFirst({
-      where: { studentId: studentId },
-      include: { payments: true },
-    });
+    // The current session's record, plus the wallet that pays future dues.
+    const [record, wallet] = await Promise.all([
+      prisma.feeRecord.findFirst({
+        where: { studentId: studentId },
+        orderBy: { createdAt: "desc" },
+        include: { payments: true, carriedForwardFrom: true },
+      }),
+      prisma.student.findUnique({
+        where: { id: studentId },
+        select: {
+          walletBalance: true,
+          walletTransactions: { orderBy: { createdAt: "desc" }, take: 20 },
+        },
+      }),
+    ]);
 
-    res.status(200).json(record);
+    res.status(200).json(
+      record && {
+        ...record,
+        walletBalance: wallet?.walletBalance ?? 0,
+        walletTransactions: wallet?.walletTransactions ?? [],
+      }
+    );
   } catch (error: any) {
     next(error);
   }
@@ -599,106 +631,160 @@ export const getTeacherAvailability = async (
   }
 };
 
-export const recordFeePayment = async (
+/**
+ * @description Create a gateway order for a child's outstanding fees.
+ * The amount is computed (or capped) server-side from the FeeRecord.
+ * @route POST /api/parent/children/:id/fees/order
+ */
+export const createFeePaymentOrder = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const { studentId, amount, transactionId, details } = req.body;
+    const { parentId, childrenIds } = await getParentAuth(req);
+    const { id: studentId } = req.params;
+    const { feeRecordId, amount } = req.body;
 
-    if (!studentId || typeof studentId !== "string") {
-      return res
-        .status(400)
-        .json({ message: "A valid studentId is required." });
+    if (!studentId) {
+      return res.status(400).json({ message: "Student ID is required." });
+    }
+    if (!parentId || !childrenIds.includes(studentId)) {
+      return res.status(403).json({ message: "Unauthorized." });
     }
 
-    const student = await prisma.student.findUnique({
-      where: { id: studentId },
-      select: { feeRecords: { orderBy: { dueDate: "asc" }, take: 1 } },
+    const order = await createFeePaymentOrderForRecord({
+      studentId,
+      feeRecordId,
+      amount: amount === undefined ? undefined : parseFloat(amount),
+      createdById: parentId,
     });
 
-    if (!student || !student.feeRecords.length) {
-      return res
-        .status(404)
-        .json({ message: "No fee record found for student." });
-    }
-    const feeRecordId = student.feeRecords[0].id;
-
-    await prisma.$transaction([
-      prisma.feePayment.create({
-        data: {
-          studentId,
-          feeRecordId,
-          amount: parseFloat(amount),
-          paidDate: new Date(),
-          transactionId,
-          details: details || "Online Payment",
-        },
-      }),
-      prisma.feeRecord.update({
-        where: { id: feeRecordId },
-        data: { paidAmount: { increment: parseFloat(amount) } },
-      }),
-    ]);
+    res.status(201).json(order);
+  } catch (error: any) {
+    next(error);
+  }
+};
 
-    res.status(200).json({ message: "Payment recorded successfully." });
+/**
+ * @description Confirm a gateway payment. The FeePayment is only written once
+ * the razorpay_signature has been verified against the order it was issued for.
+ * @route POST /api/parent/fees/record-payment
+ */
+export const recordFeePayment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { razorpay_order_id, razorpay_payment_id, razorpay_signature } =
+      req.body;
+
+    const result = await verifyAndSettleCheckout({
+      razorpay_order_id,
+      razorpay_payment_id,
+      razorpay_signature,
+    });
+
+    res.status(200).json({
+      message: result.alreadySettled
+        ? "Payment was already recorded."
+        : "Payment recorded successfully.",
+    });
   } catch (error: any) {
     next(error);
   }
 };
 
-export const payStudentFees = async (
+export const getFeeReceiptsForStudent = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
     const { parentId, childrenIds } = await getParentAuth(req);
-    const { studentId, amount, details } = req.body;
+    const { id: studentId } = req.params;
 
-    if (!studentId || typeof studentId !== "string") {
-      return res
-        .status(400)
-        .json({ message: "A valid studentId is required." });
+    if (!parentId || !childrenIds.includes(studentId)) {
+      return res.status(403).json({ message: "Unauthorized." });
     }
+
+    const receipts = await listFeeReceipts({ studentId });
+    res.status(200).json(receipts);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const downloadFeeReceipt = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { parentId, childrenIds } = await getParentAuth(req);
+    const { id: studentId, receiptId } = req.params;
+
     if (!parentId || !childrenIds.includes(studentId)) {
       return res.status(403).json({ message: "Unauthorized." });
     }
 
-    const student = await prisma.student.findUnique({
-      where: { id: studentId },
-      select: { feeRecords: { orderBy: { dueDate: "asc" }, take: 1 } },
+    const { fileName, pdf } = await renderFeeReceiptPdf({
+      id: receiptId,
+      studentId,
     });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getConcessionRequestsForStudent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { parentId, childrenIds } = await getParentAuth(req);
+    const { id: studentId } = req.params;
 
-    if (!student || !student.feeRecords.length) {
-      return res.status(404).json({ message: "No fee record found." });
+    if (!parentId || !childrenIds.includes(studentId)) {
+      return res.status(403).json({ message: "Unauthorized." });
     }
-    const feeRecordId = student.feeRecords[0].id;
 
-    await prisma.$transaction([
-      prisma.feePayment.create({
-        data: {
-          studentId,
-          feeRecordId,
-          amount: parseFloat(amount),
-          paidDate: new Date(),
-          transactionId: `MANUAL_PARENT_${Date.now()}`,
-          details: details || "Manual Payment by Parent",
-        },
-      }),
-      prisma.feeRecord.update({
-        where: { id: feeRecordId },
-        data: { paidAmount: { increment: parseFloat(amount) } },
-      }),
-    ]);
-    res.status(200).json({ message: "Fee payment recorded." });
+    const requests = await listConcessionRequests({ studentId });
+    res.status(200).json(requests);
   } catch (error: any) {
     next(error);
   }
 };
 
+export const createConcessionRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { parentId, childrenIds } = await getParentAuth(req);
+    const { id: studentId } = req.params;
+
+    if (!parentId || !req.user || !childrenIds.includes(studentId)) {
+      return res.status(403).json({ message: "Unauthorized." });
+    }
 
+    const { amount, reason, documentUrls } = req.body;
+    const request = await submitConcessionRequest(
+      studentId,
+      { id: parentId, name: req.user.name },
+      { amount, reason, documentUrls }
+    );
+    res.status(201).json(request);
+  } catch (error: any) {
+    next(error);
+  }
+};
 
 export const getSchoolEventsForParent = async (
   req: Request,
@@ -3,6 +3,7 @@
 import { Request, Response, NextFunction } from "express";
 import { PrincipalApiService } from "../services/principalApiService";
 import prisma from "../prisma";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
 import {
   SchoolClass,
   Teacher,
@@ -16,8 +17,119 @@ import {
   ExamResultStatus,
   FeePayment,
   FeeAdjustment,
+  RequestStatus,
+  ErpInvoiceStatus,
+  CashCounterStatus,
 } from "@prisma/client";
 import { generatePassword } from "../utils/helpers";
+import {
+  buildGatewayCredentialUpdate,
+  testGatewayConnection,
+  toPublicBranch,
+} from "../services/paymentGatewayService";
+import { applyFeeTemplateToClass } from "../services/feeScheduleService";
+import {
+  listFeeRefundRequests,
+  processFeeRefundRequest as processFeeRefundRequestForBranch,
+} from "../services/feeRefundService";
+import {
+  listConcessionRequests,
+  reviewConcessionRequest,
+} from "../services/concessionService";
+import {
+  createFeeDiscountRule as createFeeDiscountRuleForBranch,
+  deleteFeeDiscountRule as deleteFeeDiscountRuleForBranch,
+  evaluateFeeDiscountsForBranch,
+  listFeeDiscountApplications,
+  listFeeDiscountRules,
+  updateFeeDiscountRule as updateFeeDiscountRuleForBranch,
+} from "../services/feeDiscountService";
+import {
+  createLateFeeRule as createLateFeeRuleForBranch,
+  deleteLateFeeRule as deleteLateFeeRuleForBranch,
+  evaluateLateFees,
+  listLateFeeCharges,
+  listLateFeeRules,
+  updateLateFeeRule as updateLateFeeRuleForBranch,
+  waiveLateFeeCharge as waiveLateFeeChargeForBranch,
+} from "../services/lateFeeService";
+import { recordFeeAdjustment } from "../services/feeAdjustmentService";
+import {
+  getPayrollForMonth,
+  listPayrollRuns,
+  lockPayrollRun,
+  payPayrollRecords,
+  renderPayslipPdf,
+} from "../services/payrollService";
+import {
+  createPayoutBatch as createPayoutBatchForMonth,
+  getStaffBankAccount as getStaffBankAccountForUser,
+  importPayoutResponse as importPayoutResponseForBatch,
+  listPayoutBatches,
+  listPayoutFormats,
+  renderPayoutFile,
+  saveStaffBankAccount,
+} from "../services/bankPayoutService";
+import {
+  StatutoryReportType,
+  deleteSalaryStructure as deleteSalaryStructureForStaff,
+  getStatutoryReport,
+  getStatutorySettings,
+  listSalaryStructures,
+  saveSalaryStructure as saveSalaryStructureForStaff,
+  updateStatutorySettings,
+} from "../services/salaryStructureService";
+import {
+  createLedgerAccount as createLedgerAccountForBranch,
+  getAccountBalance,
+  getCashBook,
+  getIncomeStatement,
+  getTrialBalance,
+  listLedgerAccounts,
+  syncBranchLedger,
+} from "../services/ledgerService";
+import {
+  businessDateOf,
+  getDayBook,
+  listCounterSessions,
+  renderDayBookPdf,
+  signOffCounterSession,
+} from "../services/cashCounterService";
+import {
+  getBranchErpSummary,
+  listErpInvoices,
+  recordErpInvoicePayment,
+} from "../services/erpBillingService";
+import {
+  renderErpCreditNotePdf,
+  renderErpInvoicePdf,
+} from "../services/erpTaxInvoiceService";
+import {
+  archiveExpenseCategory as archiveExpenseCategoryById,
+  attachExpenseReceipt,
+  createExpenseCategory as createExpenseCategoryForBranch,
+  deleteExpenseBudget as deleteExpenseBudgetById,
+  getBudgetVsActual,
+  listExpenseBudgets,
+  listExpenseCategories,
+  listManualExpenseRequests,
+  listManualExpenses,
+  recordManualExpense,
+  setExpenseBudget as setExpenseBudgetForCategory,
+} from "../services/expenseBudgetService";
+import {
+  getFinancialReport as buildFinancialReport,
+  parseReportFormat,
+  renderFinancialReport,
+} from "../services/financialReportService";
+import {
+  getBranchTwoFactorPolicy,
+  setBranchTwoFactorPolicy,
+  startSecondFactor,
+  verifySecondFactor,
+} from "../services/twoFactorService";
+import { resetToTemporaryPassword } from "../services/passwordService";
+import { unlockAccount } from "../services/loginProtectionService";
 import bcrypt from "bcryptjs";
 type GraphDataPoint = {
   name: string;
@@ -174,12 +286,15 @@ export const assignFeeTemplateToClass = async (
   if (!branchId) return res.status(401).json({ message: "Unauthorized." });
 
   try {
-    // This code is now correct AFTER you update your schema.prisma
-    await prisma.schoolClass.updateMany({
-      where: { id: classId, branchId },
-      data: { feeTemplateId: feeTemplateId },
-    });
-    res.status(200).json({ message: "Fee template assigned successfully." });
+    // Also regenerates the instalment schedule of every student in the class
+    const result = await applyFeeTemplateToClass(
+      branchId,
+      classId,
+      feeTemplateId || null
+    );
+    res
+      .status(200)
+      .json({ message: "Fee template assigned successfully.", ...result });
   } catch (error) {
     next(error);
   }
@@ -500,7 +615,7 @@ export const getBranchDetails = async (
     if (!branch) {
       return res.status(404).json({ message: "Branch not found." });
     }
-    res.status(200).json(branch);
+    res.status(200).json(toPublicBranch(branch));
   } catch (error) {
     next(error);
   }
@@ -516,11 +631,56 @@ export const updateBranchDetails = async (
     return res.status(401).json({ message: "Unauthorized." });
   }
   try {
+    const {
+      paymentGatewayPublicKey,
+      paymentGatewaySecretKey,
+      paymentGatewayWebhookSecret,
+      clearPaymentGatewaySecretKey,
+      clearPaymentGatewayWebhookSecret,
+      // Read-only flags from toPublicBranch, in case the form echoes them.
+      isPaymentGatewaySecretKeySet: _secretKeySet,
+      isPaymentGatewayWebhookSecretSet: _webhookSecretSet,
+      ...details
+    } = req.body;
+
     const updatedBranch = await prisma.branch.update({
       where: { id: branchId },
-      data: req.body,
+      data: {
+        ...details,
+        // Secrets are encrypted before they ever reach the database.
+        ...buildGatewayCredentialUpdate({
+          paymentGatewayPublicKey,
+          paymentGatewaySecretKey,
+          paymentGatewayWebhookSecret,
+          clearPaymentGatewaySecretKey,
+          clearPaymentGatewayWebhookSecret,
+        }),
+      },
     });
-    res.status(200).json(updatedBranch);
+    res.status(200).json(toPublicBranch(updatedBranch));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Validate payment gateway keys before (or after) saving them.
+ * Pass keyId/keySecret to test unsaved keys; omit them to test the stored ones.
+ * @route POST /api/principal/payment-gateway/test-connection
+ */
+export const testPaymentGatewayConnection = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getPrincipalBranchId(req);
+  if (!branchId) {
+    return res.status(401).json({ message: "Unauthorized." });
+  }
+  try {
+    const { keyId, keySecret } = req.body;
+    const result = await testGatewayConnection(branchId, { keyId, keySecret });
+    res.status(result.success ? 200 : 400).json(result);
   } catch (error) {
     next(error);
   }
@@ -580,6 +740,7 @@ export const approveFacultyApplication = async (
         role: "Teacher",
         designation: "Teacher",
         passwordHash: hashedPassword,
+        mustChangePassword: true,
         userId: `VRTX-${branchId.substring(0, 4)}-TCH-${Date.now()
           .toString()
           .slice(-4)}`,
@@ -632,24 +793,37 @@ export const requestProfileAccessOtp = async (
     if (!req.user) {
       return res.status(401).json({ message: "Authentication required." });
     }
-    // In a real application, you would generate a random OTP, save it to the user's record with an expiry,
-    // and then use an SMS service to send it to the user's phone number.
-
-    const otp = Math.floor(100000 + Math.random() * 900000).toString();
-    await prisma.user.update({
+    const user = await prisma.user.findUnique({
       where: { id: req.user.id },
-      data: { profileAccessOtp: otp },
+      select: {
+        id: true,
+        email: true,
+        phone: true,
+        role: true,
+        branchId: true,
+        totpEnabledAt: true,
+      },
     });
+    if (!user) {
+      return res.status(401).json({ message: "Authentication required." });
+    }
 
-    // This log simulates the SMS sending process for development.
-    // In production, you would replace this with a call to an SMS gateway API (like Twilio, Vonage, etc.).
-    console.log(
-      `[SIMULATED SMS] OTP for user ${req.user.name} (${req.user.id}): ${otp}`
-    );
-
-    res
-      .status(200)
-      .json({ message: "OTP sent to your registered mobile number." });
+    // Answered from the authenticator app if one is set up; otherwise sent
+    // to the registered mobile number unless the user has none or asks
+    // for email.
+    const delivery = await startSecondFactor(user, "profile_access", {
+      channel: req.body?.channel,
+      defaultChannel: "sms",
+    });
+    res.status(200).json({
+      message:
+        delivery.channel === "totp"
+          ? "Enter the code from your authenticator app."
+          : delivery.channel === "sms"
+          ? "OTP sent to your registered mobile number."
+          : "OTP sent to your registered email address.",
+      ...delivery,
+    });
   } catch (error) {
     next(error);
   }
@@ -664,36 +838,20 @@ export const verifyProfileAccessOtp = async (
     if (!req.user) {
       return res.status(401).json({ message: "Authentication required." });
     }
-    const { otp } = req.body;
+    const { otp, totpCode, backupCode } = req.body;
 
-    if (!otp) {
+    if (!otp && !totpCode && !backupCode) {
       return res.status(400).json({ message: "OTP is required." });
     }
 
-    // Find the user to get the stored OTP
-    const userWithOtp = await prisma.user.findUnique({
-      where: { id: req.user.id },
+    await verifySecondFactor(req.user.id, "profile_access", {
+      otp,
+      totpCode,
+      backupCode,
     });
-
-    if (!userWithOtp || !userWithOtp.profileAccessOtp) {
-      return res
-        .status(400)
-        .json({ message: "No OTP was requested or it has expired." });
-    }
-
-    if (userWithOtp.profileAccessOtp === otp) {
-      // OTP is correct. Clear the OTP from the database to prevent reuse.
-      await prisma.user.update({
-        where: { id: req.user.id },
-        data: { profileAccessOtp: null },
-      });
-      res
-        .status(200)
-        .json({ success: true, message: "OTP verified successfully." });
-    } else {
-      // OTP is incorrect
-      res.status(401).json({ success: false, message: "Invalid OTP." });
-    }
+    res
+      .status(200)
+      .json({ success: true, message: "OTP verified successfully." });
   } catch (error) {
     next(error);
   }
@@ -819,6 +977,7 @@ export const createStaffMember = async (req: Request, res: Response) => {
         role,
         designation: designation || null,
         passwordHash,
+        mustChangePassword: true,
       },
     });
 
@@ -1685,27 +1844,7 @@ export const getFinancialsOverview = async (
     );
 
     // --- 1. Fetch Core Data, Scoped by Branch ---
-    const [
-      branch,
-      feePaymentsThisMonth,
-      allPayroll,
-      manualExpenses,
-      erpPayments,
-    ] = await prisma.$transaction([
-      prisma.branch.findUnique({ where: { id: branchId } }),
-      prisma.feePayment.findMany({
-        where: {
-          student: { branchId: branchId },
-          paidDate: { gte: currentMonthStart },
-        },
-      }),
-      prisma.payrollRecord.findMany({
-        where: { branchId: branchId, status: "Paid" },
-      }),
-      prisma.manualExpense.findMany({ where: { branchId: branchId } }),
-      prisma.erpPayment.findMany({ where: { branchId: branchId } }),
-    ]);
-
+    const branch = await prisma.branch.findUnique({ where: { id: branchId } });
     if (!branch) {
       return res.status(404).json({ message: "Branch not found." });
     }
@@ -1714,44 +1853,17 @@ export const getFinancialsOverview = async (
       branch.academicSessionStartDate || `${today.getFullYear()}-04-01`
     );
 
-    // --- 2. Calculate Monthly & Session Figures ---
-    const monthlyTuitionRevenue = feePaymentsThisMonth.reduce(
-      (sum, p) => sum + p.amount,
-      0
+    // --- 2. Monthly & Session Figures come from the ledger ---
+    const monthly = await getIncomeStatement(
+      branchId,
+      currentMonthStart,
+      today
     );
+    const session = await getIncomeStatement(branchId, sessionStart, today);
+    const budget = await getBudgetVsActual(branchId);
 
-    const monthlyPayroll = allPayroll
-      .filter((p) => p.paidAt && new Date(p.paidAt) >= currentMonthStart)
-      .reduce((sum, p) => sum + (p.netPayable || 0), 0);
-
-    const monthlyManualExpenses = manualExpenses
-      .filter((e) => new Date(e.date) >= currentMonthStart)
-      .reduce((sum, e) => sum + e.amount, 0);
-
-    const sessionPayroll = allPayroll
-      .filter((p) => p.paidAt && new Date(p.paidAt) >= sessionStart)
-      .reduce((sum, p) => sum + (p.netPayable || 0), 0);
-
-    const sessionManualExpenses = manualExpenses
-      .filter((e) => new Date(e.date) >= sessionStart)
-      .reduce((sum, e) => sum + e.amount, 0);
-
-    const sessionErpPayments = erpPayments
-      .filter((p) => new Date(p.paymentDate) >= sessionStart)
-      .reduce((sum, p) => sum + p.amount, 0);
-
-    const monthlyExpenditure = monthlyPayroll + monthlyManualExpenses;
-    const sessionExpenditure =
-      sessionPayroll + sessionManualExpenses + sessionErpPayments;
-
-    // --- 3. Calculate Total Pending Fees ---
-    const feeRecordAggregates = await prisma.feeRecord.aggregate({
-      _sum: { totalAmount: true, paidAmount: true },
-      where: { student: { branchId: branchId } },
-    });
-    const totalPending =
-      (feeRecordAggregates._sum.totalAmount || 0) -
-      (feeRecordAggregates._sum.paidAmount || 0);
+    // --- 3. Total Pending Fees is the fees receivable balance ---
+    const totalPending = await getAccountBalance(branchId, "FEES_RECEIVABLE");
 
     // --- 4. Get Class-wise Fee Summaries ---
     const classes = await prisma.schoolClass.findMany({
@@ -1784,22 +1896,23 @@ export const getFinancialsOverview = async (
     // --- 5. Assemble the Overview Object ---
     const overview = {
       monthly: {
-        revenue: monthlyTuitionRevenue,
-        expenditure: monthlyExpenditure,
-        net: monthlyTuitionRevenue - monthlyExpenditure,
-        revenueBreakdown: [
-          { name: "Tuition Fees", value: monthlyTuitionRevenue },
-        ],
-        expenditureBreakdown: [
-          { name: "Staff Payroll", value: monthlyPayroll },
-          { name: "Other Expenses", value: monthlyManualExpenses },
-        ].filter((item) => item.value > 0),
+        revenue: monthly.totalIncome,
+        expenditure: monthly.totalExpenses,
+        net: monthly.netIncome,
+        revenueBreakdown: monthly.income
+          .map((a) => ({ name: a.name, value: a.amount }))
+          .filter((item) => item.value > 0),
+        expenditureBreakdown: monthly.expenses
+          .map((a) => ({ name: a.name, value: a.amount }))
+          .filter((item) => item.value > 0),
       },
       session: {
-        revenue: feeRecordAggregates._sum.paidAmount || 0,
-        expenditure: sessionExpenditure,
-        net: (feeRecordAggregates._sum.paidAmount || 0) - sessionExpenditure,
+        revenue: session.totalIncome,
+        expenditure: session.totalExpenses,
+        net: session.netIncome,
       },
+      // This month's expense budgets against what has been spent.
+      budget,
       summary: {
         totalPending,
         // FIX APPLIED HERE: Use the nullish coalescing operator '??' to provide a default value of 0.
@@ -1846,279 +1959,890 @@ export const addFeeAdjustment = async (
       return res.status(400).json({ message: "All fields are required." });
     }
 
-    await prisma.feeAdjustment.create({
-      data: {
-        studentId,
-        amount: parseFloat(amount),
-        type, // "concession" or "charge"
-        reason,
-        adjustedBy: principal.name,
-        date: new Date(),
-      },
+    if (type !== "concession" && type !== "charge") {
+      return res
+        .status(400)
+        .json({ message: "type must be 'concession' or 'charge'." });
+    }
+
+    const feeRecord = await prisma.feeRecord.findFirst({
+      where: { studentId, student: { branchId } },
+      orderBy: { dueDate: "desc" },
     });
 
+    if (feeRecord) {
+      // Moves the record's total and posts the matching ledger entry.
+      await prisma.$transaction((tx) =>
+        recordFeeAdjustment(tx, {
+          studentId,
+          feeRecordId: feeRecord.id,
+          type,
+          amount: parseFloat(amount),
+          reason,
+          adjustedBy: principal.name!,
+          account: type === "charge" ? "OTHER_FEE_INCOME" : "FEE_CONCESSIONS",
+        })
+      );
+    } else {
+      await prisma.feeAdjustment.create({
+        data: {
+          studentId,
+          amount: parseFloat(amount),
+          type, // "concession" or "charge"
+          reason,
+          adjustedBy: principal.name,
+          date: new Date(),
+        },
+      });
+    }
+
     res.status(201).json({ message: "Fee adjustment record added." });
   } catch (error: any) {
     next(error);
   }
 };
 
-export const getStaffPayrollForMonth = async (
+// --- Late Fee Rules ---
+
+export const getLateFeeRules = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
     const branchId = await getPrincipalAuth(req);
-    const { month } = req.params;
-
     if (!branchId) return res.status(401).json({ message: "Unauthorized." });
 
-    // 1. Fetch ALL active staff
-    const allStaff = await prisma.user.findMany({
-      where: {
-        branchId,
-        role: {
-          in: ["Teacher", "Registrar", "Librarian", "SupportStaff"],
-        },
-        status: "active",
-      },
-      include: {
-        // We request the relation here
-        teacher: { select: { salary: true } },
-      },
-    });
-
-    // 2. Fetch existing records
-    const payrollRecords = await prisma.payrollRecord.findMany({
-      where: { branchId, month },
-    });
-
-    // 3. Fetch Adjustments
-    const adjustments = await prisma.manualSalaryAdjustment.findMany({
-      where: { branchId, month },
-    });
-
-    // 4. Merge Logic
-    const mergedPayroll = allStaff.map((staff) => {
-      const record = payrollRecords.find((r) => r.staffId === staff.id);
-
-      // CASE A: Already Paid
-      if (record) {
-        return record;
-      }
-
-      // CASE B: Pending Calculation
-
-      // FIX: Cast staff to 'any' to access the 'teacher' relation safely
-      // This bypasses the TypeScript error while keeping runtime logic safe
-      const safeStaff = staff as any;
-
-      let baseSalary = 0;
-      if (safeStaff.teacher?.salary) {
-        baseSalary = safeStaff.teacher.salary;
-      } else if (safeStaff.salary) {
-        baseSalary = safeStaff.salary;
-      }
-
-      // Calculate Total Adjustments
-      const staffAdjustments = adjustments
-        .filter((adj) => adj.staffId === staff.id)
-        .reduce((sum, adj) => sum + adj.amount, 0);
-
-      const netPayable = baseSalary + staffAdjustments;
-
-      return {
-        id: `pending-${staff.id}`,
-        branchId,
-        staffId: staff.id,
-        staffName: staff.name,
-        staffRole: staff.role,
-        month: month,
-        baseSalary: baseSalary,
-        unpaidLeaveDays: 0,
-        leaveDeductions: 0,
-        manualAdjustmentsTotal: staffAdjustments,
-        netPayable: netPayable,
-        status: baseSalary > 0 ? "Pending" : "Salary Not Set",
-        paidAt: null,
-        paidBy: null,
-      };
-    });
-
-    res.status(200).json(mergedPayroll);
+    const rules = await listLateFeeRules(branchId);
+    res.status(200).json(rules);
   } catch (error: any) {
     next(error);
   }
 };
 
-export const processPayroll = async (
+export const createLateFeeRule = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
     const branchId = await getPrincipalAuth(req);
-    if (!branchId) {
-      return res.status(401).json({ message: "Authentication required." });
-    }
-
-    // The payload might be a single object OR an array (from "Mark Selected as Paid")
-    const payload = req.body;
-    const staffList = Array.isArray(payload) ? payload : [payload];
-
-    const transactions = staffList.map((staff: any) => {
-      return prisma.payrollRecord.create({
-        data: {
-          branchId: branchId,
-          staffId: staff.staffId, // User ID
-          staffName: staff.staffName,
-          staffRole: staff.staffRole,
-          month: staff.month,
-          baseSalary: staff.baseSalary,
-          unpaidLeaveDays: staff.unpaidLeaveDays || 0,
-          leaveDeductions: staff.leaveDeductions || 0,
-          manualAdjustmentsTotal: staff.manualAdjustmentsTotal || 0,
-          netPayable: staff.netPayable,
-          status: "Paid",
-          paidAt: new Date(),
-          paidBy: "Principal", // Can be refined to use req.user.name
-        },
-      });
-    });
-
-    await prisma.$transaction(transactions);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
 
-    res.status(200).json({
-      message: `Payroll processed for ${staffList.length} staff members.`,
-    });
+    const rule = await createLateFeeRuleForBranch(
+      branchId,
+      req.user.id,
+      req.body
+    );
+    res.status(201).json(rule);
   } catch (error: any) {
     next(error);
   }
 };
 
-export const addManualSalaryAdjustment = async (
+export const updateLateFeeRule = async (
   req: Request,
   res: Response,
-  next: NextFunction // Add next for error handling
+  next: NextFunction
 ) => {
   try {
-    if (!req.user?.branchId) {
-      return res
-        .status(401)
-        .json({ message: "Authentication required with a valid branch." });
-    }
-
-    const { staffId, amount, reason, month } = req.body;
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
 
-    // Validate inputs
-    if (!staffId || !amount || !reason || !month) {
-      return res.status(400).json({ message: "All fields are required." });
-    }
+    const rule = await updateLateFeeRuleForBranch(
+      branchId,
+      req.params.id,
+      req.body
+    );
+    res.status(200).json(rule);
+  } catch (error: any) {
+    next(error);
+  }
+};
 
-    // Get the Principal's name for the audit trail
-    const principal = await prisma.user.findUnique({
-      where: { id: req.user.id },
-      select: { name: true },
-    });
+export const deleteLateFeeRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
 
-    await prisma.manualSalaryAdjustment.create({
-      data: {
-        branchId: req.user.branchId,
-        staffId: staffId,
-        amount: Number(amount), // Ensure it is a number
-        reason: reason,
-        month: month,
-        adjustedBy: principal?.name || "Principal",
-        adjustedAt: new Date(),
-      },
+    const result = await deleteLateFeeRuleForBranch(branchId, req.params.id);
+    res.status(200).json({
+      message: result.deleted
+        ? "Late fee rule deleted."
+        : "Late fee rule has existing charges and was deactivated instead.",
+      ...result,
     });
-
-    res.status(201).json({ message: "Salary adjustment added." });
   } catch (error: any) {
     next(error);
   }
 };
 
-export const getErpFinancialsForBranch = async (
+export const getLateFeeCharges = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    if (!req.user?.branchId) {
-      return res
-        .status(401)
-        .json({ message: "Authentication required with a valid branch." });
-    }
-    const financials = await principalApiService.getErpFinancialsForBranch(
-      req.user.branchId
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { status } = req.query;
+    const charges = await listLateFeeCharges(
+      branchId,
+      status === "applied" || status === "waived" ? status : undefined
     );
-    res.status(200).json(financials);
+    res.status(200).json(charges);
   } catch (error: any) {
-    if (error.message.includes("Branch not found")) {
-      return res.status(404).json({
-        message:
-          "The branch associated with your account could not be found. Please contact support.",
-      });
-    }
     next(error);
   }
 };
 
-export const getErpPaymentsForBranch = async (
+export const waiveLateFeeCharge = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const branchId = getPrincipalBranchId(req);
-
-    // --- THE FORTIFICATION ---
-    if (!branchId) {
-      return res
-        .status(404)
-        .json({ message: "Principal is not associated with a branch." });
-    }
-    const branch = await prisma.branch.findUnique({ where: { id: branchId } });
-    if (!branch) {
-      return res
-        .status(404)
-        .json({ message: "The branch for this account could not be found." });
-    }
-    // --- End of Fortification ---
-
-    const payments = await prisma.erpPayment.findMany({
-      where: { branchId: branchId },
-      orderBy: { paymentDate: "desc" },
-    });
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
 
-    res.status(200).json(payments);
-  } catch (error) {
+    const result = await waiveLateFeeChargeForBranch(
+      branchId,
+      req.params.id,
+      req.body.reason,
+      { id: req.user.id, name: req.user.name, role: req.user.role }
+    );
+    res.status(200).json({ message: "Late fee waived.", ...result });
+  } catch (error: any) {
     next(error);
   }
 };
 
-export const payErpBill = async (req: Request, res: Response) => {
+// Runs the evaluator for this branch now instead of waiting for the schedule.
+export const runLateFeeEvaluation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    if (!req.user?.branchId) {
-      return res
-        .status(401)
-        .json({ message: "Authentication required with a valid branch." });
-    }
-    const { amount, transactionId } = req.body;
-    await principalApiService.payErpBill(
-      req.user.branchId,
-      amount,
-      transactionId
-    );
-    res.status(200).json({ message: "ERP bill paid." });
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const result = await evaluateLateFees({ branchId });
+    res.status(200).json(result);
   } catch (error: any) {
-    res.status(500).json({ message: error.message });
+    next(error);
   }
 };
 
-export const getManualExpenses = async (req: Request, res: Response) => {
+export const getFeeDiscountRules = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const rules = await listFeeDiscountRules(branchId);
+    res.status(200).json(rules);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const createFeeDiscountRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const rule = await createFeeDiscountRuleForBranch(
+      branchId,
+      req.user.id,
+      req.body
+    );
+    res.status(201).json(rule);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const updateFeeDiscountRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const rule = await updateFeeDiscountRuleForBranch(
+      branchId,
+      req.params.id,
+      req.body
+    );
+    res.status(200).json(rule);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const deleteFeeDiscountRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const result = await deleteFeeDiscountRuleForBranch(
+      branchId,
+      req.params.id
+    );
+    res.status(200).json({
+      message: result.deleted
+        ? "Discount rule deleted."
+        : "Discount rule has been applied and was deactivated instead.",
+      ...result,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getFeeDiscountApplications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { studentId } = req.query;
+    const applications = await listFeeDiscountApplications(
+      branchId,
+      studentId ? String(studentId) : undefined
+    );
+    res.status(200).json(applications);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// Re-applies the discount rules now, e.g. after editing a rule.
+export const runFeeDiscountEvaluation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const result = await evaluateFeeDiscountsForBranch(branchId, {
+      classId: req.body.classId,
+      actorName: req.user.name,
+    });
+    res.status(200).json(result);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getStaffPayrollForMonth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const payroll = await getPayrollForMonth(branchId, req.params.month);
+    res.status(200).json(payroll);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getPayrollRuns = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const runs = await listPayrollRuns(branchId, req.params.month);
+    res.status(200).json(runs);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const lockPayroll = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const run = await lockPayrollRun(branchId, req.params.month, {
+      id: req.user.id,
+      name: req.user.name,
+    });
+    res.status(201).json(run);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+/**
+ * Pays staff for a month. Accepts `{ month, staffIds? }` or the older
+ * per-staff payload (a single object or an array from "Mark Selected as
+ * Paid"), of which only `staffId` and `month` are used: amounts always come
+ * from the locked payroll run.
+ */
+export const processPayroll = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user) {
+      return res.status(401).json({ message: "Authentication required." });
+    }
+
+    const payload = req.body;
+    const staffByMonth = new Map<string, string[] | undefined>();
+    if (!Array.isArray(payload) && Array.isArray(payload?.staffIds)) {
+      staffByMonth.set(payload.month, payload.staffIds);
+    } else if (!Array.isArray(payload) && payload?.month && !payload.staffId) {
+      staffByMonth.set(payload.month, undefined);
+    } else {
+      const staffList = Array.isArray(payload) ? payload : [payload];
+      for (const staff of staffList) {
+        if (!staff?.staffId || !staff?.month) {
+          return res
+            .status(400)
+            .json({ message: "Each entry needs a staffId and month." });
+        }
+        staffByMonth.set(staff.month, [
+          ...(staffByMonth.get(staff.month) ?? []),
+          staff.staffId,
+        ]);
+      }
+    }
+
+    let paid = 0;
+    for (const [month, staffIds] of staffByMonth) {
+      const result = await payPayrollRecords(branchId, month, staffIds, {
+        id: req.user.id,
+        name: req.user.name,
+      });
+      paid += result.paid;
+    }
+
+    res.status(200).json({
+      message: `Payroll processed for ${paid} staff members.`,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const downloadPayslip = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { fileName, pdf } = await renderPayslipPdf({
+      id: req.params.id,
+      branchId,
+    });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// --- Bank Payouts ---
+
+export const getPayoutFormats = async (req: Request, res: Response) => {
+  res.status(200).json(listPayoutFormats());
+};
+
+export const getPayoutBatches = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const batches = await listPayoutBatches(branchId, req.params.month);
+    res.status(200).json(batches);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const createPayoutBatch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const result = await createPayoutBatchForMonth(
+      branchId,
+      req.params.month,
+      req.body,
+      { id: req.user.id, name: req.user.name }
+    );
+    res.status(201).json(result);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const downloadPayoutFile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { fileName, content } = await renderPayoutFile(
+      branchId,
+      req.params.id
+    );
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(content);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const importPayoutResponse = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    // The response file can be uploaded or pasted as text.
+    const content = req.file
+      ? req.file.buffer.toString("utf8")
+      : req.body.content;
+    if (!content) {
+      return res
+        .status(400)
+        .json({ message: "Upload the bank's response file." });
+    }
+
+    const result = await importPayoutResponseForBatch(
+      branchId,
+      req.params.id,
+      content,
+      { id: req.user.id, name: req.user.name }
+    );
+    res.status(200).json(result);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getStaffBankAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const staff = await prisma.user.findFirst({
+      where: { id: req.params.id, branchId },
+      select: { id: true },
+    });
+    if (!staff) {
+      return res
+        .status(404)
+        .json({ message: "Staff member not found in your branch." });
+    }
+
+    res.status(200).json(await getStaffBankAccountForUser(staff.id));
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const updateStaffBankAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const staff = await prisma.user.findFirst({
+      where: { id: req.params.id, branchId },
+      select: { id: true, role: true },
+    });
+    if (!staff || staff.role === "Student" || staff.role === "Parent") {
+      return res
+        .status(404)
+        .json({ message: "Staff member not found in your branch." });
+    }
+
+    const account = await saveStaffBankAccount(staff.id, req.body, req.user);
+    res.status(200).json(account);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getSalaryStructures = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const structures = await listSalaryStructures(branchId);
+    res.status(200).json(structures);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const saveSalaryStructure = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const structure = await saveSalaryStructureForStaff(
+      branchId,
+      req.params.staffId,
+      req.body,
+      req.user.name
+    );
+    res.status(200).json(structure);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const deleteSalaryStructure = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    await deleteSalaryStructureForStaff(branchId, req.params.staffId);
+    res.status(204).send();
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getPayrollStatutorySettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const settings = await getStatutorySettings(branchId);
+    res.status(200).json(settings);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const updatePayrollStatutorySettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const settings = await updateStatutorySettings(branchId, req.body);
+    res.status(200).json(settings);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getPayrollStatutoryReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const report = await getStatutoryReport(
+      branchId,
+      req.params.month,
+      req.query.report as StatutoryReportType | undefined
+    );
+    res.status(200).json(report);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const addManualSalaryAdjustment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction // Add next for error handling
+) => {
+  try {
+    if (!req.user?.branchId) {
+      return res
+        .status(401)
+        .json({ message: "Authentication required with a valid branch." });
+    }
+
+    const { staffId, amount, reason, month } = req.body;
+
+    // Validate inputs
+    if (!staffId || !amount || !reason || !month) {
+      return res.status(400).json({ message: "All fields are required." });
+    }
+
+    // Get the Principal's name for the audit trail
+    const principal = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { name: true },
+    });
+
+    await prisma.manualSalaryAdjustment.create({
+      data: {
+        branchId: req.user.branchId,
+        staffId: staffId,
+        amount: Number(amount), // Ensure it is a number
+        reason: reason,
+        month: month,
+        adjustedBy: principal?.name || "Principal",
+        adjustedAt: new Date(),
+      },
+    });
+
+    res.status(201).json({ message: "Salary adjustment added." });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getErpFinancialsForBranch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) {
+      return res
+        .status(401)
+        .json({ message: "Authentication required with a valid branch." });
+    }
+    res.status(200).json(await getBranchErpSummary(branchId));
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getErpInvoices = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) {
+      return res
+        .status(401)
+        .json({ message: "Authentication required with a valid branch." });
+    }
+    const status = req.query.status as ErpInvoiceStatus | undefined;
+    res.status(200).json(await listErpInvoices({ branchId, status }));
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const downloadErpInvoice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) {
+      return res
+        .status(401)
+        .json({ message: "Authentication required with a valid branch." });
+    }
+    const { fileName, pdf } = await renderErpInvoicePdf({
+      id: req.params.id,
+      branchId,
+    });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const downloadErpCreditNote = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) {
+      return res
+        .status(401)
+        .json({ message: "Authentication required with a valid branch." });
+    }
+    const { fileName, pdf } = await renderErpCreditNotePdf({
+      id: req.params.id,
+      invoice: { branchId },
+    });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getErpPaymentsForBranch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+
+    // --- THE FORTIFICATION ---
+    if (!branchId) {
+      return res
+        .status(404)
+        .json({ message: "Principal is not associated with a branch." });
+    }
+    const branch = await prisma.branch.findUnique({ where: { id: branchId } });
+    if (!branch) {
+      return res
+        .status(404)
+        .json({ message: "The branch for this account could not be found." });
+    }
+    // --- End of Fortification ---
+
+    const payments = await prisma.erpPayment.findMany({
+      where: { branchId: branchId },
+      orderBy: { paymentDate: "desc" },
+    });
+
+    res.status(200).json(payments);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const payErpBill = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) {
+      return res
+        .status(401)
+        .json({ message: "Authentication required with a valid branch." });
+    }
+    const { amount, transactionId, invoiceId } = req.body;
+    if (!amount || !transactionId) {
+      return res
+        .status(400)
+        .json({ message: "amount and transactionId are required." });
+    }
+
+    const result = await recordErpInvoicePayment({
+      branchId,
+      invoiceId,
+      amount: Number(amount),
+      transactionId,
+    });
+    res.status(200).json({ message: "ERP bill paid.", ...result });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getManualExpenses = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   try {
     const branchId = getPrincipalBranchId(req);
     if (!branchId) {
@@ -2127,53 +2851,385 @@ export const getManualExpenses = async (req: Request, res: Response) => {
         .json({ message: "Authentication required with a valid branch." });
     }
 
-    const expenses = await prisma.manualExpense.findMany({
-      where: { branchId },
-      orderBy: { date: "desc" },
-    });
+    const { month, categoryId } = req.query;
+    const expenses = await listManualExpenses(branchId, {
+      month: typeof month === "string" ? month : undefined,
+      categoryId: typeof categoryId === "string" ? categoryId : undefined,
+    });
+
+    res.status(200).json(expenses);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// Expenses above the branch's approval threshold become a request for an
+// admin instead; the response says which happened.
+export const addManualExpense = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId || !req.user) {
+      return res
+        .status(401)
+        .json({ message: "Authentication required with a valid branch." });
+    }
+
+    const { description, category, categoryId, amount, date } = req.body;
+    const result = await recordManualExpense(
+      branchId,
+      { id: req.user.id, name: req.user.name },
+      { description, category, categoryId, amount, date },
+      req.file
+    );
+
+    res.status(201).json({
+      message:
+        result.status === "Pending"
+          ? "Expense submitted for approval."
+          : "Expense added.",
+      ...result,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const uploadManualExpenseReceipt = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const expense = await attachExpenseReceipt(
+      branchId,
+      req.params.id,
+      req.file
+    );
+    res.status(200).json(expense);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getManualExpenseRequests = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { status } = req.query;
+    const requests = await listManualExpenseRequests({
+      branchId,
+      status: status ? (status as RequestStatus) : undefined,
+    });
+    res.status(200).json(requests);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// --- Expense Categories & Budgets ---
+
+export const getExpenseCategories = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const categories = await listExpenseCategories(
+      branchId,
+      req.query.includeArchived === "true"
+    );
+    res.status(200).json(categories);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const createExpenseCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { name, ledgerCategory } = req.body;
+    const category = await createExpenseCategoryForBranch(branchId, {
+      name,
+      ledgerCategory,
+    });
+    res.status(201).json(category);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const archiveExpenseCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const category = await archiveExpenseCategoryById(branchId, req.params.id);
+    res.status(200).json(category);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getExpenseBudgets = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { month } = req.query;
+    const budgets = await listExpenseBudgets(
+      branchId,
+      typeof month === "string" ? month : undefined
+    );
+    res.status(200).json(budgets);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const setExpenseBudget = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const { categoryId, month, amount } = req.body;
+    const budget = await setExpenseBudgetForCategory(
+      branchId,
+      { id: req.user.id, name: req.user.name },
+      { categoryId, month, amount }
+    );
+    res.status(200).json(budget);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const deleteExpenseBudget = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    await deleteExpenseBudgetById(branchId, req.params.id);
+    res.status(204).send();
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// Budget vs actual per category and month; ?from=YYYY-MM&to=YYYY-MM.
+export const getExpenseBudgetVariance = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = getPrincipalBranchId(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { from, to } = req.query;
+    const report = await getBudgetVsActual(branchId, {
+      from: typeof from === "string" ? from : undefined,
+      to: typeof to === "string" ? to : undefined,
+    });
+    res.status(200).json(report);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// --- Ledger ---
+
+const parseReportDate = (value: unknown, fallback: Date) => {
+  if (!value) return fallback;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const getLedgerAccounts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const accounts = await listLedgerAccounts(branchId);
+    res.status(200).json(accounts);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const createLedgerAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const account = await createLedgerAccountForBranch(branchId, req.body);
+    res.status(201).json(account);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getLedgerTrialBalance = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const asOf = parseReportDate(req.query.asOf, new Date());
+    if (!asOf) return res.status(400).json({ message: "Invalid asOf date." });
 
-    res.status(200).json(expenses);
+    const trialBalance = await getTrialBalance(branchId, asOf);
+    res.status(200).json(trialBalance);
   } catch (error: any) {
-    res.status(500).json({ message: error.message });
+    next(error);
   }
 };
 
-export const addManualExpense = async (req: Request, res: Response) => {
+export const getLedgerIncomeStatement = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    const branchId = getPrincipalBranchId(req);
-    if (!branchId) {
-      return res
-        .status(401)
-        .json({ message: "Authentication required with a valid branch." });
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const today = new Date();
+    const from = parseReportDate(
+      req.query.from,
+      new Date(today.getFullYear(), today.getMonth(), 1)
+    );
+    const to = parseReportDate(req.query.to, today);
+    if (!from || !to) {
+      return res.status(400).json({ message: "Invalid from/to date." });
     }
-    const user = await prisma.user.findUnique({
-      where: { id: req.user?.id },
-      select: { name: true },
-    });
 
-    if (!user) {
-      return res.status(404).json({ message: "Authenticated user not found." });
+    const statement = await getIncomeStatement(branchId, from, to);
+    res.status(200).json(statement);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getLedgerCashBook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const today = new Date();
+    const from = parseReportDate(
+      req.query.from,
+      new Date(today.getFullYear(), today.getMonth(), 1)
+    );
+    const to = parseReportDate(req.query.to, today);
+    if (!from || !to) {
+      return res.status(400).json({ message: "Invalid from/to date." });
     }
+    const account = req.query.account === "BANK" ? "BANK" : "CASH";
 
-    const { description, category, amount, date } = req.body;
+    const cashBook = await getCashBook(branchId, { from, to, account });
+    res.status(200).json(cashBook);
+  } catch (error: any) {
+    next(error);
+  }
+};
 
-    if (!description || !amount || !date || !category) {
-      return res.status(400).json({ message: "All fields are required." });
+export const getFinancialReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const format = parseReportFormat(req.query.format);
+    const { report, tables } = await buildFinancialReport(
+      req.params.report,
+      req.query,
+      branchId
+    );
+    if (format === "json") {
+      return res.status(200).json(report);
     }
-    await prisma.manualExpense.create({
-      data: {
-        branchId,
-        description,
-        category,
-        amount: Number(amount),
-        date: new Date(date),
-        enteredBy: user.name,
-      },
-    });
+    const { fileName, contentType, content } = await renderFinancialReport(
+      report,
+      tables,
+      format
+    );
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(content);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const syncLedger = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
 
-    res.status(201).json({ message: "Expense added." });
+    const result = await syncBranchLedger(branchId);
+    res.status(200).json(result);
   } catch (error: any) {
-    res.status(500).json({ message: error.message });
+    next(error);
   }
 };
 
@@ -2201,6 +3257,92 @@ export const getFeeRectificationRequestsByBranch = async (
   }
 };
 
+export const getFeeRefundRequestsByBranch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const requests = await listFeeRefundRequests(branchId);
+    res.status(200).json(requests);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const processFeeRefundRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const { status, note } = req.body;
+    const request = await processFeeRefundRequestForBranch(
+      branchId,
+      req.params.id,
+      { id: req.user.id },
+      { status, note }
+    );
+    res
+      .status(200)
+      .json({ message: `Request ${status} successfully.`, request });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getConcessionRequestsByBranch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { status } = req.query;
+    const requests = await listConcessionRequests({
+      branchId,
+      status: status ? (status as RequestStatus) : undefined,
+    });
+    res.status(200).json(requests);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const processConcessionRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const { status, note, approvedAmount } = req.body;
+    const request = await reviewConcessionRequest(
+      branchId,
+      req.params.id,
+      { id: req.user.id, name: req.user.name },
+      { status, note, approvedAmount }
+    );
+    res
+      .status(200)
+      .json({ message: `Request ${status} successfully.`, request });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
 const ACADEMIC_MONTH_ORDER = [
   "April",
   "May",
@@ -2887,21 +4029,39 @@ export const getQueriesByPrincipal = async (req: Request, res: Response) => {
   }
 };
 
-export const startNewAcademicSession = async (req: Request, res: Response) => {
+export const startNewAcademicSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    if (!req.user?.branchId) {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user) {
       return res
         .status(401)
         .json({ message: "Authentication required with a valid branch." });
     }
     const { newStartDate } = req.body;
-    await principalApiService.startNewAcademicSession(
-      req.user.branchId,
-      newStartDate
-    );
-    res.status(200).json({ message: "New academic session started." });
+    const startDate = new Date(newStartDate);
+    if (!newStartDate || isNaN(startDate.getTime())) {
+      return res
+        .status(400)
+        .json({ message: "A valid newStartDate is required." });
+    }
+
+    await prisma.branch.update({
+      where: { id: branchId },
+      data: { academicSessionStartDate: startDate },
+    });
+    // Sibling, staff-ward and category discounts are settled for the new session.
+    const discounts = await evaluateFeeDiscountsForBranch(branchId, {
+      actorName: req.user.name,
+    });
+    res
+      .status(200)
+      .json({ message: "New academic session started.", discounts });
   } catch (error: any) {
-    res.status(500).json({ message: error.message });
+    next(error);
   }
 };
 
@@ -3097,8 +4257,8 @@ export const getStudentProfileDetails = async (
         },
         room: { select: { fee: true, roomNumber: true } },
         busStop: { select: { charges: true, name: true } },
-        parent: true,
-        user: true,
+        parent: { omit: USER_PRIVATE_FIELDS },
+        user: { omit: USER_PRIVATE_FIELDS },
         FeeAdjustment: { orderBy: { date: "asc" } },
         feeRecords: { include: { payments: true } },
         attendanceRecords: { orderBy: { date: "desc" }, take: 90 },
@@ -3498,12 +4658,7 @@ export const resetUserPassword = async (req: Request, res: Response) => {
         .status(404)
         .json({ message: "User not found in your branch." });
     }
-    const newPassword = Math.random().toString(36).slice(-8);
-    const hashedPassword = await bcrypt.hash(newPassword, 10);
-    await prisma.user.update({
-      where: { id },
-      data: { passwordHash: hashedPassword },
-    });
+    const newPassword = await resetToTemporaryPassword(id);
     res.status(200).json({
       message: "Password reset successfully.",
       userId: targetUser.userId,
@@ -3514,6 +4669,32 @@ export const resetUserPassword = async (req: Request, res: Response) => {
   }
 };
 
+export const unlockUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user) {
+      return res.status(401).json({ message: "Unauthorized." });
+    }
+    const targetUser = await prisma.user.findFirst({
+      where: { id: req.params.id, branchId },
+      select: { id: true },
+    });
+    if (!targetUser) {
+      return res
+        .status(404)
+        .json({ message: "User not found in your branch." });
+    }
+    const result = await unlockAccount(targetUser.id, req.user);
+    res.status(200).json({ message: "Account unlocked.", ...result });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
 export const clearTeacherComplaints = async (req: Request, res: Response) => {
   try {
     const branchId = await getPrincipalAuth(req);
@@ -3548,3 +4729,112 @@ export const clearStudentComplaints = async (req: Request, res: Response) => {
     res.status(500).json({ message: error.message });
   }
 };
+
+// --- Cash Counter ---
+
+export const getCashCounterSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const { status, date, registrarId } = req.query as {
+      status?: CashCounterStatus;
+      date?: string;
+      registrarId?: string;
+    };
+    res.status(200).json(
+      await listCounterSessions(branchId, {
+        status,
+        businessDate: date,
+        registrarId,
+      })
+    );
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const signOffCashCounter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId || !req.user)
+      return res.status(401).json({ message: "Unauthorized." });
+
+    const session = await signOffCounterSession(
+      branchId,
+      req.params.id,
+      req.user,
+      { decision: req.body.decision, note: req.body.note }
+    );
+    res.status(200).json(session);
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getCashCounterDayBook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+
+    const date = (req.query.date as string) || businessDateOf();
+    const registrarId = req.query.registrarId as string | undefined;
+    if (req.query.format === "pdf") {
+      const { fileName, pdf } = await renderDayBookPdf(
+        branchId,
+        date,
+        registrarId
+      );
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      return res.status(200).send(pdf);
+    }
+    res.status(200).json(await getDayBook(branchId, date, registrarId));
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const getTwoFactorPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+    res.status(200).json(await getBranchTwoFactorPolicy(branchId));
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+export const updateTwoFactorPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const branchId = await getPrincipalAuth(req);
+    if (!branchId) return res.status(401).json({ message: "Unauthorized." });
+    const policy = await setBranchTwoFactorPolicy(
+      branchId,
+      req.body.requiredRoles
+    );
+    res.status(200).json(policy);
+  } catch (error: any) {
+    next(error);
+  }
+};
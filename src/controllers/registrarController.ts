@@ -13,11 +13,60 @@ import {
   ExamStatus,
   ExamResultStatus,
   EventStatus,
+  FeeInstalmentFrequency,
+  BankStatementLineStatus,
 } from "@prisma/client"; 
 import { generatePassword } from "../utils/helpers"; 
+import { resetToTemporaryPassword } from "../services/passwordService";
 import bcrypt from "bcryptjs";
 // import { Parser } from "json2csv";
-import { getBranchId } from "../utils/authUtils";
+import { getBranchId, USER_PRIVATE_FIELDS } from "../utils/authUtils";
+import {
+  applyFeeTemplateToClass,
+  buildInstalmentSchedule,
+  describeInstalment,
+  syncStudentFeeSchedule,
+} from "../services/feeScheduleService";
+import { HttpError } from "../utils/httpError";
+import { applyFeeDiscounts } from "../services/feeDiscountService";
+import {
+  endFacilityCharge,
+  listFacilityCharges,
+  startFacilityCharge,
+} from "../services/facilityChargeService";
+import { recordFeePaymentInTransaction } from "../services/feePaymentService";
+import {
+  businessDateOf,
+  closeCounterSession,
+  getCounterSessionForPayment,
+  getCurrentCounterSession,
+  getDayBook,
+  listCounterSessions,
+  openCounterSession,
+  renderDayBookPdf,
+} from "../services/cashCounterService";
+import {
+  autoMatchBankLines,
+  getReconciliationReport as getBankReconciliationReport,
+  importBankStatement,
+  listBankStatementLines,
+  listBankStatements,
+  resolveBankLine,
+} from "../services/bankReconciliationService";
+import {
+  createFeeRefundRequest,
+  listFeeRefundRequests,
+} from "../services/feeRefundService";
+import {
+  listFeeReceipts,
+  renderFeeReceiptPdf,
+  voidFeeReceipt,
+} from "../services/feeReceiptService";
+import { getStudentWallet } from "../services/studentWalletService";
+import {
+  listFeeCarryForwards,
+  rollOverFeeSession,
+} from "../services/feeSessionRolloverService";
 interface TeacherUpdatePayload {
   name?: string;
   email?: string;
@@ -60,15 +109,6 @@ const ACADEMIC_MONTH_NAMES = [
   "March",
 ];
 
-const getRemainingMonthsCount = (): number => {
-  const now = new Date();
-  const currentMonth = now.getMonth(); // 0=Jan, 11=Dec
-  // Session: Apr(3) to Mar(2)
-  if (currentMonth === 2) return 1; // If March, 1 month (current)
-  if (currentMonth >= 3) return 12 - (currentMonth - 3); // Apr-Dec
-  return 3 - currentMonth; // Jan-Feb
-};
-
 const getAcademicMonthIndex = (date: Date) => {
   const month = date.getMonth(); // 0=Jan, 3=April
   if (month >= 3) return month - 3; // April(3) -> 0
@@ -582,6 +622,7 @@ export const admitStudent = async (
               .replace(/\s+/g, ".")
               .toLowerCase()}${Date.now().toString().slice(-4)}@school.com`,
           passwordHash: await bcrypt.hash(parentPassword, 10),
+          mustChangePassword: true,
           userId: `VRTX-PAR-${Date.now().toString().slice(-6)}`,
           name: guardianInfo.name,
           role: "Parent",
@@ -600,6 +641,7 @@ export const admitStudent = async (
               .toString()
               .slice(-4)}@school.com`,
           passwordHash: await bcrypt.hash(studentPassword, 10),
+          mustChangePassword: true,
           userId: studentUserId, // Use the generated student userId
           name: applicantName,
           role: "Student", // Set role to Student
@@ -832,6 +874,7 @@ export const getClassFeeSummaries = async (
       orderBy: [{ gradeLevel: "asc" }, { section: "asc" }],
     });
 
+    const now = new Date();
     const summaries = await Promise.all(
       classes.map(async (sClass) => {
         // 2. Fetch ALL active students
@@ -839,13 +882,35 @@ export const getClassFeeSummaries = async (
           where: { classId: sClass.id, status: "active" },
           select: {
             id: true,
-            feeRecords: { select: { totalAmount: true, paidAmount: true } },
+            feeRecords: {
+              orderBy: { createdAt: "desc" },
+              take: 1,
+              select: {
+                totalAmount: true,
+                paidAmount: true,
+                instalments: { orderBy: { sequence: "asc" } },
+              },
+            },
             FeeAdjustment: { select: { type: true, amount: true } },
           },
         });
 
         let classTotalPending = 0;
+        let classTotalOverdue = 0;
         let defaulterCount = 0;
+        // Per-instalment roll-up, keyed by sequence (the schedule is shared by the class)
+        const instalmentSummaries = new Map<
+          number,
+          {
+            sequence: number;
+            label: string;
+            dueDate: Date;
+            expectedAmount: number;
+            collectedAmount: number;
+            pendingAmount: number;
+            defaulterCount: number;
+          }
+        >();
 
         students.forEach((student) => {
           const record = student.feeRecords[0];
@@ -871,8 +936,33 @@ export const getClassFeeSummaries = async (
 
           const pending = netTotal - paid;
 
+          let overdue = 0;
+          (record?.instalments || []).forEach((instalment) => {
+            const status = describeInstalment(instalment, now);
+            const summary = instalmentSummaries.get(instalment.sequence) || {
+              sequence: instalment.sequence,
+              label: instalment.label,
+              dueDate: instalment.dueDate,
+              expectedAmount: 0,
+              collectedAmount: 0,
+              pendingAmount: 0,
+              defaulterCount: 0,
+            };
+            summary.expectedAmount += instalment.amount;
+            summary.collectedAmount += instalment.paidAmount;
+            summary.pendingAmount += status.pendingAmount;
+            if (status.isOverdue) {
+              summary.defaulterCount++;
+              overdue += status.pendingAmount;
+            }
+            instalmentSummaries.set(instalment.sequence, summary);
+          });
+
           if (pending > 0) {
             classTotalPending += pending;
+          }
+          classTotalOverdue += overdue;
+          if (record?.instalments.length ? overdue > 0 : pending > 0) {
             defaulterCount++;
           }
         });
@@ -883,6 +973,10 @@ export const getClassFeeSummaries = async (
           studentCount: students.length,
           defaulterCount,
           pendingAmount: classTotalPending,
+          overdueAmount: classTotalOverdue,
+          instalments: Array.from(instalmentSummaries.values()).sort(
+            (a, b) => a.sequence - b.sequence
+          ),
         };
       })
     );
@@ -1599,6 +1693,7 @@ export const updateStudent = async (
     gender,
     guardianInfo,
     status,
+    staffParentId, // Staff member whose ward the student is (null to clear)
   } = req.body;
 
   if (!branchId) {
@@ -1615,6 +1710,11 @@ export const updateStudent = async (
   if (gender !== undefined) updateData.gender = gender;
   if (guardianInfo !== undefined) updateData.guardianInfo = guardianInfo;
   if (status !== undefined) updateData.status = status;
+  if (staffParentId !== undefined) {
+    updateData.staffParent = staffParentId
+      ? { connect: { id: staffParentId } }
+      : { disconnect: true };
+  }
 
   // 3. THIS IS THE FIX:
   // Convert the 'dob' string into a valid JavaScript Date object
@@ -1623,6 +1723,22 @@ export const updateStudent = async (
   }
 
   try {
+    if (staffParentId) {
+      const staff = await prisma.user.findFirst({
+        where: {
+          id: staffParentId,
+          branchId,
+          role: { notIn: ["Student", "Parent"] },
+        },
+        select: { id: true },
+      });
+      if (!staff) {
+        return res.status(400).json({
+          message: "staffParentId must be a staff member of your branch.",
+        });
+      }
+    }
+
     // 4. Update the student record securely, ensuring it's in the registrar's branch
     const updatedStudent = await prisma.student.update({
       where: {
@@ -1670,8 +1786,8 @@ export const resetStudentAndParentPasswords = async (
     const student = await prisma.student.findFirst({
       where: { id: studentId, branchId }, 
       include: {
-        parent: true,
-        user: true,
+        parent: { omit: USER_PRIVATE_FIELDS },
+        user: { omit: USER_PRIVATE_FIELDS },
       },
     });
 
@@ -1686,22 +1802,8 @@ export const resetStudentAndParentPasswords = async (
         .json({ message: "Student or Parent user account missing." });
     }
 
-    const parentPassword = generatePassword();
-    const studentPassword = generatePassword();
-    await prisma.$transaction([
-      prisma.user.update({
-        where: { id: student.parentId! },
-        data: {
-          passwordHash: await bcrypt.hash(parentPassword, 10),
-        },
-      }),
-      prisma.user.update({
-        where: { id: student.userId! },
-        data: {
-          passwordHash: await bcrypt.hash(studentPassword, 10),
-        },
-      }),
-    ]);
+    const parentPassword = await resetToTemporaryPassword(student.parentId!);
+    const studentPassword = await resetToTemporaryPassword(student.userId!);
 
     res.status(200).json({
       message: "Student and parent passwords have been reset.",
@@ -2190,17 +2292,10 @@ export const assignFeeTemplateToClass = async (req: Request, res: Response, next
     }
     
     try {
-        // Security: Use updateMany to ensure the operation only affects a class within the correct branch.
-        const result = await prisma.schoolClass.updateMany({
-            where: { id, branchId },
-            data: { feeTemplateId: feeTemplateId || null },
-        });
-
-        if (result.count === 0) {
-            return res.status(404).json({ message: "Class not found in your branch." });
-        }
+        // Scoped to the registrar's branch; also regenerates each student's instalments.
+        const result = await applyFeeTemplateToClass(branchId, id, feeTemplateId || null);
 
-        res.status(200).json({ message: "Fee template assigned successfully." });
+        res.status(200).json({ message: "Fee template assigned successfully.", ...result });
     } catch (error) {
         next(error);
     }
@@ -2256,6 +2351,7 @@ export const getAllStaffForBranch = async (
         branchId: branchId,
         role: { in: staffRoles },
       },
+      omit: USER_PRIVATE_FIELDS,
       include: {
         teacher: true,
       },
@@ -2459,6 +2555,7 @@ export const createSupportStaff = async (req: Request, res: Response, next: Next
                 role,
                 designation,
                 passwordHash,
+                mustChangePassword: true,
                 userId: `VRTX-STF-${Date.now().toString().slice(-6)}`,
                 branchId // Security: Enforced branchId
             }
@@ -2532,6 +2629,7 @@ export const updateSupportStaff = async (
         role: { in: allowedRoles }, // Security: Ensure we only update valid support staff roles
       },
       data: updateData as Prisma.UserUpdateInput, // Use the clean updateData
+      omit: USER_PRIVATE_FIELDS,
     });
 
     // Prisma throws P2025 if not found, caught below
@@ -2617,21 +2715,11 @@ export const resetUserPassword = async (req: Request, res: Response, next: NextF
       return res.status(404).json({ message: "User not found in your branch." });
     }
 
-    // 2. Generate and hash the new password
-    const newPassword = generatePassword(); // From your helpers
-    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    // 2. Issue a temporary password; the user must change it at next sign-in
+    // and is signed out everywhere.
+    const newPassword = await resetToTemporaryPassword(userToReset.id);
 
-    // 3. Update the user's password in the database
-    await prisma.user.update({
-      where: {
-        id: userToReset.id, // Update using the database ID
-      },
-      data: {
-        passwordHash: hashedPassword,
-      },
-    });
-
-    // 4. Return the human-readable ID and the *unhashed* new password
+    // 3. Return the human-readable ID and the *unhashed* new password
     res.status(200).json({
       message: "Password reset successfully.",
       userId: userToReset.userId, // Send the VRTX-... ID
@@ -2855,10 +2943,13 @@ export const createFeeTemplate = async (req: Request, res: Response, next: NextF
     if (!branchId) {
         return res.status(401).json({ message: "Authentication required with a valid branch." });
     }
-    const { name, amount, gradeLevel, monthlyBreakdown } = req.body;
+    const { name, amount, gradeLevel, monthlyBreakdown, instalmentFrequency, instalmentDueDay } = req.body;
     if (!name || amount === undefined || gradeLevel === undefined) {
         return res.status(400).json({ message: "Name, amount, and gradeLevel are required." });
     }
+    if (instalmentFrequency && !Object.values(FeeInstalmentFrequency).includes(instalmentFrequency)) {
+        return res.status(400).json({ message: "Invalid instalment frequency." });
+    }
 
     try {
         const newTemplate = await prisma.feeTemplate.create({
@@ -2867,6 +2958,8 @@ export const createFeeTemplate = async (req: Request, res: Response, next: NextF
                 amount: parseFloat(amount),
                 gradeLevel: parseInt(gradeLevel, 10),
                 monthlyBreakdown: monthlyBreakdown || {},
+                instalmentFrequency: instalmentFrequency || undefined,
+                instalmentDueDay: instalmentDueDay ? parseInt(instalmentDueDay, 10) : undefined,
                 branchId, // Security: branchId is from the authenticated user, not the body
             },
         });
@@ -3080,7 +3173,7 @@ export const collectFeePayment = async (
   const branchId = getRegistrarBranchId(req);
   if (!branchId) return res.status(401).json({ message: "Unauthorized" });
 
-  const { studentId, amount, remarks, transactionId } = req.body;
+  const { studentId, amount, remarks, transactionId, paymentMode } = req.body;
 
   if (!studentId || !amount) {
     return res
@@ -3090,10 +3183,10 @@ export const collectFeePayment = async (
 
   try {
     // 1. Fetch student AND their class template info
-    const student = await prisma.student.findUnique({
-      where: { id: studentId },
+    const student = await prisma.student.findFirst({
+      where: { id: studentId, branchId },
       include: {
-        feeRecords: true, // Check if record exists
+        feeRecords: { orderBy: { createdAt: "desc" }, take: 1 }, // Check if record exists
         class: {
           include: { feeTemplate: true }, // Get template to initialize if record is missing
         },
@@ -3106,65 +3199,196 @@ export const collectFeePayment = async (
 
     const paymentAmount = parseFloat(amount);
 
-    // CASE A: Fee Record ALREADY Exists -> Update it
-    if (student.feeRecords.length > 0) {
-      const recordId = student.feeRecords[0].id;
-
-      await prisma.$transaction([
-        prisma.feePayment.create({
-          data: {
-            studentId,
-            feeRecordId: recordId,
-            amount: paymentAmount,
-            paidDate: new Date(),
-            transactionId: transactionId || `CASH-${Date.now()}`,
-            details: remarks || "Cash Payment collected by Registrar",
-          },
-        }),
-        prisma.feeRecord.update({
-          where: { id: recordId },
-          data: {
-            paidAmount: { increment: paymentAmount },
-          },
-        }),
-      ]);
-    }
-    // CASE B: Fee Record DOES NOT Exist -> Create it (Initialize + Pay)
-    else {
-      // We need a template to know the Total Amount
-      const templateAmount = student.class?.feeTemplate?.amount;
+    const { allocations, receipt } = await prisma.$transaction(async (tx) => {
+      let recordId = student.feeRecords[0]?.id;
 
-      if (!templateAmount) {
-        return res.status(400).json({
-          message:
-            "Cannot collect fee: No Fee Template assigned to this student's class.",
-        });
+      // No Fee Record yet -> Create it from the class template's instalment schedule
+      if (!recordId) {
+        const template = student.class?.feeTemplate;
+        if (!template?.amount) {
+          throw new HttpError(
+            400,
+            "Cannot collect fee: No Fee Template assigned to this student's class."
+          );
+        }
+        recordId = await syncStudentFeeSchedule(
+          tx,
+          studentId,
+          buildInstalmentSchedule(template),
+          0
+        );
+        await applyFeeDiscounts(tx, studentId, req.user?.name);
       }
-      await prisma.feeRecord.create({
-        data: {
-          studentId: studentId,
-          totalAmount: templateAmount,
-          paidAmount: paymentAmount, // Initialize with this payment
-          dueDate: new Date(new Date().getFullYear(), 3, 1), 
-          payments: {
-            create: {
-              studentId: studentId,
-              amount: paymentAmount,
-              paidDate: new Date(),
-              transactionId: transactionId || `CASH-${Date.now()}`,
-              details: remarks || "Initial Payment collected by Registrar",
-            },
-          },
-        },
+
+      const counterSessionId = await getCounterSessionForPayment(
+        tx,
+        req.user!.id,
+        paymentMode || "Cash"
+      );
+
+      // Spreads the payment over the oldest open instalments and issues the receipt
+      return recordFeePaymentInTransaction(tx, {
+        studentId,
+        feeRecordId: recordId,
+        amount: paymentAmount,
+        transactionId: transactionId || `CASH-${Date.now()}`,
+        details: remarks || "Cash Payment collected by Registrar",
+        paymentMode: paymentMode || "Cash",
+        collectedById: req.user!.id,
+        counterSessionId,
+      });
+    });
+
+    res
+      .status(201)
+      .json({
+        message: "Payment collected successfully.",
+        allocations,
+        receipt,
       });
+  } catch (error) {
+    next(error);
+  }
+};
+
+
+/**
+ * @description List fee receipts issued in the branch, optionally for one student.
+ * @route GET /api/registrar/fees/receipts
+ */
+export const getFeeReceipts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const { studentId } = req.query;
+    const receipts = await listFeeReceipts({
+      branchId,
+      studentId: typeof studentId === "string" ? studentId : undefined,
+    });
+    res.status(200).json(receipts);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Download a fee receipt as PDF.
+ * @route GET /api/registrar/fees/receipts/:receiptId/pdf
+ */
+export const downloadFeeReceipt = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const { fileName, pdf } = await renderFeeReceiptPdf({
+      id: req.params.receiptId,
+      branchId,
+    });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Cancel a receipt. It keeps its number and is marked void.
+ * @route POST /api/registrar/fees/receipts/:receiptId/void
+ */
+export const voidReceipt = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  const { reason } = req.body;
+  if (!reason) {
+    return res.status(400).json({ message: "A reason is required." });
+  }
+
+  try {
+    const receipt = await prisma.feeReceipt.findFirst({
+      where: { id: req.params.receiptId, branchId },
+      select: { id: true },
+    });
+    if (!receipt) {
+      return res.status(404).json({ message: "Receipt not found." });
     }
 
-    res.status(201).json({ message: "Payment collected successfully." });
+    await prisma.$transaction((tx) =>
+      voidFeeReceipt(tx, receipt.id, reason, req.user!.id)
+    );
+    res.status(200).json({ message: "Receipt marked void." });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Ask the principal to refund or reverse a fee payment.
+ * @route POST /api/registrar/fees/refund-requests
+ */
+export const requestFeeRefund = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const { feePaymentId, requestType, amount, reason } = req.body;
+    const request = await createFeeRefundRequest(
+      branchId,
+      { id: req.user.id, name: req.user.name || "Registrar" },
+      {
+        feePaymentId,
+        requestType,
+        amount: amount === undefined ? undefined : parseFloat(amount),
+        reason,
+      }
+    );
+    res
+      .status(201)
+      .json({ message: "Refund request submitted for approval.", request });
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * @description List refund/reversal requests raised in the branch.
+ * @route GET /api/registrar/fees/refund-requests
+ */
+export const getFeeRefundRequests = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const requests = await listFeeRefundRequests(branchId);
+    res.status(200).json(requests);
+  } catch (error) {
+    next(error);
+  }
+};
 
 /**
  * @description Get a list of fee defaulters for a specific class.
@@ -3199,11 +3423,21 @@ export const getDefaultersForClass = async (
         userId: true,
         classRollNumber: true,
         guardianInfo: true,
-        feeRecords: { select: { totalAmount: true, paidAmount: true } },
+        feeRecords: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: {
+            totalAmount: true,
+            paidAmount: true,
+            instalments: { orderBy: { sequence: "asc" } },
+          },
+        },
         FeeAdjustment: { select: { type: true, amount: true } },
       },
     });
 
+    const now = new Date();
+
     // 3. Filter and Map in memory
     const defaulters = students
       .map((student) => {
@@ -3223,7 +3457,17 @@ export const getDefaultersForClass = async (
         const paid = record ? record.paidAmount : 0;
         const pending = netTotal - paid;
 
-        if (pending <= 0) return null;
+        // With an instalment schedule, only instalments past their due date count as arrears.
+        const arrears = (record?.instalments || [])
+          .map((instalment) => describeInstalment(instalment, now))
+          .filter((instalment) => instalment.isOverdue);
+        const overdueAmount = arrears.reduce(
+          (sum, instalment) => sum + instalment.pendingAmount,
+          0
+        );
+
+        if (record?.instalments.length ? overdueAmount <= 0 : pending <= 0)
+          return null;
 
         const gInfo = student.guardianInfo as {
           phone?: string;
@@ -3242,6 +3486,8 @@ export const getDefaultersForClass = async (
           rollNo: student.classRollNumber || "N/A",
           guardianPhone: gInfo?.phone || "N/A",
           pendingAmount: pending,
+          overdueAmount,
+          arrears,
         };
       })
       .filter((s) => s !== null);
@@ -4080,60 +4326,48 @@ export const assignStudentToRoom = async (
       // 1. Fetch Room & Student
       const room = await tx.room.findFirst({
         where: { id: roomId, hostel: { branchId } },
-        include: { _count: { select: { occupants: true } } },
+        include: {
+          hostel: { select: { name: true } },
+          _count: { select: { occupants: true } },
+        },
       });
-      if (!room) throw new Error("Room not found.");
+      if (!room) throw new HttpError(404, "Room not found.");
       if (room._count.occupants >= room.capacity)
-        throw new Error("Room is full.");
+        throw new HttpError(400, "Room is full.");
 
       const student = await tx.student.findFirst({
         where: { id: studentId, branchId },
-        include: {
-          feeRecords: true,
-          class: { include: { feeTemplate: true } },
-        },
+        include: { room: { include: { hostel: { select: { name: true } } } } },
       });
-      if (!student) throw new Error("Student not found.");
-
-      // 2. FINANCIAL LOGIC: Calculate & Apply Charge
-      const monthsLeft = getRemainingMonthsCount();
-      const totalCharge = room.fee * monthsLeft;
-
-      if (totalCharge > 0) {
-        let feeRecordId = student.feeRecords[0]?.id;
-
-        // If student has no fee record yet, create one
-        if (!feeRecordId) {
-          const templateAmount = student.class?.feeTemplate?.amount || 0;
-          const newRecord = await tx.feeRecord.create({
-            data: {
-              studentId,
-              totalAmount: templateAmount,
-              paidAmount: 0,
-              dueDate: new Date(new Date().getFullYear(), 3, 1),
-            },
-          });
-          feeRecordId = newRecord.id;
-        }
-
-        // A. Update the Balance (Permanent Debt Increase)
-        await tx.feeRecord.update({
-          where: { id: feeRecordId },
-          data: { totalAmount: { increment: totalCharge } },
-        });
-
-        // B. Create Audit Log (So we know WHY it increased)
-        await tx.feeAdjustment.create({
-          data: {
-            studentId,
-            type: "charge", // Important: It's a charge, not a discount
-            amount: totalCharge,
-            reason: `Hostel Assigned: Room ${room.roomNumber} (${monthsLeft} months @ ${room.fee})`,
-            adjustedBy: req.user?.name || "Registrar",
-            date: new Date(),
+      if (!student) throw new HttpError(404, "Student not found.");
+      if (student.roomId === room.id)
+        throw new HttpError(400, "Student is already in this room.");
+
+      const actorName = req.user?.name || "Registrar";
+
+      // 2. FINANCIAL LOGIC: close the previous room's charge (if moving),
+      // then bill the new room for the rest of the session.
+      if (student.room) {
+        await endFacilityCharge(tx, {
+          studentId,
+          facility: "hostel",
+          reassigned: true,
+          actorName,
+          legacy: {
+            description: `Room ${student.room.roomNumber} (${student.room.hostel.name})`,
+            monthlyRate: student.room.fee,
           },
         });
       }
+      await startFacilityCharge(tx, {
+        branchId,
+        studentId,
+        facility: "hostel",
+        roomId: room.id,
+        description: `Room ${room.roomNumber} (${room.hostel.name})`,
+        monthlyRate: room.fee,
+        actorName,
+      });
 
       // 3. Assign Room
       await tx.student.update({
@@ -4164,52 +4398,28 @@ export const removeStudentFromRoom = async (
       // 1. Fetch Student with Room Details BEFORE removing
       const student = await tx.student.findFirst({
         where: { id: studentId, branchId },
-        include: {
-          room: true,
-          feeRecords: { orderBy: { createdAt: "desc" }, take: 1 },
-        },
+        include: { room: { include: { hostel: { select: { name: true } } } } },
       });
 
-      if (!student) throw new Error("Student not found.");
+      if (!student) throw new HttpError(404, "Student not found.");
       if (!student.roomId || !student.room) {
         // Already unassigned, just return success
         return;
       }
 
-      // 2. Calculate Refund Amount (For Next Month Onwards)
-      const monthlyFee = student.room.fee;
-      // We subtract 1 because the current month is considered "consumed"
-      const monthsToRefund = Math.max(0, getRemainingMonthsCount() - 1);
-      const refundAmount = monthlyFee * monthsToRefund;
-
-      // 3. Update Fee Record (Reduce Debt)
-      if (refundAmount > 0 && student.feeRecords.length > 0) {
-        const recordId = student.feeRecords[0].id;
-
-        // A. Decrease Total
-        await tx.feeRecord.update({
-          where: { id: recordId },
-          data: { totalAmount: { decrement: refundAmount } },
-        });
-
-        // B. Log the Adjustment
-        const nextMonthName = new Date(
-          new Date().setMonth(new Date().getMonth() + 1)
-        ).toLocaleString("default", { month: "short" });
-
-        await tx.feeAdjustment.create({
-          data: {
-            studentId,
-            type: "concession", // It acts as a credit/concession
-            amount: refundAmount,
-            reason: `Hostel Removed (Room ${student.room.roomNumber}): Refund for ${monthsToRefund} months (${nextMonthName}-Mar)`,
-            adjustedBy: req.user?.name || "Registrar",
-            date: new Date(),
-          },
-        });
-      }
+      // 2. Credit the months after this one back to the fee record
+      await endFacilityCharge(tx, {
+        studentId,
+        facility: "hostel",
+        reassigned: false,
+        actorName: req.user?.name || "Registrar",
+        legacy: {
+          description: `Room ${student.room.roomNumber} (${student.room.hostel.name})`,
+          monthlyRate: student.room.fee,
+        },
+      });
 
-      // 4. Perform Unassignment
+      // 3. Perform Unassignment
       await tx.student.update({
         where: { id: studentId },
         data: { roomId: null },
@@ -4224,6 +4434,31 @@ export const removeStudentFromRoom = async (
   }
 };
 
+/**
+ * @description Hostel and transport charges billed to a student, each with the
+ * fee adjustments it posted.
+ * @route GET /api/registrar/students/:studentId/facility-charges
+ */
+export const getStudentFacilityCharges = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId)
+    return res.status(401).json({ message: "Authentication required." });
+
+  try {
+    const charges = await listFacilityCharges({
+      branchId,
+      studentId: req.params.studentId,
+    });
+    res.status(200).json(charges);
+  } catch (error) {
+    next(error);
+  }
+};
+
 
 
 // --- Transport Management ---
@@ -4522,57 +4757,37 @@ export const assignMemberToRoute = async (
 
       // 2. Financial Logic (Students Only)
       if (memberType === "Student") {
-        const monthsLeft = getRemainingMonthsCount();
-        const totalCharge =
-          monthsLeft > 0 ? (stop.charges || 0) * monthsLeft : 0;
-
         // Verify Student Exists in Branch
         const student = await tx.student.findFirst({
           where: { id: memberId, branchId },
+          include: { busStop: true },
         });
         if (!student) throw new Error("Student not found in your branch.");
 
-        if (totalCharge > 0) {
-          const sWithFees = await tx.student.findUnique({
-            where: { id: memberId },
-            include: {
-              feeRecords: true,
-              class: { include: { feeTemplate: true } },
-            },
-          });
-
-          let feeRecordId = sWithFees?.feeRecords[0]?.id;
-
-          if (!feeRecordId) {
-            const templateAmount = sWithFees?.class?.feeTemplate?.amount || 0;
-            const newRecord = await tx.feeRecord.create({
-              data: {
-                studentId: memberId,
-                totalAmount: templateAmount,
-                paidAmount: 0,
-                dueDate: new Date(new Date().getFullYear(), 3, 1),
+        // Moving stops (or routes) re-bills from this month at the new rate;
+        // staying at the same stop leaves the charge alone.
+        if (student.busStopId !== stop.id) {
+          const actorName = req.user?.name || "Registrar";
+          if (student.busStop) {
+            await endFacilityCharge(tx, {
+              studentId: memberId,
+              facility: "transport",
+              reassigned: true,
+              actorName,
+              legacy: {
+                description: `Stop: ${student.busStop.name}`,
+                monthlyRate: student.busStop.charges || 0,
               },
             });
-            feeRecordId = newRecord.id;
           }
-
-          await tx.feeRecord.update({
-            where: { id: feeRecordId },
-            data: { totalAmount: { increment: totalCharge } },
-          });
-
-          const currentMonthName = new Date().toLocaleString("default", {
-            month: "short",
-          });
-          await tx.feeAdjustment.create({
-            data: {
-              studentId: memberId,
-              type: "charge",
-              amount: totalCharge,
-              reason: `Transport Assigned: ${stop.name} (${currentMonthName}-Mar, ${monthsLeft} months @ ${stop.charges})`,
-              adjustedBy: req.user?.name || "Registrar",
-              date: new Date(),
-            },
+          await startFacilityCharge(tx, {
+            branchId,
+            studentId: memberId,
+            facility: "transport",
+            busStopId: stop.id,
+            description: `${route.routeName}, Stop: ${stop.name}`,
+            monthlyRate: stop.charges || 0,
+            actorName,
           });
         }
 
@@ -4652,41 +4867,25 @@ export const removeMemberFromRoute = async (
       if (memberType === "Student") {
         const student = await tx.student.findFirst({
           where: { id: memberId, branchId },
-          include: {
-            busStop: true,
-            feeRecords: { orderBy: { createdAt: "desc" }, take: 1 },
-          },
+          include: { busStop: true },
         });
 
         if (!student) throw new Error("Student not found.");
 
         currentRouteId = student.transportRouteId;
 
-        // Financial Refund Logic
+        // Credit the months after this one back to the fee record
         if (student.busStop) {
-          const monthlyFee = student.busStop.charges || 0;
-          const monthsToRefund = Math.max(0, getRemainingMonthsCount() - 1);
-          const refundAmount = monthlyFee * monthsToRefund;
-
-          if (refundAmount > 0 && student.feeRecords.length > 0) {
-            const recordId = student.feeRecords[0].id;
-
-            await tx.feeRecord.update({
-              where: { id: recordId },
-              data: { totalAmount: { decrement: refundAmount } },
-            });
-
-            await tx.feeAdjustment.create({
-              data: {
-                studentId: memberId,
-                type: "concession",
-                amount: refundAmount,
-                reason: `Transport Removed: Refund for remaining ${monthsToRefund} months`,
-                adjustedBy: req.user?.name || "Registrar",
-                date: new Date(),
-              },
-            });
-          }
+          await endFacilityCharge(tx, {
+            studentId: memberId,
+            facility: "transport",
+            reassigned: false,
+            actorName: req.user?.name || "Registrar",
+            legacy: {
+              description: `Stop: ${student.busStop.name}`,
+              monthlyRate: student.busStop.charges || 0,
+            },
+          });
         }
 
         // Unassign Student
@@ -5285,8 +5484,8 @@ export const getStudentProfileDetails = async (
         },
         room: { select: { fee: true, roomNumber: true } },
         busStop: { select: { charges: true, name: true } },
-        parent: true,
-        user: true,
+        parent: { omit: USER_PRIVATE_FIELDS },
+        user: { omit: USER_PRIVATE_FIELDS },
         FeeAdjustment: { orderBy: { date: "asc" } },
         feeRecords: { include: { payments: true } },
         attendanceRecords: { orderBy: { date: "desc" }, take: 90 },
@@ -5993,7 +6192,7 @@ export const generateReport = async (
       // 1. Build Include Object dynamically
       // We use a base object and add properties to avoid "boolean" errors
       const include: any = {
-        user: true, // VRTX ID
+        user: { omit: USER_PRIVATE_FIELDS }, // VRTX ID
       };
 
       // Handle Class Relation
@@ -6164,6 +6363,7 @@ export const generateReport = async (
           role: { in: ["Teacher", "SupportStaff", "Librarian", "Registrar"] },
           status: "active",
         },
+        omit: USER_PRIVATE_FIELDS,
         include: { teacher: true },
         orderBy: { name: "asc" },
       });
@@ -6212,4 +6412,369 @@ export const generateReport = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+// --- Bank reconciliation ---
+
+/**
+ * @description Upload a bank statement (CSV or OFX) and match its lines.
+ * @route POST /api/registrar/bank-statements
+ */
+export const uploadBankStatement = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    // The statement can be uploaded or pasted as text.
+    const content = req.file
+      ? req.file.buffer.toString("utf8")
+      : req.body.content;
+    if (!content) {
+      return res.status(400).json({ message: "Upload a bank statement." });
+    }
+    const result = await importBankStatement(
+      branchId,
+      { fileName: req.file?.originalname || req.body.fileName, content },
+      { id: req.user.id, name: req.user.name }
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description List uploaded bank statements.
+ * @route GET /api/registrar/bank-statements
+ */
+export const getBankStatements = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    res.status(200).json(await listBankStatements(branchId));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Statement lines, optionally for one statement or status.
+ * @route GET /api/registrar/bank-statements/lines
+ */
+export const getBankStatementLines = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const { statementId, status } = req.query as {
+      statementId?: string;
+      status?: BankStatementLineStatus;
+    };
+    res
+      .status(200)
+      .json(await listBankStatementLines(branchId, { statementId, status }));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Re-run automatic matching on open lines, e.g. after missing
+ * payments have been recorded.
+ * @route POST /api/registrar/bank-statements/auto-match
+ */
+export const autoMatchBankStatement = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const result = await autoMatchBankLines(branchId, {
+      statementId: req.body.statementId,
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Match a line by hand, mark it ignored, or unmatch it.
+ * @route POST /api/registrar/bank-statements/lines/:lineId/match
+ */
+export const matchBankStatementLine = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const { matchType, matchedId, ignore, note } = req.body;
+    const line = await resolveBankLine(
+      branchId,
+      req.params.lineId,
+      { matchType, matchedId, ignore: ignore === true, note },
+      { id: req.user.id, name: req.user.name }
+    );
+    res.status(200).json(line);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Reconciliation report for a period (defaults to this month).
+ * @route GET /api/registrar/bank-statements/reconciliation-report
+ */
+export const getReconciliationReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const now = new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const to = req.query.to ? new Date(req.query.to as string) : now;
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res
+        .status(400)
+        .json({ message: "from and to must be valid dates." });
+    }
+    res
+      .status(200)
+      .json(await getBankReconciliationReport(branchId, from, to));
+  } catch (error) {
+    next(error);
+  }
+};
+
+// --- Cash Counter ---
+
+/**
+ * @description The registrar's cash counter for today, with its collections.
+ * @route GET /api/registrar/cash-counter
+ */
+export const getMyCashCounter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    res.status(200).json(await getCurrentCounterSession(req.user.id));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Open the day's cash counter with the float in the drawer.
+ * @route POST /api/registrar/cash-counter/open
+ */
+export const openCashCounter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const session = await openCounterSession(
+      branchId,
+      { id: req.user.id, name: req.user.name },
+      { denominations: req.body.denominations }
+    );
+    res.status(201).json(session);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Close the cash counter with the denomination count.
+ * @route POST /api/registrar/cash-counter/close
+ */
+export const closeCashCounter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const { denominations, chequeTotal, chequeCount, note } = req.body;
+    const session = await closeCounterSession(
+      { id: req.user.id, name: req.user.name },
+      { denominations, chequeTotal, chequeCount, note }
+    );
+    res.status(200).json(session);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description The registrar's past cash counter sessions.
+ * @route GET /api/registrar/cash-counter/sessions
+ */
+export const getMyCashCounterSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    res
+      .status(200)
+      .json(await listCounterSessions(branchId, { registrarId: req.user.id }));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description The registrar's day book for a date (default today), as JSON
+ * or, with ?format=pdf, as a printable PDF.
+ * @route GET /api/registrar/cash-counter/day-book
+ */
+export const getCashCounterDayBook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const date = (req.query.date as string) || businessDateOf();
+    if (req.query.format === "pdf") {
+      const { fileName, pdf } = await renderDayBookPdf(
+        branchId,
+        date,
+        req.user.id
+      );
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      return res.status(200).send(pdf);
+    }
+    res.status(200).json(await getDayBook(branchId, date, req.user.id));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description A student's wallet balance and its movements.
+ * @route GET /api/registrar/students/:studentId/wallet
+ */
+export const getStudentWalletForRegistrar = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    res
+      .status(200)
+      .json(await getStudentWallet(req.params.studentId, branchId));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Carry fee balances of the branch (or the given students) into
+ * a new session's fee records. Defaults to the current session.
+ * @route POST /api/registrar/fees/session-rollover
+ */
+export const rollOverFeeSessionForBranch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId || !req.user)
+    return res.status(401).json({ message: "Unauthorized" });
+
+  const { toSessionStartYear, studentIds } = req.body;
+  if (studentIds !== undefined && !Array.isArray(studentIds)) {
+    return res.status(400).json({ message: "studentIds must be an array." });
+  }
+
+  try {
+    const result = await rollOverFeeSession(branchId, {
+      toSessionStartYear:
+        toSessionStartYear === undefined
+          ? undefined
+          : Number(toSessionStartYear),
+      studentIds,
+      actor: { id: req.user.id, name: req.user.name, role: req.user.role },
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @description Fee balances carried between sessions, optionally for one
+ * session or student.
+ * @route GET /api/registrar/fees/carry-forwards
+ */
+export const getFeeCarryForwards = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const branchId = getRegistrarBranchId(req);
+  if (!branchId) return res.status(401).json({ message: "Unauthorized" });
+
+  try {
+    const { session, studentId } = req.query;
+    const carryForwards = await listFeeCarryForwards(branchId, {
+      toSessionStartYear: session ? Number(session) : undefined,
+      studentId: typeof studentId === "string" ? studentId : undefined,
+    });
+    res.status(200).json(carryForwards);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,20 @@
 import { Request, Response, NextFunction } from "express";
 import prisma from "../prisma";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
 import { Assignment, Prisma, Branch } from "@prisma/client";
+import {
+  createFeePaymentOrder as createFeePaymentOrderForRecord,
+  verifyAndSettleCheckout,
+} from "../services/feePaymentService";
+import {
+  listFeeReceipts,
+  renderFeeReceiptPdf,
+} from "../services/feeReceiptService";
+import {
+  listConcessionRequests,
+  submitConcessionRequest,
+} from "../services/concessionService";
+import { toPublicBranch } from "../services/paymentGatewayService";
 
 // --- HELPERS ---
 
@@ -112,6 +126,7 @@ export const getStudentDashboardData = async (
       // B. Fees & Comms
       prisma.feeRecord.findFirst({
         where: { studentId: studentId },
+        orderBy: { createdAt: "desc" },
         include: { payments: true },
       }),
       prisma.announcement.findMany({
@@ -496,7 +511,7 @@ export const getStudentDashboardData = async (
     // --- 4. Final Response ---
     const dashboardData = {
       student,
-      branch,
+      branch: branch ? toPublicBranch(branch) : null,
       userId,
       branchId,
       profile,
@@ -539,9 +554,16 @@ export const getStudentProfile = async (
       await prisma.$transaction([
         prisma.student.findUnique({
           where: { id: studentId },
-          include: { class: true, parent: true, FeeAdjustment: true },
+          include: {
+            class: true,
+            parent: { omit: USER_PRIVATE_FIELDS },
+            FeeAdjustment: true,
+          },
+        }),
+        prisma.user.findUnique({
+          where: { id: userId },
+          omit: USER_PRIVATE_FIELDS,
         }),
-        prisma.user.findUnique({ where: { id: userId } }),
         prisma.grade.findMany({
           where: { studentId: studentId },
           include: { course: { select: { name: true } } },
@@ -552,6 +574,7 @@ export const getStudentProfile = async (
         }),
         prisma.feeRecord.findFirst({
           where: { studentId: studentId },
+          orderBy: { createdAt: "desc" },
           include: { payments: true },
         }),
         prisma.skillAssessment.findMany({
@@ -658,137 +681,150 @@ export const updateStudent = async (
   }
 };
 
-export const payStudentFees = async (
+export const getFeeReceipts = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // 1. Determine Student ID based on User Role
-    let targetStudentId = null;
-
-    if (req.user?.role === "Student") {
-      const auth = await getStudentAuth(req);
-      targetStudentId = auth.studentId;
-    } else if (req.user?.role === "Parent") {
-      // If Parent, they MUST provide the studentId in the body
-      const { studentId } = req.body;
-      // Security: Verify this parent owns this student
-      const parentLink = await prisma.student.findFirst({
-        where: {
-          id: studentId,
-          // Assuming 'user' table ID of parent links to 'parentId' or via 'parent' relation
-          // Adjust based on your schema. Commonly: parent: { userId: req.user.id }
-          parent: { id: req.user.id }, // OR parentId if your schema uses direct User ID
-        },
-      });
-      if (parentLink) targetStudentId = studentId;
+    const { studentId } = await getStudentAuth(req);
+    if (!studentId) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
 
-    // Fallback/Validation
-    if (!targetStudentId) {
-      // Try getStudentAuth one last time as generic fallback
-      const auth = await getStudentAuth(req);
-      targetStudentId = auth.studentId;
-    }
+    const receipts = await listFeeReceipts({ studentId });
+    res.status(200).json(receipts);
+  } catch (error: any) {
+    next(error);
+  }
+};
 
-    if (!targetStudentId) {
-      return res
-        .status(401)
-        .json({ message: "Unauthorized or Student not found." });
+/**
+ * @description Download one of the student's fee receipts as PDF.
+ * @route GET /api/student/fees/receipts/:receiptId/pdf
+ */
+export const downloadFeeReceipt = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { studentId } = await getStudentAuth(req);
+    if (!studentId) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
 
-    // 2. Process Payment
-    const { amount, details } = req.body;
-
-    const student = await prisma.student.findUnique({
-      where: { id: targetStudentId },
-      include: {
-        branch: true,
-        feeRecords: {
-          orderBy: { dueDate: "asc" },
-          take: 1,
-        },
-      },
+    const { fileName, pdf } = await renderFeeReceiptPdf({
+      id: req.params.receiptId,
+      studentId,
     });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(pdf);
+  } catch (error: any) {
+    next(error);
+  }
+};
 
-    if (!student || !student.feeRecords.length) {
-      return res.status(404).json({ message: "No fee record found." });
+/**
+ * @description List the student's fee concession requests.
+ * @route GET /api/student/concessions
+ */
+export const getConcessionRequests = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { studentId } = await getStudentAuth(req);
+    if (!studentId) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
 
-    const hasOnlinePaymentSetup =
-      student.branch.paymentGatewayPublicKey &&
-      student.branch.paymentGatewaySecretKey;
-
-    const feeRecordId = student.feeRecords[0].id;
+    const requests = await listConcessionRequests({ studentId });
+    res.status(200).json(requests);
+  } catch (error: any) {
+    next(error);
+  }
+};
 
-    // 3. Perform Transaction
-    await prisma.$transaction([
-      prisma.feePayment.create({
-        data: {
-          studentId: targetStudentId,
-          feeRecordId,
-          amount: parseFloat(amount),
-          paidDate: new Date(),
-          transactionId: `MANUAL_${Date.now()}`,
-          details:
-            details ||
-            (hasOnlinePaymentSetup
-              ? "Online Payment (Recorded)"
-              : "Manual Payment"),
-        },
-      }),
-      prisma.feeRecord.update({
-        where: { id: feeRecordId },
-        data: { paidAmount: { increment: parseFloat(amount) } },
-      }),
-    ]);
+/**
+ * @description Apply for a fee concession, with supporting documents.
+ * @route POST /api/student/concessions
+ */
+export const createConcessionRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { studentId, userId } = await getStudentAuth(req);
+    if (!studentId || !userId || !req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
 
-    res.status(200).json({ message: "Fee payment recorded successfully." });
+    const { amount, reason, documentUrls } = req.body;
+    const request = await submitConcessionRequest(
+      studentId,
+      { id: userId, name: req.user.name },
+      { amount, reason, documentUrls }
+    );
+    res.status(201).json(request);
   } catch (error: any) {
     next(error);
   }
 };
 
-export const recordFeePayment = async (
+/**
+ * @description Create a gateway order for the student's outstanding fees.
+ * @route POST /api/student/fees/order
+ */
+export const createFeePaymentOrder = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // Payment Gateway Webhook Logic
-    const { studentId, amount, transactionId, details } = req.body;
+    const { studentId, userId } = await getStudentAuth(req);
+    if (!studentId || !userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    const { feeRecordId, amount } = req.body;
 
-    const student = await prisma.student.findUnique({
-      where: { id: studentId },
-      select: { feeRecords: { orderBy: { dueDate: "asc" }, take: 1 } },
+    const order = await createFeePaymentOrderForRecord({
+      studentId,
+      feeRecordId,
+      amount: amount === undefined ? undefined : parseFloat(amount),
+      createdById: userId,
     });
 
-    if (!student || !student.feeRecords.length) {
-      return res
-        .status(404)
-        .json({ message: "No fee record found for student." });
-    }
-    const feeRecordId = student.feeRecords[0].id;
+    res.status(201).json(order);
+  } catch (error: any) {
+    next(error);
+  }
+};
 
-    await prisma.$transaction([
-      prisma.feePayment.create({
-        data: {
-          studentId,
-          feeRecordId,
-          amount: parseFloat(amount),
-          paidDate: new Date(),
-          transactionId,
-          details: details || "Online Payment",
-        },
-      }),
-      prisma.feeRecord.update({
-        where: { id: feeRecordId },
-        data: { paidAmount: { increment: parseFloat(amount) } },
-      }),
-    ]);
+export const recordFeePayment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // Checkout callback: trust nothing but a valid gateway signature.
+    const { razorpay_order_id, razorpay_payment_id, razorpay_signature } =
+      req.body;
+
+    const result = await verifyAndSettleCheckout({
+      razorpay_order_id,
+      razorpay_payment_id,
+      razorpay_signature,
+    });
 
-    res.status(200).json({ message: "Payment recorded successfully." });
+    res.status(200).json({
+      message: result.alreadySettled
+        ? "Payment was already recorded."
+        : "Payment recorded successfully.",
+    });
   } catch (error: any) {
     next(error);
   }
@@ -1432,11 +1468,27 @@ export const getFeeRecordForStudent = async (
     if (!studentId) {
       return res.status(401).json({ message: "Unauthorized" });
     }
-    const record = await prisma.feeRecord.findFirst({
-      where: { studentId: studentId },
-      include: { payments: true }, // Include payments for history
-    });
-    res.status(200).json(record);
+    const [record, wallet] = await Promise.all([
+      prisma.feeRecord.findFirst({
+        where: { studentId: studentId },
+        orderBy: { createdAt: "desc" }, // Current session's record
+        include: { payments: true, carriedForwardFrom: true }, // Include payments for history
+      }),
+      prisma.student.findUnique({
+        where: { id: studentId },
+        select: {
+          walletBalance: true,
+          walletTransactions: { orderBy: { createdAt: "desc" }, take: 20 },
+        },
+      }),
+    ]);
+    res.status(200).json(
+      record && {
+        ...record,
+        walletBalance: wallet?.walletBalance ?? 0,
+        walletTransactions: wallet?.walletTransactions ?? [],
+      }
+    );
   } catch (error: any) {
     next(error);
   }
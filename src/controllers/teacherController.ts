@@ -2,6 +2,7 @@
 
 import { Request, Response, NextFunction } from "express";
 import prisma from "../prisma";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
 import { put } from "@vercel/blob";
 import {
   Prisma,
@@ -305,8 +306,8 @@ export const getStudentProfile = async (
         },
         room: { select: { roomNumber: true } },
         busStop: { select: { name: true } },
-        parent: true,
-        user: true,
+        parent: { omit: USER_PRIVATE_FIELDS },
+        user: { omit: USER_PRIVATE_FIELDS },
         attendanceRecords: { orderBy: { date: "desc" }, take: 90 },
         grades: { include: { course: { select: { name: true } } } },
         skillAssessments: { orderBy: { assessedAt: "desc" }, take: 1 },
@@ -0,0 +1,136 @@
+// src/controllers/webhookController.ts
+import { Request, Response, NextFunction } from "express";
+import prisma from "../prisma";
+import { verifyWebhookSignature, hmacSha256 } from "../utils/razorpay";
+import { getBranchGateway } from "../services/paymentGatewayService";
+import {
+  settleFeePaymentOrder,
+  markFeePaymentOrderFailed,
+  recordGatewayRefund,
+} from "../services/feePaymentService";
+
+interface RazorpayWebhookBody {
+  event: string;
+  payload: {
+    payment?: {
+      entity: {
+        id: string;
+        order_id: string;
+        error_description?: string;
+      };
+    };
+    refund?: { entity: { id: string; payment_id: string; amount: number } };
+  };
+}
+
+/**
+ * @description Razorpay webhook receiver. The body arrives raw (see app.ts)
+ * because the signature is computed over the exact bytes sent. The secret is
+ * the one configured on the branch that owns the order.
+ * @route POST /api/webhooks/razorpay
+ */
+export const handleRazorpayWebhook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const signature = req.header("x-razorpay-signature");
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : null;
+
+    if (!signature || !rawBody) {
+      return res.status(400).json({ message: "Missing webhook signature." });
+    }
+
+    let body: RazorpayWebhookBody;
+    try {
+      body = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      return res.status(400).json({ message: "Malformed webhook payload." });
+    }
+
+    const payment = body.payload?.payment?.entity;
+    const refund = body.payload?.refund?.entity;
+
+    // Locate the order (and through it, the branch whose secret signs this).
+    const order = payment?.order_id
+      ? await prisma.paymentOrder.findUnique({
+          where: { gatewayOrderId: payment.order_id },
+        })
+      : refund?.payment_id
+      ? await prisma.paymentOrder.findUnique({
+          where: { gatewayPaymentId: refund.payment_id },
+        })
+      : null;
+
+    if (!order) {
+      // Not one of ours; acknowledge so the gateway stops retrying.
+      return res.status(200).json({ status: "ignored" });
+    }
+
+    const { webhookSecret } = await getBranchGateway(order.branchId);
+    if (
+      !webhookSecret ||
+      !verifyWebhookSignature(rawBody, signature, webhookSecret)
+    ) {
+      return res.status(401).json({ message: "Invalid webhook signature." });
+    }
+
+    // Deduplicate redeliveries.
+    const eventId =
+      req.header("x-razorpay-event-id") || hmacSha256(rawBody, "event-id");
+    try {
+      await prisma.paymentWebhookEvent.create({
+        data: {
+          eventId,
+          event: body.event,
+          gatewayOrderId: order.gatewayOrderId,
+          payload: JSON.parse(rawBody.toString("utf8")),
+        },
+      });
+    } catch (error: any) {
+      if (error?.code === "P2002") {
+        return res.status(200).json({ status: "duplicate" });
+      }
+      throw error;
+    }
+
+    // The event row is only kept once handling succeeds; otherwise the
+    // gateway's retry would be acknowledged as a duplicate and never applied.
+    try {
+      switch (body.event) {
+        case "payment.captured":
+          await settleFeePaymentOrder(
+            order.gatewayOrderId,
+            payment!.id,
+            "webhook"
+          );
+          break;
+        case "payment.failed":
+          await markFeePaymentOrderFailed(
+            order.gatewayOrderId,
+            payment?.error_description || "Payment failed at gateway."
+          );
+          break;
+        case "refund.processed":
+          await recordGatewayRefund(
+            refund!.payment_id,
+            refund!.id,
+            refund!.amount / 100
+          );
+          break;
+        default:
+          break;
+      }
+    } catch (error) {
+      await prisma.paymentWebhookEvent
+        .delete({ where: { eventId } })
+        .catch(() => undefined);
+      throw error;
+    }
+
+    res.status(200).json({ status: "ok" });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,101 @@
+// src/jobs/scheduler.ts
+import { pruneAuthSessions } from "../services/authSessionService";
+import { runErpBilling } from "../services/erpBillingService";
+import { runFeeSessionRollover } from "../services/feeSessionRolloverService";
+import { evaluateLateFees } from "../services/lateFeeService";
+import { pruneLoginAttempts } from "../services/loginProtectionService";
+import { pruneOtpChallenges } from "../services/otpService";
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const jobs: ScheduledJob[] = [
+  {
+    name: "late-fee-evaluation",
+    intervalMs:
+      Number(process.env.LATE_FEE_EVALUATION_INTERVAL_HOURS || 24) * HOUR_MS,
+    run: () => evaluateLateFees(),
+  },
+  {
+    name: "erp-billing",
+    intervalMs: Number(process.env.ERP_BILLING_INTERVAL_HOURS || 24) * HOUR_MS,
+    run: () => runErpBilling(),
+  },
+  {
+    name: "fee-session-rollover",
+    intervalMs:
+      Number(process.env.FEE_SESSION_ROLLOVER_INTERVAL_HOURS || 24) * HOUR_MS,
+    run: () => runFeeSessionRollover(),
+  },
+  {
+    name: "auth-session-cleanup",
+    intervalMs:
+      Number(process.env.AUTH_SESSION_CLEANUP_INTERVAL_HOURS || 24) * HOUR_MS,
+    run: async () => ({
+      ...(await pruneAuthSessions()),
+      ...(await pruneOtpChallenges()),
+      ...(await pruneLoginAttempts()),
+    }),
+  },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+// One line of counts, e.g. "chargesPosted=3 amountPosted=150". Lists are
+// logged by their length, so no student, branch or payment id reaches the
+// log.
+const summarize = (result: unknown) =>
+  result && typeof result === "object"
+    ? Object.entries(result)
+        .filter(
+          ([, value]) => typeof value === "number" || Array.isArray(value)
+        )
+        .map(
+          ([key, value]) =>
+            `${key}=${Array.isArray(value) ? value.length : value}`
+        )
+        .join(" ")
+    : "";
+
+/**
+ * Runs each job once shortly after boot and then on its interval. A job that
+ * is still running when its next tick comes round is skipped, not stacked.
+ * Set DISABLE_SCHEDULED_JOBS=true on extra instances so jobs run only once.
+ */
+export const startScheduledJobs = () => {
+  if (process.env.DISABLE_SCHEDULED_JOBS === "true") {
+    console.log("Scheduled jobs disabled.");
+    return;
+  }
+
+  for (const job of jobs) {
+    let running = false;
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const result = await job.run();
+        console.log(
+          `[job:${job.name}] completed ${summarize(result)}`.trimEnd()
+        );
+      } catch (error) {
+        console.error(`[job:${job.name}] failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    timers.push(setTimeout(tick, 60 * 1000));
+    timers.push(setInterval(tick, job.intervalMs));
+  }
+};
+
+export const stopScheduledJobs = () => {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers.length = 0;
+};
@@ -6,6 +6,26 @@ interface AuthenticatedRequest extends Request {
   user?: { id: string; name: string; role: UserRole; branchId: string | null };
 }
 
+// Request body fields that must never be written to the audit log.
+const REDACTED_FIELDS = [
+  "password",
+  "currentPassword",
+  "newPassword",
+  "refreshToken",
+  "token",
+  "otp",
+  "totpCode",
+  "backupCode",
+];
+
+const redact = (body: Record<string, unknown>) => {
+  const copy = { ...body };
+  for (const field of REDACTED_FIELDS) {
+    if (field in copy) copy[field] = "[REDACTED]";
+  }
+  return copy;
+};
+
 export const auditLogMiddleware = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -36,7 +56,7 @@ export const auditLogMiddleware = async (
 
           action: `${method} ${originalUrl}`,
           statusCode: statusCode,
-          details: body ? { requestBody: body } : undefined,
+          details: body ? { requestBody: redact(body) } : undefined,
         },
       });
     } catch (error) {
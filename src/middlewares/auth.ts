@@ -1,13 +1,20 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
-import prisma from "../prisma"; // Import your Prisma client
 import { UserRole } from "../types/api";
+import {
+  getActiveSession,
+  isUserActive,
+  resolveSessionUser,
+  verifyAccessToken,
+} from "../services/authSessionService";
+import { isTwoFactorRequired } from "../services/twoFactorService";
 
 export interface UserPayload {
   id: string;
   name: string;
   role: UserRole;
   branchId: string | null;
+  // The AuthSession the access token belongs to.
+  sessionId?: string;
 }
 
 declare global {
@@ -18,9 +25,21 @@ declare global {
   }
 }
 
-const JWT_SECRET =
-  process.env.JWT_SECRET ||
-  "Lq9w1fe&hbA//=r5H%l=+WSG*^7@j@Ncw7+B!mp=m@t^Qi^CNaf@uKBf@vu2fiJv@$ih$oQRcpLlo%gJ2de7tT!C*/GY$Lp5yyfpDPyQAJnZkn/7zHNeTd16S6COSpMW";
+// What a user with a temporary password may still do.
+const PASSWORD_CHANGE_ROUTES = [
+  "/api/auth/change-password",
+  "/api/auth/logout",
+  "/api/auth/session",
+];
+
+// What a user who must set up an authenticator app may still do.
+const TWO_FACTOR_SETUP_ROUTES = [
+  "/api/auth/2fa",
+  "/api/auth/2fa/setup",
+  "/api/auth/2fa/confirm",
+  "/api/auth/logout",
+  "/api/auth/session",
+];
 
 export const protect = async (
   req: Request,
@@ -38,41 +57,52 @@ export const protect = async (
 
   try {
     // 1. Verify the token
-    const decoded = jwt.verify(token, JWT_SECRET) as UserPayload;
-
-    // 2. Find the user in the REAL database
-    const currentUser = await prisma.user.findUnique({
-      where: { id: decoded.id },
-    });
+    const decoded = verifyAccessToken(token);
 
-    if (!currentUser) {
+    // 2. The session must still be open. Tokens issued before sessions
+    // existed carry no session id and are no longer accepted.
+    if (!decoded.sid) {
       return res
         .status(401)
-        .json({ message: "User for this token no longer exists." });
+        .json({ message: "Session has expired. Please sign in again." });
+    }
+    const session = await getActiveSession(decoded.sid);
+    if (!session || session.userId !== decoded.id) {
+      return res
+        .status(401)
+        .json({ message: "Session has been revoked. Please sign in again." });
     }
 
-    let userBranchId: string | null = currentUser.branchId;
-
-    // If the user is a Principal, their branchId is on the User table is null.
-    // We must find the branch they are the principal OF.
-    if (currentUser.role === "Principal") {
-      const branch = await prisma.branch.findUnique({
-        where: { principalId: currentUser.id },
-        select: { id: true },
+    // 3. The user must still be allowed in.
+    const currentUser = session.user;
+    if (!isUserActive(currentUser)) {
+      return res.status(403).json({ message: "User account is not active." });
+    }
+    if (
+      currentUser.mustChangePassword &&
+      !PASSWORD_CHANGE_ROUTES.includes(req.baseUrl + req.path)
+    ) {
+      return res.status(403).json({
+        message: "Please change your temporary password to continue.",
+        code: "PASSWORD_CHANGE_REQUIRED",
+      });
+    }
+    if (
+      !currentUser.totpEnabledAt &&
+      !TWO_FACTOR_SETUP_ROUTES.includes(req.baseUrl + req.path) &&
+      (await isTwoFactorRequired(currentUser))
+    ) {
+      return res.status(403).json({
+        message: "Please set up an authenticator app to continue.",
+        code: "TWO_FACTOR_SETUP_REQUIRED",
       });
-
-      // If a branch is found, set this as their branchId for this request
-      if (branch) {
-        userBranchId = branch.id;
-      }
     }
 
-    // 3. Attach the user payload to the request object
+    // 4. Attach the user payload to the request object. A principal's
+    // branch is the one they run, not the (null) branchId on their user.
     req.user = {
-      id: currentUser.id,
-      name: currentUser.name,
-      role: currentUser.role,
-      branchId: userBranchId, // Use the new role-aware variable
+      ...(await resolveSessionUser(currentUser)),
+      sessionId: session.id,
     };
 
     next();
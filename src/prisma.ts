@@ -14,3 +14,8 @@ import { withAccelerate } from "@prisma/extension-accelerate";
 const prisma = new PrismaClient().$extends(withAccelerate());
 
 export default prisma;
+
+// The client handed to interactive `prisma.$transaction(async (tx) => ...)` callbacks.
+export type PrismaTransactionClient = Parameters<
+  Extract<Parameters<typeof prisma.$transaction>[0], Function>
+>[0];
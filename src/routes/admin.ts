@@ -27,12 +27,21 @@ router.patch("/branches/:id/status", adminController.updateBranchStatus);
 router.patch("/branches/:id/details", adminController.updateBranchDetails);
 router.get("/users", adminController.getAllUsers);
 router.post("/users/:id/reset-password", adminController.resetUserPassword);
+router.post("/users/:id/unlock", adminController.unlockUser);
 router.get("/principal-queries", adminController.getPrincipalQueries);
 router.post(
   "/principal-queries/:id/resolve",
   adminController.resolvePrincipalQuery
 );
 router.patch("/users/:id/assign-branch", adminController.assignBranchToUser);
+router.get(
+  "/manual-expense-requests",
+  adminController.getManualExpenseRequests
+);
+router.post(
+  "/manual-expense-requests/:id/review",
+  adminController.reviewManualExpense
+);
 // --- SUPERADMIN EXCLUSIVE ROUTES ---
 // The 'restrictTo' middleware here adds a second, inner guard. Only a SuperAdmin can pass.
 router.get(
@@ -50,6 +59,21 @@ router.get(
   restrictTo("SuperAdmin"),
   adminController.getSystemWideFinancials
 );
+router.get(
+  "/reports/financial/:report",
+  restrictTo("SuperAdmin"),
+  adminController.getFinancialReport
+);
+router.put(
+  "/branches/:id/two-factor-policy",
+  restrictTo("SuperAdmin"),
+  adminController.updateBranchTwoFactorPolicy
+);
+router.delete(
+  "/users/:id/two-factor",
+  restrictTo("SuperAdmin"),
+  adminController.resetUserTwoFactor
+);
 router.get(
   "/analytics",
   restrictTo("SuperAdmin"),
@@ -86,6 +110,46 @@ router.post(
   restrictTo("SuperAdmin"),
   adminController.recordManualErpPayment
 );
+router.get(
+  "/erp-invoices",
+  restrictTo("SuperAdmin"),
+  adminController.getErpInvoices
+);
+router.post(
+  "/erp-invoices/generate",
+  restrictTo("SuperAdmin"),
+  adminController.generateErpInvoices
+);
+router.post(
+  "/erp-invoices/:id/void",
+  restrictTo("SuperAdmin"),
+  adminController.voidErpInvoice
+);
+router.get(
+  "/erp-invoices/:id/pdf",
+  restrictTo("SuperAdmin"),
+  adminController.downloadErpInvoice
+);
+router.post(
+  "/erp-invoices/:id/credit-notes",
+  restrictTo("SuperAdmin"),
+  adminController.createErpCreditNote
+);
+router.get(
+  "/erp-credit-notes",
+  restrictTo("SuperAdmin"),
+  adminController.getErpCreditNotes
+);
+router.get(
+  "/erp-credit-notes/:id/pdf",
+  restrictTo("SuperAdmin"),
+  adminController.downloadErpCreditNote
+);
+router.get(
+  "/gst/gstr1",
+  restrictTo("SuperAdmin"),
+  adminController.getGstr1Report
+);
 router.get(
   "/erp-financials",
   restrictTo("SuperAdmin"),
@@ -3,10 +3,22 @@ import { Router } from "express";
 import {
   login,
   verifyOtp,
+  resendOtp,
   registerSchool,
   logout,
+  logoutAllDevices,
+  refreshToken,
+  getSessions,
+  getLoginHistory,
   checkSession,
   changePassword,
+  forgotPassword,
+  resetPassword,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateBackupCodes,
 } from "../controllers/authController";
 import { protect } from "../middlewares/auth";
 
@@ -15,11 +27,25 @@ const router = Router();
 // Public routes
 router.post("/login", login);
 router.post("/verify-otp", verifyOtp);
+router.post("/resend-otp", resendOtp);
 router.post("/register-school", registerSchool);
+router.post("/refresh", refreshToken);
+router.post("/forgot-password", forgotPassword);
+router.post("/reset-password", resetPassword);
 
 // Protected routes (require a valid token)
 router.post("/logout", protect, logout);
+router.post("/logout-all", protect, logoutAllDevices);
+router.get("/sessions", protect, getSessions);
+router.get("/login-history", protect, getLoginHistory);
 router.get("/session", protect, checkSession);
 router.post("/change-password", protect, changePassword);
 
+// Authenticator app (TOTP) second factor
+router.get("/2fa", protect, getTwoFactorStatus);
+router.post("/2fa/setup", protect, setupTwoFactor);
+router.post("/2fa/confirm", protect, confirmTwoFactor);
+router.post("/2fa/disable", protect, disableTwoFactor);
+router.post("/2fa/backup-codes", protect, regenerateBackupCodes);
+
 export default router;
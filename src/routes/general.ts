@@ -12,9 +12,15 @@ router.get("/teachers", generalCtrl.getTeachersByBranch);
 router.get("/leaves/settings", generalCtrl.getLeaveSettingsForBranch);
 router.get("/leaves/my-applications", generalCtrl.getMyLeaveApplications);
 router.post("/leaves/applications", generalCtrl.createLeaveApplication);
+router.get("/notifications", generalCtrl.getMyNotifications);
+router.post("/notifications/:id/read", generalCtrl.markMyNotificationRead);
+router.get("/payslips", generalCtrl.getMyPayslips);
+router.get("/payslips/:id/pdf", generalCtrl.downloadMyPayslip);
 router.get("/classes", generalCtrl.getSchoolClassesByBranch);
 router.get("/library/search", generalCtrl.searchLibraryBooks);
 router.put("/profile", generalCtrl.updateProfile);
+router.get("/profile/bank-account", generalCtrl.getMyBankAccount);
+router.put("/profile/bank-account", generalCtrl.updateMyBankAccount);
 router.get("/subjects", generalCtrl.getSubjectsByBranch);
 router.get("/branches/:id", generalCtrl.getBranch);
 router.get("/users/:id", generalCtrl.getUser);
@@ -7,7 +7,6 @@ const router = Router();
 router.use(protect);
 
 router.post("/fees/record-payment", parentController.recordFeePayment);
-router.post("/children/:id/fees/pay", parentController.payStudentFees);
 
 router.use(restrictTo('Parent'));
 // --- Dashboard & Child Data ---
@@ -18,6 +17,11 @@ router.get('/children/:id/fees/history', parentController.getFeeHistoryForStuden
 router.get('/children/:id/teachers', parentController.getTeachersForStudent);
 router.get('/children/:id/grades', parentController.getStudentGrades);
 router.get('/children/:id/fees/record', parentController.getFeeRecordForStudent);
+router.post('/children/:id/fees/order', parentController.createFeePaymentOrder);
+router.get('/children/:id/fees/receipts', parentController.getFeeReceiptsForStudent);
+router.get('/children/:id/fees/receipts/:receiptId/pdf', parentController.downloadFeeReceipt);
+router.get('/children/:id/concessions', parentController.getConcessionRequestsForStudent);
+router.post('/children/:id/concessions', parentController.createConcessionRequest);
 
 // --- Communication ---
 router.get('/meetings', parentController.getMeetingRequestsForParent);
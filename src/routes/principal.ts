@@ -4,6 +4,7 @@ import { Router } from "express";
 import * as principalController from "../controllers/principalController";
 import { protect } from "../middlewares/auth";
 import { restrictTo } from "../middlewares/roles";
+import upload from "../middlewares/upload";
 
 const router = Router();
 
@@ -15,6 +16,10 @@ router.use(restrictTo("Principal"));
 router.get("/dashboard", principalController.getPrincipalDashboardData);
 router.get("/branch", principalController.getBranchDetails);
 router.patch("/branch-details", principalController.updateBranchDetails);
+router.post(
+  "/payment-gateway/test-connection",
+  principalController.testPaymentGatewayConnection
+);
 router.post(
   "/profile/request-otp",
   principalController.requestProfileAccessOtp
@@ -50,6 +55,7 @@ router.get(
 );
 
 router.post("/users/:id/reset-password", principalController.resetUserPassword);
+router.post("/users/:id/unlock", principalController.unlockUser);
 
 
 // --- Student Management ---
@@ -101,17 +107,149 @@ router.post("/examinations/:id/send-sms", principalController.sendResultsSms);
 // --- Financials ---
 router.get("/financials-overview", principalController.getFinancialsOverview);
 router.post("/fee-adjustment", principalController.addFeeAdjustment);
+router.get("/late-fee-rules", principalController.getLateFeeRules);
+router.post("/late-fee-rules", principalController.createLateFeeRule);
+router.patch("/late-fee-rules/:id", principalController.updateLateFeeRule);
+router.delete("/late-fee-rules/:id", principalController.deleteLateFeeRule);
+router.get("/late-fees", principalController.getLateFeeCharges);
+router.post("/late-fees/evaluate", principalController.runLateFeeEvaluation);
+router.post("/late-fees/:id/waive", principalController.waiveLateFeeCharge);
+router.get("/fee-discount-rules", principalController.getFeeDiscountRules);
+router.post("/fee-discount-rules", principalController.createFeeDiscountRule);
+router.patch(
+  "/fee-discount-rules/:id",
+  principalController.updateFeeDiscountRule
+);
+router.delete(
+  "/fee-discount-rules/:id",
+  principalController.deleteFeeDiscountRule
+);
+router.get("/fee-discounts", principalController.getFeeDiscountApplications);
+router.post(
+  "/fee-discounts/evaluate",
+  principalController.runFeeDiscountEvaluation
+);
+router.post(
+  "/academic-session/start",
+  principalController.startNewAcademicSession
+);
 router.get("/payroll/:month", principalController.getStaffPayrollForMonth);
+router.get("/payroll/:month/runs", principalController.getPayrollRuns);
+router.post("/payroll/:month/lock", principalController.lockPayroll);
 router.post("/payroll/process", principalController.processPayroll);
+router.get(
+  "/payroll/records/:id/payslip",
+  principalController.downloadPayslip
+);
+router.get("/payroll/:month/payouts", principalController.getPayoutBatches);
+router.post("/payroll/:month/payouts", principalController.createPayoutBatch);
+router.get("/payroll-payouts/formats", principalController.getPayoutFormats);
+router.get(
+  "/payroll-payouts/:id/file",
+  principalController.downloadPayoutFile
+);
+router.post(
+  "/payroll-payouts/:id/response",
+  upload.single("file"),
+  principalController.importPayoutResponse
+);
+router.get("/staff/:id/bank-account", principalController.getStaffBankAccount);
+router.put(
+  "/staff/:id/bank-account",
+  principalController.updateStaffBankAccount
+);
+router.get(
+  "/payroll/:month/statutory",
+  principalController.getPayrollStatutoryReport
+);
+router.get("/salary-structures", principalController.getSalaryStructures);
+router.put(
+  "/salary-structures/:staffId",
+  principalController.saveSalaryStructure
+);
+router.delete(
+  "/salary-structures/:staffId",
+  principalController.deleteSalaryStructure
+);
+router.get(
+  "/payroll-settings/statutory",
+  principalController.getPayrollStatutorySettings
+);
+router.patch(
+  "/payroll-settings/statutory",
+  principalController.updatePayrollStatutorySettings
+);
 router.post(
   "/salary-adjustment",
   principalController.addManualSalaryAdjustment
 );
 router.get("/erp-financials", principalController.getErpFinancialsForBranch);
 router.get("/erp/payments", principalController.getErpPaymentsForBranch);
+router.get("/erp/invoices", principalController.getErpInvoices);
+router.get("/erp/invoices/:id/pdf", principalController.downloadErpInvoice);
+router.get(
+  "/erp/credit-notes/:id/pdf",
+  principalController.downloadErpCreditNote
+);
 router.post("/erp-bill/pay", principalController.payErpBill);
+router.get(
+  "/cash-counter/sessions",
+  principalController.getCashCounterSessions
+);
+router.post(
+  "/cash-counter/sessions/:id/sign-off",
+  principalController.signOffCashCounter
+);
+router.get("/cash-counter/day-book", principalController.getCashCounterDayBook);
 router.get("/manual-expenses", principalController.getManualExpenses);
-router.post("/manual-expenses", principalController.addManualExpense);
+router.post(
+  "/manual-expenses",
+  upload.single("receipt"),
+  principalController.addManualExpense
+);
+router.post(
+  "/manual-expenses/:id/receipt",
+  upload.single("receipt"),
+  principalController.uploadManualExpenseReceipt
+);
+router.get(
+  "/manual-expense-requests",
+  principalController.getManualExpenseRequests
+);
+router.get("/expense-categories", principalController.getExpenseCategories);
+router.post("/expense-categories", principalController.createExpenseCategory);
+router.post(
+  "/expense-categories/:id/archive",
+  principalController.archiveExpenseCategory
+);
+router.get("/expense-budgets", principalController.getExpenseBudgets);
+router.put("/expense-budgets", principalController.setExpenseBudget);
+router.delete("/expense-budgets/:id", principalController.deleteExpenseBudget);
+router.get(
+  "/expense-budgets/variance",
+  principalController.getExpenseBudgetVariance
+);
+router.get("/ledger/accounts", principalController.getLedgerAccounts);
+router.post("/ledger/accounts", principalController.createLedgerAccount);
+router.get("/ledger/trial-balance", principalController.getLedgerTrialBalance);
+router.get(
+  "/ledger/income-statement",
+  principalController.getLedgerIncomeStatement
+);
+router.get("/ledger/cash-book", principalController.getLedgerCashBook);
+router.post("/ledger/sync", principalController.syncLedger);
+router.get(
+  "/reports/financial/:report",
+  principalController.getFinancialReport
+);
+router.get(
+  "/security/two-factor-policy",
+  principalController.getTwoFactorPolicy
+);
+router.put(
+  "/security/two-factor-policy",
+  principalController.updateTwoFactorPolicy
+);
 
 router.get(
   "/examinations",
@@ -133,6 +271,22 @@ router.post(
   "/requests/fees/:id/process",
   principalController.processFeeRectificationRequest
 );
+router.get(
+  "/requests/refunds",
+  principalController.getFeeRefundRequestsByBranch
+);
+router.post(
+  "/requests/refunds/:id/process",
+  principalController.processFeeRefundRequest
+);
+router.get(
+  "/requests/concessions",
+  principalController.getConcessionRequestsByBranch
+);
+router.post(
+  "/requests/concessions/:id/process",
+  principalController.processConcessionRequest
+);
 router.get(
   "/requests/attendance",
   principalController.getTeacherAttendanceRectificationRequestsByBranch
@@ -3,6 +3,7 @@ import { Router } from "express";
 import * as registrarController from "../controllers/registrarController";
 import { protect } from "../middlewares/auth";
 import { restrictTo } from "../middlewares/roles";
+import upload from "../middlewares/upload";
 
 const router = Router();
 
@@ -63,6 +64,10 @@ router.get(
   "/students/:studentId/profile",
   registrarController.getStudentProfileDetails
 );
+router.get(
+  "/students/:studentId/facility-charges",
+  registrarController.getStudentFacilityCharges
+);
 
 // --- Academic Record Routes ---
 router.get(
@@ -219,6 +224,63 @@ router.get(
   registrarController.getFeeCollectionOverview
 );
 router.post("/fees/collect", registrarController.collectFeePayment);
+router.get("/fees/receipts", registrarController.getFeeReceipts);
+router.get(
+  "/fees/receipts/:receiptId/pdf",
+  registrarController.downloadFeeReceipt
+);
+router.post(
+  "/fees/receipts/:receiptId/void",
+  registrarController.voidReceipt
+);
+router.get(
+  "/fees/refund-requests",
+  registrarController.getFeeRefundRequests
+);
+router.post("/fees/refund-requests", registrarController.requestFeeRefund);
+router.post(
+  "/fees/session-rollover",
+  registrarController.rollOverFeeSessionForBranch
+);
+router.get("/fees/carry-forwards", registrarController.getFeeCarryForwards);
+router.get(
+  "/students/:studentId/wallet",
+  registrarController.getStudentWalletForRegistrar
+);
+
+// --- Cash Counter ---
+router.get("/cash-counter", registrarController.getMyCashCounter);
+router.post("/cash-counter/open", registrarController.openCashCounter);
+router.post("/cash-counter/close", registrarController.closeCashCounter);
+router.get(
+  "/cash-counter/sessions",
+  registrarController.getMyCashCounterSessions
+);
+router.get("/cash-counter/day-book", registrarController.getCashCounterDayBook);
+
+// --- Bank Reconciliation ---
+router.get("/bank-statements", registrarController.getBankStatements);
+router.post(
+  "/bank-statements",
+  upload.single("file"),
+  registrarController.uploadBankStatement
+);
+router.get(
+  "/bank-statements/lines",
+  registrarController.getBankStatementLines
+);
+router.post(
+  "/bank-statements/auto-match",
+  registrarController.autoMatchBankStatement
+);
+router.post(
+  "/bank-statements/lines/:lineId/match",
+  registrarController.matchBankStatementLine
+);
+router.get(
+  "/bank-statements/reconciliation-report",
+  registrarController.getReconciliationReport
+);
 // --- Attendance ---
 router.get(
   "/classes/:classId/attendance",
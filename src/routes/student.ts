@@ -14,14 +14,18 @@ router.get(
   studentController.getFeeRecordForStudent
 );
 
-router.post(
-  "/fees/record-payment",
-  studentController.recordFeePayment
+router.post("/fees/order", studentController.createFeePaymentOrder);
+router.get("/fees/receipts", studentController.getFeeReceipts);
+router.get(
+  "/fees/receipts/:receiptId/pdf",
+  studentController.downloadFeeReceipt
 );
+router.get("/concessions", studentController.getConcessionRequests);
+router.post("/concessions", studentController.createConcessionRequest);
 
 router.post(
-  "/pay-fees",
-  studentController.payStudentFees
+  "/fees/record-payment",
+  studentController.recordFeePayment
 );
 
 // ==================================================================
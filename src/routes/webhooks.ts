@@ -0,0 +1,15 @@
+// src/routes/webhooks.ts
+import express, { Router } from "express";
+import * as webhookController from "../controllers/webhookController";
+
+const router = Router();
+
+// Gateways sign the exact bytes they send, so these routes must see the raw
+// body. This router is mounted before express.json() in app.ts.
+router.post(
+  "/razorpay",
+  express.raw({ type: "application/json" }),
+  webhookController.handleRazorpayWebhook
+);
+
+export default router;
@@ -5,6 +5,7 @@ import http from "http";
 import { Request, Response, NextFunction } from "express";
 import app from "./app";
 import prisma from "./prisma";
+import { startScheduledJobs, stopScheduledJobs } from "./jobs/scheduler";
 
 const PORT = process.env.PORT ? Number(process.env.PORT) : 8080;
 
@@ -23,10 +24,12 @@ async function startServer() {
 
     server.listen(PORT, "0.0.0.0", () => {
       console.log(`🚀 Verticx backend running on port ${PORT}`);
+      startScheduledJobs();
     });
 
     const gracefulShutdown = (signal: string) => {
       console.log(`\n Received ${signal}. Shutting down gracefully...`);
+      stopScheduledJobs();
       server.close(async (err?: Error) => {
         if (err) {
           console.error("Error while closing server:", err);
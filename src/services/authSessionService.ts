@@ -0,0 +1,264 @@
+// src/services/authSessionService.ts
+import { createHash, randomBytes } from "crypto";
+import jwt from "jsonwebtoken";
+import prisma from "../prisma";
+import { UserRole } from "../types/api";
+import { HttpError } from "../utils/httpError";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
+import { notifyUser } from "./notificationService";
+
+const JWT_SECRET =
+  process.env.JWT_SECRET ||
+  "Lq9w1fe&hbA//=r5H%l=+WSG*^7@j@Ncw7+B!mp=m@t^Qi^CNaf@uKBf@vu2fiJv@$ih$oQRcpLlo%gJ2de7tT!C*/GY$Lp5yyfpDPyQAJnZkn/7zHNeTd16S6COSpMW";
+
+const ACCESS_TOKEN_TTL_SECONDS =
+  Number(process.env.ACCESS_TOKEN_TTL_MINUTES || 15) * 60;
+const REFRESH_TOKEN_TTL_MS =
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+// Revoked and expired sessions are kept this long for the session list.
+const SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: UserRole;
+  branchId: string | null;
+}
+
+/** Claims of an access token. `sid` is the AuthSession it belongs to. */
+export interface AccessTokenPayload extends SessionUser {
+  sid: string;
+}
+
+export interface ClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+const signAccessToken = (user: SessionUser, sessionId: string) => {
+  const payload: AccessTokenPayload = {
+    id: user.id,
+    name: user.name,
+    role: user.role,
+    branchId: user.branchId,
+    sid: sessionId,
+  };
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
+};
+
+export const verifyAccessToken = (token: string) =>
+  jwt.verify(token, JWT_SECRET) as Partial<AccessTokenPayload>;
+
+const issueRefreshToken = async (sessionId: string) => {
+  const refreshToken = randomBytes(48).toString("base64url");
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+  await prisma.refreshToken.create({
+    data: { sessionId, tokenHash: hashToken(refreshToken), expiresAt },
+  });
+  await prisma.authSession.update({
+    where: { id: sessionId },
+    data: { expiresAt, lastUsedAt: new Date() },
+  });
+  return { refreshToken, refreshTokenExpiresAt: expiresAt };
+};
+
+const tokensFor = async (user: SessionUser, sessionId: string) => ({
+  token: signAccessToken(user, sessionId),
+  expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  ...(await issueRefreshToken(sessionId)),
+});
+
+/**
+ * Opens a session for a user who has just proved who they are and returns
+ * its first access and refresh tokens.
+ */
+export const startSession = async (user: SessionUser, client: ClientInfo) => {
+  const session = await prisma.authSession.create({
+    data: {
+      userId: user.id,
+      userAgent: client.userAgent?.slice(0, 255) || null,
+      ipAddress: client.ipAddress || null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+  return { sessionId: session.id, ...(await tokensFor(user, session.id)) };
+};
+
+/** Resolves the branch a user acts for: a principal's is the one they run. */
+export const resolveSessionUser = async (user: {
+  id: string;
+  name: string;
+  role: UserRole;
+  branchId: string | null;
+}): Promise<SessionUser> => {
+  let branchId = user.branchId;
+  if (user.role === "Principal") {
+    const branch = await prisma.branch.findUnique({
+      where: { principalId: user.id },
+      select: { id: true },
+    });
+    if (branch) branchId = branch.id;
+  }
+  return { id: user.id, name: user.name, role: user.role, branchId };
+};
+
+export const isUserActive = (user: { status: string | null }) =>
+  !user.status || user.status === "active";
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * A refresh token that was already used means it was copied: the whole
+ * session is revoked, so both the thief and the owner must sign in again.
+ */
+export const refreshSession = async (
+  refreshToken: unknown,
+  client: ClientInfo
+) => {
+  if (typeof refreshToken !== "string" || !refreshToken) {
+    throw new HttpError(400, "refreshToken is required.");
+  }
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: {
+      session: { include: { user: { omit: USER_PRIVATE_FIELDS } } },
+    },
+  });
+  if (!stored) {
+    throw new HttpError(401, "Invalid refresh token.");
+  }
+  const { session } = stored;
+
+  if (stored.usedAt) {
+    if (!session.revokedAt) {
+      await revokeSession(session.id, "refresh_token_reuse");
+      await prisma.auditLog.create({
+        data: {
+          actorId: session.userId,
+          actorName: session.user.name,
+          actorRole: session.user.role,
+          action: "REFRESH_TOKEN_REUSE",
+          targetId: session.id,
+          targetType: "AuthSession",
+          statusCode: 401,
+          details: {
+            ipAddress: client.ipAddress ?? null,
+            userAgent: client.userAgent ?? null,
+          },
+        },
+      });
+      await notifyUser(session.userId, {
+        title: "Suspicious sign-in activity",
+        message:
+          "An old sign-in token for your account was used again, so that device has been signed out. If this wasn't you, change your password.",
+        type: "security",
+      });
+    }
+    throw new HttpError(401, "Session has been revoked. Please sign in again.");
+  }
+  if (session.revokedAt || stored.expiresAt <= new Date()) {
+    throw new HttpError(401, "Session has expired. Please sign in again.");
+  }
+  if (!isUserActive(session.user)) {
+    await revokeSession(session.id, "user_inactive");
+    throw new HttpError(403, "User account is not active.");
+  }
+
+  // Claim the token; a concurrent refresh with the same token loses here.
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new HttpError(401, "Refresh token has already been used.");
+  }
+  if (client.ipAddress && client.ipAddress !== session.ipAddress) {
+    await prisma.authSession.update({
+      where: { id: session.id },
+      data: { ipAddress: client.ipAddress },
+    });
+  }
+
+  const user = await resolveSessionUser(session.user);
+  return { user, ...(await tokensFor(user, session.id)) };
+};
+
+/**
+ * The session behind an access token, or null when it has been revoked or
+ * has run out. Used by `protect` on every request.
+ */
+export const getActiveSession = async (sessionId: string) => {
+  const session = await prisma.authSession.findUnique({
+    where: { id: sessionId },
+    include: { user: { omit: USER_PRIVATE_FIELDS } },
+  });
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+  return session;
+};
+
+export const revokeSession = (sessionId: string, reason: string) =>
+  prisma.authSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+/**
+ * Signs a user out everywhere, optionally keeping the session making the
+ * request. Returns how many sessions were ended.
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+) => {
+  const result = await prisma.authSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count;
+};
+
+/** A user's signed-in devices, most recently used first. */
+export const listActiveSessions = async (
+  userId: string,
+  currentSessionId?: string
+) => {
+  const sessions = await prisma.authSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: "desc" },
+  });
+  return sessions.map((session) => ({
+    ...session,
+    current: session.id === currentSessionId,
+  }));
+};
+
+/** Removes sessions that ended more than a retention period ago. */
+export const pruneAuthSessions = async () => {
+  const cutoff = new Date(Date.now() - SESSION_RETENTION_MS);
+  const result = await prisma.authSession.deleteMany({
+    where: {
+      OR: [{ revokedAt: { lt: cutoff } }, { expiresAt: { lt: cutoff } }],
+    },
+  });
+  return { sessionsDeleted: result.count };
+};
@@ -0,0 +1,649 @@
+// src/services/bankPayoutService.ts
+import crypto from "crypto";
+import prisma from "../prisma";
+import { parseCsvRecords, toCsv } from "../utils/csv";
+import { decryptSecret, encryptSecret } from "../utils/encryption";
+import { HttpError } from "../utils/httpError";
+import { postPayrollPayment } from "./ledgerService";
+
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const ACCOUNT_PATTERN = /^\d{9,18}$/;
+// RBI: RTGS is for transfers of two lakh rupees and above.
+const RTGS_MINIMUM = 200000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// --- Staff bank accounts ---
+
+export const toPublicBankAccount = (
+  account: {
+    accountHolderName: string;
+    accountLast4: string;
+    ifsc: string;
+    bankName: string | null;
+    updatedAt: Date;
+  } | null
+) =>
+  account && {
+    accountHolderName: account.accountHolderName,
+    accountNumber: `XXXX${account.accountLast4}`,
+    ifsc: account.ifsc,
+    bankName: account.bankName,
+    updatedAt: account.updatedAt,
+  };
+
+export const getStaffBankAccount = async (userId: string) =>
+  toPublicBankAccount(
+    await prisma.staffBankAccount.findUnique({ where: { userId } })
+  );
+
+/**
+ * Sets where a staff member's salary is paid. Every change is audit logged,
+ * since it redirects money.
+ */
+export const saveStaffBankAccount = async (
+  userId: string,
+  input: {
+    accountHolderName?: string;
+    accountNumber?: string;
+    ifsc?: string;
+    bankName?: string;
+  },
+  actor: { id: string; name: string; role: string }
+) => {
+  const accountNumber = String(input.accountNumber ?? "").replace(/\s/g, "");
+  const ifsc = String(input.ifsc ?? "")
+    .trim()
+    .toUpperCase();
+  if (!input.accountHolderName?.trim()) {
+    throw new HttpError(400, "accountHolderName is required.");
+  }
+  if (!ACCOUNT_PATTERN.test(accountNumber)) {
+    throw new HttpError(400, "accountNumber must be 9 to 18 digits.");
+  }
+  if (!IFSC_PATTERN.test(ifsc)) {
+    throw new HttpError(400, "ifsc is not a valid IFSC code.");
+  }
+
+  const data = {
+    accountHolderName: input.accountHolderName.trim(),
+    accountNumber: encryptSecret(accountNumber),
+    accountLast4: accountNumber.slice(-4),
+    ifsc,
+    bankName: input.bankName?.trim() || null,
+    updatedByName: actor.name,
+  };
+  const account = await prisma.staffBankAccount.upsert({
+    where: { userId },
+    create: { ...data, userId },
+    update: data,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: actor.id,
+      actorName: actor.name,
+      actorRole: actor.role,
+      action: "STAFF_BANK_ACCOUNT_UPDATE",
+      targetId: userId,
+      targetType: "User",
+      statusCode: 200,
+      details: { ifsc, accountLast4: data.accountLast4 },
+    },
+  });
+  return toPublicBankAccount(account);
+};
+
+// --- File formats ---
+
+export interface PayoutLine {
+  reference: string;
+  beneficiaryName: string;
+  accountNumber: string;
+  ifsc: string;
+  amount: number;
+  mode: "NEFT" | "RTGS";
+  email: string | null;
+  narration: string;
+}
+
+export interface PayoutResponseLine {
+  reference?: string;
+  accountNumber?: string;
+  amount?: number;
+  status: "paid" | "failed" | "pending";
+  utr?: string;
+  reason?: string;
+}
+
+export interface PayoutFileContext {
+  debitAccount: string;
+  paymentDate: Date;
+}
+
+/**
+ * A bank's bulk-upload layout. `render` writes the upload file;
+ * `parseResponse` reads the bank's status (MIS) file for it back.
+ */
+export interface BankPayoutFormatter {
+  id: string;
+  label: string;
+  render(lines: PayoutLine[], context: PayoutFileContext): string;
+  parseResponse(content: string): PayoutResponseLine[];
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const ddmmyyyy = (date: Date, separator: string) =>
+  [pad(date.getDate()), pad(date.getMonth() + 1), date.getFullYear()].join(
+    separator
+  );
+
+const PAID_STATUSES = [
+  "success",
+  "successful",
+  "paid",
+  "processed",
+  "completed",
+  "executed",
+  "credited",
+];
+const FAILED_STATUSES = [
+  "failed",
+  "failure",
+  "rejected",
+  "returned",
+  "cancelled",
+];
+
+/**
+ * Reads a response file by looking for the usual column names in each
+ * bank's status report, so most layouts parse without their own code.
+ */
+const parseResponseColumns = (
+  content: string,
+  columns: {
+    reference: string[];
+    status: string[];
+    utr: string[];
+    reason: string[];
+    account: string[];
+    amount: string[];
+  }
+): PayoutResponseLine[] =>
+  parseCsvRecords(content).map((row) => {
+    const pick = (names: string[]) =>
+      names.map((n) => row[n]).find((v) => v !== undefined && v !== "");
+    const status = (pick(columns.status) || "").toLowerCase();
+    const amount = Number(String(pick(columns.amount) ?? "").replace(/,/g, ""));
+    return {
+      reference: pick(columns.reference),
+      accountNumber: pick(columns.account)?.replace(/\s/g, ""),
+      amount: Number.isFinite(amount) && amount > 0 ? amount : undefined,
+      status: PAID_STATUSES.some((s) => status.startsWith(s))
+        ? "paid"
+        : FAILED_STATUSES.some((s) => status.startsWith(s))
+        ? "failed"
+        : "pending",
+      utr: pick(columns.utr),
+      reason: pick(columns.reason),
+    };
+  });
+
+const COMMON_RESPONSE_COLUMNS = {
+  reference: [
+    "reference",
+    "payment reference",
+    "customer reference",
+    "customer reference number",
+    "cust ref no",
+    "ref_no",
+    "ref no",
+  ],
+  status: ["status", "transaction status", "payment status", "txn status"],
+  utr: ["utr", "utr no", "utr_no", "utr number", "bank reference"],
+  reason: [
+    "reason",
+    "remarks",
+    "rejection reason",
+    "failure reason",
+    "error description",
+  ],
+  account: [
+    "beneficiary account number",
+    "beneficiary account no",
+    "bene_acc_no",
+    "account number",
+  ],
+  amount: ["amount", "instrument amount", "transaction amount"],
+};
+
+const genericFormatter: BankPayoutFormatter = {
+  id: "generic",
+  label: "Generic NEFT/RTGS CSV",
+  render: (lines, context) =>
+    toCsv(
+      [
+        [
+          "Payment Type",
+          "Beneficiary Name",
+          "Beneficiary Account Number",
+          "IFSC",
+          "Amount",
+          "Debit Account Number",
+          "Payment Date",
+          "Reference",
+          "Narration",
+          "Email",
+        ],
+        ...lines.map((line) => [
+          line.mode,
+          line.beneficiaryName,
+          line.accountNumber,
+          line.ifsc,
+          line.amount.toFixed(2),
+          context.debitAccount,
+          ddmmyyyy(context.paymentDate, "/"),
+          line.reference,
+          line.narration,
+          line.email ?? "",
+        ]),
+      ],
+      { rawCells: true }
+    ),
+  parseResponse: (content) =>
+    parseResponseColumns(content, COMMON_RESPONSE_COLUMNS),
+};
+
+// HDFC Enterprise bulk upload: N = NEFT, R = RTGS.
+const hdfcFormatter: BankPayoutFormatter = {
+  id: "hdfc",
+  label: "HDFC Bank bulk upload",
+  render: (lines, context) =>
+    toCsv(
+      [
+        [
+          "Transaction Type",
+          "Beneficiary Code",
+          "Beneficiary Account Number",
+          "Instrument Amount",
+          "Beneficiary Name",
+          "Customer Reference Number",
+          "Payment Details",
+          "Transaction Date",
+          "IFSC Code",
+          "Beneficiary Email ID",
+          "Debit Account Number",
+        ],
+        ...lines.map((line) => [
+          line.mode === "RTGS" ? "R" : "N",
+          line.reference,
+          line.accountNumber,
+          line.amount.toFixed(2),
+          line.beneficiaryName.slice(0, 40),
+          line.reference,
+          line.narration.slice(0, 30),
+          ddmmyyyy(context.paymentDate, "/"),
+          line.ifsc,
+          line.email ?? "",
+          context.debitAccount,
+        ]),
+      ],
+      { rawCells: true }
+    ),
+  parseResponse: (content) =>
+    parseResponseColumns(content, COMMON_RESPONSE_COLUMNS),
+};
+
+// ICICI Corporate Internet Banking bulk vendor payment.
+const iciciFormatter: BankPayoutFormatter = {
+  id: "icici",
+  label: "ICICI Bank CIB bulk payment",
+  render: (lines, context) =>
+    toCsv(
+      [
+        [
+          "PYMT_PROD_TYPE_CODE",
+          "PYMT_MODE",
+          "DEBIT_ACC_NO",
+          "BNF_NAME",
+          "BENE_ACC_NO",
+          "BENE_IFSC",
+          "AMOUNT",
+          "DEBIT_NARR",
+          "CREDIT_NARR",
+          "EMAIL_ID",
+          "PYMT_DATE",
+          "REF_NO",
+        ],
+        ...lines.map((line) => [
+          "PAB_VENDOR",
+          line.mode,
+          context.debitAccount,
+          line.beneficiaryName.slice(0, 35),
+          line.accountNumber,
+          line.ifsc,
+          line.amount.toFixed(2),
+          line.narration.slice(0, 30),
+          line.narration.slice(0, 30),
+          line.email ?? "",
+          ddmmyyyy(context.paymentDate, "-"),
+          line.reference,
+        ]),
+      ],
+      { rawCells: true }
+    ),
+  parseResponse: (content) =>
+    parseResponseColumns(content, COMMON_RESPONSE_COLUMNS),
+};
+
+const FORMATTERS = new Map<string, BankPayoutFormatter>();
+
+/** Makes a bank layout available for export and response import. */
+export const registerPayoutFormatter = (formatter: BankPayoutFormatter) => {
+  FORMATTERS.set(formatter.id, formatter);
+};
+
+[genericFormatter, hdfcFormatter, iciciFormatter].forEach(
+  registerPayoutFormatter
+);
+
+export const listPayoutFormats = () =>
+  [...FORMATTERS.values()].map(({ id, label }) => ({ id, label }));
+
+const getFormatter = (id: string) => {
+  const formatter = FORMATTERS.get(id);
+  if (!formatter) {
+    throw new HttpError(
+      400,
+      `Unknown payout format. Use one of: ${[...FORMATTERS.keys()].join(", ")}.`
+    );
+  }
+  return formatter;
+};
+
+// --- Batches ---
+
+export const listPayoutBatches = (branchId: string, month?: string) =>
+  prisma.payrollPayoutBatch.findMany({
+    where: { branchId, month },
+    orderBy: { createdAt: "desc" },
+  });
+
+/**
+ * Puts the month's unpaid payroll records (pending, or failed in an earlier
+ * file) into a new payout batch and marks them Processing. Staff without
+ * bank details are left out and listed in `skipped`.
+ */
+export const createPayoutBatch = async (
+  branchId: string,
+  month: string,
+  input: {
+    format?: string;
+    staffIds?: string[];
+    debitAccount?: string;
+    paymentDate?: string;
+  },
+  actor: { id: string; name: string }
+) => {
+  const formatter = getFormatter(input.format || "generic");
+  const branch = await prisma.branch.findUnique({
+    where: { id: branchId },
+    select: { payrollDebitAccount: true },
+  });
+  if (!branch) {
+    throw new HttpError(404, "Branch not found.");
+  }
+  const debitAccount = String(
+    input.debitAccount ?? branch.payrollDebitAccount ?? ""
+  ).replace(/\s/g, "");
+  if (!ACCOUNT_PATTERN.test(debitAccount)) {
+    throw new HttpError(
+      400,
+      "A debit account number (9 to 18 digits) is required."
+    );
+  }
+  const paymentDate = input.paymentDate
+    ? new Date(input.paymentDate)
+    : new Date();
+  if (isNaN(paymentDate.getTime())) {
+    throw new HttpError(400, "Invalid paymentDate.");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const records = await tx.payrollRecord.findMany({
+      where: {
+        branchId,
+        month,
+        run: { status: "locked" },
+        OR: [{ status: "Pending" }, { status: "Failed" }],
+        staffId: input.staffIds ? { in: input.staffIds } : undefined,
+      },
+    });
+    const accounts = await tx.staffBankAccount.findMany({
+      where: { userId: { in: records.map((r) => r.staffId) } },
+    });
+    const payable = records.filter(
+      (r) =>
+        (r.netPayable ?? 0) > 0 && accounts.some((a) => a.userId === r.staffId)
+    );
+    const skipped = records
+      .filter((r) => !payable.includes(r))
+      .map((r) => ({
+        staffId: r.staffId,
+        staffName: r.staffName,
+        reason:
+          (r.netPayable ?? 0) > 0
+            ? "No bank details on file"
+            : "Nothing to pay",
+      }));
+    if (payable.length === 0) {
+      throw new HttpError(400, "No payroll records are ready for bank payout.");
+    }
+
+    const batch = await tx.payrollPayoutBatch.create({
+      data: {
+        branchId,
+        month,
+        format: formatter.id,
+        debitAccount,
+        paymentDate,
+        recordCount: payable.length,
+        totalAmount: round2(
+          payable.reduce((sum, r) => sum + (r.netPayable ?? 0), 0)
+        ),
+        createdById: actor.id,
+        createdByName: actor.name,
+      },
+    });
+    for (const record of payable) {
+      const claimed = await tx.payrollRecord.updateMany({
+        where: { id: record.id, status: record.status },
+        data: {
+          status: "Processing",
+          payoutBatchId: batch.id,
+          payoutReference: `VPR${crypto
+            .randomBytes(6)
+            .toString("hex")
+            .toUpperCase()}`,
+          payoutUtr: null,
+          payoutFailureReason: null,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new HttpError(
+          409,
+          "Payroll changed while the payout file was being prepared. Please retry."
+        );
+      }
+    }
+    await tx.branch.update({
+      where: { id: branchId },
+      data: { payrollDebitAccount: debitAccount },
+    });
+
+    return { batch, skipped };
+  });
+};
+
+/** Renders a batch's upload file in its bank's layout. */
+export const renderPayoutFile = async (branchId: string, batchId: string) => {
+  const batch = await prisma.payrollPayoutBatch.findFirst({
+    where: { id: batchId, branchId },
+    include: { records: { orderBy: { staffName: "asc" } } },
+  });
+  if (!batch) {
+    throw new HttpError(404, "Payout batch not found.");
+  }
+  const formatter = getFormatter(batch.format);
+  const accounts = await prisma.staffBankAccount.findMany({
+    where: { userId: { in: batch.records.map((r) => r.staffId) } },
+    include: { user: { select: { email: true } } },
+  });
+
+  const lines: PayoutLine[] = batch.records
+    .filter((r) => r.status === "Processing" && r.payoutReference)
+    .map((record) => {
+      const account = accounts.find((a) => a.userId === record.staffId);
+      if (!account) {
+        throw new HttpError(
+          400,
+          `Bank details for ${record.staffName} have been removed.`
+        );
+      }
+      const amount = record.netPayable ?? 0;
+      return {
+        reference: record.payoutReference!,
+        // Bank layouts are written without formula quoting, and a name can
+        // never start with these anyway.
+        beneficiaryName: account.accountHolderName.replace(
+          /^[=+\-@\s]+/,
+          ""
+        ),
+        accountNumber: decryptSecret(account.accountNumber),
+        ifsc: account.ifsc,
+        amount,
+        mode: amount >= RTGS_MINIMUM ? "RTGS" : "NEFT",
+        email: account.user.email,
+        narration: `Salary ${batch.month}`,
+      };
+    });
+
+  return {
+    fileName: `Payroll_${
+      batch.month
+    }_${formatter.id.toUpperCase()}_${batch.id.slice(0, 8)}.csv`,
+    content: formatter.render(lines, {
+      debitAccount: batch.debitAccount,
+      paymentDate: batch.paymentDate,
+    }),
+  };
+};
+
+/**
+ * Applies the bank's response file to a batch. Rows are matched on the
+ * payment reference we sent, falling back to account number and amount.
+ * Successful rows are marked Paid (and posted to the ledger), failed rows
+ * Failed with the bank's reason so they can go out again. Rows still pending
+ * at the bank are left alone.
+ */
+export const importPayoutResponse = async (
+  branchId: string,
+  batchId: string,
+  content: string,
+  actor: { id: string; name: string }
+) => {
+  const batch = await prisma.payrollPayoutBatch.findFirst({
+    where: { id: batchId, branchId },
+  });
+  if (!batch) {
+    throw new HttpError(404, "Payout batch not found.");
+  }
+  const responses = getFormatter(batch.format).parseResponse(content || "");
+  if (responses.length === 0) {
+    throw new HttpError(400, "The response file has no rows.");
+  }
+
+  const records = await prisma.payrollRecord.findMany({
+    where: { payoutBatchId: batch.id },
+  });
+  const accounts = await prisma.staffBankAccount.findMany({
+    where: { userId: { in: records.map((r) => r.staffId) } },
+  });
+  const accountNumberOf = (staffId: string) => {
+    const account = accounts.find((a) => a.userId === staffId);
+    return account ? decryptSecret(account.accountNumber) : null;
+  };
+
+  const summary = {
+    paid: 0,
+    failed: 0,
+    pending: 0,
+    alreadyApplied: 0,
+    unmatched: [] as PayoutResponseLine[],
+  };
+
+  for (const response of responses) {
+    const record =
+      records.find(
+        (r) => response.reference && r.payoutReference === response.reference
+      ) ??
+      records.find(
+        (r) =>
+          response.accountNumber &&
+          response.amount !== undefined &&
+          accountNumberOf(r.staffId) === response.accountNumber &&
+          round2(r.netPayable ?? 0) === round2(response.amount)
+      );
+    if (!record) {
+      summary.unmatched.push(response);
+      continue;
+    }
+    if (response.status === "pending") {
+      summary.pending++;
+      continue;
+    }
+
+    const applied = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.payrollRecord.updateMany({
+        where: { id: record.id, status: "Processing" },
+        data:
+          response.status === "paid"
+            ? {
+                status: "Paid",
+                paidAt: new Date(),
+                paidBy: `${actor.name} (bank transfer)`,
+                payoutUtr: response.utr || null,
+              }
+            : {
+                status: "Failed",
+                payoutFailureReason: response.reason || "Rejected by the bank",
+              },
+      });
+      if (claimed.count === 0) return false;
+      if (response.status === "paid") {
+        await postPayrollPayment(
+          tx,
+          await tx.payrollRecord.findUniqueOrThrow({ where: { id: record.id } })
+        );
+      }
+      return true;
+    });
+
+    if (!applied) summary.alreadyApplied++;
+    else if (response.status === "paid") summary.paid++;
+    else summary.failed++;
+  }
+
+  const stillProcessing = await prisma.payrollRecord.count({
+    where: { payoutBatchId: batch.id, status: "Processing" },
+  });
+  const updated = await prisma.payrollPayoutBatch.update({
+    where: { id: batch.id },
+    data: {
+      status: stillProcessing > 0 ? "partially_settled" : "settled",
+      responseImportedAt: new Date(),
+    },
+  });
+
+  return { batch: updated, ...summary };
+};
@@ -0,0 +1,907 @@
+// src/services/bankReconciliationService.ts
+import crypto from "crypto";
+import { BankStatementLineStatus, Prisma } from "@prisma/client";
+import prisma from "../prisma";
+import { parseCsv } from "../utils/csv";
+import { HttpError } from "../utils/httpError";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Book entries are looked for this many days either side of a bank line.
+const MATCH_WINDOW_DAYS = 7;
+// At or above this score a line is matched automatically, provided no other
+// candidate comes close.
+const AUTO_MATCH_SCORE = 80;
+const AMBIGUITY_MARGIN = 15;
+// Below AUTO_MATCH_SCORE but at or above this, a line is flagged suspicious.
+const SUSPICIOUS_SCORE = 40;
+
+// Cash never reaches the bank statement, so it is not reconciled.
+const NON_BANK_MODES = ["Cash", "cash", "Wallet"];
+
+export const MATCH_TYPES = [
+  "FeePayment",
+  "ErpPayment",
+  "PayrollRecord",
+  "PayrollPayoutBatch",
+] as const;
+export type MatchType = (typeof MATCH_TYPES)[number];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface ParsedStatementLine {
+  date: Date;
+  description: string;
+  reference: string | null;
+  amount: number;
+  balance: number | null;
+}
+
+interface ParsedStatement {
+  format: "csv" | "ofx";
+  accountNumber: string | null;
+  lines: ParsedStatementLine[];
+}
+
+// --- Parsing ---
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+/**
+ * Statement dates as Indian banks write them: DD/MM/YYYY (or with - or .),
+ * DD/MM/YY, DD-MMM-YYYY, DD MMM YYYY, and ISO YYYY-MM-DD. Returned as UTC
+ * midnight.
+ */
+export const parseStatementDate = (value: string): Date | null => {
+  const text = value.trim();
+  let day: number, month: number, year: number;
+
+  let match = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2,4})$/.exec(text))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (
+    (match = /^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s,-]+(\d{2,4})$/.exec(
+      text
+    ))
+  ) {
+    day = Number(match[1]);
+    month = MONTH_NAMES.indexOf(match[2].toLowerCase()) + 1;
+    year = Number(match[3]);
+  } else {
+    return null;
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return month >= 1 && month <= 12 && date.getUTCDate() === day ? date : null;
+};
+
+/** "1,234.50", "1234.50 Cr", "(250.00)" and the like. */
+const parseStatementAmount = (value: string | undefined) => {
+  if (!value) return null;
+  let text = value.replace(/[,\s₹]|INR|Rs\.?/gi, "");
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  const suffix = /(cr|dr)$/i.exec(text);
+  if (suffix) {
+    if (suffix[1].toLowerCase() === "dr") sign = -sign;
+    text = text.slice(0, -2);
+  }
+  if (text === "" || text === "-") return null;
+  const amount = Number(text);
+  return Number.isFinite(amount) ? round2(sign * amount) : null;
+};
+
+// Column names banks use, lower-cased. The first one present wins.
+const CSV_COLUMNS = {
+  date: [
+    "date",
+    "txn date",
+    "transaction date",
+    "tran date",
+    "posting date",
+    "value date",
+    "value dt",
+  ],
+  description: [
+    "description",
+    "narration",
+    "particulars",
+    "remarks",
+    "transaction details",
+    "details",
+  ],
+  reference: [
+    "reference",
+    "ref no",
+    "ref no./cheque no.",
+    "chq./ref.no.",
+    "chq/ref number",
+    "cheque no",
+    "utr",
+    "utr number",
+    "transaction id",
+  ],
+  amount: ["amount", "transaction amount", "amount (inr)"],
+  type: ["type", "cr/dr", "dr/cr", "transaction type"],
+  credit: [
+    "credit",
+    "deposit",
+    "deposit amt.",
+    "deposit amount",
+    "credit amount",
+    "cr amount",
+  ],
+  debit: [
+    "debit",
+    "withdrawal",
+    "withdrawal amt.",
+    "withdrawal amount",
+    "debit amount",
+    "dr amount",
+  ],
+  balance: ["balance", "closing balance", "running balance", "balance (inr)"],
+};
+
+/**
+ * Reads a CSV statement. Banks put account details above the table, so the
+ * header is the first row with a date column and either an amount or
+ * credit/debit columns.
+ */
+const parseCsvStatement = (content: string): ParsedStatement => {
+  const rows = parseCsv(content);
+  const find = (header: string[], names: string[]) => {
+    for (const name of names) {
+      const index = header.indexOf(name);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+
+  for (let h = 0; h < Math.min(rows.length, 30); h++) {
+    const header = rows[h].map((cell) => cell.trim().toLowerCase());
+    const col = Object.fromEntries(
+      Object.entries(CSV_COLUMNS).map(([key, names]) => [
+        key,
+        find(header, names),
+      ])
+    ) as Record<keyof typeof CSV_COLUMNS, number>;
+    if (col.date < 0 || (col.amount < 0 && col.credit < 0 && col.debit < 0)) {
+      continue;
+    }
+
+    const accountMatch = rows
+      .slice(0, h)
+      .map((row) => row.join(" "))
+      .join(" ")
+      .match(/account\s*(?:no|number)?\.?\s*:?\s*([0-9Xx*]{6,})/i);
+
+    const lines: ParsedStatementLine[] = [];
+    for (const row of rows.slice(h + 1)) {
+      const cell = (index: number) =>
+        index >= 0 ? (row[index] ?? "").trim() : "";
+      const date = parseStatementDate(cell(col.date));
+      if (!date) continue; // Totals, footers and opening balance rows.
+
+      let amount: number | null;
+      if (col.amount >= 0) {
+        amount = parseStatementAmount(cell(col.amount));
+        if (amount !== null && /^d/i.test(cell(col.type)))
+          amount = -Math.abs(amount);
+      } else {
+        const credit = parseStatementAmount(cell(col.credit)) ?? 0;
+        const debit = parseStatementAmount(cell(col.debit)) ?? 0;
+        amount = round2(Math.abs(credit) - Math.abs(debit));
+      }
+      if (!amount) continue;
+
+      lines.push({
+        date,
+        description: cell(col.description),
+        reference: cell(col.reference) || null,
+        amount,
+        balance: parseStatementAmount(cell(col.balance)),
+      });
+    }
+    return { format: "csv", accountNumber: accountMatch?.[1] ?? null, lines };
+  }
+
+  throw new HttpError(
+    400,
+    "Could not find the transaction table. The statement needs a date column and either an amount column or credit and debit columns."
+  );
+};
+
+/**
+ * Reads an OFX statement. Works for both the SGML (OFX 1.x, unclosed tags)
+ * and XML (OFX 2.x) forms by reading each tag's value up to the next tag.
+ */
+const parseOfxStatement = (content: string): ParsedStatement => {
+  const tag = (block: string, name: string) =>
+    new RegExp(`<${name}>([^<\\r\\n]*)`, "i").exec(block)?.[1].trim() || null;
+  const ofxDate = (value: string | null) => {
+    const match = value && /^(\d{4})(\d{2})(\d{2})/.exec(value);
+    return match
+      ? new Date(
+          Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+        )
+      : null;
+  };
+
+  const lines: ParsedStatementLine[] = [];
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  for (const block of blocks) {
+    const body = block.split(/<\/STMTTRN>/i)[0];
+    const date = ofxDate(tag(body, "DTPOSTED"));
+    const amount = Number(tag(body, "TRNAMT"));
+    if (!date || !Number.isFinite(amount) || amount === 0) continue;
+    lines.push({
+      date,
+      description: [tag(body, "NAME"), tag(body, "MEMO")]
+        .filter(Boolean)
+        .join(" "),
+      reference:
+        tag(body, "REFNUM") || tag(body, "CHECKNUM") || tag(body, "FITID"),
+      amount: round2(amount),
+      balance: null,
+    });
+  }
+  if (blocks.length === 0) {
+    throw new HttpError(400, "The OFX file contains no transactions.");
+  }
+  return { format: "ofx", accountNumber: tag(content, "ACCTID"), lines };
+};
+
+export const parseBankStatement = (content: string): ParsedStatement =>
+  /<OFX>|OFXHEADER/i.test(content)
+    ? parseOfxStatement(content)
+    : parseCsvStatement(content);
+
+// --- Import ---
+
+const fingerprintOf = (line: ParsedStatementLine, occurrence: number) =>
+  crypto
+    .createHash("sha256")
+    .update(
+      [
+        line.date.toISOString().slice(0, 10),
+        line.amount.toFixed(2),
+        line.reference ?? "",
+        line.description,
+        occurrence,
+      ].join("|")
+    )
+    .digest("hex");
+
+/**
+ * Stores a statement's lines and runs automatic matching on them. Lines
+ * already imported from an earlier, overlapping statement are skipped.
+ */
+export const importBankStatement = async (
+  branchId: string,
+  file: { fileName?: string; content: string },
+  actor: { id: string; name: string }
+) => {
+  const parsed = parseBankStatement(file.content);
+  if (parsed.lines.length === 0) {
+    throw new HttpError(400, "The statement contains no transactions.");
+  }
+
+  // Identical lines on the same statement (two equal UPI credits on one
+  // day) are told apart by their position among the duplicates.
+  const seen = new Map<string, number>();
+  const lines = parsed.lines.map((line, index) => {
+    const key = fingerprintOf(line, 0);
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    return {
+      ...line,
+      lineNumber: index + 1,
+      fingerprint: fingerprintOf(line, occurrence),
+    };
+  });
+
+  const existing = await prisma.bankStatementLine.findMany({
+    where: { branchId, fingerprint: { in: lines.map((l) => l.fingerprint) } },
+    select: { fingerprint: true },
+  });
+  const known = new Set(existing.map((l) => l.fingerprint));
+  const fresh = lines.filter((l) => !known.has(l.fingerprint));
+  const dates = parsed.lines.map((l) => l.date.getTime());
+
+  const statement = await prisma.$transaction(async (tx) => {
+    const created = await tx.bankStatement.create({
+      data: {
+        branchId,
+        fileName: file.fileName || `statement.${parsed.format}`,
+        format: parsed.format,
+        accountNumber: parsed.accountNumber,
+        periodStart: new Date(Math.min(...dates)),
+        periodEnd: new Date(Math.max(...dates)),
+        lineCount: fresh.length,
+        duplicateCount: lines.length - fresh.length,
+        uploadedById: actor.id,
+        uploadedByName: actor.name,
+      },
+    });
+    await tx.bankStatementLine.createMany({
+      data: fresh.map((line) => ({
+        statementId: created.id,
+        branchId,
+        lineNumber: line.lineNumber,
+        date: line.date,
+        description: line.description,
+        reference: line.reference,
+        amount: line.amount,
+        balance: line.balance,
+        fingerprint: line.fingerprint,
+      })),
+    });
+    return created;
+  });
+
+  const matching = await autoMatchBankLines(branchId, {
+    statementId: statement.id,
+  });
+  return { statement, ...matching };
+};
+
+// --- Matching ---
+
+interface BookEntry {
+  type: MatchType;
+  id: string;
+  date: Date;
+  // Signed as it would appear on the statement: receipts positive.
+  amount: number;
+  references: string[];
+  label: string;
+}
+
+interface Candidate {
+  entry: BookEntry;
+  score: number;
+  reasons: string[];
+}
+
+const normalizeReference = (value: string | null | undefined) =>
+  (value || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/**
+ * Loads the book entries that could appear on the statement between `from`
+ * and `to`, leaving out those already matched to a line.
+ */
+const loadBookEntries = async (branchId: string, from: Date, to: Date) => {
+  const range = { gte: from, lte: to };
+  const feePaymentWhere: Prisma.FeePaymentWhereInput = {
+    student: { branchId },
+    paidDate: range,
+    OR: [{ paymentMode: null }, { paymentMode: { notIn: NON_BANK_MODES } }],
+  };
+  const [feePayments, erpPayments, payrollRecords, payoutBatches, taken] =
+    await Promise.all([
+      prisma.feePayment.findMany({
+        where: feePaymentWhere,
+        select: {
+          id: true,
+          amount: true,
+          advanceAmount: true,
+          paidDate: true,
+          transactionId: true,
+          paymentMode: true,
+          student: { select: { name: true } },
+        },
+      }),
+      prisma.erpPayment.findMany({
+        where: { branchId, paymentDate: range },
+      }),
+      prisma.payrollRecord.findMany({
+        where: { branchId, status: "Paid", paidAt: range },
+        select: {
+          id: true,
+          staffName: true,
+          month: true,
+          netPayable: true,
+          paidAt: true,
+          payoutReference: true,
+          payoutUtr: true,
+        },
+      }),
+      prisma.payrollPayoutBatch.findMany({
+        where: { branchId, paymentDate: range },
+      }),
+      prisma.bankStatementLine.findMany({
+        where: { branchId, matchedId: { not: null } },
+        select: { matchType: true, matchedId: true },
+      }),
+    ]);
+
+  const matched = new Set(taken.map((l) => `${l.matchType}:${l.matchedId}`));
+  const entries: BookEntry[] = [
+    ...feePayments.map((p) => ({
+      type: "FeePayment" as const,
+      id: p.id,
+      date: p.paidDate,
+      amount: p.amount + p.advanceAmount,
+      references: [p.transactionId],
+      label: `Fee payment by ${p.student.name} (${
+        p.paymentMode || "unknown mode"
+      })`,
+    })),
+    ...erpPayments.map((p) => ({
+      type: "ErpPayment" as const,
+      id: p.id,
+      date: p.paymentDate,
+      amount: -p.amount,
+      references: [p.transactionId],
+      label: "ERP subscription payment",
+    })),
+    ...payrollRecords.map((r) => ({
+      type: "PayrollRecord" as const,
+      id: r.id,
+      date: r.paidAt!,
+      amount: -(r.netPayable ?? 0),
+      references: [r.payoutUtr, r.payoutReference].filter(
+        (ref): ref is string => !!ref
+      ),
+      label: `Salary for ${r.staffName} (${r.month})`,
+    })),
+    ...payoutBatches.map((b) => ({
+      type: "PayrollPayoutBatch" as const,
+      id: b.id,
+      date: b.paymentDate,
+      amount: -b.totalAmount,
+      references: [],
+      label: `Salary bulk payout for ${b.month} (${b.recordCount} staff)`,
+    })),
+  ];
+  return entries.filter((e) => !matched.has(`${e.type}:${e.id}`));
+};
+
+/**
+ * Scores how likely a book entry is the bank line, out of 100: 50 for the
+ * entry's reference appearing on the line, 35 for the exact amount and up to
+ * 15 for the date being close. Without a reference or the exact amount it
+ * is not a candidate at all.
+ */
+const scoreMatch = (
+  line: {
+    date: Date;
+    amount: number;
+    description: string;
+    reference: string | null;
+  },
+  entry: Pick<BookEntry, "date" | "amount" | "references">
+) => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const haystack = normalizeReference(
+    `${line.reference ?? ""} ${line.description}`
+  );
+  const referenceMatch = entry.references
+    .map(normalizeReference)
+    .some((ref) => ref.length >= 6 && haystack.includes(ref));
+  if (referenceMatch) {
+    score += 50;
+    reasons.push("reference");
+  }
+
+  const amountMatch = Math.abs(line.amount - entry.amount) < 0.005;
+  if (amountMatch) {
+    score += 35;
+    reasons.push("amount");
+  } else if (Math.sign(line.amount) !== Math.sign(entry.amount)) {
+    return null;
+  }
+  if (!referenceMatch && !amountMatch) return null;
+
+  const days = Math.abs(line.date.getTime() - entry.date.getTime()) / DAY_MS;
+  const dateScore =
+    days < 1 ? 15 : days <= 3 ? 10 : days <= MATCH_WINDOW_DAYS ? 5 : 0;
+  if (dateScore > 0) {
+    score += dateScore;
+    reasons.push(days < 1 ? "same day" : `${Math.round(days)} days apart`);
+  }
+  return { score, reasons };
+};
+
+/**
+ * Matches open lines (unmatched, or suspicious from an earlier run) to book
+ * entries. Pairs are taken best score first so each line and entry is used
+ * once. A clear winner at or above AUTO_MATCH_SCORE is matched; a weaker or
+ * contested one leaves the line suspicious with its candidates recorded.
+ */
+export const autoMatchBankLines = async (
+  branchId: string,
+  options: { statementId?: string } = {}
+) => {
+  const lines = await prisma.bankStatementLine.findMany({
+    where: {
+      branchId,
+      statementId: options.statementId,
+      OR: [{ status: "unmatched" }, { status: "suspicious" }],
+    },
+    orderBy: { date: "asc" },
+  });
+  if (lines.length === 0) return { matched: 0, suspicious: 0, unmatched: 0 };
+
+  const from = new Date(lines[0].date.getTime() - MATCH_WINDOW_DAYS * DAY_MS);
+  const to = new Date(
+    lines[lines.length - 1].date.getTime() + (MATCH_WINDOW_DAYS + 1) * DAY_MS
+  );
+  const entries = await loadBookEntries(branchId, from, to);
+
+  const candidatesByLine = new Map<string, Candidate[]>();
+  const pairs: { lineId: string; candidate: Candidate }[] = [];
+  for (const line of lines) {
+    const candidates = entries
+      .map((entry) => {
+        const scored = scoreMatch(line, entry);
+        return scored && { entry, ...scored };
+      })
+      .filter((c): c is Candidate => !!c && c.score >= SUSPICIOUS_SCORE)
+      .sort((a, b) => b.score - a.score);
+    candidatesByLine.set(line.id, candidates);
+    candidates.forEach((candidate) =>
+      pairs.push({ lineId: line.id, candidate })
+    );
+  }
+  pairs.sort((a, b) => b.candidate.score - a.candidate.score);
+
+  const usedEntries = new Set<string>();
+  const assigned = new Map<string, Candidate>();
+  for (const { lineId, candidate } of pairs) {
+    const key = `${candidate.entry.type}:${candidate.entry.id}`;
+    if (assigned.has(lineId) || usedEntries.has(key)) continue;
+    const rivals = candidatesByLine
+      .get(lineId)!
+      .filter(
+        (c) =>
+          c !== candidate && !usedEntries.has(`${c.entry.type}:${c.entry.id}`)
+      );
+    const contested = rivals.some(
+      (c) => c.score > candidate.score - AMBIGUITY_MARGIN
+    );
+    if (candidate.score < AUTO_MATCH_SCORE || contested) continue;
+    assigned.set(lineId, candidate);
+    usedEntries.add(key);
+  }
+
+  const counts = { matched: 0, suspicious: 0, unmatched: 0 };
+  const now = new Date();
+  for (const line of lines) {
+    const match = assigned.get(line.id);
+    const open = (candidatesByLine.get(line.id) ?? []).filter(
+      (c) => !usedEntries.has(`${c.entry.type}:${c.entry.id}`)
+    );
+    let data: Prisma.BankStatementLineUpdateInput;
+    if (match) {
+      counts.matched++;
+      data = {
+        status: "matched",
+        matchType: match.entry.type,
+        matchedId: match.entry.id,
+        confidence: match.score,
+        matchDetails: { reasons: match.reasons, label: match.entry.label },
+        matchedBy: "auto",
+        matchedAt: now,
+      };
+    } else if (open.length > 0) {
+      counts.suspicious++;
+      data = {
+        status: "suspicious",
+        confidence: open[0].score,
+        matchDetails: {
+          candidates: open.slice(0, 5).map((c) => ({
+            type: c.entry.type,
+            id: c.entry.id,
+            label: c.entry.label,
+            amount: c.entry.amount,
+            date: c.entry.date,
+            score: c.score,
+            reasons: c.reasons,
+          })),
+        },
+      };
+    } else {
+      counts.unmatched++;
+      data = {
+        status: "unmatched",
+        confidence: null,
+        matchDetails: Prisma.DbNull,
+      };
+    }
+    try {
+      await prisma.bankStatementLine.update({ where: { id: line.id }, data });
+    } catch (error: any) {
+      // Matched by hand to another line meanwhile; leave this one open.
+      if (!match || error?.code !== "P2002") throw error;
+      counts.matched--;
+      counts.unmatched++;
+      await prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: {
+          status: "unmatched",
+          confidence: null,
+          matchDetails: Prisma.DbNull,
+        },
+      });
+    }
+  }
+  return counts;
+};
+
+/**
+ * Checks that a book entry exists in the branch and returns its statement
+ * amount, for manual matching.
+ */
+const findBookEntry = async (
+  branchId: string,
+  type: MatchType,
+  id: string
+): Promise<Pick<BookEntry, "date" | "amount" | "references"> | null> => {
+  switch (type) {
+    case "FeePayment": {
+      const p = await prisma.feePayment.findFirst({
+        where: { id, student: { branchId } },
+      });
+      return (
+        p && {
+          date: p.paidDate,
+          amount: p.amount + p.advanceAmount,
+          references: [p.transactionId],
+        }
+      );
+    }
+    case "ErpPayment": {
+      const p = await prisma.erpPayment.findFirst({ where: { id, branchId } });
+      return (
+        p && {
+          date: p.paymentDate,
+          amount: -p.amount,
+          references: [p.transactionId],
+        }
+      );
+    }
+    case "PayrollRecord": {
+      const r = await prisma.payrollRecord.findFirst({
+        where: { id, branchId, status: "Paid" },
+      });
+      return (
+        r && {
+          date: r.paidAt ?? new Date(),
+          amount: -(r.netPayable ?? 0),
+          references: [r.payoutUtr, r.payoutReference].filter(
+            (ref): ref is string => !!ref
+          ),
+        }
+      );
+    }
+    case "PayrollPayoutBatch": {
+      const b = await prisma.payrollPayoutBatch.findFirst({
+        where: { id, branchId },
+      });
+      return (
+        b && { date: b.paymentDate, amount: -b.totalAmount, references: [] }
+      );
+    }
+  }
+};
+
+/**
+ * Resolves a line by hand: matches it to a book entry, marks it ignored
+ * (bank charges, interest and so on), or with neither puts it back to
+ * unmatched.
+ */
+export const resolveBankLine = async (
+  branchId: string,
+  lineId: string,
+  input: {
+    matchType?: string;
+    matchedId?: string;
+    ignore?: boolean;
+    note?: string;
+  },
+  actor: { id: string; name: string }
+) => {
+  const line = await prisma.bankStatementLine.findFirst({
+    where: { id: lineId, branchId },
+  });
+  if (!line) {
+    throw new HttpError(404, "Statement line not found.");
+  }
+
+  const manual = {
+    matchedBy: "manual",
+    matchedById: actor.id,
+    matchedByName: actor.name,
+    matchedAt: new Date(),
+    note: input.note ?? line.note,
+  };
+
+  if (input.ignore) {
+    return prisma.bankStatementLine.update({
+      where: { id: line.id },
+      data: {
+        ...manual,
+        status: "ignored",
+        matchType: null,
+        matchedId: null,
+        confidence: null,
+      },
+    });
+  }
+
+  if (!input.matchType && !input.matchedId) {
+    return prisma.bankStatementLine.update({
+      where: { id: line.id },
+      data: {
+        status: "unmatched",
+        matchType: null,
+        matchedId: null,
+        confidence: null,
+        matchDetails: Prisma.DbNull,
+        matchedBy: null,
+        matchedById: null,
+        matchedByName: null,
+        matchedAt: null,
+        note: input.note ?? line.note,
+      },
+    });
+  }
+
+  if (!MATCH_TYPES.includes(input.matchType as MatchType) || !input.matchedId) {
+    throw new HttpError(
+      400,
+      `matchType (${MATCH_TYPES.join(", ")}) and matchedId are required.`
+    );
+  }
+  const matchType = input.matchType as MatchType;
+  const entry = await findBookEntry(branchId, matchType, input.matchedId);
+  if (!entry) {
+    throw new HttpError(404, `${matchType} not found in your branch.`);
+  }
+
+  const scored = scoreMatch(line, entry);
+  const alreadyMatched = (other: { date: Date; amount: number }) =>
+    new HttpError(
+      409,
+      `This ${matchType} is already matched to the statement line of ${other.date
+        .toISOString()
+        .slice(0, 10)} for ${other.amount}. Unmatch that line first.`
+    );
+
+  // The unique (matchType, matchedId) index is what stops two concurrent
+  // matches of the same entry; the lookup only gives the nicer message.
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const other = await tx.bankStatementLine.findFirst({
+        where: { matchType, matchedId: input.matchedId, id: { not: line.id } },
+        select: { date: true, amount: true },
+      });
+      if (other) throw alreadyMatched(other);
+
+      return tx.bankStatementLine.update({
+        where: { id: line.id },
+        data: {
+          ...manual,
+          status: "matched",
+          matchType,
+          matchedId: input.matchedId,
+          confidence: scored?.score ?? 0,
+          matchDetails: {
+            reasons: scored?.reasons ?? [],
+            amountDifference: round2(line.amount - entry.amount),
+          },
+        },
+      });
+    });
+  } catch (error: any) {
+    if (error?.code !== "P2002") throw error;
+    const other = await prisma.bankStatementLine.findFirst({
+      where: { matchType, matchedId: input.matchedId, id: { not: line.id } },
+      select: { date: true, amount: true },
+    });
+    throw other
+      ? alreadyMatched(other)
+      : new HttpError(409, `This ${matchType} is already matched.`);
+  }
+};
+
+export const listBankStatements = (branchId: string) =>
+  prisma.bankStatement.findMany({
+    where: { branchId },
+    orderBy: { uploadedAt: "desc" },
+  });
+
+export const listBankStatementLines = (
+  branchId: string,
+  filters: { statementId?: string; status?: BankStatementLineStatus } = {}
+) =>
+  prisma.bankStatementLine.findMany({
+    where: { branchId, ...filters },
+    orderBy: [{ date: "asc" }, { lineNumber: "asc" }],
+  });
+
+/**
+ * Reconciliation for a period: the bank lines by status, and the book
+ * entries that should have reached the bank but have no matching line. The
+ * latter are what nobody can vouch for yet.
+ */
+export const getReconciliationReport = async (
+  branchId: string,
+  from: Date,
+  to: Date
+) => {
+  const [lines, entries] = await Promise.all([
+    prisma.bankStatementLine.findMany({
+      where: { branchId, date: { gte: from, lte: to } },
+      orderBy: { date: "asc" },
+    }),
+    loadBookEntries(branchId, from, to),
+  ]);
+
+  const byStatus = (status: BankStatementLineStatus) =>
+    lines.filter((l) => l.status === status);
+  const total = (rows: { amount: number }[]) =>
+    round2(rows.reduce((sum, r) => sum + r.amount, 0));
+  const summarize = (rows: { amount: number }[]) => ({
+    count: rows.length,
+    credits: total(rows.filter((r) => r.amount > 0)),
+    debits: total(rows.filter((r) => r.amount < 0)),
+  });
+
+  const matched = byStatus("matched");
+  const suspicious = byStatus("suspicious");
+  const unmatched = byStatus("unmatched");
+  const ignored = byStatus("ignored");
+
+  return {
+    period: { from, to },
+    summary: {
+      statementLines: summarize(lines),
+      matched: summarize(matched),
+      suspicious: summarize(suspicious),
+      unmatched: summarize(unmatched),
+      ignored: summarize(ignored),
+      unreconciledBookEntries: summarize(entries),
+      // Matched lines where the bank and the books disagree on the amount.
+      amountMismatches: matched.filter(
+        (l) =>
+          ((l.matchDetails as { amountDifference?: number } | null)
+            ?.amountDifference ?? 0) !== 0
+      ).length,
+    },
+    matched,
+    suspicious,
+    unmatched,
+    ignored,
+    unreconciledBookEntries: entries.map((e) => ({
+      type: e.type,
+      id: e.id,
+      date: e.date,
+      amount: e.amount,
+      reference: e.references[0] ?? null,
+      label: e.label,
+    })),
+  };
+};
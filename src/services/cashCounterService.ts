@@ -0,0 +1,554 @@
+// src/services/cashCounterService.ts
+import { CashCounterStatus, Prisma } from "@prisma/client";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { drawTable, formatCurrency, renderPdf } from "../utils/pdf";
+import { notifyUser } from "./notificationService";
+
+/** Notes and coins in circulation, largest first. */
+export const DENOMINATIONS = [2000, 500, 200, 100, 50, 20, 10, 5, 2, 1];
+
+// Modes that end up physically in the drawer and so are counted at closing.
+const CASH_MODE = "cash";
+const CHEQUE_MODE = "cheque";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeMode = (mode: string | null | undefined) =>
+  (mode || "Cash").trim().toLowerCase();
+
+/** Today's business date (server local time) as YYYY-MM-DD. */
+export const businessDateOf = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    "0"
+  )}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Validates a count such as `{ "500": 12, "100": 7 }` and totals it.
+ */
+export const countDenominations = (input: unknown) => {
+  if (input === undefined || input === null) {
+    return { denominations: {}, total: 0 };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new HttpError(
+      400,
+      'denominations must be an object such as { "500": 10, "100": 4 }.'
+    );
+  }
+  const denominations: Record<string, number> = {};
+  let total = 0;
+  for (const [key, value] of Object.entries(input)) {
+    const face = Number(key);
+    const count = Number(value);
+    if (!DENOMINATIONS.includes(face)) {
+      throw new HttpError(
+        400,
+        `Unknown denomination ${key}. Use ${DENOMINATIONS.join(", ")}.`
+      );
+    }
+    if (!Number.isInteger(count) || count < 0) {
+      throw new HttpError(
+        400,
+        `The count for ${key} must be a whole number of 0 or more.`
+      );
+    }
+    if (count > 0) {
+      denominations[String(face)] = count;
+      total += face * count;
+    }
+  }
+  return { denominations, total: round2(total) };
+};
+
+type CounterPayment = {
+  amount: number;
+  advanceAmount: number;
+  paymentMode: string | null;
+};
+
+// Money taken over the counter, including any part credited to the wallet.
+const receivedAmount = (payment: CounterPayment) =>
+  round2(payment.amount + payment.advanceAmount);
+
+const summarizeByMode = (payments: CounterPayment[]) => {
+  const byMode: Record<string, { count: number; amount: number }> = {};
+  for (const payment of payments) {
+    const mode = payment.paymentMode || "Cash";
+    byMode[mode] ??= { count: 0, amount: 0 };
+    byMode[mode].count++;
+    byMode[mode].amount = round2(
+      byMode[mode].amount + receivedAmount(payment)
+    );
+  }
+  return byMode;
+};
+
+const totalFor = (payments: CounterPayment[], mode: string) =>
+  round2(
+    payments
+      .filter((p) => normalizeMode(p.paymentMode) === mode)
+      .reduce((sum, p) => sum + receivedAmount(p), 0)
+  );
+
+export const openCounterSession = async (
+  branchId: string,
+  registrar: { id: string; name: string },
+  input: { denominations?: unknown }
+) => {
+  const { denominations, total } = countDenominations(input.denominations);
+  const businessDate = businessDateOf();
+
+  const unclosed = await prisma.cashCounterSession.findFirst({
+    where: { registrarId: registrar.id, status: "open" },
+  });
+  if (unclosed) {
+    throw new HttpError(
+      409,
+      unclosed.businessDate === businessDate
+        ? "Your cash counter is already open."
+        : `Close your cash counter of ${unclosed.businessDate} first.`
+    );
+  }
+  const existing = await prisma.cashCounterSession.findUnique({
+    where: {
+      registrarId_businessDate: { registrarId: registrar.id, businessDate },
+    },
+  });
+  if (existing) {
+    throw new HttpError(
+      409,
+      "Your cash counter has already been closed for today."
+    );
+  }
+
+  return prisma.cashCounterSession.create({
+    data: {
+      branchId,
+      registrarId: registrar.id,
+      registrarName: registrar.name,
+      businessDate,
+      openingFloat: total,
+      openingDenominations: denominations,
+    },
+  });
+};
+
+/**
+ * The open session a counter payment belongs to. Cash and cheques can only
+ * be taken with today's counter open; other modes are attached when it is.
+ */
+export const getCounterSessionForPayment = async (
+  tx: PrismaTransactionClient,
+  registrarId: string,
+  paymentMode: string
+) => {
+  const session = await tx.cashCounterSession.findFirst({
+    where: { registrarId, status: "open", businessDate: businessDateOf() },
+    select: { id: true },
+  });
+  const mode = normalizeMode(paymentMode);
+  if (!session && (mode === CASH_MODE || mode === CHEQUE_MODE)) {
+    throw new HttpError(
+      409,
+      "Open today's cash counter before collecting cash or cheques."
+    );
+  }
+  return session?.id;
+};
+
+const sessionInclude = {
+  payments: {
+    select: {
+      id: true,
+      amount: true,
+      advanceAmount: true,
+      paymentMode: true,
+      paidDate: true,
+      transactionId: true,
+      student: { select: { name: true, admissionNumber: true } },
+      receipt: { select: { receiptNumber: true } },
+    },
+    orderBy: { paidDate: "asc" },
+  },
+} satisfies Prisma.CashCounterSessionInclude;
+
+/** The registrar's session for today (or an older one left open). */
+export const getCurrentCounterSession = async (registrarId: string) => {
+  const where: Prisma.CashCounterSessionWhereInput = {
+    registrarId,
+    OR: [{ status: "open" }, { businessDate: businessDateOf() }],
+  };
+  const session = await prisma.cashCounterSession.findFirst({
+    where,
+    include: sessionInclude,
+    orderBy: { openedAt: "desc" },
+  });
+  if (!session) return null;
+  return {
+    ...session,
+    collectionsByMode:
+      session.collectionsByMode ?? summarizeByMode(session.payments),
+    expectedCash:
+      session.expectedCash ??
+      round2(session.openingFloat + totalFor(session.payments, CASH_MODE)),
+  };
+};
+
+/**
+ * Closes the registrar's open session with the counted cash and cheques.
+ * Any difference needs an explanation; a shortfall also leaves the session
+ * waiting for the principal's sign-off.
+ */
+export const closeCounterSession = async (
+  registrar: { id: string; name: string },
+  input: {
+    denominations?: unknown;
+    chequeTotal?: number;
+    chequeCount?: number;
+    note?: string;
+  }
+) => {
+  const session = await prisma.cashCounterSession.findFirst({
+    where: { registrarId: registrar.id, status: "open" },
+    include: {
+      payments: {
+        select: { amount: true, advanceAmount: true, paymentMode: true },
+      },
+      branch: { select: { principalId: true } },
+    },
+  });
+  if (!session) {
+    throw new HttpError(404, "You have no open cash counter.");
+  }
+
+  const { denominations, total: countedCash } = countDenominations(
+    input.denominations
+  );
+  const countedCheques = round2(Number(input.chequeTotal ?? 0));
+  if (!Number.isFinite(countedCheques) || countedCheques < 0) {
+    throw new HttpError(400, "chequeTotal must be 0 or more.");
+  }
+
+  const expectedCash = round2(
+    session.openingFloat + totalFor(session.payments, CASH_MODE)
+  );
+  const expectedCheques = totalFor(session.payments, CHEQUE_MODE);
+  const cashVariance = round2(countedCash - expectedCash);
+  const chequeVariance = round2(countedCheques - expectedCheques);
+  if ((cashVariance !== 0 || chequeVariance !== 0) && !input.note) {
+    throw new HttpError(
+      400,
+      `The count differs from the books (cash ${cashVariance}, cheques ${chequeVariance}). Add a note explaining the difference.`
+    );
+  }
+  const shortfall = cashVariance < 0 || chequeVariance < 0;
+
+  const claimed = await prisma.cashCounterSession.updateMany({
+    where: { id: session.id, status: "open" },
+    data: {
+      status: shortfall ? "pending_signoff" : "closed",
+      closedAt: new Date(),
+      closingDenominations: denominations,
+      countedCash,
+      countedCheques,
+      chequeCount:
+        input.chequeCount === undefined ? null : Number(input.chequeCount),
+      expectedCash,
+      expectedCheques,
+      collectionsByMode: summarizeByMode(session.payments),
+      cashVariance,
+      chequeVariance,
+      varianceNote: input.note ?? null,
+    },
+  });
+  if (claimed.count === 0) {
+    throw new HttpError(409, "The cash counter has already been closed.");
+  }
+
+  if (shortfall && session.branch.principalId) {
+    await notifyUser(session.branch.principalId, {
+      title: "Cash counter shortfall",
+      message: `${registrar.name}'s counter for ${session.businessDate} is short (cash ${cashVariance}, cheques ${chequeVariance}) and needs your sign-off. Note: ${input.note}`,
+      type: "cash_counter",
+      targetId: session.id,
+    });
+  }
+
+  return prisma.cashCounterSession.findUniqueOrThrow({
+    where: { id: session.id },
+    include: sessionInclude,
+  });
+};
+
+export const listCounterSessions = (
+  branchId: string,
+  filters: {
+    status?: CashCounterStatus;
+    businessDate?: string;
+    registrarId?: string;
+  } = {}
+) =>
+  prisma.cashCounterSession.findMany({
+    where: { branchId, ...filters },
+    orderBy: [{ businessDate: "desc" }, { registrarName: "asc" }],
+  });
+
+/**
+ * The principal's decision on a short session: accept the shortfall, or send
+ * the counter back to the registrar to recount.
+ */
+export const signOffCounterSession = async (
+  branchId: string,
+  sessionId: string,
+  principal: { id: string; name: string; role: string },
+  input: { decision?: string; note?: string }
+) => {
+  if (input.decision !== "approve" && input.decision !== "recount") {
+    throw new HttpError(400, "decision must be 'approve' or 'recount'.");
+  }
+  if (!input.note) {
+    throw new HttpError(400, "A note is required.");
+  }
+
+  const session = await prisma.cashCounterSession.findFirst({
+    where: { id: sessionId, branchId },
+  });
+  if (!session) {
+    throw new HttpError(404, "Cash counter session not found.");
+  }
+
+  const data: Prisma.CashCounterSessionUpdateManyMutationInput =
+    input.decision === "approve"
+      ? {
+          status: "signed_off",
+          signedOffById: principal.id,
+          signedOffByName: principal.name,
+          signedOffAt: new Date(),
+          signOffNote: input.note,
+        }
+      : {
+          status: "open",
+          closedAt: null,
+          signOffNote: input.note,
+        };
+  const claimed = await prisma.cashCounterSession.updateMany({
+    where: { id: session.id, status: "pending_signoff" },
+    data,
+  });
+  if (claimed.count === 0) {
+    throw new HttpError(400, "This session is not awaiting sign-off.");
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: principal.id,
+      actorName: principal.name,
+      actorRole: principal.role,
+      action:
+        input.decision === "approve"
+          ? "CASH_COUNTER_SIGN_OFF"
+          : "CASH_COUNTER_RECOUNT",
+      targetId: session.id,
+      targetType: "CashCounterSession",
+      statusCode: 200,
+      details: {
+        registrarId: session.registrarId,
+        businessDate: session.businessDate,
+        cashVariance: session.cashVariance,
+        chequeVariance: session.chequeVariance,
+        note: input.note,
+      },
+    },
+  });
+  await notifyUser(session.registrarId, {
+    title:
+      input.decision === "approve"
+        ? "Cash counter signed off"
+        : "Cash counter sent back for recount",
+    message: `Your counter for ${session.businessDate}: ${input.note}`,
+    type: "cash_counter",
+    targetId: session.id,
+  });
+
+  return prisma.cashCounterSession.findUniqueOrThrow({
+    where: { id: session.id },
+  });
+};
+
+/**
+ * Every counter session of the branch on a business date, with the payments
+ * taken and the totals by mode.
+ */
+export const getDayBook = async (
+  branchId: string,
+  businessDate: string,
+  registrarId?: string
+) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(businessDate)) {
+    throw new HttpError(400, "date must be in YYYY-MM-DD format.");
+  }
+  const sessions = await prisma.cashCounterSession.findMany({
+    where: { branchId, businessDate, registrarId },
+    include: sessionInclude,
+    orderBy: { registrarName: "asc" },
+  });
+  const payments = sessions.flatMap((s) => s.payments);
+  return {
+    businessDate,
+    sessions,
+    totalsByMode: summarizeByMode(payments),
+    totalCollected: round2(
+      payments.reduce((sum, p) => sum + receivedAmount(p), 0)
+    ),
+    totalCashVariance: round2(
+      sessions.reduce((sum, s) => sum + (s.cashVariance ?? 0), 0)
+    ),
+  };
+};
+
+const STATUS_LABELS: Record<CashCounterStatus, string> = {
+  open: "Open",
+  closed: "Closed",
+  pending_signoff: "Awaiting principal sign-off",
+  signed_off: "Signed off",
+};
+
+export const renderDayBookPdf = async (
+  branchId: string,
+  businessDate: string,
+  registrarId?: string
+) => {
+  const [dayBook, branch] = await Promise.all([
+    getDayBook(branchId, businessDate, registrarId),
+    prisma.branch.findUnique({
+      where: { id: branchId },
+      select: { name: true, location: true },
+    }),
+  ]);
+
+  const pdf = await renderPdf((doc) => {
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(16)
+      .text(branch?.name || "", { align: "center" })
+      .font("Helvetica")
+      .fontSize(9)
+      .text(branch?.location || "", { align: "center" })
+      .moveDown()
+      .font("Helvetica-Bold")
+      .fontSize(13)
+      .text(`DAY BOOK - ${businessDate}`, { align: "center" })
+      .moveDown();
+
+    if (dayBook.sessions.length === 0) {
+      doc
+        .font("Helvetica")
+        .fontSize(10)
+        .text("No counter sessions on this date.");
+    }
+
+    for (const session of dayBook.sessions) {
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(11)
+        .text(`${session.registrarName} - ${STATUS_LABELS[session.status]}`)
+        .font("Helvetica")
+        .fontSize(9)
+        .text(
+          `Opened ${session.openedAt.toLocaleTimeString("en-IN")}${
+            session.closedAt
+              ? `, closed ${session.closedAt.toLocaleTimeString("en-IN")}`
+              : ""
+          }. Opening float ${formatCurrency(session.openingFloat)}.`
+        )
+        .moveDown(0.5);
+
+      drawTable(
+        doc,
+        ["Receipt", "Student", "Mode", "Amount"],
+        [
+          ...session.payments.map((p) => [
+            p.receipt?.receiptNumber || p.transactionId,
+            p.student.name,
+            p.paymentMode || "Cash",
+            formatCurrency(receivedAmount(p)),
+          ]),
+          ...Object.entries(summarizeByMode(session.payments)).map(
+            ([mode, total]) => [
+              `Total ${mode}`,
+              `${total.count} payment(s)`,
+              "",
+              formatCurrency(total.amount),
+            ]
+          ),
+        ],
+        [120, 185, 80, 110]
+      );
+
+      if (session.closedAt) {
+        const counted = (session.closingDenominations ?? {}) as Record<
+          string,
+          number
+        >;
+        drawTable(
+          doc,
+          ["Denomination", "Count", "Amount"],
+          DENOMINATIONS.filter((face) => counted[String(face)]).map((face) => [
+            formatCurrency(face),
+            String(counted[String(face)]),
+            formatCurrency(face * counted[String(face)]),
+          ]),
+          [200, 145, 150]
+        );
+        drawTable(
+          doc,
+          ["", "Expected", "Counted", "Variance"],
+          [
+            [
+              "Cash",
+              formatCurrency(session.expectedCash ?? 0),
+              formatCurrency(session.countedCash ?? 0),
+              formatCurrency(session.cashVariance ?? 0),
+            ],
+            [
+              `Cheques${
+                session.chequeCount ? ` (${session.chequeCount})` : ""
+              }`,
+              formatCurrency(session.expectedCheques ?? 0),
+              formatCurrency(session.countedCheques ?? 0),
+              formatCurrency(session.chequeVariance ?? 0),
+            ],
+          ],
+          [95, 135, 135, 130]
+        );
+        if (session.varianceNote) {
+          doc.fontSize(9).text(`Registrar's note: ${session.varianceNote}`);
+        }
+        if (session.signedOffByName) {
+          doc
+            .fontSize(9)
+            .text(
+              `Signed off by ${session.signedOffByName}: ${session.signOffNote}`
+            );
+        }
+      }
+      doc.moveDown();
+    }
+
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(11)
+      .text(`Total collected: ${formatCurrency(dayBook.totalCollected)}`)
+      .text(`Net cash variance: ${formatCurrency(dayBook.totalCashVariance)}`)
+      .moveDown(2)
+      .font("Helvetica")
+      .fontSize(10)
+      .text(
+        "Registrar: ____________________          Principal: ____________________"
+      );
+  });
+
+  return { fileName: `DayBook-${businessDate}.pdf`, pdf };
+};
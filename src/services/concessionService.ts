@@ -0,0 +1,232 @@
+// src/services/concessionService.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { recordFeeAdjustment } from "./feeAdjustmentService";
+import { notifyUser } from "./notificationService";
+
+const MAX_DOCUMENTS = 10;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const validateDocumentUrls = (documentUrls: unknown): string[] => {
+  if (documentUrls === undefined || documentUrls === null) return [];
+  if (
+    !Array.isArray(documentUrls) ||
+    documentUrls.length > MAX_DOCUMENTS ||
+    documentUrls.some(
+      (url) => typeof url !== "string" || !/^https?:\/\//i.test(url)
+    )
+  ) {
+    throw new HttpError(
+      400,
+      `documentUrls must be a list of at most ${MAX_DOCUMENTS} uploaded file URLs.`
+    );
+  }
+  return documentUrls;
+};
+
+/**
+ * Files a concession request against the student's current fee record.
+ * Only one request per student may be pending at a time.
+ */
+export const submitConcessionRequest = async (
+  studentId: string,
+  requester: { id: string; name: string },
+  input: { amount?: number; reason?: string; documentUrls?: unknown }
+) => {
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0 || !input.reason) {
+    throw new HttpError(400, "A positive amount and a reason are required.");
+  }
+  const documentUrls = validateDocumentUrls(input.documentUrls);
+
+  const student = await prisma.student.findUnique({
+    where: { id: studentId },
+    select: {
+      branchId: true,
+      feeRecords: { orderBy: { createdAt: "desc" }, take: 1 },
+    },
+  });
+  if (!student) {
+    throw new HttpError(404, "Student not found.");
+  }
+  const feeRecord = student.feeRecords[0];
+  if (!feeRecord) {
+    throw new HttpError(400, "No fees have been assigned to this student yet.");
+  }
+  if (amount > feeRecord.totalAmount) {
+    throw new HttpError(
+      400,
+      `The concession cannot exceed the total fee of ${feeRecord.totalAmount}.`
+    );
+  }
+
+  const pending = await prisma.concessionRequest.count({
+    where: { studentId, status: "Pending" },
+  });
+  if (pending > 0) {
+    throw new HttpError(
+      409,
+      "A concession request for this student is already awaiting review."
+    );
+  }
+
+  return prisma.concessionRequest.create({
+    data: {
+      branchId: student.branchId,
+      studentId,
+      feeRecordId: feeRecord.id,
+      amount: round2(amount),
+      reason: input.reason,
+      documentUrls,
+      requestedById: requester.id,
+      requestedByName: requester.name,
+    },
+  });
+};
+
+export const listConcessionRequests = (
+  where: Prisma.ConcessionRequestWhereInput
+) =>
+  prisma.concessionRequest.findMany({
+    where,
+    include: {
+      student: { select: { name: true, classId: true, category: true } },
+      feeRecord: {
+        select: { totalAmount: true, paidAmount: true, dueDate: true },
+      },
+      feeAdjustment: { select: { id: true, amount: true, date: true } },
+    },
+    orderBy: { requestedAt: "desc" },
+  });
+
+/**
+ * Approves or rejects a pending request. Approval posts a concession
+ * FeeAdjustment against the request's fee record and lowers its total in the
+ * same transaction; the applicant is notified either way.
+ */
+export const reviewConcessionRequest = async (
+  branchId: string,
+  requestId: string,
+  reviewer: { id: string; name: string },
+  decision: { status?: string; note?: string; approvedAmount?: number }
+) => {
+  if (decision.status !== "Approved" && decision.status !== "Rejected") {
+    throw new HttpError(400, "status must be 'Approved' or 'Rejected'.");
+  }
+  const status = decision.status;
+
+  const reviewed = await prisma.$transaction(async (tx) => {
+    const request = await tx.concessionRequest.findFirst({
+      where: { id: requestId, branchId },
+      include: {
+        student: {
+          select: {
+            feeRecords: {
+              orderBy: { createdAt: "desc" },
+              take: 1,
+              select: { id: true },
+            },
+          },
+        },
+      },
+    });
+    if (!request) {
+      throw new HttpError(404, "Concession request not found.");
+    }
+
+    const claimed = await tx.concessionRequest.updateMany({
+      where: { id: request.id, status: "Pending" },
+      data: {
+        status,
+        reviewedById: reviewer.id,
+        reviewedAt: new Date(),
+        reviewNote: decision.note,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new HttpError(400, "Request already processed.");
+    }
+    if (status === "Rejected") {
+      return tx.concessionRequest.findUniqueOrThrow({
+        where: { id: request.id },
+        include: { student: { select: { name: true } } },
+      });
+    }
+
+    // Requests filed before fee records were linked fall back to the
+    // student's current record.
+    const feeRecordId =
+      request.feeRecordId ?? request.student.feeRecords[0]?.id;
+    const feeRecord = feeRecordId
+      ? await tx.feeRecord.findUnique({ where: { id: feeRecordId } })
+      : null;
+    if (!feeRecord) {
+      throw new HttpError(400, "The student has no fee record to adjust.");
+    }
+
+    const approvedAmount =
+      decision.approvedAmount === undefined
+        ? request.amount
+        : round2(Number(decision.approvedAmount));
+    if (
+      !Number.isFinite(approvedAmount) ||
+      approvedAmount <= 0 ||
+      approvedAmount > request.amount
+    ) {
+      throw new HttpError(
+        400,
+        `approvedAmount must be between 0 and the requested ${request.amount}.`
+      );
+    }
+    if (approvedAmount > feeRecord.totalAmount) {
+      throw new HttpError(
+        400,
+        `The concession cannot exceed the total fee of ${feeRecord.totalAmount}.`
+      );
+    }
+
+    const adjustment = await recordFeeAdjustment(tx, {
+      studentId: request.studentId,
+      feeRecordId: feeRecord.id,
+      type: "concession",
+      amount: approvedAmount,
+      reason: `Concession Approved: ${request.reason}`,
+      adjustedBy: reviewer.name,
+      account: "FEE_CONCESSIONS",
+    });
+
+    return tx.concessionRequest.update({
+      where: { id: request.id },
+      data: {
+        feeRecordId: feeRecord.id,
+        approvedAmount,
+        feeAdjustmentId: adjustment.id,
+      },
+      include: { student: { select: { name: true } } },
+    });
+  });
+
+  const outcome =
+    reviewed.status === "Approved"
+      ? `has been approved for ${reviewed.approvedAmount}`
+      : "has been rejected";
+  try {
+    await notifyUser(reviewed.requestedById, {
+      title: `Concession request ${reviewed.status.toLowerCase()}`,
+      message: `The concession request of ${reviewed.amount} for ${
+        reviewed.student.name
+      } ${outcome}.${
+        reviewed.reviewNote ? `\nNote: ${reviewed.reviewNote}` : ""
+      }`,
+      type: "ConcessionRequest",
+      targetId: reviewed.id,
+    });
+  } catch (error) {
+    // The decision is committed; a missing notification must not undo it.
+    console.error("Failed to notify concession applicant:", error);
+  }
+
+  return reviewed;
+};
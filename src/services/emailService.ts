@@ -20,50 +20,79 @@ if (!verifiedSender) {
 }
 
 /**
- * Sends an OTP email using SendGrid.
- * @param email The recipient's email address.
- * @param otp The 6-digit code.
+ * Sends an email through SendGrid as-is. Callers build the content.
+ * @param message Recipient, subject and body (HTML optional).
  */
-export const sendOtpEmail = async (
-  email: string,
-  otp: string
-): Promise<void> => {
+export const sendEmail = async (message: {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}): Promise<void> => {
   if (!apiKey || !verifiedSender) {
     console.error("SendGrid is not configured. Cannot send email.");
-    throw new Error("Email service configuration error."); // Prevent sending
+    throw new Error("Email service configuration error.");
   }
 
-  const msg = {
-    to: email,
-    from: verifiedSender, // Use the verified sender address from your .env
-    subject: "Your Verticx Login OTP",
-    html: `
+  try {
+    await sgMail.send({ ...message, from: verifiedSender });
+  } catch (error: any) {
+    console.error(`Error sending SendGrid email to ${message.to}:`, error);
+    if (error.response) {
+      console.error("SendGrid Error Body:", error.response.body);
+    }
+    throw new Error("Failed to send email.");
+  }
+};
+
+/**
+ * The subject and body of a one-time password email.
+ * @param otp The code.
+ * @param validMinutes How long the code can be used for.
+ */
+export const buildOtpEmail = (otp: string, validMinutes: number) => ({
+  subject: "Your Verticx Verification Code",
+  text: `Your One-Time Password is: ${otp}. This code will expire in ${validMinutes} minutes.`,
+  html: `
       <div style="font-family: sans-serif; text-align: center; padding: 20px; border: 1px solid #ddd; border-radius: 8px;">
         <h2 style="color: #333;">Your One-Time Password is:</h2>
         <h1 style="font-size: 36px; letter-spacing: 4px; margin: 15px; color: #007bff;">
           ${otp}
         </h1>
-        <p style="color: #666;">This code is valid for 10 minutes.</p>
+        <p style="color: #666;">This code is valid for ${validMinutes} minutes.</p>
         <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
         <p style="font-size: 12px; color: #999;">If you did not request this OTP, please ignore this email.</p>
       </div>
     `,
-    // You can also add a plain text version for email clients that don't support HTML
-    // text: `Your One-Time Password is: ${otp}. This code will expire in 10 minutes.`,
-  };
+});
 
-  try {
-    await sgMail.send(msg);
-    console.log(`OTP email successfully sent to ${email} via SendGrid.`);
-  } catch (error: any) {
-    console.error(`Error sending SendGrid email to ${email}:`, error);
+/**
+ * Escapes text for use inside email HTML; names and reasons come from users.
+ * @param value The raw text.
+ */
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
 
-    // SendGrid often provides detailed errors in the response body
-    if (error.response) {
-      console.error("SendGrid Error Body:", error.response.body);
-    }
-    throw new Error("Failed to send OTP email."); // Re-throw for the controller
-  }
-};
+/**
+ * The subject and body of a plain notification email (decisions on
+ * requests, alerts, etc.).
+ * @param subject The email subject.
+ * @param message The body text; line breaks are kept.
+ */
+export const buildNotificationEmail = (subject: string, message: string) => ({
+  subject,
+  text: message,
+  html: `
+      <div style="font-family: sans-serif; padding: 20px; border: 1px solid #ddd; border-radius: 8px;">
+        <h2 style="color: #333;">${escapeHtml(subject)}</h2>
+        <p style="color: #444; white-space: pre-line;">${escapeHtml(message)}</p>
+      </div>
+    `,
+});
 
 // Add other email functions (sendWelcomeEmail, sendPasswordResetEmail, etc.) here as needed.
@@ -0,0 +1,624 @@
+// src/services/erpBillingService.ts
+import { ErpInvoiceStatus, Prisma } from "@prisma/client";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import {
+  computeGst,
+  stateCodeFromAddress,
+  stateCodeFromGstin,
+} from "../utils/gst";
+import { HttpError } from "../utils/httpError";
+import { getSessionStartYear } from "./feeScheduleService";
+import { postErpInvoice, postErpPayment } from "./ledgerService";
+import { notifyUser } from "./notificationService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SYSTEM_ACTOR = "System (ERP Billing)";
+
+export const BILLING_CYCLE_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  half_yearly: 6,
+  yearly: 12,
+};
+
+const OPEN_STATUSES: ErpInvoiceStatus[] = ["issued", "partially_paid"];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/** What is still owed on an invoice after payments and credit notes. */
+export const getInvoiceOutstanding = (invoice: {
+  totalAmount: number;
+  amountPaid: number;
+  creditedAmount: number;
+}) => round2(invoice.totalAmount - invoice.amountPaid - invoice.creditedAmount);
+
+export const getErpBillingSettings = async () => {
+  const settings = await prisma.systemSettings.findUnique({
+    where: { id: "global" },
+  });
+  return {
+    defaultErpPrice: settings?.defaultErpPrice ?? 0,
+    leadDays: settings?.erpInvoiceLeadDays ?? 7,
+    reminderIntervalDays: settings?.erpReminderIntervalDays ?? 3,
+    gracePeriodDays: settings?.erpGracePeriodDays ?? null,
+    platformGstin: settings?.platformGstin ?? null,
+    sacCode: settings?.erpSacCode ?? "997331",
+    gstRate: settings?.erpGstRate ?? 18,
+  };
+};
+
+type ErpBillingSettings = Awaited<ReturnType<typeof getErpBillingSettings>>;
+
+/**
+ * Numbers run per series and financial year across all branches, e.g.
+ * ERP/25-26/000042, which stays within the 16 characters GST allows. Same
+ * row-locking upsert as fee receipts, so a rolled back document gives its
+ * number back.
+ */
+export const nextErpDocumentNumber = async (
+  tx: PrismaTransactionClient,
+  series: "ERP" | "CN",
+  date: Date
+) => {
+  const fiscalStartYear = getSessionStartYear(date);
+  const sequence = await tx.erpInvoiceSequence.upsert({
+    where: { series_fiscalStartYear: { series, fiscalStartYear } },
+    create: { series, fiscalStartYear, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+  const years = [fiscalStartYear, fiscalStartYear + 1]
+    .map((year) => String(year % 100).padStart(2, "0"))
+    .join("-");
+  return `${series}/${years}/${String(sequence.lastNumber).padStart(6, "0")}`;
+};
+
+/**
+ * Raises the invoice for the cycle starting at the branch's nextDueDate and
+ * moves nextDueDate on by one cycle. The branch row is claimed on its
+ * current nextDueDate, so two runs can never bill the same cycle twice.
+ */
+const issueNextInvoice = (
+  branch: {
+    id: string;
+    billingCycle: string;
+    nextDueDate: Date;
+    erpPricePerStudent: number | null;
+    erpConcessionPercentage: number | null;
+    gstin: string | null;
+    location: string;
+  },
+  settings: ErpBillingSettings
+) =>
+  prisma.$transaction(async (tx) => {
+    const months = BILLING_CYCLE_MONTHS[branch.billingCycle];
+    const periodStart = branch.nextDueDate;
+    const periodEnd = addMonths(periodStart, months);
+
+    const claimed = await tx.branch.updateMany({
+      where: { id: branch.id, nextDueDate: periodStart },
+      data: { nextDueDate: periodEnd },
+    });
+    if (claimed.count === 0) return null;
+
+    const studentCount = await tx.student.count({
+      where: { branchId: branch.id, status: "active" },
+    });
+    const pricePerStudent =
+      branch.erpPricePerStudent ?? settings.defaultErpPrice;
+    const concessionPercentage = Math.min(
+      100,
+      Math.max(0, branch.erpConcessionPercentage ?? 0)
+    );
+    const subtotal = round2(studentCount * pricePerStudent * months);
+    const concessionAmount = round2((subtotal * concessionPercentage) / 100);
+    const taxableAmount = round2(subtotal - concessionAmount);
+
+    // Without a registration of our own no GST is charged. Where the
+    // school's state is unknown, the place of supply is our own state.
+    const supplierState = stateCodeFromGstin(settings.platformGstin);
+    const placeOfSupply =
+      stateCodeFromGstin(branch.gstin) ??
+      stateCodeFromAddress(branch.location) ??
+      supplierState;
+    const gst = computeGst(
+      taxableAmount,
+      supplierState ? settings.gstRate : 0,
+      placeOfSupply === supplierState
+    );
+    const totalAmount = round2(taxableAmount + gst.taxAmount);
+    const issuedAt = new Date();
+
+    const invoice = await tx.erpInvoice.create({
+      data: {
+        branchId: branch.id,
+        invoiceNumber: await nextErpDocumentNumber(tx, "ERP", issuedAt),
+        billingCycle: branch.billingCycle,
+        periodStart,
+        periodEnd,
+        studentCount,
+        pricePerStudent,
+        months,
+        subtotal,
+        concessionPercentage,
+        concessionAmount,
+        ...gst,
+        sacCode: settings.sacCode,
+        supplierGstin: settings.platformGstin,
+        recipientGstin: branch.gstin,
+        placeOfSupply,
+        totalAmount,
+        issuedAt,
+        dueDate: periodStart,
+        ...(totalAmount <= 0 && { status: "paid", paidAt: issuedAt }),
+      },
+    });
+    await postErpInvoice(tx, invoice);
+    return invoice;
+  });
+
+/**
+ * Moves a branch that has never been invoiced on to its first cycle starting
+ * on or after `asOf`, so cycles from before billing was switched on are not
+ * all issued at once, already overdue. Returns the new nextDueDate.
+ */
+const skipCyclesBeforeFirstInvoice = async (
+  branch: { id: string; nextDueDate: Date },
+  months: number,
+  asOf: Date
+) => {
+  if (branch.nextDueDate >= asOf) return branch.nextDueDate;
+  const invoiced = await prisma.erpInvoice.count({
+    where: { branchId: branch.id },
+  });
+  if (invoiced > 0) return branch.nextDueDate;
+
+  let start = branch.nextDueDate;
+  while (start < asOf) start = addMonths(start, months);
+  const moved = await prisma.branch.updateMany({
+    where: { id: branch.id, nextDueDate: branch.nextDueDate },
+    data: { nextDueDate: start },
+  });
+  return moved.count > 0 ? start : branch.nextDueDate;
+};
+
+/**
+ * Invoices every branch whose next cycle starts within the lead time. A
+ * branch that missed several runs is caught up one cycle at a time. A branch
+ * that has never been invoiced starts with its next upcoming cycle unless
+ * `backfill` asks for the earlier ones too.
+ */
+export const generateDueErpInvoices = async (
+  options: { branchId?: string; asOf?: Date; backfill?: boolean } = {}
+) => {
+  const asOf = options.asOf ?? new Date();
+  const settings = await getErpBillingSettings();
+  const horizon = new Date(asOf.getTime() + settings.leadDays * DAY_MS);
+
+  const branches = await prisma.branch.findMany({
+    where: {
+      id: options.branchId,
+      status: { not: "pending" },
+      billingCycle: { not: null },
+      nextDueDate: { lte: horizon },
+    },
+    select: {
+      id: true,
+      name: true,
+      principalId: true,
+      billingCycle: true,
+      nextDueDate: true,
+      erpPricePerStudent: true,
+      erpConcessionPercentage: true,
+      gstin: true,
+      location: true,
+    },
+  });
+
+  let invoicesIssued = 0;
+  const skippedBranches: string[] = [];
+
+  for (const branch of branches) {
+    const billingCycle = branch.billingCycle!;
+    if (!BILLING_CYCLE_MONTHS[billingCycle]) {
+      skippedBranches.push(branch.id);
+      continue;
+    }
+
+    let nextDueDate = options.backfill
+      ? branch.nextDueDate!
+      : await skipCyclesBeforeFirstInvoice(
+          { id: branch.id, nextDueDate: branch.nextDueDate! },
+          BILLING_CYCLE_MONTHS[billingCycle],
+          asOf
+        );
+    while (nextDueDate <= horizon) {
+      const invoice = await issueNextInvoice(
+        { ...branch, billingCycle, nextDueDate },
+        settings
+      );
+      if (!invoice) break;
+      invoicesIssued++;
+      nextDueDate = invoice.periodEnd;
+
+      if (branch.principalId && invoice.totalAmount > 0) {
+        await notifyUser(branch.principalId, {
+          title: `ERP invoice ${invoice.invoiceNumber}`,
+          message: `An invoice of ${invoice.totalAmount.toFixed(2)} for ${
+            invoice.studentCount
+          } students (${formatDate(invoice.periodStart)} to ${formatDate(
+            invoice.periodEnd
+          )}) is due on ${formatDate(invoice.dueDate)}.`,
+          type: "erp_invoice",
+          targetId: invoice.id,
+        });
+      }
+    }
+  }
+
+  return { invoicesIssued, skippedBranches };
+};
+
+/**
+ * Reminds the principal about unpaid invoices past their due date, every
+ * `reminderIntervalDays`, and suspends the branch once an invoice is still
+ * unpaid after the grace period (if one is configured).
+ */
+export const processOverdueErpInvoices = async (
+  options: { asOf?: Date } = {}
+) => {
+  const asOf = options.asOf ?? new Date();
+  const settings = await getErpBillingSettings();
+  const remindBefore = new Date(
+    asOf.getTime() - settings.reminderIntervalDays * DAY_MS
+  );
+
+  const overdue = await prisma.erpInvoice.findMany({
+    where: { status: { in: OPEN_STATUSES }, dueDate: { lt: asOf } },
+    include: {
+      branch: {
+        select: { id: true, name: true, principalId: true, status: true },
+      },
+    },
+    orderBy: { dueDate: "asc" },
+  });
+
+  let remindersSent = 0;
+  const suspendedBranchIds = new Set<string>();
+
+  for (const invoice of overdue) {
+    const { branch } = invoice;
+    const balance = getInvoiceOutstanding(invoice);
+    const daysOverdue = Math.floor(
+      (asOf.getTime() - invoice.dueDate.getTime()) / DAY_MS
+    );
+
+    if (
+      settings.gracePeriodDays !== null &&
+      daysOverdue > settings.gracePeriodDays &&
+      branch.status === "active" &&
+      !suspendedBranchIds.has(branch.id)
+    ) {
+      await prisma.$transaction([
+        prisma.branch.update({
+          where: { id: branch.id },
+          data: { status: "suspended", suspendedForNonPaymentAt: asOf },
+        }),
+        prisma.auditLog.create({
+          data: {
+            actorName: SYSTEM_ACTOR,
+            actorRole: "System",
+            action: "BRANCH_SUSPENDED_NON_PAYMENT",
+            targetId: branch.id,
+            targetType: "Branch",
+            statusCode: 200,
+            details: {
+              invoiceId: invoice.id,
+              invoiceNumber: invoice.invoiceNumber,
+              balance,
+              daysOverdue,
+            },
+          },
+        }),
+      ]);
+      suspendedBranchIds.add(branch.id);
+      if (branch.principalId) {
+        await notifyUser(branch.principalId, {
+          title: "Branch suspended for non-payment",
+          message: `${branch.name} has been suspended because ERP invoice ${
+            invoice.invoiceNumber
+          } (balance ${balance.toFixed(
+            2
+          )}) is ${daysOverdue} days overdue. Paying the invoice reinstates the branch.`,
+          type: "erp_suspension",
+          targetId: invoice.id,
+        });
+      }
+      continue;
+    }
+
+    if (invoice.lastReminderAt && invoice.lastReminderAt > remindBefore) {
+      continue;
+    }
+    if (branch.principalId) {
+      const graceNote =
+        settings.gracePeriodDays !== null
+          ? ` The branch will be suspended if it is still unpaid ${settings.gracePeriodDays} days after the due date.`
+          : "";
+      await notifyUser(branch.principalId, {
+        title: `ERP invoice ${invoice.invoiceNumber} is overdue`,
+        message: `A balance of ${balance.toFixed(2)} was due on ${formatDate(
+          invoice.dueDate
+        )}.${graceNote}`,
+        type: "erp_reminder",
+        targetId: invoice.id,
+      });
+    }
+    await prisma.erpInvoice.update({
+      where: { id: invoice.id },
+      data: { reminderCount: { increment: 1 }, lastReminderAt: asOf },
+    });
+    remindersSent++;
+  }
+
+  return { remindersSent, branchesSuspended: suspendedBranchIds.size };
+};
+
+/** The scheduled job: bill new cycles, then chase overdue ones. */
+export const runErpBilling = async () => ({
+  ...(await generateDueErpInvoices()),
+  ...(await processOverdueErpInvoices()),
+});
+
+/**
+ * Records a payment against an invoice (the oldest open one when none is
+ * given). Once nothing is left overdue, a branch that billing suspended is
+ * reinstated.
+ */
+export const recordErpInvoicePayment = (input: {
+  branchId: string;
+  invoiceId?: string;
+  amount: number;
+  paymentDate?: Date;
+  transactionId: string;
+  notes?: string;
+  periodEndDate?: Date;
+}) =>
+  prisma.$transaction(async (tx) => {
+    const amount = round2(Number(input.amount));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new HttpError(400, "amount must be a positive number.");
+    }
+
+    const invoice = await tx.erpInvoice.findFirst({
+      where: {
+        branchId: input.branchId,
+        ...(input.invoiceId
+          ? { id: input.invoiceId }
+          : { status: { in: OPEN_STATUSES } }),
+      },
+      orderBy: { dueDate: "asc" },
+    });
+    if (!invoice) {
+      throw new HttpError(
+        404,
+        input.invoiceId
+          ? "ERP invoice not found for this branch."
+          : "This branch has no open ERP invoice."
+      );
+    }
+    if (!OPEN_STATUSES.includes(invoice.status)) {
+      throw new HttpError(
+        400,
+        `Invoice ${invoice.invoiceNumber} is ${invoice.status}.`
+      );
+    }
+
+    const balance = getInvoiceOutstanding(invoice);
+    if (amount > balance) {
+      throw new HttpError(
+        400,
+        `Amount exceeds the invoice balance of ${balance.toFixed(2)}.`
+      );
+    }
+
+    const paymentDate = input.paymentDate ?? new Date();
+    const payment = await tx.erpPayment.create({
+      data: {
+        branchId: input.branchId,
+        invoiceId: invoice.id,
+        amount,
+        paymentDate,
+        transactionId: input.transactionId,
+        notes: input.notes,
+        periodEndDate: input.periodEndDate ?? invoice.periodEnd,
+      },
+    });
+    await postErpPayment(tx, payment);
+
+    const amountPaid = round2(invoice.amountPaid + amount);
+    const fullyPaid =
+      amountPaid + invoice.creditedAmount >= invoice.totalAmount;
+    // Guarded on the amount read above so concurrent payments cannot
+    // overpay the invoice.
+    const updated = await tx.erpInvoice.updateMany({
+      where: { id: invoice.id, amountPaid: invoice.amountPaid },
+      data: {
+        amountPaid,
+        status: fullyPaid ? "paid" : "partially_paid",
+        paidAt: fullyPaid ? paymentDate : null,
+      },
+    });
+    if (updated.count === 0) {
+      throw new HttpError(
+        409,
+        "The invoice was updated by another payment. Please retry."
+      );
+    }
+
+    const branch = await tx.branch.findUniqueOrThrow({
+      where: { id: input.branchId },
+    });
+    let reinstated = false;
+    if (branch.status === "suspended" && branch.suspendedForNonPaymentAt) {
+      const stillOverdue = await tx.erpInvoice.count({
+        where: {
+          branchId: input.branchId,
+          status: { in: OPEN_STATUSES },
+          dueDate: { lt: new Date() },
+        },
+      });
+      if (stillOverdue === 0) {
+        await tx.branch.update({
+          where: { id: input.branchId },
+          data: { status: "active", suspendedForNonPaymentAt: null },
+        });
+        reinstated = true;
+      }
+    }
+
+    return {
+      payment,
+      invoice: await tx.erpInvoice.findUniqueOrThrow({
+        where: { id: invoice.id },
+      }),
+      reinstated,
+    };
+  });
+
+/** Voids an unpaid invoice and reverses its accrual. */
+export const voidErpInvoice = async (
+  invoiceId: string,
+  reason: string | undefined,
+  actor: { id: string; name: string; role: string }
+) => {
+  if (!reason) {
+    throw new HttpError(400, "A reason is required to void an invoice.");
+  }
+  return prisma.$transaction(async (tx) => {
+    const invoice = await tx.erpInvoice.findUnique({
+      where: { id: invoiceId },
+    });
+    if (!invoice) {
+      throw new HttpError(404, "ERP invoice not found.");
+    }
+    if (invoice.status === "void") {
+      throw new HttpError(400, "Invoice is already void.");
+    }
+    if (invoice.amountPaid > 0 || invoice.creditedAmount > 0) {
+      throw new HttpError(
+        400,
+        "Invoices with payments or credit notes against them cannot be voided."
+      );
+    }
+
+    const voided = await tx.erpInvoice.update({
+      where: { id: invoice.id },
+      data: { status: "void", voidReason: reason },
+    });
+    await postErpInvoice(tx, voided, true);
+    await tx.auditLog.create({
+      data: {
+        actorId: actor.id,
+        actorName: actor.name,
+        actorRole: actor.role,
+        action: "ERP_INVOICE_VOID",
+        targetId: invoice.id,
+        targetType: "ErpInvoice",
+        statusCode: 200,
+        details: { invoiceNumber: invoice.invoiceNumber, reason },
+      },
+    });
+    return voided;
+  });
+};
+
+export const listErpInvoices = (
+  filters: { branchId?: string; status?: ErpInvoiceStatus } = {}
+) => {
+  const where: Prisma.ErpInvoiceWhereInput = {
+    branchId: filters.branchId,
+    status: filters.status,
+  };
+  return prisma.erpInvoice.findMany({
+    where,
+    include: {
+      branch: { select: { name: true } },
+      payments: { orderBy: { paymentDate: "desc" } },
+      creditNotes: { orderBy: { issuedAt: "desc" } },
+    },
+    orderBy: { periodStart: "desc" },
+  });
+};
+
+/**
+ * The principal's ERP billing overview for the current financial year,
+ * built from the invoices actually raised.
+ */
+export const getBranchErpSummary = async (branchId: string) => {
+  const sessionStart = new Date(
+    Date.UTC(getSessionStartYear(new Date()), 3, 1)
+  );
+  const [branch, invoices, paymentHistory] = await Promise.all([
+    prisma.branch.findUnique({
+      where: { id: branchId },
+      select: {
+        status: true,
+        billingCycle: true,
+        nextDueDate: true,
+        suspendedForNonPaymentAt: true,
+      },
+    }),
+    listErpInvoices({ branchId }),
+    prisma.erpPayment.findMany({
+      where: { branchId },
+      orderBy: { paymentDate: "desc" },
+    }),
+  ]);
+  if (!branch) {
+    throw new HttpError(404, "Branch not found.");
+  }
+
+  const live = invoices.filter((i) => i.status !== "void");
+  const thisSession = live.filter((i) => i.periodStart >= sessionStart);
+  const totalBilled = round2(
+    thisSession.reduce((sum, i) => sum + i.totalAmount - i.creditedAmount, 0)
+  );
+  const totalPaid = round2(
+    thisSession.reduce((sum, i) => sum + i.amountPaid, 0)
+  );
+  const pendingAmount = round2(
+    live.reduce((sum, i) => sum + getInvoiceOutstanding(i), 0)
+  );
+
+  return {
+    ...branch,
+    totalBilled,
+    totalPaid,
+    pendingAmount,
+    collectionRate: totalBilled > 0 ? (totalPaid / totalBilled) * 100 : 100,
+    billingHistory: thisSession
+      .map((i) => ({
+        invoiceId: i.id,
+        invoiceNumber: i.invoiceNumber,
+        month: `${i.periodStart.toLocaleString("default", {
+          month: "short",
+          timeZone: "UTC",
+        })} '${String(i.periodStart.getUTCFullYear()).slice(2)}`,
+        amountBilled: round2(i.totalAmount - i.creditedAmount),
+        amountPaid: i.amountPaid,
+        status: i.status,
+        dueDate: i.dueDate,
+      }))
+      .reverse(),
+    invoices,
+    paymentHistory,
+  };
+};
@@ -0,0 +1,650 @@
+// src/services/erpTaxInvoiceService.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma";
+import { computeGst, formatPlaceOfSupply } from "../utils/gst";
+import { HttpError } from "../utils/httpError";
+import { drawTable, formatCurrency, PdfDoc, renderPdf } from "../utils/pdf";
+import {
+  getInvoiceOutstanding,
+  nextErpDocumentNumber,
+} from "./erpBillingService";
+import { postErpCreditNote } from "./ledgerService";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Unregistered inter-state invoices above this value are reported
+// individually (B2CL) rather than in the B2CS summary.
+const B2CL_THRESHOLD = 100000;
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** The dd-MMM-yyyy dates the GST offline tool expects. */
+const formatGstDate = (date: Date) =>
+  `${String(date.getUTCDate()).padStart(2, "0")}-${
+    MONTHS[date.getUTCMonth()]
+  }-${date.getUTCFullYear()}`;
+
+const gstRateOf = (invoice: { cgstRate: number; igstRate: number }) =>
+  invoice.igstRate || invoice.cgstRate * 2;
+
+/**
+ * Issues a credit note against an invoice for `taxableAmount` (by default
+ * everything not yet credited). Tax is worked out at the invoice's own rates
+ * and split, and the credit lowers what the branch owes.
+ */
+export const issueErpCreditNote = async (
+  invoiceId: string,
+  input: { taxableAmount?: number; reason?: string },
+  actor: { id: string; name: string; role: string }
+) => {
+  if (!input.reason) {
+    throw new HttpError(400, "A reason is required for a credit note.");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const invoice = await tx.erpInvoice.findUnique({
+      where: { id: invoiceId },
+      include: { creditNotes: { select: { taxableAmount: true } } },
+    });
+    if (!invoice) {
+      throw new HttpError(404, "ERP invoice not found.");
+    }
+    if (invoice.status === "void") {
+      throw new HttpError(
+        400,
+        "Credit notes cannot be raised on a void invoice."
+      );
+    }
+
+    const creditable = round2(
+      invoice.taxableAmount -
+        invoice.creditNotes.reduce((sum, c) => sum + c.taxableAmount, 0)
+    );
+    const taxableAmount =
+      input.taxableAmount === undefined
+        ? creditable
+        : round2(Number(input.taxableAmount));
+    if (
+      !Number.isFinite(taxableAmount) ||
+      taxableAmount <= 0 ||
+      taxableAmount > creditable
+    ) {
+      throw new HttpError(
+        400,
+        `taxableAmount must be between 0 and the creditable value of ${creditable.toFixed(
+          2
+        )}.`
+      );
+    }
+
+    const gst = computeGst(
+      taxableAmount,
+      gstRateOf(invoice),
+      invoice.igstRate === 0
+    );
+    // Crediting the whole remainder clears the invoice exactly, whatever
+    // the rounding on the separate tax lines.
+    const totalAmount =
+      taxableAmount === creditable
+        ? round2(invoice.totalAmount - invoice.creditedAmount)
+        : round2(taxableAmount + gst.taxAmount);
+    const issuedAt = new Date();
+
+    const creditNote = await tx.erpCreditNote.create({
+      data: {
+        invoiceId: invoice.id,
+        creditNoteNumber: await nextErpDocumentNumber(tx, "CN", issuedAt),
+        reason: input.reason!,
+        taxableAmount,
+        cgstAmount: gst.cgstAmount,
+        sgstAmount: gst.sgstAmount,
+        igstAmount: gst.igstAmount,
+        taxAmount: round2(totalAmount - taxableAmount),
+        totalAmount,
+        issuedAt,
+        createdById: actor.id,
+        createdByName: actor.name,
+      },
+    });
+
+    const creditedAmount = round2(invoice.creditedAmount + totalAmount);
+    const settled =
+      invoice.status !== "paid" &&
+      getInvoiceOutstanding({ ...invoice, creditedAmount }) <= 0;
+    const updated = await tx.erpInvoice.updateMany({
+      where: { id: invoice.id, creditedAmount: invoice.creditedAmount },
+      data: {
+        creditedAmount,
+        ...(settled && { status: "paid", paidAt: issuedAt }),
+      },
+    });
+    if (updated.count === 0) {
+      throw new HttpError(
+        409,
+        "The invoice was updated by another credit note. Please retry."
+      );
+    }
+
+    await postErpCreditNote(tx, invoice.branchId, creditNote);
+    await tx.auditLog.create({
+      data: {
+        actorId: actor.id,
+        actorName: actor.name,
+        actorRole: actor.role,
+        action: "ERP_CREDIT_NOTE_ISSUE",
+        targetId: invoice.id,
+        targetType: "ErpInvoice",
+        statusCode: 201,
+        details: {
+          creditNoteNumber: creditNote.creditNoteNumber,
+          totalAmount,
+          reason: input.reason,
+        },
+      },
+    });
+    return creditNote;
+  });
+};
+
+export const listErpCreditNotes = (where: Prisma.ErpCreditNoteWhereInput) =>
+  prisma.erpCreditNote.findMany({
+    where,
+    include: {
+      invoice: {
+        select: {
+          invoiceNumber: true,
+          branchId: true,
+          branch: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: { issuedAt: "desc" },
+  });
+
+// --- PDF documents ---
+
+interface TaxDocument {
+  title: string;
+  number: string;
+  date: Date;
+  reference?: string;
+  stamp?: string;
+  recipient: {
+    name: string;
+    address: string;
+    gstin: string | null;
+    placeOfSupply: string | null;
+  };
+  description: string;
+  sacCode: string | null;
+  rows: [string, number][];
+  taxes: {
+    cgstRate: number;
+    cgstAmount: number;
+    sgstRate: number;
+    sgstAmount: number;
+    igstRate: number;
+    igstAmount: number;
+  };
+  totalAmount: number;
+}
+
+const drawTaxDocument = async (doc: PdfDoc, document: TaxDocument) => {
+  const settings = await prisma.systemSettings.findUnique({
+    where: { id: "global" },
+  });
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(16)
+    .text(settings?.platformLegalName || "Verticx")
+    .font("Helvetica")
+    .fontSize(9);
+  if (settings?.platformAddress) doc.text(settings.platformAddress);
+  if (settings?.platformGstin) doc.text(`GSTIN: ${settings.platformGstin}`);
+
+  doc
+    .moveDown()
+    .font("Helvetica-Bold")
+    .fontSize(13)
+    .text(document.title, { align: "center" });
+  if (document.stamp) {
+    doc
+      .fillColor("#cc0000")
+      .fontSize(12)
+      .text(document.stamp, { align: "center" })
+      .fillColor("#000000");
+  }
+  doc.moveDown();
+
+  const details: [string, string][] = [
+    [
+      `${document.title === "CREDIT NOTE" ? "Note" : "Invoice"} No.`,
+      document.number,
+    ],
+    ["Date", formatGstDate(document.date)],
+    ...(document.reference
+      ? [["Reference", document.reference] as [string, string]]
+      : []),
+    ["Bill To", document.recipient.name],
+    ["Address", document.recipient.address],
+    ["GSTIN", document.recipient.gstin || "Unregistered"],
+    [
+      "Place of Supply",
+      document.recipient.placeOfSupply
+        ? formatPlaceOfSupply(document.recipient.placeOfSupply)
+        : "N/A",
+    ],
+  ];
+  doc.fontSize(10);
+  details.forEach(([label, value]) => {
+    doc
+      .font("Helvetica-Bold")
+      .text(`${label}: `, { continued: true })
+      .font("Helvetica")
+      .text(value);
+  });
+  doc.moveDown();
+
+  const { taxes } = document;
+  drawTable(
+    doc,
+    ["Description", "SAC", "Amount"],
+    [
+      [document.description, document.sacCode || "-", ""],
+      ...document.rows.map(([label, amount]) => [
+        label,
+        "",
+        formatCurrency(amount),
+      ]),
+      ...(taxes.cgstAmount || taxes.sgstAmount
+        ? [
+            [`CGST @ ${taxes.cgstRate}%`, "", formatCurrency(taxes.cgstAmount)],
+            [`SGST @ ${taxes.sgstRate}%`, "", formatCurrency(taxes.sgstAmount)],
+          ]
+        : []),
+      ...(taxes.igstAmount
+        ? [[`IGST @ ${taxes.igstRate}%`, "", formatCurrency(taxes.igstAmount)]]
+        : []),
+      ["Total", "", formatCurrency(document.totalAmount)],
+    ],
+    [290, 80, 125]
+  );
+
+  doc
+    .moveDown(2)
+    .fontSize(8)
+    .fillColor("#666666")
+    .text(
+      "This is a computer-generated document and does not require a signature.",
+      { align: "center" }
+    );
+};
+
+/**
+ * Renders an ERP invoice. It is titled a tax invoice when GST was charged.
+ * `where` must scope the lookup to what the caller may see.
+ */
+export const renderErpInvoicePdf = async (
+  where: Prisma.ErpInvoiceWhereInput
+) => {
+  const invoice = await prisma.erpInvoice.findFirst({
+    where,
+    include: { branch: { select: { name: true, location: true } } },
+  });
+  if (!invoice) {
+    throw new HttpError(404, "ERP invoice not found.");
+  }
+
+  const pdf = await renderPdf((doc) =>
+    drawTaxDocument(doc, {
+      title: invoice.supplierGstin ? "TAX INVOICE" : "INVOICE",
+      number: invoice.invoiceNumber,
+      date: invoice.issuedAt,
+      reference: `Due ${formatGstDate(invoice.dueDate)}`,
+      stamp:
+        invoice.status === "void"
+          ? `VOID - ${invoice.voidReason || "Cancelled"}`
+          : undefined,
+      recipient: {
+        name: invoice.branch.name,
+        address: invoice.branch.location,
+        gstin: invoice.recipientGstin,
+        placeOfSupply: invoice.placeOfSupply,
+      },
+      description: `ERP subscription, ${formatGstDate(
+        invoice.periodStart
+      )} to ${formatGstDate(invoice.periodEnd)}: ${
+        invoice.studentCount
+      } students x ${formatCurrency(invoice.pricePerStudent)} x ${
+        invoice.months
+      } month(s)`,
+      sacCode: invoice.sacCode,
+      rows: [
+        ["Subtotal", invoice.subtotal],
+        ...(invoice.concessionAmount
+          ? [
+              [
+                `Concession (${invoice.concessionPercentage}%)`,
+                -invoice.concessionAmount,
+              ] as [string, number],
+            ]
+          : []),
+        ["Taxable Value", invoice.taxableAmount],
+      ],
+      taxes: invoice,
+      totalAmount: invoice.totalAmount,
+    })
+  );
+
+  return {
+    fileName: `${invoice.invoiceNumber.replace(/\//g, "-")}.pdf`,
+    pdf,
+  };
+};
+
+export const renderErpCreditNotePdf = async (
+  where: Prisma.ErpCreditNoteWhereInput
+) => {
+  const creditNote = await prisma.erpCreditNote.findFirst({
+    where,
+    include: {
+      invoice: {
+        include: { branch: { select: { name: true, location: true } } },
+      },
+    },
+  });
+  if (!creditNote) {
+    throw new HttpError(404, "Credit note not found.");
+  }
+  const { invoice } = creditNote;
+  const rate = gstRateOf(invoice);
+
+  const pdf = await renderPdf((doc) =>
+    drawTaxDocument(doc, {
+      title: "CREDIT NOTE",
+      number: creditNote.creditNoteNumber,
+      date: creditNote.issuedAt,
+      reference: `Against invoice ${
+        invoice.invoiceNumber
+      } dated ${formatGstDate(invoice.issuedAt)}`,
+      recipient: {
+        name: invoice.branch.name,
+        address: invoice.branch.location,
+        gstin: invoice.recipientGstin,
+        placeOfSupply: invoice.placeOfSupply,
+      },
+      description: creditNote.reason,
+      sacCode: invoice.sacCode,
+      rows: [["Taxable Value", creditNote.taxableAmount]],
+      taxes: {
+        cgstRate: invoice.igstRate ? 0 : rate / 2,
+        cgstAmount: creditNote.cgstAmount,
+        sgstRate: invoice.igstRate ? 0 : rate / 2,
+        sgstAmount: creditNote.sgstAmount,
+        igstRate: invoice.igstRate,
+        igstAmount: creditNote.igstAmount,
+      },
+      totalAmount: creditNote.totalAmount,
+    })
+  );
+
+  return {
+    fileName: `${creditNote.creditNoteNumber.replace(/\//g, "-")}.pdf`,
+    pdf,
+  };
+};
+
+// --- GSTR-1 ---
+
+export const GSTR1_SECTIONS = [
+  "b2b",
+  "b2cl",
+  "b2cs",
+  "cdnr",
+  "cdnur",
+  "hsn",
+] as const;
+export type Gstr1Section = (typeof GSTR1_SECTIONS)[number];
+
+/**
+ * Builds the GSTR-1 tables for a month (YYYY-MM) from the tax invoices and
+ * credit notes issued in it, with the column names of the GST offline
+ * utility's CSV templates. Without `section` every table is returned; with
+ * one, that table in the `{ fileName, data }` export shape.
+ */
+export const getGstr1Export = async (month: string, section?: string) => {
+  const match = /^(\d{4})-(\d{2})$/.exec(month || "");
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new HttpError(400, "month must be in YYYY-MM format.");
+  }
+  if (section && !GSTR1_SECTIONS.includes(section as Gstr1Section)) {
+    throw new HttpError(
+      400,
+      `section must be one of ${GSTR1_SECTIONS.join(", ")}.`
+    );
+  }
+  const from = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+  const to = new Date(Date.UTC(Number(match[1]), Number(match[2]), 1));
+
+  const invoiceSelect = {
+    invoiceNumber: true,
+    issuedAt: true,
+    totalAmount: true,
+    taxableAmount: true,
+    recipientGstin: true,
+    placeOfSupply: true,
+    sacCode: true,
+    cgstRate: true,
+    igstRate: true,
+    cgstAmount: true,
+    sgstAmount: true,
+    igstAmount: true,
+    branch: { select: { name: true } },
+  } satisfies Prisma.ErpInvoiceSelect;
+
+  const [invoices, creditNotes] = await Promise.all([
+    prisma.erpInvoice.findMany({
+      where: {
+        issuedAt: { gte: from, lt: to },
+        status: { not: "void" },
+        supplierGstin: { not: null },
+      },
+      select: invoiceSelect,
+      orderBy: { issuedAt: "asc" },
+    }),
+    prisma.erpCreditNote.findMany({
+      where: {
+        issuedAt: { gte: from, lt: to },
+        invoice: { supplierGstin: { not: null } },
+      },
+      include: { invoice: { select: invoiceSelect } },
+      orderBy: { issuedAt: "asc" },
+    }),
+  ]);
+
+  type InvoiceRow = (typeof invoices)[number];
+  const kindOf = (invoice: InvoiceRow) =>
+    invoice.recipientGstin
+      ? "b2b"
+      : invoice.igstRate > 0 && invoice.totalAmount > B2CL_THRESHOLD
+      ? "b2cl"
+      : "b2cs";
+  const placeOf = (invoice: InvoiceRow) =>
+    invoice.placeOfSupply ? formatPlaceOfSupply(invoice.placeOfSupply) : "";
+
+  const b2b = invoices
+    .filter((i) => kindOf(i) === "b2b")
+    .map((i) => ({
+      "GSTIN/UIN of Recipient": i.recipientGstin,
+      "Receiver Name": i.branch.name,
+      "Invoice Number": i.invoiceNumber,
+      "Invoice date": formatGstDate(i.issuedAt),
+      "Invoice Value": i.totalAmount,
+      "Place Of Supply": placeOf(i),
+      "Reverse Charge": "N",
+      "Applicable % of Tax Rate": "",
+      "Invoice Type": "Regular B2B",
+      "E-Commerce GSTIN": "",
+      Rate: gstRateOf(i),
+      "Taxable Value": i.taxableAmount,
+      "Cess Amount": 0,
+    }));
+
+  const b2cl = invoices
+    .filter((i) => kindOf(i) === "b2cl")
+    .map((i) => ({
+      "Invoice Number": i.invoiceNumber,
+      "Invoice date": formatGstDate(i.issuedAt),
+      "Invoice Value": i.totalAmount,
+      "Place Of Supply": placeOf(i),
+      "Applicable % of Tax Rate": "",
+      Rate: gstRateOf(i),
+      "Taxable Value": i.taxableAmount,
+      "Cess Amount": 0,
+      "E-Commerce GSTIN": "",
+    }));
+
+  // B2CS is a summary per place of supply and rate, net of credit notes.
+  const b2csTotals = new Map<
+    string,
+    { place: string; rate: number; taxable: number }
+  >();
+  const addB2cs = (invoice: InvoiceRow, taxable: number) => {
+    const key = `${placeOf(invoice)}|${gstRateOf(invoice)}`;
+    const row = b2csTotals.get(key) ?? {
+      place: placeOf(invoice),
+      rate: gstRateOf(invoice),
+      taxable: 0,
+    };
+    row.taxable = round2(row.taxable + taxable);
+    b2csTotals.set(key, row);
+  };
+  invoices
+    .filter((i) => kindOf(i) === "b2cs")
+    .forEach((i) => addB2cs(i, i.taxableAmount));
+
+  const cdnr: Record<string, unknown>[] = [];
+  const cdnur: Record<string, unknown>[] = [];
+  for (const note of creditNotes) {
+    const kind = kindOf(note.invoice);
+    const common = {
+      "Note Number": note.creditNoteNumber,
+      "Note Date": formatGstDate(note.issuedAt),
+      "Note Type": "C",
+      "Place Of Supply": placeOf(note.invoice),
+    };
+    const amounts = {
+      "Note Value": note.totalAmount,
+      "Applicable % of Tax Rate": "",
+      Rate: gstRateOf(note.invoice),
+      "Taxable Value": note.taxableAmount,
+      "Cess Amount": 0,
+    };
+    if (kind === "b2b") {
+      cdnr.push({
+        "GSTIN/UIN of Recipient": note.invoice.recipientGstin,
+        "Receiver Name": note.invoice.branch.name,
+        ...common,
+        "Reverse Charge": "N",
+        "Note Supply Type": "Regular",
+        ...amounts,
+      });
+    } else if (kind === "b2cl") {
+      cdnur.push({ "UR Type": "B2CL", ...common, ...amounts });
+    } else {
+      addB2cs(note.invoice, -note.taxableAmount);
+    }
+  }
+
+  const b2cs = [...b2csTotals.values()].map((row) => ({
+    Type: "OE",
+    "Place Of Supply": row.place,
+    Rate: row.rate,
+    "Applicable % of Tax Rate": "",
+    "Taxable Value": row.taxable,
+    "Cess Amount": 0,
+    "E-Commerce GSTIN": "",
+  }));
+
+  // HSN/SAC summary, also net of credit notes.
+  const hsnTotals = new Map<
+    string,
+    {
+      sac: string;
+      rate: number;
+      value: number;
+      taxable: number;
+      igst: number;
+      cgst: number;
+      sgst: number;
+    }
+  >();
+  const addHsn = (
+    invoice: InvoiceRow,
+    sign: 1 | -1,
+    amounts: {
+      totalAmount: number;
+      taxableAmount: number;
+      igstAmount: number;
+      cgstAmount: number;
+      sgstAmount: number;
+    }
+  ) => {
+    const sac = invoice.sacCode || "";
+    const key = `${sac}|${gstRateOf(invoice)}`;
+    const row = hsnTotals.get(key) ?? {
+      sac,
+      rate: gstRateOf(invoice),
+      value: 0,
+      taxable: 0,
+      igst: 0,
+      cgst: 0,
+      sgst: 0,
+    };
+    row.value = round2(row.value + sign * amounts.totalAmount);
+    row.taxable = round2(row.taxable + sign * amounts.taxableAmount);
+    row.igst = round2(row.igst + sign * amounts.igstAmount);
+    row.cgst = round2(row.cgst + sign * amounts.cgstAmount);
+    row.sgst = round2(row.sgst + sign * amounts.sgstAmount);
+    hsnTotals.set(key, row);
+  };
+  invoices.forEach((i) => addHsn(i, 1, i));
+  creditNotes.forEach((note) => addHsn(note.invoice, -1, note));
+
+  const hsn = [...hsnTotals.values()].map((row) => ({
+    HSN: row.sac,
+    Description: "ERP software subscription",
+    UQC: "NA",
+    "Total Quantity": 0,
+    "Total Value": row.value,
+    Rate: row.rate,
+    "Taxable Value": row.taxable,
+    "Integrated Tax Amount": row.igst,
+    "Central Tax Amount": row.cgst,
+    "State/UT Tax Amount": row.sgst,
+    "Cess Amount": 0,
+  }));
+
+  const sections = { b2b, b2cl, b2cs, cdnr, cdnur, hsn };
+  if (section) {
+    return {
+      fileName: `GSTR1_${section}_${month}.csv`,
+      data: sections[section as Gstr1Section],
+    };
+  }
+  return { month, sections };
+};
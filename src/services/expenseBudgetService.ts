@@ -0,0 +1,664 @@
+// src/services/expenseBudgetService.ts
+import { ManualExpenseCategory, Prisma, RequestStatus } from "@prisma/client";
+import { put } from "@vercel/blob";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { formatCurrency } from "../utils/pdf";
+import { postManualExpense } from "./ledgerService";
+import { notifyUser } from "./notificationService";
+
+type Tx = PrismaTransactionClient;
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+const RECEIPT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+];
+// Utilisation (percent) at which the principal is alerted.
+const ALERT_LEVELS = [100, 80];
+
+export interface UploadedReceipt {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+  size: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Calendar month of a date as YYYY-MM (server local time). */
+export const monthKeyOf = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+const parseMonth = (month: unknown, field = "month") => {
+  if (typeof month !== "string" || !MONTH_PATTERN.test(month)) {
+    throw new HttpError(400, `${field} must be in YYYY-MM format.`);
+  }
+  return month;
+};
+
+const monthRange = (month: string) => {
+  const [year, m] = month.split("-").map(Number);
+  return { gte: new Date(year, m - 1, 1), lt: new Date(year, m, 1) };
+};
+
+const addMonths = (month: string, count: number) => {
+  const [year, m] = month.split("-").map(Number);
+  return monthKeyOf(new Date(year, m - 1 + count, 1));
+};
+
+// --- Categories ---
+
+/**
+ * Creates the built-in categories (one per ManualExpenseCategory) for a
+ * branch that does not have them yet.
+ */
+const ensureSystemCategories = async (client: Tx, branchId: string) => {
+  await client.expenseCategory.createMany({
+    data: Object.values(ManualExpenseCategory).map((category) => ({
+      branchId,
+      name: category,
+      ledgerCategory: category,
+      isSystem: true,
+    })),
+    skipDuplicates: true,
+  });
+};
+
+export const listExpenseCategories = async (
+  branchId: string,
+  includeArchived = false
+) => {
+  await ensureSystemCategories(prisma, branchId);
+  return prisma.expenseCategory.findMany({
+    where: { branchId, isArchived: includeArchived ? undefined : false },
+    orderBy: [{ isSystem: "desc" }, { name: "asc" }],
+  });
+};
+
+export const createExpenseCategory = async (
+  branchId: string,
+  input: { name?: string; ledgerCategory?: ManualExpenseCategory }
+) => {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new HttpError(400, "Category name is required.");
+  }
+  if (
+    input.ledgerCategory &&
+    !Object.values(ManualExpenseCategory).includes(input.ledgerCategory)
+  ) {
+    throw new HttpError(
+      400,
+      `ledgerCategory must be one of ${Object.values(
+        ManualExpenseCategory
+      ).join(", ")}.`
+    );
+  }
+  await ensureSystemCategories(prisma, branchId);
+
+  const existing = await prisma.expenseCategory.findUnique({
+    where: { branchId_name: { branchId, name } },
+  });
+  if (existing && !existing.isArchived) {
+    throw new HttpError(409, `A category named "${name}" already exists.`);
+  }
+  if (existing) {
+    return prisma.expenseCategory.update({
+      where: { id: existing.id },
+      data: { isArchived: false, ledgerCategory: input.ledgerCategory },
+    });
+  }
+  return prisma.expenseCategory.create({
+    data: {
+      branchId,
+      name,
+      ledgerCategory: input.ledgerCategory ?? "Miscellaneous",
+    },
+  });
+};
+
+/** Archived categories keep their history but take no new expenses. */
+export const archiveExpenseCategory = async (
+  branchId: string,
+  categoryId: string
+) => {
+  const category = await prisma.expenseCategory.findFirst({
+    where: { id: categoryId, branchId },
+  });
+  if (!category) {
+    throw new HttpError(404, "Expense category not found in your branch.");
+  }
+  if (category.isSystem) {
+    throw new HttpError(400, "Built-in categories cannot be archived.");
+  }
+  return prisma.expenseCategory.update({
+    where: { id: category.id },
+    data: { isArchived: true },
+  });
+};
+
+/**
+ * Finds the category an expense is filed under, by id or (for older clients
+ * that send the enum value) by name.
+ */
+const resolveCategory = async (
+  branchId: string,
+  input: { categoryId?: string; category?: string }
+) => {
+  await ensureSystemCategories(prisma, branchId);
+  const category = input.categoryId
+    ? await prisma.expenseCategory.findFirst({
+        where: { id: input.categoryId, branchId },
+      })
+    : input.category
+    ? await prisma.expenseCategory.findUnique({
+        where: { branchId_name: { branchId, name: input.category } },
+      })
+    : null;
+  if (!category) {
+    throw new HttpError(400, "A valid expense category is required.");
+  }
+  if (category.isArchived) {
+    throw new HttpError(400, `The category "${category.name}" is archived.`);
+  }
+  return category;
+};
+
+// --- Receipts ---
+
+const uploadReceipt = async (branchId: string, file: UploadedReceipt) => {
+  if (!RECEIPT_TYPES.includes(file.mimetype)) {
+    throw new HttpError(400, "Receipts must be a PDF, JPEG, PNG or WebP file.");
+  }
+  if (file.size > MAX_RECEIPT_BYTES) {
+    throw new HttpError(400, "Receipts must be 5 MB or smaller.");
+  }
+  const safeName = file.originalname.replace(/[^A-Za-z0-9._-]+/g, "-");
+  const blob = await put(
+    `expense-receipts/${branchId}/${Date.now()}-${safeName}`,
+    file.buffer,
+    { access: "public", contentType: file.mimetype, addRandomSuffix: true }
+  );
+  return { receiptUrl: blob.url, receiptFileName: file.originalname };
+};
+
+export const attachExpenseReceipt = async (
+  branchId: string,
+  expenseId: string,
+  file: UploadedReceipt | undefined
+) => {
+  if (!file) {
+    throw new HttpError(400, "Upload the receipt file.");
+  }
+  const expense = await prisma.manualExpense.findFirst({
+    where: { id: expenseId, branchId },
+    select: { id: true },
+  });
+  if (!expense) {
+    throw new HttpError(404, "Expense not found in your branch.");
+  }
+  return prisma.manualExpense.update({
+    where: { id: expense.id },
+    data: await uploadReceipt(branchId, file),
+  });
+};
+
+// --- Budgets ---
+
+/**
+ * Compares a category's spend for the month with its budget and alerts the
+ * principal the first time it reaches 80% and 100%. Raising the budget
+ * lowers the recorded level again, so a later overrun alerts afresh.
+ */
+const evaluateBudgetAlert = async (
+  branchId: string,
+  categoryId: string,
+  month: string
+) => {
+  const budget = await prisma.expenseBudget.findUnique({
+    where: { categoryId_month: { categoryId, month } },
+    include: {
+      category: { select: { name: true } },
+      branch: { select: { principalId: true } },
+    },
+  });
+  if (!budget || budget.amount <= 0) return;
+
+  const spent = await prisma.manualExpense.aggregate({
+    where: { branchId, categoryId, date: monthRange(month) },
+    _sum: { amount: true },
+  });
+  const actual = spent._sum.amount ?? 0;
+  const utilisation = (actual / budget.amount) * 100;
+  const level = ALERT_LEVELS.find((l) => utilisation >= l) ?? 0;
+
+  if (level < budget.alertLevel) {
+    await prisma.expenseBudget.update({
+      where: { id: budget.id },
+      data: { alertLevel: level },
+    });
+    return;
+  }
+  if (level === budget.alertLevel) return;
+
+  const claimed = await prisma.expenseBudget.updateMany({
+    where: { id: budget.id, alertLevel: { lt: level } },
+    data: { alertLevel: level },
+  });
+  if (claimed.count === 0 || !budget.branch.principalId) return;
+
+  await notifyUser(budget.branch.principalId, {
+    title:
+      level >= 100
+        ? `Budget exceeded: ${budget.category.name}`
+        : `Budget ${level}% used: ${budget.category.name}`,
+    message: `${formatCurrency(actual)} of the ${formatCurrency(
+      budget.amount
+    )} budget for ${
+      budget.category.name
+    } in ${month} has been spent (${Math.round(utilisation)}%).`,
+    type: "expense_budget",
+    targetId: budget.id,
+  });
+};
+
+export const setExpenseBudget = async (
+  branchId: string,
+  actor: { id: string; name: string },
+  input: { categoryId?: string; month?: string; amount?: number }
+) => {
+  const month = parseMonth(input.month);
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new HttpError(400, "amount must be 0 or more.");
+  }
+  const category = await prisma.expenseCategory.findFirst({
+    where: { id: input.categoryId, branchId },
+  });
+  if (!input.categoryId || !category) {
+    throw new HttpError(404, "Expense category not found in your branch.");
+  }
+
+  const budget = await prisma.expenseBudget.upsert({
+    where: { categoryId_month: { categoryId: category.id, month } },
+    create: {
+      branchId,
+      categoryId: category.id,
+      month,
+      amount: round2(amount),
+      createdById: actor.id,
+      createdByName: actor.name,
+    },
+    update: { amount: round2(amount) },
+  });
+  await evaluateBudgetAlert(branchId, category.id, month);
+  return prisma.expenseBudget.findUniqueOrThrow({ where: { id: budget.id } });
+};
+
+export const deleteExpenseBudget = async (branchId: string, id: string) => {
+  const deleted = await prisma.expenseBudget.deleteMany({
+    where: { id, branchId },
+  });
+  if (deleted.count === 0) {
+    throw new HttpError(404, "Budget not found in your branch.");
+  }
+};
+
+export const listExpenseBudgets = (branchId: string, month?: string) =>
+  prisma.expenseBudget.findMany({
+    where: {
+      branchId,
+      month: month === undefined ? undefined : parseMonth(month),
+    },
+    include: { category: { select: { name: true } } },
+    orderBy: [{ month: "desc" }, { category: { name: "asc" } }],
+  });
+
+/**
+ * Budget against actual spend for each category and month from `from` to
+ * `to` (default: the current month). Variance is budget minus actual, so an
+ * overspend is negative. Expenses still awaiting approval are shown apart.
+ */
+export const getBudgetVsActual = async (
+  branchId: string,
+  range: { from?: string; to?: string } = {}
+) => {
+  const from = range.from ? parseMonth(range.from, "from") : monthKeyOf();
+  const to = range.to ? parseMonth(range.to, "to") : from;
+  if (to < from) {
+    throw new HttpError(400, "to must not be before from.");
+  }
+  const months: string[] = [];
+  for (let month = from; month <= to; month = addMonths(month, 1)) {
+    months.push(month);
+    if (months.length > 24) {
+      throw new HttpError(400, "The range can span at most 24 months.");
+    }
+  }
+  const dateRange = { gte: monthRange(from).gte, lt: monthRange(to).lt };
+
+  await ensureSystemCategories(prisma, branchId);
+  const [categories, budgets, expenses, pending] = await Promise.all([
+    prisma.expenseCategory.findMany({ where: { branchId } }),
+    prisma.expenseBudget.findMany({
+      where: { branchId, month: { gte: from, lte: to } },
+    }),
+    prisma.manualExpense.findMany({
+      where: { branchId, date: dateRange },
+      select: { categoryId: true, category: true, amount: true, date: true },
+    }),
+    prisma.manualExpenseRequest.findMany({
+      where: { branchId, status: "Pending", date: dateRange },
+      select: { categoryId: true, amount: true, date: true },
+    }),
+  ]);
+
+  // Expenses recorded before categories existed count under the built-in
+  // category of the same name.
+  const systemCategoryId = new Map(
+    categories.filter((c) => c.isSystem).map((c) => [c.name, c.id])
+  );
+  const rows = new Map<
+    string,
+    {
+      month: string;
+      categoryId: string;
+      budget: number | null;
+      actual: number;
+      pending: number;
+    }
+  >();
+  const rowFor = (categoryId: string, month: string) => {
+    const key = `${categoryId}:${month}`;
+    if (!rows.has(key)) {
+      rows.set(key, { month, categoryId, budget: null, actual: 0, pending: 0 });
+    }
+    return rows.get(key)!;
+  };
+
+  for (const budget of budgets) {
+    rowFor(budget.categoryId, budget.month).budget = budget.amount;
+  }
+  for (const expense of expenses) {
+    const categoryId =
+      expense.categoryId ?? systemCategoryId.get(expense.category)!;
+    const row = rowFor(categoryId, monthKeyOf(expense.date));
+    row.actual = round2(row.actual + expense.amount);
+  }
+  for (const request of pending) {
+    const row = rowFor(request.categoryId, monthKeyOf(request.date));
+    row.pending = round2(row.pending + request.amount);
+  }
+
+  const names = new Map(categories.map((c) => [c.id, c.name]));
+  const lines = [...rows.values()]
+    .map((row) => {
+      const utilisation =
+        row.budget && row.budget > 0
+          ? Math.round((row.actual / row.budget) * 1000) / 10
+          : null;
+      return {
+        ...row,
+        categoryName: names.get(row.categoryId) ?? "Unknown",
+        variance: row.budget === null ? null : round2(row.budget - row.actual),
+        utilisation,
+        status:
+          row.budget === null
+            ? "unbudgeted"
+            : row.actual > row.budget
+            ? "over"
+            : utilisation !== null && utilisation >= 80
+            ? "near"
+            : "within",
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.month.localeCompare(b.month) ||
+        a.categoryName.localeCompare(b.categoryName)
+    );
+
+  const totalBudget = round2(
+    lines.reduce((sum, l) => sum + (l.budget ?? 0), 0)
+  );
+  const totalActual = round2(lines.reduce((sum, l) => sum + l.actual, 0));
+  return {
+    from,
+    to,
+    totals: {
+      budget: totalBudget,
+      actual: totalActual,
+      pending: round2(lines.reduce((sum, l) => sum + l.pending, 0)),
+      variance: round2(totalBudget - totalActual),
+    },
+    lines,
+  };
+};
+
+// --- Expenses and approvals ---
+
+const writeExpense = async (
+  tx: Tx,
+  data: {
+    branchId: string;
+    description: string;
+    category: { id: string; ledgerCategory: ManualExpenseCategory };
+    amount: number;
+    date: Date;
+    enteredBy: string;
+    enteredById: string;
+    receiptUrl?: string | null;
+    receiptFileName?: string | null;
+  }
+) => {
+  const { category, ...rest } = data;
+  const expense = await tx.manualExpense.create({
+    data: {
+      ...rest,
+      category: category.ledgerCategory,
+      categoryId: category.id,
+    },
+  });
+  await postManualExpense(tx, expense);
+  return expense;
+};
+
+/**
+ * Records a principal's expense. Up to the branch's approval threshold it is
+ * booked straight away (and counted against the budget); above it, a request
+ * goes to the admins and nothing is booked until one approves it.
+ */
+export const recordManualExpense = async (
+  branchId: string,
+  actor: { id: string; name: string },
+  input: {
+    description?: string;
+    amount?: number;
+    date?: string;
+    categoryId?: string;
+    category?: string;
+  },
+  receipt?: UploadedReceipt
+) => {
+  const amount = round2(Number(input.amount));
+  const date = new Date(input.date ?? "");
+  if (!input.description || !Number.isFinite(amount) || amount <= 0) {
+    throw new HttpError(400, "description and a positive amount are required.");
+  }
+  if (isNaN(date.getTime())) {
+    throw new HttpError(400, "A valid date is required.");
+  }
+  const [category, branch] = await Promise.all([
+    resolveCategory(branchId, input),
+    prisma.branch.findUniqueOrThrow({
+      where: { id: branchId },
+      select: { name: true, expenseApprovalThreshold: true },
+    }),
+  ]);
+  const files = receipt ? await uploadReceipt(branchId, receipt) : {};
+
+  const threshold = branch.expenseApprovalThreshold;
+  if (threshold !== null && amount > threshold) {
+    const request = await prisma.manualExpenseRequest.create({
+      data: {
+        branchId,
+        categoryId: category.id,
+        description: input.description,
+        amount,
+        date,
+        ...files,
+        requestedById: actor.id,
+        requestedByName: actor.name,
+      },
+    });
+    const admins = await prisma.user.findMany({
+      where: { role: { in: ["Admin", "SuperAdmin"] } },
+      select: { id: true },
+    });
+    for (const admin of admins) {
+      await notifyUser(admin.id, {
+        title: "Expense awaiting approval",
+        message: `${branch.name}: ${input.description} (${
+          category.name
+        }) for ${formatCurrency(amount)} is above the ${formatCurrency(
+          threshold
+        )} approval limit.`,
+        type: "expense_request",
+        targetId: request.id,
+      });
+    }
+    return { status: "Pending" as const, request };
+  }
+
+  const expense = await prisma.$transaction((tx) =>
+    writeExpense(tx, {
+      branchId,
+      description: input.description!,
+      category,
+      amount,
+      date,
+      enteredBy: actor.name,
+      enteredById: actor.id,
+      ...files,
+    })
+  );
+  await evaluateBudgetAlert(branchId, category.id, monthKeyOf(date));
+  return { status: "Approved" as const, expense };
+};
+
+export const reviewManualExpenseRequest = async (
+  requestId: string,
+  reviewer: { id: string; name: string },
+  input: { decision?: string; note?: string }
+) => {
+  if (input.decision !== "approve" && input.decision !== "reject") {
+    throw new HttpError(400, "decision must be 'approve' or 'reject'.");
+  }
+  if (input.decision === "reject" && !input.note) {
+    throw new HttpError(400, "A note is required to reject an expense.");
+  }
+  const request = await prisma.manualExpenseRequest.findUnique({
+    where: { id: requestId },
+    include: { category: true },
+  });
+  if (!request) {
+    throw new HttpError(404, "Expense request not found.");
+  }
+
+  const status: RequestStatus =
+    input.decision === "approve" ? "Approved" : "Rejected";
+  const reviewed = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.manualExpenseRequest.updateMany({
+      where: { id: request.id, status: "Pending" },
+      data: {
+        status,
+        reviewedById: reviewer.id,
+        reviewedByName: reviewer.name,
+        reviewedAt: new Date(),
+        reviewNote: input.note,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new HttpError(409, "This expense request was already reviewed.");
+    }
+    if (status === "Rejected") return null;
+
+    const expense = await writeExpense(tx, {
+      branchId: request.branchId,
+      description: request.description,
+      category: request.category,
+      amount: request.amount,
+      date: request.date,
+      enteredBy: request.requestedByName,
+      enteredById: request.requestedById,
+      receiptUrl: request.receiptUrl,
+      receiptFileName: request.receiptFileName,
+    });
+    await tx.manualExpenseRequest.update({
+      where: { id: request.id },
+      data: { manualExpenseId: expense.id },
+    });
+    return expense;
+  });
+
+  if (reviewed) {
+    await evaluateBudgetAlert(
+      request.branchId,
+      request.categoryId,
+      monthKeyOf(request.date)
+    );
+  }
+  await notifyUser(request.requestedById, {
+    title: `Expense ${status.toLowerCase()}`,
+    message: `${request.description} for ${formatCurrency(
+      request.amount
+    )} was ${status.toLowerCase()} by ${reviewer.name}${
+      input.note ? `: ${input.note}` : "."
+    }`,
+    type: "expense_request",
+    targetId: request.id,
+  });
+
+  return prisma.manualExpenseRequest.findUniqueOrThrow({
+    where: { id: request.id },
+  });
+};
+
+export const listManualExpenseRequests = (
+  filters: { branchId?: string; status?: RequestStatus } = {}
+) => {
+  if (
+    filters.status &&
+    !Object.values(RequestStatus).includes(filters.status)
+  ) {
+    throw new HttpError(400, "status must be Pending, Approved or Rejected.");
+  }
+  return prisma.manualExpenseRequest.findMany({
+    where: filters,
+    include: {
+      category: { select: { name: true } },
+      branch: { select: { name: true } },
+    },
+    orderBy: { requestedAt: "desc" },
+  });
+};
+
+export const listManualExpenses = (
+  branchId: string,
+  filters: { month?: string; categoryId?: string } = {}
+) => {
+  const where: Prisma.ManualExpenseWhereInput = {
+    branchId,
+    categoryId: filters.categoryId,
+    date: filters.month ? monthRange(parseMonth(filters.month)) : undefined,
+  };
+  return prisma.manualExpense.findMany({
+    where,
+    include: { expenseCategory: { select: { name: true } } },
+    orderBy: { date: "desc" },
+  });
+};
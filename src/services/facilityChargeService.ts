@@ -0,0 +1,254 @@
+// src/services/facilityChargeService.ts
+import { FacilityType, Prisma } from "@prisma/client";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { recordFeeAdjustment } from "./feeAdjustmentService";
+import { applyFeeDiscounts } from "./feeDiscountService";
+import {
+  ACADEMIC_MONTH_NAMES,
+  buildInstalmentSchedule,
+  getSessionStartYear,
+  syncStudentFeeSchedule,
+} from "./feeScheduleService";
+import { LedgerAccountKey } from "./ledgerService";
+
+type Tx = PrismaTransactionClient;
+
+const FACILITY_LABELS: Record<FacilityType, string> = {
+  hostel: "Hostel",
+  transport: "Transport",
+};
+
+// Credits for unused months reverse the same income account.
+const INCOME_ACCOUNTS: Record<FacilityType, LedgerAccountKey> = {
+  hostel: "HOSTEL_INCOME",
+  transport: "TRANSPORT_INCOME",
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// 0 = April ... 11 = March
+const getAcademicMonthIndex = (date: Date) => (date.getMonth() + 9) % 12;
+
+const describeMonths = (fromMonth: number, toMonth: number) => {
+  const count = toMonth - fromMonth + 1;
+  const span =
+    count === 1
+      ? ACADEMIC_MONTH_NAMES[fromMonth].slice(0, 3)
+      : `${ACADEMIC_MONTH_NAMES[fromMonth].slice(0, 3)}-${ACADEMIC_MONTH_NAMES[
+          toMonth
+        ].slice(0, 3)}`;
+  return `${span}, ${count} month(s)`;
+};
+
+/**
+ * The student's current FeeRecord. Students who have never been billed get
+ * one from their class template (or an empty one) so facility charges always
+ * have somewhere to go.
+ */
+const getOrCreateCurrentFeeRecord = async (tx: Tx, studentId: string) => {
+  const record = await tx.feeRecord.findFirst({
+    where: { studentId },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+  if (record) return record.id;
+
+  const student = await tx.student.findUnique({
+    where: { id: studentId },
+    select: { class: { select: { feeTemplate: true } } },
+  });
+  const template = student?.class?.feeTemplate;
+  if (template) {
+    const recordId = await syncStudentFeeSchedule(
+      tx,
+      studentId,
+      buildInstalmentSchedule(template),
+      0
+    );
+    await applyFeeDiscounts(tx, studentId);
+    return recordId;
+  }
+
+  const created = await tx.feeRecord.create({
+    data: {
+      studentId,
+      totalAmount: 0,
+      paidAmount: 0,
+      dueDate: new Date(getSessionStartYear(), 3, 1),
+      sessionStartYear: getSessionStartYear(),
+    },
+  });
+  return created.id;
+};
+
+/**
+ * Bills a hostel room or bus stop from the current month to the end of the
+ * session. The current month is charged in full.
+ */
+export const startFacilityCharge = async (
+  tx: Tx,
+  params: {
+    branchId: string;
+    studentId: string;
+    facility: FacilityType;
+    roomId?: string;
+    busStopId?: string;
+    description: string;
+    monthlyRate: number;
+    actorName: string;
+    asOf?: Date;
+  }
+) => {
+  const asOf = params.asOf ?? new Date();
+  const fromMonth = getAcademicMonthIndex(asOf);
+  const monthlyRate = params.monthlyRate || 0;
+  const amount = round2(monthlyRate * (12 - fromMonth));
+  const feeRecordId = await getOrCreateCurrentFeeRecord(tx, params.studentId);
+
+  const charge = await tx.facilityFeeCharge.create({
+    data: {
+      branchId: params.branchId,
+      studentId: params.studentId,
+      feeRecordId,
+      facility: params.facility,
+      roomId: params.roomId,
+      busStopId: params.busStopId,
+      description: params.description,
+      monthlyRate,
+      sessionStartYear: getSessionStartYear(asOf),
+      fromMonth,
+      toMonth: 11,
+      amount,
+      startedAt: asOf,
+    },
+  });
+
+  if (amount > 0) {
+    await recordFeeAdjustment(tx, {
+      studentId: params.studentId,
+      feeRecordId,
+      type: "charge",
+      amount,
+      reason: `${FACILITY_LABELS[params.facility]} Assigned: ${
+        params.description
+      } (${describeMonths(fromMonth, 11)} @ ${monthlyRate})`,
+      adjustedBy: params.actorName,
+      date: asOf,
+      account: INCOME_ACCOUNTS[params.facility],
+      facilityChargeId: charge.id,
+    });
+  }
+
+  return charge;
+};
+
+/**
+ * Stops billing the student's active hostel or transport charge and credits
+ * the months no longer used. On removal the current month counts as used; on
+ * reassignment the new room or stop bills the current month instead. Charges
+ * from an earlier session are closed without a credit.
+ *
+ * Students assigned before charges were tracked have no charge row; for them
+ * `legacy` reproduces the old credit (remaining months after this one).
+ */
+export const endFacilityCharge = async (
+  tx: Tx,
+  params: {
+    studentId: string;
+    facility: FacilityType;
+    reassigned: boolean;
+    actorName: string;
+    asOf?: Date;
+    legacy?: { description: string; monthlyRate: number };
+  }
+) => {
+  const asOf = params.asOf ?? new Date();
+  const month = getAcademicMonthIndex(asOf);
+  const label = FACILITY_LABELS[params.facility];
+  const action = params.reassigned ? "Changed" : "Removed";
+
+  const charge = await tx.facilityFeeCharge.findFirst({
+    where: {
+      studentId: params.studentId,
+      facility: params.facility,
+      isActive: true,
+    },
+    orderBy: { startedAt: "desc" },
+  });
+
+  if (!charge) {
+    const monthlyRate = params.legacy?.monthlyRate || 0;
+    const creditFrom = params.reassigned ? month : month + 1;
+    const credit = round2(monthlyRate * (12 - creditFrom));
+    if (!params.legacy || credit <= 0) return 0;
+
+    const record = await tx.feeRecord.findFirst({
+      where: { studentId: params.studentId },
+      orderBy: { createdAt: "desc" },
+      select: { id: true },
+    });
+    if (!record) return 0;
+
+    await recordFeeAdjustment(tx, {
+      studentId: params.studentId,
+      feeRecordId: record.id,
+      type: "concession",
+      amount: credit,
+      reason: `${label} ${action}: ${
+        params.legacy.description
+      } - credit for ${describeMonths(creditFrom, 11)} @ ${monthlyRate}`,
+      adjustedBy: params.actorName,
+      date: asOf,
+      account: INCOME_ACCOUNTS[params.facility],
+    });
+    return credit;
+  }
+
+  const inCurrentSession =
+    charge.sessionStartYear === getSessionStartYear(asOf);
+  const lastMonth = params.reassigned ? month - 1 : month;
+  const toMonth = inCurrentSession
+    ? Math.max(charge.fromMonth - 1, Math.min(charge.toMonth, lastMonth))
+    : charge.toMonth;
+  const amount = round2(
+    charge.monthlyRate * Math.max(0, toMonth - charge.fromMonth + 1)
+  );
+  const credit = round2(charge.amount - amount);
+
+  await tx.facilityFeeCharge.update({
+    where: { id: charge.id },
+    data: { toMonth, amount, isActive: false, endedAt: asOf },
+  });
+
+  if (credit > 0) {
+    await recordFeeAdjustment(tx, {
+      studentId: params.studentId,
+      feeRecordId: charge.feeRecordId,
+      type: "concession",
+      amount: credit,
+      reason: `${label} ${action}: ${
+        charge.description
+      } - credit for ${describeMonths(toMonth + 1, charge.toMonth)} @ ${
+        charge.monthlyRate
+      }`,
+      adjustedBy: params.actorName,
+      date: asOf,
+      account: INCOME_ACCOUNTS[params.facility],
+      facilityChargeId: charge.id,
+    });
+  }
+
+  return credit;
+};
+
+export const listFacilityCharges = (
+  where: Prisma.FacilityFeeChargeWhereInput
+) =>
+  prisma.facilityFeeCharge.findMany({
+    where,
+    include: {
+      student: { select: { name: true } },
+      adjustments: { orderBy: { date: "asc" } },
+    },
+    orderBy: { startedAt: "desc" },
+  });
@@ -0,0 +1,55 @@
+// src/services/feeAdjustmentService.ts
+import { FeeAdjustmentType } from "@prisma/client";
+import { PrismaTransactionClient } from "../prisma";
+import { LedgerAccountKey, postReceivableMovement } from "./ledgerService";
+import { applyWalletToFeeRecord } from "./studentWalletService";
+
+/**
+ * Records a charge or concession against a fee record: the adjustment itself,
+ * the change to the record's total and the matching journal entry. `account`
+ * is the income (or concession) account on the other side of fees receivable.
+ * A new charge is paid from the student's wallet where it has credit.
+ */
+export const recordFeeAdjustment = async (
+  tx: PrismaTransactionClient,
+  params: {
+    studentId: string;
+    feeRecordId: string;
+    type: FeeAdjustmentType;
+    amount: number;
+    reason: string;
+    adjustedBy: string;
+    date?: Date;
+    account: LedgerAccountKey;
+    lateFeeChargeId?: string;
+    facilityChargeId?: string;
+    discountApplicationId?: string;
+  }
+) => {
+  const { account, ...data } = params;
+  const date = params.date ?? new Date();
+  const adjustment = await tx.feeAdjustment.create({
+    data: { ...data, date },
+    include: { student: { select: { branchId: true } } },
+  });
+
+  const signed = params.type === "charge" ? params.amount : -params.amount;
+  await tx.feeRecord.update({
+    where: { id: params.feeRecordId },
+    data: { totalAmount: { increment: signed } },
+  });
+  await postReceivableMovement(tx, {
+    branchId: adjustment.student.branchId,
+    date,
+    description: params.reason,
+    sourceType: "FeeAdjustment",
+    sourceId: adjustment.id,
+    amount: signed,
+    account,
+  });
+  if (params.type === "charge") {
+    await applyWalletToFeeRecord(tx, params.studentId, params.feeRecordId);
+  }
+
+  return adjustment;
+};
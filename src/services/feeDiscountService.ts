@@ -0,0 +1,437 @@
+// src/services/feeDiscountService.ts
+import {
+  FeeDiscountRule,
+  FeeDiscountRuleType,
+  FeeDiscountValueType,
+  StudentCategory,
+} from "@prisma/client";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { recordFeeAdjustment } from "./feeAdjustmentService";
+
+type Tx = PrismaTransactionClient;
+
+const SYSTEM_ACTOR = "System (Discount Rules)";
+
+const RULE_TYPE_LABELS: Record<FeeDiscountRuleType, string> = {
+  sibling: "Sibling Discount",
+  staffWard: "Staff Ward Discount",
+  category: "Category Scholarship",
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface FeeDiscountRuleInput {
+  name?: string;
+  ruleType?: FeeDiscountRuleType;
+  valueType?: FeeDiscountValueType;
+  value?: number;
+  categories?: StudentCategory[];
+  minSiblingPosition?: number;
+  priority?: number;
+  stackable?: boolean;
+  maxAmount?: number | null;
+  isActive?: boolean;
+}
+
+const validateRuleInput = (input: FeeDiscountRuleInput, isCreate: boolean) => {
+  if (
+    isCreate &&
+    (!input.name || !input.ruleType || !input.valueType || input.value == null)
+  ) {
+    throw new HttpError(
+      400,
+      "name, ruleType, valueType and value are required."
+    );
+  }
+  if (
+    input.ruleType !== undefined &&
+    !Object.values(FeeDiscountRuleType).includes(input.ruleType)
+  ) {
+    throw new HttpError(
+      400,
+      "ruleType must be 'sibling', 'staffWard' or 'category'."
+    );
+  }
+  if (
+    input.valueType !== undefined &&
+    !Object.values(FeeDiscountValueType).includes(input.valueType)
+  ) {
+    throw new HttpError(400, "valueType must be 'flat' or 'percentage'.");
+  }
+  if (input.value !== undefined) {
+    if (!Number.isFinite(Number(input.value)) || Number(input.value) <= 0) {
+      throw new HttpError(400, "value must be a positive number.");
+    }
+    if (input.valueType === "percentage" && Number(input.value) > 100) {
+      throw new HttpError(400, "A percentage discount cannot exceed 100.");
+    }
+  }
+  if (
+    input.categories !== undefined &&
+    (!Array.isArray(input.categories) ||
+      input.categories.some((c) => !Object.values(StudentCategory).includes(c)))
+  ) {
+    throw new HttpError(400, "categories contains an unknown category.");
+  }
+  if (
+    input.ruleType === "category" &&
+    input.categories !== undefined &&
+    input.categories.length === 0
+  ) {
+    throw new HttpError(400, "A category rule needs at least one category.");
+  }
+  if (
+    input.minSiblingPosition !== undefined &&
+    (!Number.isInteger(Number(input.minSiblingPosition)) ||
+      Number(input.minSiblingPosition) < 1)
+  ) {
+    throw new HttpError(400, "minSiblingPosition must be 1 or more.");
+  }
+  if (
+    input.priority !== undefined &&
+    !Number.isInteger(Number(input.priority))
+  ) {
+    throw new HttpError(400, "priority must be a whole number.");
+  }
+  if (
+    input.maxAmount !== undefined &&
+    input.maxAmount !== null &&
+    (!Number.isFinite(Number(input.maxAmount)) || Number(input.maxAmount) <= 0)
+  ) {
+    throw new HttpError(400, "maxAmount must be a positive number.");
+  }
+};
+
+const toRuleData = (input: FeeDiscountRuleInput) => ({
+  name: input.name,
+  ruleType: input.ruleType,
+  valueType: input.valueType,
+  value: input.value === undefined ? undefined : Number(input.value),
+  categories: input.categories,
+  minSiblingPosition:
+    input.minSiblingPosition === undefined
+      ? undefined
+      : Number(input.minSiblingPosition),
+  priority: input.priority === undefined ? undefined : Number(input.priority),
+  stackable: input.stackable,
+  maxAmount:
+    input.maxAmount === undefined || input.maxAmount === null
+      ? input.maxAmount
+      : Number(input.maxAmount),
+  isActive: input.isActive,
+});
+
+export const listFeeDiscountRules = (branchId: string) =>
+  prisma.feeDiscountRule.findMany({
+    where: { branchId },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  });
+
+export const createFeeDiscountRule = async (
+  branchId: string,
+  createdById: string,
+  input: FeeDiscountRuleInput
+) => {
+  validateRuleInput(input, true);
+  if (input.ruleType === "category" && !input.categories?.length) {
+    throw new HttpError(400, "A category rule needs at least one category.");
+  }
+  return prisma.feeDiscountRule.create({
+    data: {
+      ...toRuleData(input),
+      name: input.name!,
+      ruleType: input.ruleType!,
+      valueType: input.valueType!,
+      value: Number(input.value),
+      branchId,
+      createdById,
+    },
+  });
+};
+
+export const updateFeeDiscountRule = async (
+  branchId: string,
+  ruleId: string,
+  input: FeeDiscountRuleInput
+) => {
+  const rule = await prisma.feeDiscountRule.findFirst({
+    where: { id: ruleId, branchId },
+  });
+  if (!rule) {
+    throw new HttpError(404, "Discount rule not found in your branch.");
+  }
+  validateRuleInput(
+    { ruleType: rule.ruleType, valueType: rule.valueType, ...input },
+    false
+  );
+  return prisma.feeDiscountRule.update({
+    where: { id: ruleId },
+    data: toRuleData(input),
+  });
+};
+
+/**
+ * Rules that have already been applied are deactivated rather than deleted,
+ * so the adjustments they posted stay traceable.
+ */
+export const deleteFeeDiscountRule = async (
+  branchId: string,
+  ruleId: string
+) => {
+  const rule = await prisma.feeDiscountRule.findFirst({
+    where: { id: ruleId, branchId },
+    include: { _count: { select: { applications: true } } },
+  });
+  if (!rule) {
+    throw new HttpError(404, "Discount rule not found in your branch.");
+  }
+  if (rule._count.applications > 0) {
+    await prisma.feeDiscountRule.update({
+      where: { id: ruleId },
+      data: { isActive: false },
+    });
+    return { deleted: false, deactivated: true };
+  }
+  await prisma.feeDiscountRule.delete({ where: { id: ruleId } });
+  return { deleted: true, deactivated: false };
+};
+
+export interface DiscountEligibility {
+  baseAmount: number;
+  siblingPosition: number | null;
+  isStaffWard: boolean;
+  category: StudentCategory | null;
+}
+
+const isEligible = (rule: FeeDiscountRule, student: DiscountEligibility) => {
+  switch (rule.ruleType) {
+    case "sibling":
+      return (
+        student.siblingPosition !== null &&
+        student.siblingPosition >= rule.minSiblingPosition
+      );
+    case "staffWard":
+      return student.isStaffWard;
+    case "category":
+      return (
+        student.category !== null && rule.categories.includes(student.category)
+      );
+  }
+};
+
+/**
+ * Works out what each rule takes off a student's tuition. `rules` must be
+ * active and sorted by priority. Percentages apply to what earlier rules have
+ * left, and the total never exceeds the tuition itself.
+ */
+export const computeFeeDiscounts = (
+  rules: FeeDiscountRule[],
+  student: DiscountEligibility
+) => {
+  const discounts: { rule: FeeDiscountRule; amount: number }[] = [];
+  let remaining = round2(student.baseAmount);
+
+  for (const rule of rules) {
+    if (remaining <= 0) break;
+    if (!isEligible(rule, student)) continue;
+    if (!rule.stackable && discounts.length > 0) continue;
+
+    const raw =
+      rule.valueType === "flat" ? rule.value : (remaining * rule.value) / 100;
+    const capped = rule.maxAmount != null ? Math.min(raw, rule.maxAmount) : raw;
+    const amount = round2(Math.min(capped, remaining));
+    if (amount <= 0) continue;
+
+    discounts.push({ rule, amount });
+    remaining = round2(remaining - amount);
+    if (!rule.stackable) break;
+  }
+
+  return discounts;
+};
+
+/**
+ * Brings the discounts on a student's current fee record in line with the
+ * branch's rules. Only the difference from what each rule already gave is
+ * posted: a concession when a discount grows, a charge when it shrinks or no
+ * longer applies. Safe to run as often as needed.
+ */
+export const applyFeeDiscounts = async (
+  tx: Tx,
+  studentId: string,
+  actorName: string = SYSTEM_ACTOR
+) => {
+  const student = await tx.student.findUnique({
+    where: { id: studentId },
+    select: {
+      id: true,
+      branchId: true,
+      parentId: true,
+      category: true,
+      staffParent: { select: { status: true } },
+      class: { select: { feeTemplate: { select: { amount: true } } } },
+      feeRecords: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        include: {
+          instalments: { select: { amount: true } },
+          discountApplications: true,
+        },
+      },
+    },
+  });
+  const record = student?.feeRecords[0];
+  if (!student || !record) {
+    return { feeRecordId: null, discounts: [], netChange: 0 };
+  }
+
+  // Tuition is what the instalment schedule bills; older records without a
+  // schedule fall back to the class template.
+  const baseAmount =
+    record.instalments.length > 0
+      ? record.instalments.reduce((sum, i) => sum + i.amount, 0)
+      : student.class?.feeTemplate?.amount ?? 0;
+
+  let siblingPosition: number | null = null;
+  if (student.parentId) {
+    const siblings = await tx.student.findMany({
+      where: {
+        parentId: student.parentId,
+        branchId: student.branchId,
+        status: "active",
+      },
+      orderBy: [
+        { dateOfAdmission: "asc" },
+        { createdAt: "asc" },
+        { id: "asc" },
+      ],
+      select: { id: true },
+    });
+    const index = siblings.findIndex((s) => s.id === student.id);
+    siblingPosition = index === -1 ? null : index + 1;
+  }
+
+  const rules = await tx.feeDiscountRule.findMany({
+    where: { branchId: student.branchId, isActive: true },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  });
+  const discounts = computeFeeDiscounts(rules, {
+    baseAmount,
+    siblingPosition,
+    isStaffWard: student.staffParent?.status === "active",
+    category: student.category,
+  });
+
+  const targets = new Map(discounts.map((d) => [d.rule.id, d]));
+  const ruleIds = new Set([
+    ...targets.keys(),
+    ...record.discountApplications.map((a) => a.ruleId),
+  ]);
+  const rulesById = new Map(rules.map((r) => [r.id, r]));
+  const missingRuleIds = [...ruleIds].filter((id) => !rulesById.has(id));
+  if (missingRuleIds.length > 0) {
+    (
+      await tx.feeDiscountRule.findMany({
+        where: { id: { in: missingRuleIds } },
+      })
+    ).forEach((r) => rulesById.set(r.id, r));
+  }
+
+  let netChange = 0;
+  for (const ruleId of ruleIds) {
+    const rule = rulesById.get(ruleId)!;
+    const existing = record.discountApplications.find(
+      (a) => a.ruleId === ruleId
+    );
+    const target = targets.get(ruleId)?.amount ?? 0;
+    const delta = round2(target - (existing?.amount ?? 0));
+    if (delta === 0) continue;
+
+    const application = existing
+      ? await tx.feeDiscountApplication.update({
+          where: { id: existing.id },
+          data: { amount: target },
+        })
+      : await tx.feeDiscountApplication.create({
+          data: {
+            ruleId,
+            studentId,
+            feeRecordId: record.id,
+            amount: target,
+          },
+        });
+
+    const label = `${RULE_TYPE_LABELS[rule.ruleType]}: ${rule.name}`;
+    await recordFeeAdjustment(tx, {
+      studentId,
+      feeRecordId: record.id,
+      type: delta > 0 ? "concession" : "charge",
+      amount: Math.abs(delta),
+      reason: existing
+        ? target > 0
+          ? `${label} (revised to ${target})`
+          : `${label} (no longer applicable)`
+        : label,
+      adjustedBy: actorName,
+      account: "FEE_CONCESSIONS",
+      discountApplicationId: application.id,
+    });
+    netChange = round2(netChange + delta);
+  }
+
+  return {
+    feeRecordId: record.id,
+    discounts: discounts.map((d) => ({
+      ruleId: d.rule.id,
+      name: d.rule.name,
+      amount: d.amount,
+    })),
+    netChange,
+  };
+};
+
+/**
+ * Re-evaluates discounts for every active student of a branch (or one class),
+ * e.g. after rules change or when a new session starts.
+ */
+export const evaluateFeeDiscountsForBranch = async (
+  branchId: string,
+  options: { classId?: string; actorName?: string } = {}
+) => {
+  const students = await prisma.student.findMany({
+    where: { branchId, classId: options.classId, status: "active" },
+    select: { id: true },
+  });
+
+  let studentsAdjusted = 0;
+  let totalDiscountChange = 0;
+  // One transaction per student keeps each well inside the interactive timeout.
+  for (const student of students) {
+    const { netChange } = await prisma.$transaction((tx) =>
+      applyFeeDiscounts(tx, student.id, options.actorName)
+    );
+    if (netChange !== 0) studentsAdjusted++;
+    totalDiscountChange = round2(totalDiscountChange + netChange);
+  }
+
+  return {
+    studentsEvaluated: students.length,
+    studentsAdjusted,
+    totalDiscountChange,
+  };
+};
+
+export const listFeeDiscountApplications = (
+  branchId: string,
+  studentId?: string
+) =>
+  prisma.feeDiscountApplication.findMany({
+    where: { rule: { branchId }, studentId },
+    include: {
+      rule: { select: { name: true, ruleType: true } },
+      student: { select: { name: true, classId: true } },
+      adjustments: { orderBy: { date: "asc" } },
+    },
+    orderBy: { updatedAt: "desc" },
+  });
@@ -0,0 +1,300 @@
+// src/services/feePaymentService.ts
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { verifyPaymentSignature } from "../utils/razorpay";
+import { issueFeeReceipt } from "./feeReceiptService";
+import { postFeePaymentReversal } from "./feeRefundService";
+import { allocateFeeRecordPayments } from "./feeScheduleService";
+import { postFeePayment } from "./ledgerService";
+import { getBranchGateway } from "./paymentGatewayService";
+import { creditWallet } from "./studentWalletService";
+
+const CURRENCY = "INR";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Writes a FeePayment inside an open transaction: bumps the record's
+ * paidAmount, spreads the payment over the oldest open instalments and issues
+ * its numbered receipt, then posts it to the ledger. Whatever is more than
+ * the record owes is kept as the payment's advanceAmount and credited to the
+ * student's wallet. Every path that takes money goes through here.
+ */
+export const recordFeePaymentInTransaction = async (
+  tx: PrismaTransactionClient,
+  params: {
+    studentId: string;
+    feeRecordId: string;
+    amount: number;
+    transactionId: string;
+    details: string;
+    paymentMode: string;
+    collectedById?: string;
+    counterSessionId?: string;
+  }
+) => {
+  if (!Number.isFinite(params.amount) || params.amount <= 0) {
+    throw new HttpError(400, "Payment amount must be a positive number.");
+  }
+  const record = await tx.feeRecord.findUniqueOrThrow({
+    where: { id: params.feeRecordId },
+    select: { totalAmount: true, paidAmount: true },
+  });
+  const owed = Math.max(0, round2(record.totalAmount - record.paidAmount));
+  const applied = round2(Math.min(params.amount, owed));
+  const advanceAmount = round2(params.amount - applied);
+
+  const payment = await tx.feePayment.create({
+    data: {
+      studentId: params.studentId,
+      feeRecordId: params.feeRecordId,
+      amount: applied,
+      advanceAmount,
+      paidDate: new Date(),
+      transactionId: params.transactionId,
+      details: params.details,
+      paymentMode: params.paymentMode,
+      collectedById: params.collectedById,
+      counterSessionId: params.counterSessionId,
+    },
+  });
+  await tx.feeRecord.update({
+    where: { id: params.feeRecordId },
+    data: { paidAmount: { increment: applied } },
+  });
+
+  const allocations = (
+    await allocateFeeRecordPayments(tx, params.feeRecordId)
+  ).filter((a) => a.feePaymentId === payment.id);
+  const receipt = await issueFeeReceipt(tx, payment.id);
+  await postFeePayment(tx, receipt.branchId, payment);
+  if (advanceAmount > 0) {
+    const collector = params.collectedById
+      ? await tx.user.findUnique({
+          where: { id: params.collectedById },
+          select: { id: true, name: true },
+        })
+      : null;
+    await creditWallet(tx, {
+      studentId: params.studentId,
+      amount: advanceAmount,
+      reason: `${applied > 0 ? "Overpayment" : "Advance payment"} on receipt ${
+        receipt.receiptNumber
+      }`,
+      feeRecordId: params.feeRecordId,
+      feePaymentId: payment.id,
+      actor: collector ?? undefined,
+    });
+  }
+
+  return { payment, allocations, receipt };
+};
+
+/**
+ * Creates a gateway order for (part of) the outstanding balance of a FeeRecord
+ * (by default the current session's). The amount is decided here, never by
+ * the client: it defaults to the full outstanding balance and may not exceed
+ * it.
+ */
+export const createFeePaymentOrder = async (params: {
+  studentId: string;
+  feeRecordId?: string;
+  amount?: number;
+  createdById: string;
+}) => {
+  const feeRecord = await prisma.feeRecord.findFirst({
+    where: params.feeRecordId
+      ? { id: params.feeRecordId, studentId: params.studentId }
+      : { studentId: params.studentId },
+    orderBy: { createdAt: "desc" },
+    include: { student: { select: { branchId: true, name: true } } },
+  });
+
+  if (!feeRecord) {
+    throw new HttpError(404, "No fee record found for student.");
+  }
+
+  const outstanding = feeRecord.totalAmount - feeRecord.paidAmount;
+  if (outstanding <= 0) {
+    throw new HttpError(400, "There are no outstanding fees on this record.");
+  }
+
+  const amount =
+    params.amount === undefined ? outstanding : Number(params.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new HttpError(400, "Amount must be a positive number.");
+  }
+  if (amount > outstanding) {
+    throw new HttpError(
+      400,
+      `Amount exceeds the outstanding balance of ${outstanding}.`
+    );
+  }
+
+  const { client: gateway } = await getBranchGateway(
+    feeRecord.student.branchId
+  );
+  const gatewayOrder = await gateway.createOrder({
+    amount,
+    currency: CURRENCY,
+    receipt: feeRecord.id.slice(0, 40),
+    notes: { studentId: params.studentId, feeRecordId: feeRecord.id },
+  });
+
+  const order = await prisma.paymentOrder.create({
+    data: {
+      branchId: feeRecord.student.branchId,
+      studentId: params.studentId,
+      feeRecordId: feeRecord.id,
+      gatewayOrderId: gatewayOrder.id,
+      amount,
+      currency: CURRENCY,
+      createdById: params.createdById,
+    },
+  });
+
+  return {
+    orderId: order.gatewayOrderId,
+    amount: order.amount,
+    currency: order.currency,
+    keyId: gateway.keyId,
+    feeRecordId: feeRecord.id,
+    studentName: feeRecord.student.name,
+  };
+};
+
+/**
+ * Writes the FeePayment for a captured gateway payment. Safe to call more
+ * than once for the same order (checkout callback and webhook both land
+ * here): only the first call that flips the order to `paid` records money.
+ */
+export const settleFeePaymentOrder = async (
+  gatewayOrderId: string,
+  gatewayPaymentId: string,
+  source: "checkout" | "webhook"
+) => {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.paymentOrder.findUnique({
+      where: { gatewayOrderId },
+    });
+    if (!order) {
+      throw new HttpError(404, "Payment order not found.");
+    }
+
+    const claimed = await tx.paymentOrder.updateMany({
+      where: { id: order.id, status: { in: ["created", "failed"] } },
+      data: { status: "paid", gatewayPaymentId, failureReason: null },
+    });
+
+    if (claimed.count === 0) {
+      return { order, alreadySettled: true };
+    }
+
+    const { payment, receipt } = await recordFeePaymentInTransaction(tx, {
+      studentId: order.studentId,
+      feeRecordId: order.feeRecordId,
+      amount: order.amount,
+      transactionId: gatewayPaymentId,
+      details: `Online Payment (${source})`,
+      paymentMode: "Online",
+    });
+
+    const settled = await tx.paymentOrder.update({
+      where: { id: order.id },
+      data: { feePaymentId: payment.id },
+    });
+
+    return { order: settled, payment, receipt, alreadySettled: false };
+  });
+};
+
+/**
+ * Verifies the Checkout signature and only then settles the order.
+ */
+export const verifyAndSettleCheckout = async (params: {
+  razorpay_order_id?: string;
+  razorpay_payment_id?: string;
+  razorpay_signature?: string;
+}) => {
+  const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = params;
+  if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+    throw new HttpError(
+      400,
+      "razorpay_order_id, razorpay_payment_id and razorpay_signature are required."
+    );
+  }
+
+  const order = await prisma.paymentOrder.findUnique({
+    where: { gatewayOrderId: razorpay_order_id },
+    select: { branchId: true },
+  });
+  if (!order) {
+    throw new HttpError(404, "Payment order not found.");
+  }
+
+  // The order was created with the branch's own keys, so verify with them.
+  const { keySecret } = await getBranchGateway(order.branchId);
+  const isValid = verifyPaymentSignature(
+    razorpay_order_id,
+    razorpay_payment_id,
+    razorpay_signature,
+    keySecret
+  );
+  if (!isValid) {
+    throw new HttpError(400, "Payment signature verification failed.");
+  }
+
+  return settleFeePaymentOrder(
+    razorpay_order_id,
+    razorpay_payment_id,
+    "checkout"
+  );
+};
+
+export const markFeePaymentOrderFailed = async (
+  gatewayOrderId: string,
+  reason: string
+) => {
+  // A late failure event must never undo a payment that was already captured.
+  await prisma.paymentOrder.updateMany({
+    where: { gatewayOrderId, status: "created" },
+    data: { status: "failed", failureReason: reason },
+  });
+};
+
+/**
+ * Records a refund reported by the gateway against the original FeePayment.
+ * Idempotent on the gateway refund id, which is also what an approved
+ * FeeRefundRequest records, so a refund we started is not booked twice.
+ */
+export const recordGatewayRefund = async (
+  gatewayPaymentId: string,
+  refundId: string,
+  amount: number
+) => {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.paymentOrder.findUnique({
+      where: { gatewayPaymentId },
+    });
+    if (!order) {
+      throw new HttpError(404, "Payment order not found.");
+    }
+    if (!order.feePaymentId) {
+      throw new HttpError(409, "Payment order has no settled payment.");
+    }
+
+    const { alreadyRecorded } = await postFeePaymentReversal(tx, {
+      originalPaymentId: order.feePaymentId,
+      amount,
+      transactionId: refundId,
+      details: `Gateway refund of ${gatewayPaymentId}`,
+      voidReason: `Refunded via payment gateway (${refundId})`,
+      actorId: null,
+    });
+
+    const updated = await tx.paymentOrder.findUnique({
+      where: { id: order.id },
+    });
+    return { order: updated, alreadyRecorded };
+  });
+};
@@ -0,0 +1,363 @@
+// src/services/feeReceiptService.ts
+import { Prisma } from "@prisma/client";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+import {
+  drawTable,
+  fetchPdfImage,
+  formatCurrency,
+  renderPdf,
+} from "../utils/pdf";
+import { FeeComponent, getSessionStartYear } from "./feeScheduleService";
+
+export interface ReceiptLineItem {
+  head: string;
+  period: string | null;
+  amount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const formatSessionLabel = (sessionStartYear: number) =>
+  `${sessionStartYear}-${String((sessionStartYear + 1) % 100).padStart(
+    2,
+    "0"
+  )}`;
+
+const formatReceiptNumber = (sessionStartYear: number, sequence: number) =>
+  `RCT/${formatSessionLabel(sessionStartYear)}/${String(sequence).padStart(
+    6,
+    "0"
+  )}`;
+
+/**
+ * Takes the next number in the branch's series for the session. The upsert
+ * runs as a single INSERT ... ON CONFLICT DO UPDATE, which row-locks the
+ * counter until the surrounding transaction ends: concurrent payments queue
+ * up behind each other and a rollback gives the number back.
+ */
+const nextReceiptNumber = async (
+  tx: PrismaTransactionClient,
+  branchId: string,
+  sessionStartYear: number
+) => {
+  const sequence = await tx.feeReceiptSequence.upsert({
+    where: { branchId_sessionStartYear: { branchId, sessionStartYear } },
+    create: { branchId, sessionStartYear, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+  return sequence.lastNumber;
+};
+
+/**
+ * Splits a payment into the fee heads it paid for, using how it was
+ * allocated across instalments. Anything not allocated to an instalment
+ * went to previous-session dues or other charges, and anything beyond what
+ * was owed went to the student's wallet.
+ */
+const buildLineItems = (payment: {
+  amount: number;
+  advanceAmount: number;
+  allocations: {
+    amount: number;
+    instalment: { label: string; amount: number; components: Prisma.JsonValue };
+  }[];
+}): ReceiptLineItem[] => {
+  const items: ReceiptLineItem[] = [];
+  let allocated = 0;
+
+  for (const allocation of payment.allocations) {
+    const { instalment } = allocation;
+    const components =
+      (instalment.components as unknown as FeeComponent[]) || [];
+    allocated += allocation.amount;
+
+    if (components.length === 0 || instalment.amount <= 0) {
+      items.push({
+        head: "Fee",
+        period: instalment.label,
+        amount: allocation.amount,
+      });
+      continue;
+    }
+    // Pro-rate a partial payment across the instalment's heads; the last
+    // head absorbs the rounding.
+    let remaining = allocation.amount;
+    components.forEach((component, index) => {
+      const amount =
+        index === components.length - 1
+          ? round2(remaining)
+          : round2((component.amount * allocation.amount) / instalment.amount);
+      remaining -= amount;
+      items.push({
+        head: component.component,
+        period: instalment.label,
+        amount,
+      });
+    });
+  }
+
+  const unallocated = round2(payment.amount - allocated);
+  if (unallocated > 0) {
+    items.push({
+      head: payment.allocations.length
+        ? "Previous Dues / Other Charges"
+        : "Fee Payment",
+      period: null,
+      amount: unallocated,
+    });
+  }
+  if (payment.advanceAmount > 0) {
+    items.push({
+      head: "Advance (credited to wallet)",
+      period: null,
+      amount: payment.advanceAmount,
+    });
+  }
+  return items;
+};
+
+/**
+ * Issues the receipt for a FeePayment. Must run in the same transaction that
+ * created the payment (after it has been allocated) so the payment and its
+ * number are committed together.
+ */
+export const issueFeeReceipt = async (
+  tx: PrismaTransactionClient,
+  feePaymentId: string
+) => {
+  const payment = await tx.feePayment.findUnique({
+    where: { id: feePaymentId },
+    include: {
+      student: { select: { branchId: true } },
+      feeRecord: { select: { totalAmount: true, paidAmount: true } },
+      allocations: {
+        include: {
+          instalment: {
+            select: { label: true, amount: true, components: true },
+          },
+        },
+      },
+    },
+  });
+  if (!payment) {
+    throw new HttpError(404, "Fee payment not found.");
+  }
+
+  const branchId = payment.student.branchId;
+  const sessionStartYear = getSessionStartYear(payment.paidDate);
+  const sequenceNumber = await nextReceiptNumber(
+    tx,
+    branchId,
+    sessionStartYear
+  );
+
+  return tx.feeReceipt.create({
+    data: {
+      branchId,
+      studentId: payment.studentId,
+      feePaymentId: payment.id,
+      sessionStartYear,
+      sequenceNumber,
+      receiptNumber: formatReceiptNumber(sessionStartYear, sequenceNumber),
+      amount: round2(payment.amount + payment.advanceAmount),
+      balanceAfter: payment.feeRecord
+        ? round2(payment.feeRecord.totalAmount - payment.feeRecord.paidAmount)
+        : 0,
+      lineItems: buildLineItems(payment) as unknown as Prisma.InputJsonValue,
+    },
+  });
+};
+
+/**
+ * Marks a receipt void. The receipt keeps its number, so the series has no
+ * holes; only the status and the reason change.
+ */
+export const voidFeeReceipt = async (
+  tx: PrismaTransactionClient,
+  receiptId: string,
+  reason: string,
+  voidedById: string | null
+) => {
+  const result = await tx.feeReceipt.updateMany({
+    where: { id: receiptId, status: "issued" },
+    data: {
+      status: "void",
+      voidReason: reason,
+      voidedById,
+      voidedAt: new Date(),
+    },
+  });
+  if (result.count === 0) {
+    throw new HttpError(400, "Receipt not found or already void.");
+  }
+};
+
+export const listFeeReceipts = (where: Prisma.FeeReceiptWhereInput) =>
+  prisma.feeReceipt.findMany({
+    where,
+    include: {
+      student: { select: { name: true } },
+      feePayment: {
+        select: { paidDate: true, transactionId: true, paymentMode: true },
+      },
+    },
+    orderBy: [{ sessionStartYear: "desc" }, { sequenceNumber: "desc" }],
+  });
+
+/**
+ * Renders a receipt as PDF. `where` must scope the lookup to what the caller
+ * may see (branch, student or a parent's children).
+ */
+export const renderFeeReceiptPdf = async (
+  where: Prisma.FeeReceiptWhereInput
+) => {
+  const receipt = await prisma.feeReceipt.findFirst({
+    where,
+    include: {
+      branch: {
+        select: {
+          name: true,
+          location: true,
+          logoUrl: true,
+          email: true,
+          helplineNumber: true,
+        },
+      },
+      student: {
+        select: {
+          name: true,
+          admissionNumber: true,
+          classRollNumber: true,
+          class: { select: { gradeLevel: true, section: true } },
+        },
+      },
+      feePayment: {
+        select: {
+          paidDate: true,
+          transactionId: true,
+          paymentMode: true,
+          details: true,
+        },
+      },
+    },
+  });
+  if (!receipt) {
+    throw new HttpError(404, "Receipt not found.");
+  }
+
+  const logo = await fetchPdfImage(receipt.branch.logoUrl);
+  const lineItems = (receipt.lineItems as unknown as ReceiptLineItem[]) || [];
+
+  const pdf = await renderPdf((doc) => {
+    // Header
+    if (logo) {
+      try {
+        doc.image(logo, doc.page.margins.left, 40, { fit: [60, 60] });
+      } catch (error) {
+        // Unsupported image format; the receipt is still valid without it.
+      }
+    }
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(16)
+      .text(receipt.branch.name, 120, 45, { align: "left" })
+      .font("Helvetica")
+      .fontSize(9)
+      .text(receipt.branch.location, 120)
+      .text(
+        [receipt.branch.email, receipt.branch.helplineNumber]
+          .filter(Boolean)
+          .join("  |  "),
+        120
+      );
+
+    doc.x = doc.page.margins.left;
+    doc.y = 115;
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(13)
+      .text("FEE RECEIPT", { align: "center" });
+    if (receipt.status === "void") {
+      doc
+        .fillColor("#cc0000")
+        .fontSize(12)
+        .text(`VOID - ${receipt.voidReason || "Cancelled"}`, {
+          align: "center",
+        })
+        .fillColor("#000000");
+    }
+    doc.moveDown();
+
+    // Receipt & student details
+    const schoolClass = receipt.student.class;
+    const details: [string, string][] = [
+      ["Receipt No.", receipt.receiptNumber],
+      ["Date", receipt.feePayment.paidDate.toLocaleDateString("en-IN")],
+      ["Session", formatSessionLabel(receipt.sessionStartYear)],
+      ["Student", receipt.student.name],
+      ["Admission No.", receipt.student.admissionNumber || "N/A"],
+      [
+        "Class",
+        schoolClass
+          ? `Grade ${schoolClass.gradeLevel} - ${schoolClass.section}`
+          : "Unassigned",
+      ],
+      ["Roll No.", receipt.student.classRollNumber || "N/A"],
+    ];
+    doc.font("Helvetica").fontSize(10);
+    details.forEach(([label, value]) => {
+      doc
+        .font("Helvetica-Bold")
+        .text(`${label}: `, { continued: true })
+        .font("Helvetica")
+        .text(value);
+    });
+    doc.moveDown();
+
+    // Fee heads
+    drawTable(
+      doc,
+      ["Fee Head", "Period", "Amount"],
+      [
+        ...lineItems.map((item) => [
+          item.head,
+          item.period || "-",
+          formatCurrency(item.amount),
+        ]),
+        ["Total Paid", "", formatCurrency(receipt.amount)],
+      ],
+      [220, 150, 125]
+    );
+
+    doc
+      .font("Helvetica-Bold")
+      .text("Payment Mode: ", { continued: true })
+      .font("Helvetica")
+      .text(receipt.feePayment.paymentMode || "N/A")
+      .font("Helvetica-Bold")
+      .text("Transaction Ref.: ", { continued: true })
+      .font("Helvetica")
+      .text(receipt.feePayment.transactionId)
+      .font("Helvetica-Bold")
+      .text("Balance Outstanding: ", { continued: true })
+      .font("Helvetica")
+      .text(formatCurrency(Math.max(0, receipt.balanceAfter)));
+
+    doc
+      .moveDown(2)
+      .fontSize(8)
+      .fillColor("#666666")
+      .text(
+        "This is a computer-generated receipt and does not require a signature.",
+        {
+          align: "center",
+        }
+      );
+  });
+
+  return {
+    fileName: `${receipt.receiptNumber.replace(/\//g, "-")}.pdf`,
+    pdf,
+  };
+};
@@ -0,0 +1,428 @@
+// src/services/feeRefundService.ts
+import { FeeRefundType, RequestStatus } from "@prisma/client";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { voidFeeReceipt } from "./feeReceiptService";
+import { allocateFeeRecordPayments } from "./feeScheduleService";
+import { postFeePayment } from "./ledgerService";
+import { getBranchGateway } from "./paymentGatewayService";
+import {
+  creditWallet,
+  debitWallet,
+  WALLET_PAYMENT_MODE,
+} from "./studentWalletService";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * What is left to undo of a payment: the part applied to dues and the part
+ * that went to the wallet as an advance, net of earlier reversals (whose
+ * amounts are negative).
+ */
+const reversibleParts = (payment: {
+  amount: number;
+  advanceAmount: number;
+  reversals: { amount: number; advanceAmount: number }[];
+}) => {
+  const applied = round2(
+    payment.amount + payment.reversals.reduce((sum, r) => sum + r.amount, 0)
+  );
+  const advance = round2(
+    payment.advanceAmount +
+      payment.reversals.reduce((sum, r) => sum + r.advanceAmount, 0)
+  );
+  return { applied, advance, total: round2(applied + advance) };
+};
+
+// Advances are undone first; whatever is left comes off the applied part.
+const splitReversal = (amount: number, advance: number) => {
+  const fromAdvance = round2(Math.min(amount, advance));
+  return { fromAdvance, fromApplied: round2(amount - fromAdvance) };
+};
+
+const advanceSpentError = (amount: number) =>
+  new HttpError(
+    409,
+    `${amount} of this payment was credited to the student's wallet and has already been spent, so it cannot be refunded.`
+  );
+
+/**
+ * Posts the negative FeePayment that undoes (part of) another payment.
+ * Any overpayment that was credited to the wallet is taken back out of it
+ * first, and refused if the wallet no longer holds it. The rest decrements
+ * paidAmount in the same transaction, the record's instalments are
+ * re-allocated, the refund is posted to the ledger, a gateway order's
+ * refunded total is updated and, once the payment is fully undone, its
+ * receipt is voided. Undoing a wallet payment returns the money to the
+ * wallet.
+ * Idempotent on `transactionId` (e.g. a gateway refund id that the webhook
+ * may also report).
+ */
+export const postFeePaymentReversal = async (
+  tx: PrismaTransactionClient,
+  params: {
+    originalPaymentId: string;
+    amount: number;
+    transactionId: string;
+    details: string;
+    voidReason: string;
+    actorId: string | null;
+  }
+) => {
+  const existing = await tx.feePayment.findFirst({
+    where: {
+      transactionId: params.transactionId,
+      reversalOfId: params.originalPaymentId,
+    },
+  });
+  if (existing) {
+    return { reversal: existing, alreadyRecorded: true };
+  }
+
+  const original = await tx.feePayment.findUnique({
+    where: { id: params.originalPaymentId },
+    include: {
+      student: { select: { branchId: true } },
+      receipt: { select: { id: true, status: true } },
+      reversals: { select: { amount: true, advanceAmount: true } },
+      paymentOrder: true,
+    },
+  });
+  if (!original) {
+    throw new HttpError(404, "Original fee payment not found.");
+  }
+
+  const reversible = reversibleParts(original);
+  if (params.amount <= 0 || params.amount > reversible.total) {
+    throw new HttpError(
+      400,
+      `Amount must be between 0 and the reversible balance of ${reversible.total}.`
+    );
+  }
+  const { fromAdvance, fromApplied } = splitReversal(
+    params.amount,
+    reversible.advance
+  );
+
+  const reversal = await tx.feePayment.create({
+    data: {
+      studentId: original.studentId,
+      feeRecordId: original.feeRecordId,
+      amount: -fromApplied,
+      advanceAmount: -fromAdvance,
+      paidDate: new Date(),
+      transactionId: params.transactionId,
+      details: params.details,
+      paymentMode: original.paymentMode,
+      reversalOfId: original.id,
+    },
+  });
+
+  const actor = params.actorId
+    ? await tx.user.findUnique({
+        where: { id: params.actorId },
+        select: { id: true, name: true },
+      })
+    : null;
+  if (fromAdvance > 0) {
+    const debited = await debitWallet(tx, {
+      studentId: original.studentId,
+      amount: fromAdvance,
+      reason: `Advance refunded: ${params.details}`,
+      feeRecordId: original.feeRecordId ?? undefined,
+      feePaymentId: reversal.id,
+      actor: actor ?? undefined,
+    });
+    if (!debited) {
+      throw advanceSpentError(fromAdvance);
+    }
+  }
+
+  if (original.feeRecordId && fromApplied > 0) {
+    await tx.feeRecord.update({
+      where: { id: original.feeRecordId },
+      data: { paidAmount: { decrement: fromApplied } },
+    });
+    await allocateFeeRecordPayments(tx, original.feeRecordId);
+  }
+  await postFeePayment(tx, original.student.branchId, reversal);
+  // Wallet money that was applied to dues goes back to the wallet.
+  if (original.paymentMode === WALLET_PAYMENT_MODE) {
+    await creditWallet(tx, {
+      studentId: original.studentId,
+      amount: fromApplied,
+      reason: `Reversal of wallet payment: ${params.details}`,
+      feeRecordId: original.feeRecordId ?? undefined,
+      feePaymentId: reversal.id,
+      actor: actor ?? undefined,
+    });
+  }
+
+  if (original.paymentOrder) {
+    const refundedAmount = round2(
+      original.paymentOrder.refundedAmount + params.amount
+    );
+    await tx.paymentOrder.update({
+      where: { id: original.paymentOrder.id },
+      data: {
+        refundedAmount,
+        status:
+          refundedAmount >= original.paymentOrder.amount
+            ? "refunded"
+            : original.paymentOrder.status,
+      },
+    });
+  }
+
+  const fullyReversed = params.amount >= reversible.total;
+  if (fullyReversed && original.receipt?.status === "issued") {
+    await voidFeeReceipt(
+      tx,
+      original.receipt.id,
+      params.voidReason,
+      params.actorId
+    );
+  }
+
+  return { reversal, alreadyRecorded: false };
+};
+
+export const createFeeRefundRequest = async (
+  branchId: string,
+  registrar: { id: string; name: string },
+  input: {
+    feePaymentId?: string;
+    requestType?: FeeRefundType;
+    amount?: number;
+    reason?: string;
+  }
+) => {
+  if (!input.feePaymentId || !input.requestType || !input.reason) {
+    throw new HttpError(
+      400,
+      "feePaymentId, requestType and reason are required."
+    );
+  }
+  if (!Object.values(FeeRefundType).includes(input.requestType)) {
+    throw new HttpError(400, "requestType must be 'refund' or 'reversal'.");
+  }
+
+  const payment = await prisma.feePayment.findFirst({
+    where: { id: input.feePaymentId, student: { branchId } },
+    include: {
+      reversals: { select: { amount: true, advanceAmount: true } },
+      refundRequests: { where: { status: "Pending" }, select: { id: true } },
+    },
+  });
+  if (!payment) {
+    throw new HttpError(404, "Fee payment not found in your branch.");
+  }
+  // An advance-only payment has amount 0 but still brought money in.
+  if (payment.amount + payment.advanceAmount <= 0 || payment.reversalOfId) {
+    throw new HttpError(400, "Only incoming payments can be refunded.");
+  }
+  if (payment.refundRequests.length > 0) {
+    throw new HttpError(
+      409,
+      "A refund request for this payment is already awaiting approval."
+    );
+  }
+
+  const reversible = reversibleParts(payment).total;
+  const amount = input.amount === undefined ? reversible : Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0 || amount > reversible) {
+    throw new HttpError(
+      400,
+      `Amount must be between 0 and the reversible balance of ${reversible}.`
+    );
+  }
+
+  return prisma.feeRefundRequest.create({
+    data: {
+      branchId,
+      studentId: payment.studentId,
+      feePaymentId: payment.id,
+      requestType: input.requestType,
+      amount,
+      reason: input.reason,
+      registrarId: registrar.id,
+      registrarName: registrar.name,
+    },
+  });
+};
+
+export const listFeeRefundRequests = (
+  branchId: string,
+  filters: { status?: RequestStatus; registrarId?: string } = {}
+) =>
+  prisma.feeRefundRequest.findMany({
+    where: { branchId, ...filters },
+    include: {
+      student: { select: { name: true } },
+      feePayment: {
+        select: {
+          amount: true,
+          paidDate: true,
+          transactionId: true,
+          paymentMode: true,
+          receipt: { select: { receiptNumber: true, status: true } },
+        },
+      },
+    },
+    orderBy: { requestedAt: "desc" },
+  });
+
+/**
+ * Approves or rejects a pending request. On approval a gateway payment is
+ * refunded through the branch's gateway client first; the ledger is only
+ * touched once the gateway has accepted the refund.
+ */
+export const processFeeRefundRequest = async (
+  branchId: string,
+  requestId: string,
+  reviewer: { id: string },
+  decision: { status?: string; note?: string }
+) => {
+  if (decision.status !== "Approved" && decision.status !== "Rejected") {
+    throw new HttpError(400, "status must be 'Approved' or 'Rejected'.");
+  }
+
+  const request = await prisma.feeRefundRequest.findFirst({
+    where: { id: requestId, branchId },
+    include: {
+      feePayment: {
+        include: {
+          paymentOrder: true,
+          reversals: { select: { amount: true, advanceAmount: true } },
+        },
+      },
+      student: { select: { walletBalance: true } },
+    },
+  });
+  if (!request) {
+    throw new HttpError(404, "Refund request not found.");
+  }
+
+  // Check before any money moves at the gateway; posting re-checks it under
+  // the wallet guard.
+  if (decision.status === "Approved") {
+    const { fromAdvance } = splitReversal(
+      request.amount,
+      reversibleParts(request.feePayment).advance
+    );
+    if (fromAdvance > request.student.walletBalance) {
+      throw advanceSpentError(fromAdvance);
+    }
+  }
+
+  // Claim the request first so two approvals can never both pay out.
+  const claimed = await prisma.feeRefundRequest.updateMany({
+    where: { id: request.id, status: "Pending" },
+    data: {
+      status: decision.status,
+      reviewedById: reviewer.id,
+      reviewedAt: new Date(),
+      reviewNote: decision.note,
+    },
+  });
+  if (claimed.count === 0) {
+    throw new HttpError(400, "Request already processed.");
+  }
+  if (decision.status === "Rejected") {
+    return prisma.feeRefundRequest.findUnique({ where: { id: request.id } });
+  }
+
+  // Hand the request back so it can be retried.
+  const releaseClaim = () =>
+    prisma.feeRefundRequest.update({
+      where: { id: request.id },
+      data: { status: "Pending", reviewedById: null, reviewedAt: null },
+    });
+
+  const order = request.feePayment.paymentOrder;
+  let transactionId = `REV-${request.id}`;
+  let gatewayRefund: { id: string; status: string } | null = null;
+
+  if (request.requestType === "refund" && order?.gatewayPaymentId) {
+    try {
+      const { client } = await getBranchGateway(order.branchId);
+      gatewayRefund = await client.refundPayment(
+        order.gatewayPaymentId,
+        request.amount,
+        { refundRequestId: request.id }
+      );
+      transactionId = gatewayRefund.id;
+    } catch (error: any) {
+      await releaseClaim();
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(
+        502,
+        `The payment gateway rejected the refund: ${
+          error?.error?.description || error?.message || "unknown error"
+        }`
+      );
+    }
+  }
+
+  try {
+    return await postApprovedRefund(
+      request,
+      transactionId,
+      gatewayRefund,
+      reviewer.id
+    );
+  } catch (error) {
+    if (gatewayRefund) {
+      // The money has already left through the gateway: keep the request
+      // approved and remember the refund id. The gateway's refund webhook
+      // books the same refund id, so the ledger still catches up.
+      await prisma.feeRefundRequest.update({
+        where: { id: request.id },
+        data: {
+          gatewayRefundId: gatewayRefund.id,
+          gatewayRefundStatus: gatewayRefund.status,
+        },
+      });
+    } else {
+      await releaseClaim();
+    }
+    throw error;
+  }
+};
+
+const postApprovedRefund = (
+  request: {
+    id: string;
+    feePaymentId: string;
+    amount: number;
+    reason: string;
+    requestType: FeeRefundType;
+    feePayment: { transactionId: string };
+  },
+  transactionId: string,
+  gatewayRefund: { id: string; status: string } | null,
+  reviewerId: string
+) =>
+  prisma.$transaction(async (tx) => {
+    const { reversal } = await postFeePaymentReversal(tx, {
+      originalPaymentId: request.feePaymentId,
+      amount: request.amount,
+      transactionId,
+      details: `${
+        request.requestType === "refund" ? "Refund" : "Reversal"
+      } of ${request.feePayment.transactionId}: ${request.reason}`,
+      voidReason: `${
+        request.requestType === "refund" ? "Refunded" : "Reversed"
+      }: ${request.reason}`,
+      actorId: reviewerId,
+    });
+
+    return tx.feeRefundRequest.update({
+      where: { id: request.id },
+      data: {
+        reversalPaymentId: reversal.id,
+        gatewayRefundId: gatewayRefund?.id,
+        gatewayRefundStatus: gatewayRefund?.status,
+      },
+    });
+  });
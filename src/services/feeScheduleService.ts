@@ -0,0 +1,462 @@
+// src/services/feeScheduleService.ts
+import {
+  FeeInstalment,
+  FeeInstalmentFrequency,
+  FeeTemplate,
+  Prisma,
+} from "@prisma/client";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { applyFeeDiscounts } from "./feeDiscountService";
+import { postReceivableMovement } from "./ledgerService";
+import { applyWalletToFeeRecord } from "./studentWalletService";
+
+type Tx = PrismaTransactionClient;
+
+export interface FeeComponent {
+  component: string;
+  amount: number;
+}
+
+export interface ScheduledInstalment {
+  sequence: number;
+  label: string;
+  dueDate: Date;
+  amount: number;
+  components: FeeComponent[];
+}
+
+export const ACADEMIC_MONTH_NAMES = [
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+  "January",
+  "February",
+  "March",
+];
+
+const MONTHS_PER_INSTALMENT: Record<FeeInstalmentFrequency, number> = {
+  Monthly: 1,
+  Quarterly: 3,
+  HalfYearly: 6,
+  Annual: 12,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// The session runs April to March, so Jan-Mar belong to the previous year's session.
+export const getSessionStartYear = (date: Date = new Date()): number =>
+  date.getMonth() < 3 ? date.getFullYear() - 1 : date.getFullYear();
+
+const getMonthComponents = (
+  template: Pick<FeeTemplate, "amount" | "monthlyBreakdown">,
+  academicMonthIndex: number
+): FeeComponent[] => {
+  const breakdown = Array.isArray(template.monthlyBreakdown)
+    ? (template.monthlyBreakdown as any[])
+    : [];
+
+  // Templates without a breakdown are spread evenly, remainder on the last month.
+  if (breakdown.length === 0) {
+    const perMonth = Math.floor((template.amount / 12) * 100) / 100;
+    const amount =
+      academicMonthIndex === 11
+        ? round2(template.amount - perMonth * 11)
+        : perMonth;
+    return amount > 0 ? [{ component: "Tuition", amount }] : [];
+  }
+
+  const entry = breakdown.find(
+    (m: any) => m?.month === ACADEMIC_MONTH_NAMES[academicMonthIndex]
+  );
+  if (!entry) return [];
+
+  if (Array.isArray(entry.breakdown) && entry.breakdown.length > 0) {
+    return entry.breakdown
+      .map((c: any) => ({
+        component: String(c.component || "Tuition"),
+        amount: Number(c.amount) || 0,
+      }))
+      .filter((c: FeeComponent) => c.amount > 0);
+  }
+  if (entry.total) {
+    return [{ component: "Tuition", amount: Number(entry.total) }];
+  }
+  return [];
+};
+
+/**
+ * Turns a template's monthly breakdown into payable instalments for one
+ * session. Months are grouped by the template's frequency and component heads
+ * (tuition, lab, exam, ...) are summed within each instalment.
+ */
+export const buildInstalmentSchedule = (
+  template: Pick<
+    FeeTemplate,
+    "amount" | "monthlyBreakdown" | "instalmentFrequency" | "instalmentDueDay"
+  >,
+  sessionStartYear: number = getSessionStartYear()
+): ScheduledInstalment[] => {
+  const monthsPerInstalment =
+    MONTHS_PER_INSTALMENT[template.instalmentFrequency];
+  const dueDay = Math.min(Math.max(template.instalmentDueDay, 1), 28);
+  const schedule: ScheduledInstalment[] = [];
+
+  for (let start = 0; start < 12; start += monthsPerInstalment) {
+    const monthIndexes = Array.from(
+      { length: monthsPerInstalment },
+      (_, i) => start + i
+    );
+
+    const heads = new Map<string, number>();
+    monthIndexes.forEach((index) => {
+      getMonthComponents(template, index).forEach((c) => {
+        heads.set(
+          c.component,
+          round2((heads.get(c.component) || 0) + c.amount)
+        );
+      });
+    });
+
+    const components = Array.from(heads, ([component, amount]) => ({
+      component,
+      amount,
+    }));
+    const amount = round2(components.reduce((sum, c) => sum + c.amount, 0));
+    if (amount <= 0) continue;
+
+    const firstMonth = ACADEMIC_MONTH_NAMES[start];
+    const lastMonth = ACADEMIC_MONTH_NAMES[start + monthsPerInstalment - 1];
+    const calendarMonth = (start + 3) % 12;
+    const year = start > 8 ? sessionStartYear + 1 : sessionStartYear;
+
+    schedule.push({
+      sequence: schedule.length + 1,
+      label:
+        monthsPerInstalment === 1
+          ? `${firstMonth} ${year}`
+          : `${firstMonth} - ${lastMonth}`,
+      dueDate: new Date(year, calendarMonth, dueDay),
+      amount,
+      components,
+    });
+  }
+
+  return schedule;
+};
+
+/**
+ * Replaces a student's instalments with the given schedule, creating the
+ * FeeRecord if needed. The record total moves by the difference between the
+ * old and new schedule so charges added on top (hostel, transport, ...) are
+ * kept, and the difference is posted to the ledger as tuition billing.
+ * `previousScheduleTotal` is what the old template contributed for records
+ * created before instalments existed.
+ */
+export const syncStudentFeeSchedule = async (
+  tx: Tx,
+  studentId: string,
+  schedule: ScheduledInstalment[],
+  previousScheduleTotal: number
+): Promise<string> => {
+  const newTotal = round2(schedule.reduce((sum, i) => sum + i.amount, 0));
+  const dueDate = schedule[0]?.dueDate ?? new Date(getSessionStartYear(), 3, 1);
+
+  const record = await tx.feeRecord.findFirst({
+    where: { studentId },
+    orderBy: { createdAt: "desc" },
+    include: {
+      instalments: {
+        select: {
+          id: true,
+          sequence: true,
+          amount: true,
+          _count: { select: { lateFeeCharges: true } },
+        },
+      },
+    },
+  });
+
+  const instalments = schedule.map((i) => ({
+    sequence: i.sequence,
+    label: i.label,
+    dueDate: i.dueDate,
+    amount: i.amount,
+    components: i.components as unknown as Prisma.InputJsonValue,
+  }));
+
+  const student = await tx.student.findUniqueOrThrow({
+    where: { id: studentId },
+    select: { branchId: true },
+  });
+  const postBilling = (feeRecordId: string, amount: number) =>
+    postReceivableMovement(tx, {
+      branchId: student.branchId,
+      date: new Date(),
+      description: "Tuition fee billed (instalment schedule)",
+      sourceType: "FeeRecord",
+      sourceId: feeRecordId,
+      amount,
+      account: "TUITION_INCOME",
+    });
+
+  if (!record) {
+    const created = await tx.feeRecord.create({
+      data: {
+        studentId,
+        totalAmount: newTotal,
+        paidAmount: 0,
+        dueDate,
+        sessionStartYear: getSessionStartYear(dueDate),
+        instalments: { create: instalments },
+      },
+    });
+    await postBilling(created.id, newTotal);
+    return created.id;
+  }
+
+  const oldTotal =
+    record.instalments.length > 0
+      ? record.instalments.reduce((sum, i) => sum + i.amount, 0)
+      : previousScheduleTotal;
+
+  // Instalments are matched by sequence and updated in place so late-fee
+  // charges (and their waivers) stay attached. A dropped instalment that has
+  // been charged is zeroed rather than deleted.
+  const bySequence = new Map(record.instalments.map((i) => [i.sequence, i]));
+  for (const instalment of instalments) {
+    const current = bySequence.get(instalment.sequence);
+    if (current) {
+      await tx.feeInstalment.update({
+        where: { id: current.id },
+        data: instalment,
+      });
+      bySequence.delete(instalment.sequence);
+    } else {
+      await tx.feeInstalment.create({
+        data: { ...instalment, feeRecordId: record.id },
+      });
+    }
+  }
+  for (const dropped of bySequence.values()) {
+    if (dropped._count.lateFeeCharges > 0) {
+      await tx.feeInstalment.update({
+        where: { id: dropped.id },
+        data: { amount: 0, components: [] },
+      });
+    } else {
+      await tx.feeInstalment.delete({ where: { id: dropped.id } });
+    }
+  }
+
+  await tx.feeRecord.update({
+    where: { id: record.id },
+    data: {
+      totalAmount: round2(record.totalAmount - oldTotal + newTotal),
+      dueDate,
+    },
+  });
+  await allocateFeeRecordPayments(tx, record.id);
+  await postBilling(record.id, round2(newTotal - oldTotal));
+
+  return record.id;
+};
+
+/**
+ * Rebuilds how a FeeRecord's payments are spread over its instalments.
+ * Payments are replayed in date order: each clears any previous-session dues
+ * first, then the oldest open instalment. Refunds (negative payments) release
+ * the most recently paid instalments first.
+ */
+export const allocateFeeRecordPayments = async (
+  tx: Tx,
+  feeRecordId: string
+) => {
+  const [record, instalments, payments] = await Promise.all([
+    tx.feeRecord.findUnique({
+      where: { id: feeRecordId },
+      select: { previousSessionDues: true },
+    }),
+    tx.feeInstalment.findMany({
+      where: { feeRecordId },
+      orderBy: [{ dueDate: "asc" }, { sequence: "asc" }],
+    }),
+    tx.feePayment.findMany({
+      where: { feeRecordId },
+      orderBy: [{ paidDate: "asc" }, { createdAt: "asc" }],
+      select: { id: true, amount: true },
+    }),
+  ]);
+
+  await tx.feePaymentAllocation.deleteMany({
+    where: { instalment: { feeRecordId } },
+  });
+  if (!record || instalments.length === 0) return [];
+
+  let previousDuesOpen = record.previousSessionDues || 0;
+  let previousDuesPaid = 0;
+  const paid = new Map(instalments.map((i) => [i.id, 0]));
+  const allocations: {
+    feePaymentId: string;
+    instalmentId: string;
+    amount: number;
+  }[] = [];
+
+  for (const payment of payments) {
+    if (payment.amount >= 0) {
+      const toPreviousDues = Math.min(previousDuesOpen, payment.amount);
+      previousDuesOpen -= toPreviousDues;
+      previousDuesPaid += toPreviousDues;
+      let remaining = round2(payment.amount - toPreviousDues);
+
+      for (const instalment of instalments) {
+        if (remaining <= 0) break;
+        const open = round2(instalment.amount - paid.get(instalment.id)!);
+        if (open <= 0) continue;
+        const share = Math.min(open, remaining);
+        paid.set(instalment.id, round2(paid.get(instalment.id)! + share));
+        remaining = round2(remaining - share);
+        allocations.push({
+          feePaymentId: payment.id,
+          instalmentId: instalment.id,
+          amount: share,
+        });
+      }
+    } else {
+      let remaining = -payment.amount;
+      for (const instalment of [...instalments].reverse()) {
+        if (remaining <= 0) break;
+        const applied = paid.get(instalment.id)!;
+        if (applied <= 0) continue;
+        const share = Math.min(applied, remaining);
+        paid.set(instalment.id, round2(applied - share));
+        remaining = round2(remaining - share);
+        allocations.push({
+          feePaymentId: payment.id,
+          instalmentId: instalment.id,
+          amount: -share,
+        });
+      }
+      // Whatever is left came out of previous-session dues.
+      const fromPreviousDues = Math.min(previousDuesPaid, remaining);
+      previousDuesPaid -= fromPreviousDues;
+      previousDuesOpen += fromPreviousDues;
+    }
+  }
+
+  if (allocations.length > 0) {
+    await tx.feePaymentAllocation.createMany({ data: allocations });
+  }
+  for (const instalment of instalments) {
+    const paidAmount = paid.get(instalment.id)!;
+    if (paidAmount !== instalment.paidAmount) {
+      await tx.feeInstalment.update({
+        where: { id: instalment.id },
+        data: { paidAmount },
+      });
+    }
+  }
+
+  return allocations.map((a) => ({
+    ...a,
+    label: instalments.find((i) => i.id === a.instalmentId)!.label,
+  }));
+};
+
+/**
+ * Assigns (or clears) a class's fee template and regenerates the instalment
+ * schedule of every active student in the class. Clearing the template leaves
+ * existing dues untouched.
+ */
+export const applyFeeTemplateToClass = async (
+  branchId: string,
+  classId: string,
+  feeTemplateId: string | null
+) => {
+  const schoolClass = await prisma.schoolClass.findFirst({
+    where: { id: classId, branchId },
+    include: { feeTemplate: true },
+  });
+  if (!schoolClass) {
+    throw new HttpError(404, "Class not found in your branch.");
+  }
+
+  const template = feeTemplateId
+    ? await prisma.feeTemplate.findFirst({
+        where: { id: feeTemplateId, branchId },
+      })
+    : null;
+  if (feeTemplateId && !template) {
+    throw new HttpError(404, "Fee template not found in your branch.");
+  }
+
+  await prisma.schoolClass.update({
+    where: { id: classId },
+    data: { feeTemplateId: template?.id ?? null },
+  });
+  if (!template) return { studentsUpdated: 0 };
+
+  const schedule = buildInstalmentSchedule(template);
+  const previousScheduleTotal = schoolClass.feeTemplate?.amount ?? 0;
+  const students = await prisma.student.findMany({
+    where: { classId, branchId, status: "active" },
+    select: { id: true },
+  });
+
+  // One transaction per student keeps each well inside the interactive timeout.
+  // Discounts are re-evaluated against the new tuition in the same transaction,
+  // then any wallet credit is applied to what is left.
+  for (const student of students) {
+    await prisma.$transaction(async (tx) => {
+      const feeRecordId = await syncStudentFeeSchedule(
+        tx,
+        student.id,
+        schedule,
+        previousScheduleTotal
+      );
+      await applyFeeDiscounts(tx, student.id);
+      await applyWalletToFeeRecord(tx, student.id, feeRecordId);
+    });
+  }
+
+  return { studentsUpdated: students.length, instalments: schedule };
+};
+
+export const describeInstalment = (
+  instalment: Pick<
+    FeeInstalment,
+    "id" | "sequence" | "label" | "dueDate" | "amount" | "paidAmount"
+  >,
+  asOf: Date = new Date()
+) => {
+  const pendingAmount = Math.max(
+    0,
+    round2(instalment.amount - instalment.paidAmount)
+  );
+  const isOverdue = pendingAmount > 0 && instalment.dueDate < asOf;
+  return {
+    instalmentId: instalment.id,
+    sequence: instalment.sequence,
+    label: instalment.label,
+    dueDate: instalment.dueDate,
+    amount: instalment.amount,
+    paidAmount: instalment.paidAmount,
+    pendingAmount,
+    status:
+      pendingAmount <= 0
+        ? "Paid"
+        : instalment.paidAmount > 0
+        ? "Partially Paid"
+        : "Due",
+    isOverdue,
+    daysOverdue: isOverdue
+      ? Math.floor((asOf.getTime() - instalment.dueDate.getTime()) / 86400000)
+      : 0,
+  };
+};
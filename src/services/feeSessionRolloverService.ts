@@ -0,0 +1,250 @@
+// src/services/feeSessionRolloverService.ts
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { applyFeeDiscounts } from "./feeDiscountService";
+import { formatSessionLabel } from "./feeReceiptService";
+import {
+  buildInstalmentSchedule,
+  getSessionStartYear,
+  syncStudentFeeSchedule,
+} from "./feeScheduleService";
+import { postReceivableMovement } from "./ledgerService";
+import {
+  applyWalletToFeeRecord,
+  creditWallet,
+  WalletActor,
+} from "./studentWalletService";
+
+const SYSTEM_ACTOR = "System (Session Rollover)";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Closes each student's fee record from an earlier session into a new record
+ * for `toSessionStartYear`:
+ * - unpaid dues leave the old record and open the new one as
+ *   previousSessionDues (both sides go through a clearing account, so fees
+ *   receivable does not move);
+ * - an overpaid old record is settled into the student's wallet;
+ * - the new session's instalments are built from the class template and the
+ *   wallet is applied to the new record.
+ * Each student gets a FeeCarryForward row. Students already on a record for
+ * the session (or a later one) are skipped, so running it again is safe.
+ */
+export const rollOverFeeSession = async (
+  branchId: string,
+  options: {
+    toSessionStartYear?: number;
+    studentIds?: string[];
+    actor?: WalletActor & { role?: string };
+  } = {}
+) => {
+  const toYear = options.toSessionStartYear ?? getSessionStartYear();
+  if (!Number.isInteger(toYear) || toYear < 2000 || toYear > 2100) {
+    throw new HttpError(400, "toSessionStartYear must be a year like 2025.");
+  }
+  const actor: WalletActor = options.actor ?? { name: SYSTEM_ACTOR };
+
+  const students = await prisma.student.findMany({
+    where: {
+      branchId,
+      status: "active",
+      ...(options.studentIds ? { id: { in: options.studentIds } } : {}),
+    },
+    select: { id: true, class: { select: { feeTemplate: true } } },
+  });
+
+  const carried: { studentId: string; toFeeRecordId: string }[] = [];
+  const skipped: { studentId: string; reason: string }[] = [];
+  let duesCarried = 0;
+  let creditToWallet = 0;
+  let walletApplied = 0;
+
+  // One transaction per student keeps each well inside the interactive timeout.
+  for (const student of students) {
+    const result = await prisma.$transaction(async (tx) => {
+      const previous = await tx.feeRecord.findFirst({
+        where: { studentId: student.id },
+        orderBy: { createdAt: "desc" },
+        include: { carriedForwardTo: { select: { id: true } } },
+      });
+      if (!previous) return { skipped: "No fee record to carry forward." };
+      const fromYear =
+        previous.sessionStartYear ?? getSessionStartYear(previous.dueDate);
+      if (fromYear >= toYear || previous.carriedForwardTo) {
+        return { skipped: "Already on the new session's fee record." };
+      }
+
+      const balance = round2(previous.totalAmount - previous.paidAmount);
+      const dues = Math.max(0, balance);
+      const credit = Math.max(0, -balance);
+      const fromLabel = formatSessionLabel(fromYear);
+      const toLabel = formatSessionLabel(toYear);
+
+      // Close the old record: its total drops to what was paid, or rises to
+      // it when the surplus moves to the wallet.
+      await tx.feeRecord.update({
+        where: { id: previous.id },
+        data: {
+          sessionStartYear: fromYear,
+          totalAmount: round2(previous.totalAmount - dues + credit),
+        },
+      });
+      await postReceivableMovement(tx, {
+        branchId,
+        date: new Date(),
+        description: `Dues carried forward to session ${toLabel}`,
+        sourceType: "FeeRecord",
+        sourceId: previous.id,
+        amount: -dues,
+        account: "SESSION_CARRY_FORWARD",
+      });
+      if (credit > 0) {
+        await postReceivableMovement(tx, {
+          branchId,
+          date: new Date(),
+          description: `Overpayment moved to wallet at close of session ${fromLabel}`,
+          sourceType: "FeeRecord",
+          sourceId: previous.id,
+          amount: credit,
+          account: "STUDENT_ADVANCES",
+        });
+        await creditWallet(tx, {
+          studentId: student.id,
+          amount: credit,
+          reason: `Overpayment carried forward from session ${fromLabel}`,
+          feeRecordId: previous.id,
+          actor,
+        });
+      }
+
+      const next = await tx.feeRecord.create({
+        data: {
+          studentId: student.id,
+          totalAmount: dues,
+          paidAmount: 0,
+          previousSessionDues: dues > 0 ? dues : null,
+          sessionStartYear: toYear,
+          dueDate: new Date(toYear, 3, 1),
+        },
+      });
+      await postReceivableMovement(tx, {
+        branchId,
+        date: new Date(),
+        description: `Dues brought forward from session ${fromLabel}`,
+        sourceType: "FeeRecord",
+        sourceId: next.id,
+        amount: dues,
+        account: "SESSION_CARRY_FORWARD",
+      });
+
+      const template = student.class?.feeTemplate;
+      if (template) {
+        await syncStudentFeeSchedule(
+          tx,
+          student.id,
+          buildInstalmentSchedule(template, toYear),
+          0
+        );
+        await applyFeeDiscounts(tx, student.id, actor.name);
+      }
+      const walletPayment = await applyWalletToFeeRecord(
+        tx,
+        student.id,
+        next.id,
+        actor
+      );
+
+      await tx.feeCarryForward.create({
+        data: {
+          branchId,
+          studentId: student.id,
+          fromFeeRecordId: previous.id,
+          toFeeRecordId: next.id,
+          fromSessionStartYear: fromYear,
+          toSessionStartYear: toYear,
+          duesCarried: dues,
+          creditToWallet: credit,
+          walletApplied: walletPayment?.amount ?? 0,
+          createdById: actor.id,
+          createdByName: actor.name,
+        },
+      });
+
+      return {
+        toFeeRecordId: next.id,
+        dues,
+        credit,
+        applied: walletPayment?.amount ?? 0,
+      };
+    });
+
+    if (result.skipped !== undefined) {
+      skipped.push({ studentId: student.id, reason: result.skipped });
+      continue;
+    }
+    carried.push({
+      studentId: student.id,
+      toFeeRecordId: result.toFeeRecordId,
+    });
+    duesCarried += result.dues;
+    creditToWallet += result.credit;
+    walletApplied += result.applied;
+  }
+
+  const summary = {
+    toSessionStartYear: toYear,
+    studentsRolledOver: carried.length,
+    studentsSkipped: skipped.length,
+    duesCarried: round2(duesCarried),
+    creditToWallet: round2(creditToWallet),
+    walletApplied: round2(walletApplied),
+  };
+  if (carried.length > 0) {
+    await prisma.auditLog.create({
+      data: {
+        actorId: actor.id,
+        actorName: actor.name,
+        actorRole: options.actor?.role ?? "System",
+        action: "FEE_SESSION_ROLLOVER",
+        targetId: branchId,
+        targetType: "Branch",
+        statusCode: 200,
+        details: summary,
+      },
+    });
+  }
+
+  return { ...summary, carried, skipped };
+};
+
+/**
+ * Rolls every branch over into the current session. Run by the scheduler;
+ * does nothing for students already on a current-session record.
+ */
+export const runFeeSessionRollover = async () => {
+  const branches = await prisma.branch.findMany({ select: { id: true } });
+  const results = [];
+  for (const branch of branches) {
+    const { carried, skipped, ...summary } = await rollOverFeeSession(
+      branch.id
+    );
+    if (summary.studentsRolledOver > 0) {
+      results.push({ branchId: branch.id, ...summary });
+    }
+  }
+  return { branchesRolledOver: results.length, results };
+};
+
+/** Carry-forwards recorded in a branch, newest first. */
+export const listFeeCarryForwards = (
+  branchId: string,
+  filters: { toSessionStartYear?: number; studentId?: string } = {}
+) =>
+  prisma.feeCarryForward.findMany({
+    where: { branchId, ...filters },
+    include: {
+      student: { select: { name: true, admissionNumber: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
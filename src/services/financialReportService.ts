@@ -0,0 +1,975 @@
+// src/services/financialReportService.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { toCsv } from "../utils/csv";
+import { toXlsx } from "../utils/xlsx";
+import { drawTable, renderPdf } from "../utils/pdf";
+import { businessDateOf } from "./cashCounterService";
+import { monthKeyOf } from "./expenseBudgetService";
+import { ReceiptLineItem } from "./feeReceiptService";
+import { getSessionStartYear } from "./feeScheduleService";
+import { WALLET_PAYMENT_MODE } from "./studentWalletService";
+
+export const FINANCIAL_REPORTS = {
+  "income-statement": "Income & Expense Statement",
+  "fee-collection": "Fee Collection",
+  "collection-efficiency": "Fee Collection Efficiency",
+  "monthly-trend": "Monthly Income & Expense Trend",
+} as const;
+export type FinancialReportType = keyof typeof FINANCIAL_REPORTS;
+
+export const REPORT_COMPARISONS = [
+  "none",
+  "previous_period",
+  "previous_session",
+] as const;
+export type ReportComparison = (typeof REPORT_COMPARISONS)[number];
+
+export const REPORT_FORMATS = ["json", "csv", "xlsx", "pdf"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface FinancialReportQuery {
+  from?: unknown;
+  to?: unknown;
+  compare?: unknown;
+}
+
+interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+/** A figure for the report period next to the same figure for the comparison period. */
+export interface Metric {
+  current: number;
+  previous: number | null;
+  change: number | null;
+  changePercent: number | null;
+}
+
+type ColumnKind = "text" | "amount" | "percent";
+type Cell = string | number | null;
+
+/** The flat form of a report section, used by the CSV, XLSX and PDF exports. */
+export interface ReportTable {
+  title: string;
+  columns: { label: string; kind: ColumnKind }[];
+  rows: Cell[][];
+}
+
+const MAX_TREND_MONTHS = 36;
+const ALL_BRANCHES = "All branches";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const percentOf = (part: number, whole: number) =>
+  whole ? round2((part / whole) * 100) : null;
+
+const metric = (current: number, previous: number | null): Metric => ({
+  current: round2(current),
+  previous: previous === null ? null : round2(previous),
+  change: previous === null ? null : round2(current - previous),
+  changePercent:
+    previous === null || previous === 0
+      ? null
+      : round2(((current - previous) / Math.abs(previous)) * 100),
+});
+
+// --- Periods ---
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const endOfDay = (date: Date) =>
+  new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    23,
+    59,
+    59,
+    999
+  );
+
+const endOfMonth = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
+
+const addMonths = (date: Date, count: number) =>
+  new Date(date.getFullYear(), date.getMonth() + count, 1);
+
+const parseDate = (value: unknown, field: string) => {
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new HttpError(400, `${field} must be a valid date.`);
+  }
+  return date;
+};
+
+/**
+ * The report period: whole days from `from` to `to`, defaulting to the
+ * current session so far.
+ */
+const resolvePeriod = (query: FinancialReportQuery): DateRange => {
+  const today = new Date();
+  const from = query.from
+    ? startOfDay(parseDate(query.from, "from"))
+    : new Date(getSessionStartYear(today), 3, 1);
+  const to = endOfDay(query.to ? parseDate(query.to, "to") : today);
+  if (to < from) {
+    throw new HttpError(400, "to must not be before from.");
+  }
+  return { from, to };
+};
+
+const resolveComparison = (value: unknown): ReportComparison => {
+  if (value === undefined || value === "") return "previous_period";
+  if (!REPORT_COMPARISONS.includes(value as ReportComparison)) {
+    throw new HttpError(
+      400,
+      `compare must be one of: ${REPORT_COMPARISONS.join(", ")}.`
+    );
+  }
+  return value as ReportComparison;
+};
+
+/**
+ * The period a statement is compared with: the same number of days just
+ * before it, or the same dates one session (a year) earlier.
+ */
+const comparisonPeriodFor = (
+  period: DateRange,
+  compare: ReportComparison
+): DateRange | null => {
+  if (compare === "none") return null;
+  const { from, to } = period;
+  if (compare === "previous_session") {
+    return {
+      from: new Date(from.getFullYear() - 1, from.getMonth(), from.getDate()),
+      to: endOfDay(new Date(to.getFullYear() - 1, to.getMonth(), to.getDate())),
+    };
+  }
+  const days =
+    Math.round((startOfDay(to).getTime() - from.getTime()) / 86400000) + 1;
+  return {
+    from: new Date(from.getFullYear(), from.getMonth(), from.getDate() - days),
+    to: endOfDay(
+      new Date(from.getFullYear(), from.getMonth(), from.getDate() - 1)
+    ),
+  };
+};
+
+/** Calendar months a period touches, oldest first. */
+const monthsOf = (period: DateRange) => {
+  const months: { key: string; label: string }[] = [];
+  for (
+    let month = new Date(period.from.getFullYear(), period.from.getMonth(), 1);
+    month <= period.to;
+    month = addMonths(month, 1)
+  ) {
+    months.push({
+      key: monthKeyOf(month),
+      label: month.toLocaleDateString("en-IN", {
+        month: "short",
+        year: "numeric",
+      }),
+    });
+  }
+  if (months.length > MAX_TREND_MONTHS) {
+    throw new HttpError(
+      400,
+      `Trend reports cover at most ${MAX_TREND_MONTHS} months.`
+    );
+  }
+  return months;
+};
+
+/** The month a trend row is compared with, by YYYY-MM key. */
+const previousMonthKey = (key: string, compare: ReportComparison) => {
+  if (compare === "none") return null;
+  const [year, month] = key.split("-").map(Number);
+  return monthKeyOf(
+    compare === "previous_session"
+      ? new Date(year - 1, month - 1, 1)
+      : new Date(year, month - 2, 1)
+  );
+};
+
+// Trend reports work on whole months; the fetch range also covers the
+// months they are compared with.
+const trendRanges = (period: DateRange, compare: ReportComparison) => {
+  const whole = {
+    from: new Date(period.from.getFullYear(), period.from.getMonth(), 1),
+    to: endOfMonth(period.to),
+  };
+  const fetchFrom =
+    compare === "previous_session"
+      ? new Date(whole.from.getFullYear() - 1, whole.from.getMonth(), 1)
+      : compare === "previous_period"
+      ? addMonths(whole.from, -1)
+      : whole.from;
+  return { period: whole, fetch: { from: fetchFrom, to: whole.to } };
+};
+
+// --- Data ---
+
+const ledgerAccountScope = (
+  branchId: string | null
+): Prisma.LedgerAccountWhereInput => ({
+  type: { in: ["income", "expense"] },
+  ...(branchId ? { branchId } : {}),
+});
+
+/**
+ * Income and expense totals per ledger account code. Across branches the
+ * same code (the system chart of accounts) is added together.
+ */
+const sumIncomeAndExpenses = async (
+  branchId: string | null,
+  range: DateRange
+) => {
+  const accountWhere = ledgerAccountScope(branchId);
+  const [accounts, sums] = await Promise.all([
+    prisma.ledgerAccount.findMany({
+      where: accountWhere,
+      select: { id: true, code: true, name: true, type: true },
+    }),
+    prisma.journalLine.groupBy({
+      by: "accountId",
+      where: {
+        account: accountWhere,
+        entry: { date: { gte: range.from, lte: range.to } },
+      },
+      _sum: { debit: true, credit: true },
+    }),
+  ]);
+  const sumByAccount = new Map(sums.map((s) => [s.accountId, s._sum]));
+
+  const byCode = new Map<
+    string,
+    { code: string; name: string; type: "income" | "expense"; amount: number }
+  >();
+  for (const account of accounts) {
+    const sum = sumByAccount.get(account.id);
+    const debit = sum?.debit ?? 0;
+    const credit = sum?.credit ?? 0;
+    const type = account.type === "expense" ? "expense" : "income";
+    const amount = type === "expense" ? debit - credit : credit - debit;
+    const line = byCode.get(account.code) ?? {
+      code: account.code,
+      name: account.name,
+      type,
+      amount: 0,
+    };
+    line.amount += amount;
+    byCode.set(account.code, line);
+  }
+  return byCode;
+};
+
+/** Fee money received: payments net of reversals, without wallet spends. */
+const collectionScope = (
+  branchId: string | null,
+  range: DateRange
+): Prisma.FeePaymentWhereInput => ({
+  paidDate: { gte: range.from, lte: range.to },
+  OR: [{ paymentMode: null }, { paymentMode: { not: WALLET_PAYMENT_MODE } }],
+  ...(branchId ? { student: { branchId } } : {}),
+});
+
+const classLabel = (
+  schoolClass: { gradeLevel: number; section: string } | null
+) =>
+  schoolClass
+    ? `Grade ${schoolClass.gradeLevel} - ${schoolClass.section}`
+    : "Unassigned";
+
+const addTo = (map: Map<string, number>, key: string, amount: number) =>
+  map.set(key, (map.get(key) ?? 0) + amount);
+
+const sumCollections = async (branchId: string | null, range: DateRange) => {
+  const [payments, receipts] = await Promise.all([
+    prisma.feePayment.findMany({
+      where: collectionScope(branchId, range),
+      select: {
+        amount: true,
+        advanceAmount: true,
+        paymentMode: true,
+        student: {
+          select: { class: { select: { gradeLevel: true, section: true } } },
+        },
+      },
+    }),
+    prisma.feeReceipt.findMany({
+      where: {
+        status: "issued",
+        issuedAt: { gte: range.from, lte: range.to },
+        ...(branchId ? { branchId } : {}),
+      },
+      select: { lineItems: true },
+    }),
+  ]);
+
+  const byMode = new Map<string, number>();
+  const modeLabels = new Map<string, string>();
+  const byClass = new Map<string, number>();
+  const byHead = new Map<string, number>();
+  let total = 0;
+  for (const payment of payments) {
+    const received = payment.amount + payment.advanceAmount;
+    const mode = (payment.paymentMode || "Cash").trim();
+    const modeKey = mode.toLowerCase();
+    if (!modeLabels.has(modeKey)) modeLabels.set(modeKey, mode);
+    addTo(byMode, modeLabels.get(modeKey)!, received);
+    addTo(byClass, classLabel(payment.student.class), received);
+    total += received;
+  }
+  for (const receipt of receipts) {
+    const items = (receipt.lineItems as unknown as ReceiptLineItem[]) || [];
+    items.forEach((item) => addTo(byHead, item.head, item.amount));
+  }
+  return { total, count: payments.length, byMode, byClass, byHead };
+};
+
+/** Lines up current and comparison totals by key, sorted by key. */
+const compareByKey = (
+  current: Map<string, number>,
+  previous: Map<string, number> | null
+) =>
+  [...new Set([...current.keys(), ...(previous?.keys() ?? [])])]
+    .sort((a, b) => a.localeCompare(b, "en", { numeric: true }))
+    .map((key) => ({
+      key,
+      ...metric(
+        current.get(key) ?? 0,
+        previous ? previous.get(key) ?? 0 : null
+      ),
+    }))
+    .filter((row) => row.current !== 0 || (row.previous ?? 0) !== 0);
+
+// --- Table helpers ---
+
+const metricColumns = (first: string, withComparison: boolean) => [
+  { label: first, kind: "text" as const },
+  { label: "Amount", kind: "amount" as const },
+  ...(withComparison
+    ? [
+        { label: "Previous", kind: "amount" as const },
+        { label: "Change", kind: "amount" as const },
+        { label: "Change %", kind: "percent" as const },
+      ]
+    : []),
+];
+
+const metricCells = (m: Metric, withComparison: boolean): Cell[] =>
+  withComparison
+    ? [m.current, m.previous, m.change, m.changePercent]
+    : [m.current];
+
+// --- Reports ---
+
+interface ReportContext {
+  branchId: string | null;
+  period: DateRange;
+  compare: ReportComparison;
+}
+
+interface BuiltReport {
+  period: DateRange;
+  comparisonPeriod: DateRange | null;
+  data: Record<string, unknown>;
+  tables: ReportTable[];
+}
+
+const buildIncomeStatement = async ({
+  branchId,
+  period,
+  compare,
+}: ReportContext): Promise<BuiltReport> => {
+  const comparisonPeriod = comparisonPeriodFor(period, compare);
+  const [current, previous] = await Promise.all([
+    sumIncomeAndExpenses(branchId, period),
+    comparisonPeriod ? sumIncomeAndExpenses(branchId, comparisonPeriod) : null,
+  ]);
+
+  const lines = [...new Set([...current.keys(), ...(previous?.keys() ?? [])])]
+    .sort()
+    .map((code) => {
+      const account = (current.get(code) ?? previous?.get(code))!;
+      return {
+        code,
+        name: account.name,
+        type: account.type,
+        ...metric(
+          current.get(code)?.amount ?? 0,
+          previous ? previous.get(code)?.amount ?? 0 : null
+        ),
+      };
+    })
+    .filter((line) => line.current !== 0 || (line.previous ?? 0) !== 0);
+  const income = lines.filter((line) => line.type === "income");
+  const expenses = lines.filter((line) => line.type === "expense");
+
+  const total = (rows: Metric[], key: "current" | "previous") =>
+    rows.reduce((sum, row) => sum + (row[key] ?? 0), 0);
+  const totalIncome = metric(
+    total(income, "current"),
+    previous ? total(income, "previous") : null
+  );
+  const totalExpenses = metric(
+    total(expenses, "current"),
+    previous ? total(expenses, "previous") : null
+  );
+  const netIncome = metric(
+    totalIncome.current - totalExpenses.current,
+    previous ? totalIncome.previous! - totalExpenses.previous! : null
+  );
+
+  const withComparison = previous !== null;
+  const accountRows = (rows: typeof lines) =>
+    rows.map((line) => [
+      `${line.code} ${line.name}`,
+      ...metricCells(line, withComparison),
+    ]);
+  return {
+    period,
+    comparisonPeriod,
+    data: { income, expenses, totalIncome, totalExpenses, netIncome },
+    tables: [
+      {
+        title: "Income",
+        columns: metricColumns("Account", withComparison),
+        rows: [
+          ...accountRows(income),
+          ["Total income", ...metricCells(totalIncome, withComparison)],
+        ],
+      },
+      {
+        title: "Expenses",
+        columns: metricColumns("Account", withComparison),
+        rows: [
+          ...accountRows(expenses),
+          ["Total expenses", ...metricCells(totalExpenses, withComparison)],
+        ],
+      },
+      {
+        title: "Summary",
+        columns: metricColumns("", withComparison),
+        rows: [
+          ["Total income", ...metricCells(totalIncome, withComparison)],
+          ["Total expenses", ...metricCells(totalExpenses, withComparison)],
+          ["Net income", ...metricCells(netIncome, withComparison)],
+        ],
+      },
+    ],
+  };
+};
+
+/**
+ * Fee money received in the period by payment mode and class (from the
+ * payments, net of refunds) and by fee head (from the issued receipts'
+ * line items, so refunds do not reduce a head).
+ */
+const buildFeeCollection = async ({
+  branchId,
+  period,
+  compare,
+}: ReportContext): Promise<BuiltReport> => {
+  const comparisonPeriod = comparisonPeriodFor(period, compare);
+  const [current, previous] = await Promise.all([
+    sumCollections(branchId, period),
+    comparisonPeriod ? sumCollections(branchId, comparisonPeriod) : null,
+  ]);
+
+  const totalCollected = metric(current.total, previous?.total ?? null);
+  const byMode = compareByKey(current.byMode, previous?.byMode ?? null);
+  const byClass = compareByKey(current.byClass, previous?.byClass ?? null);
+  const byFeeHead = compareByKey(current.byHead, previous?.byHead ?? null);
+
+  const withComparison = previous !== null;
+  const table = (
+    title: string,
+    first: string,
+    rows: ({ key: string } & Metric)[]
+  ): ReportTable => ({
+    title,
+    columns: metricColumns(first, withComparison),
+    rows: [
+      ...rows.map((row) => [row.key, ...metricCells(row, withComparison)]),
+      ["Total", ...metricCells(totalCollected, withComparison)],
+    ],
+  });
+  return {
+    period,
+    comparisonPeriod,
+    data: {
+      totalCollected,
+      paymentCount: current.count,
+      byMode: byMode.map(({ key, ...m }) => ({ mode: key, ...m })),
+      byClass: byClass.map(({ key, ...m }) => ({ className: key, ...m })),
+      byFeeHead: byFeeHead.map(({ key, ...m }) => ({ head: key, ...m })),
+    },
+    tables: [
+      table("By payment mode", "Payment mode", byMode),
+      table("By class", "Class", byClass),
+      {
+        title: "By fee head",
+        columns: metricColumns("Fee head", withComparison),
+        rows: byFeeHead.map((row) => [
+          row.key,
+          ...metricCells(row, withComparison),
+        ]),
+      },
+    ],
+  };
+};
+
+/**
+ * Month by month: what fell due (instalments by due date), how much of it
+ * has been paid so far, and the fee money received in the month. Each month
+ * is compared with the month before, or with the same month last session.
+ */
+const buildCollectionEfficiency = async ({
+  branchId,
+  period: requested,
+  compare,
+}: ReportContext): Promise<BuiltReport> => {
+  const { period, fetch } = trendRanges(requested, compare);
+  const months = monthsOf(period);
+
+  const [instalments, payments] = await Promise.all([
+    prisma.feeInstalment.findMany({
+      where: {
+        dueDate: { gte: fetch.from, lte: fetch.to },
+        ...(branchId ? { feeRecord: { student: { branchId } } } : {}),
+      },
+      select: { dueDate: true, amount: true, paidAmount: true },
+    }),
+    prisma.feePayment.findMany({
+      where: collectionScope(branchId, fetch),
+      select: { paidDate: true, amount: true, advanceAmount: true },
+    }),
+  ]);
+
+  const billed = new Map<string, number>();
+  const settled = new Map<string, number>();
+  const collected = new Map<string, number>();
+  for (const instalment of instalments) {
+    const key = monthKeyOf(instalment.dueDate);
+    addTo(billed, key, instalment.amount);
+    addTo(settled, key, Math.min(instalment.paidAmount, instalment.amount));
+  }
+  for (const payment of payments) {
+    addTo(
+      collected,
+      monthKeyOf(payment.paidDate),
+      payment.amount + payment.advanceAmount
+    );
+  }
+
+  const efficiencyOf = (key: string) =>
+    percentOf(settled.get(key) ?? 0, billed.get(key) ?? 0);
+  const rows = months.map(({ key, label }) => {
+    const previousKey = previousMonthKey(key, compare);
+    const efficiencyPercent = efficiencyOf(key);
+    const previousEfficiencyPercent = previousKey
+      ? efficiencyOf(previousKey)
+      : null;
+    return {
+      month: key,
+      label,
+      billed: round2(billed.get(key) ?? 0),
+      collectedAgainstDues: round2(settled.get(key) ?? 0),
+      outstanding: round2((billed.get(key) ?? 0) - (settled.get(key) ?? 0)),
+      efficiencyPercent,
+      previousEfficiencyPercent,
+      efficiencyChange:
+        efficiencyPercent !== null && previousEfficiencyPercent !== null
+          ? round2(efficiencyPercent - previousEfficiencyPercent)
+          : null,
+      collected: metric(
+        collected.get(key) ?? 0,
+        previousKey ? collected.get(previousKey) ?? 0 : null
+      ),
+    };
+  });
+
+  const totalBilled = round2(rows.reduce((sum, r) => sum + r.billed, 0));
+  const totalSettled = round2(
+    rows.reduce((sum, r) => sum + r.collectedAgainstDues, 0)
+  );
+  const totalCollected = round2(
+    rows.reduce((sum, r) => sum + r.collected.current, 0)
+  );
+
+  const withComparison = compare !== "none";
+  return {
+    period,
+    comparisonPeriod: null,
+    data: {
+      months: rows,
+      totals: {
+        billed: totalBilled,
+        collectedAgainstDues: totalSettled,
+        outstanding: round2(totalBilled - totalSettled),
+        efficiencyPercent: percentOf(totalSettled, totalBilled),
+        collected: totalCollected,
+      },
+    },
+    tables: [
+      {
+        title: "Collection efficiency",
+        columns: [
+          { label: "Month", kind: "text" },
+          { label: "Due", kind: "amount" },
+          { label: "Paid", kind: "amount" },
+          { label: "Outstanding", kind: "amount" },
+          { label: "Efficiency %", kind: "percent" },
+          ...(withComparison
+            ? [
+                { label: "Previous %", kind: "percent" as const },
+                { label: "Change (pts)", kind: "percent" as const },
+              ]
+            : []),
+        ],
+        rows: [
+          ...rows.map((r) => [
+            r.label,
+            r.billed,
+            r.collectedAgainstDues,
+            r.outstanding,
+            r.efficiencyPercent,
+            ...(withComparison
+              ? [r.previousEfficiencyPercent, r.efficiencyChange]
+              : []),
+          ]),
+          [
+            "Total",
+            totalBilled,
+            totalSettled,
+            round2(totalBilled - totalSettled),
+            percentOf(totalSettled, totalBilled),
+            ...(withComparison ? [null, null] : []),
+          ],
+        ],
+      },
+      {
+        title: "Fees received",
+        columns: metricColumns("Month", withComparison),
+        rows: rows.map((r) => [
+          r.label,
+          ...metricCells(r.collected, withComparison),
+        ]),
+      },
+    ],
+  };
+};
+
+/**
+ * Ledger income, expenses and net income for each month, compared with the
+ * month before or the same month last session.
+ */
+const buildMonthlyTrend = async ({
+  branchId,
+  period: requested,
+  compare,
+}: ReportContext): Promise<BuiltReport> => {
+  const { period, fetch } = trendRanges(requested, compare);
+  const months = monthsOf(period);
+
+  const lines = await prisma.journalLine.findMany({
+    where: {
+      account: ledgerAccountScope(branchId),
+      entry: { date: { gte: fetch.from, lte: fetch.to } },
+    },
+    select: {
+      debit: true,
+      credit: true,
+      account: { select: { type: true } },
+      entry: { select: { date: true } },
+    },
+  });
+  const income = new Map<string, number>();
+  const expenses = new Map<string, number>();
+  for (const line of lines) {
+    const key = monthKeyOf(line.entry.date);
+    if (line.account.type === "expense") {
+      addTo(expenses, key, line.debit - line.credit);
+    } else {
+      addTo(income, key, line.credit - line.debit);
+    }
+  }
+
+  const net = (key: string) =>
+    (income.get(key) ?? 0) - (expenses.get(key) ?? 0);
+  const rows = months.map(({ key, label }) => {
+    const previousKey = previousMonthKey(key, compare);
+    const previous = (map: Map<string, number>) =>
+      previousKey ? map.get(previousKey) ?? 0 : null;
+    return {
+      month: key,
+      label,
+      income: metric(income.get(key) ?? 0, previous(income)),
+      expenses: metric(expenses.get(key) ?? 0, previous(expenses)),
+      netIncome: metric(net(key), previousKey ? net(previousKey) : null),
+    };
+  });
+
+  const withComparison = compare !== "none";
+  return {
+    period,
+    comparisonPeriod: null,
+    data: { months: rows },
+    tables: [
+      {
+        title: "Income and expenses",
+        columns: [
+          { label: "Month", kind: "text" },
+          { label: "Income", kind: "amount" },
+          { label: "Expenses", kind: "amount" },
+          { label: "Net income", kind: "amount" },
+        ],
+        rows: [
+          ...rows.map((r) => [
+            r.label,
+            r.income.current,
+            r.expenses.current,
+            r.netIncome.current,
+          ]),
+          [
+            "Total",
+            round2(rows.reduce((sum, r) => sum + r.income.current, 0)),
+            round2(rows.reduce((sum, r) => sum + r.expenses.current, 0)),
+            round2(rows.reduce((sum, r) => sum + r.netIncome.current, 0)),
+          ],
+        ],
+      },
+      ...(withComparison
+        ? [
+            {
+              title: "Income change",
+              columns: metricColumns("Month", true),
+              rows: rows.map((r) => [r.label, ...metricCells(r.income, true)]),
+            },
+            {
+              title: "Expense change",
+              columns: metricColumns("Month", true),
+              rows: rows.map((r) => [
+                r.label,
+                ...metricCells(r.expenses, true),
+              ]),
+            },
+            {
+              title: "Net income change",
+              columns: metricColumns("Month", true),
+              rows: rows.map((r) => [
+                r.label,
+                ...metricCells(r.netIncome, true),
+              ]),
+            },
+          ]
+        : []),
+    ],
+  };
+};
+
+const BUILDERS: Record<
+  FinancialReportType,
+  (context: ReportContext) => Promise<BuiltReport>
+> = {
+  "income-statement": buildIncomeStatement,
+  "fee-collection": buildFeeCollection,
+  "collection-efficiency": buildCollectionEfficiency,
+  "monthly-trend": buildMonthlyTrend,
+};
+
+export const parseReportFormat = (value: unknown): ReportFormat => {
+  if (value === undefined || value === "") return "json";
+  if (!REPORT_FORMATS.includes(value as ReportFormat)) {
+    throw new HttpError(
+      400,
+      `format must be one of: ${REPORT_FORMATS.join(", ")}.`
+    );
+  }
+  return value as ReportFormat;
+};
+
+/**
+ * Builds one of the FINANCIAL_REPORTS for a branch, or for all branches
+ * when `branchId` is omitted. `compare` is `previous_period` (default),
+ * `previous_session` or `none`; trend reports round the period out to whole
+ * months and compare each month instead of the whole period.
+ */
+export const getFinancialReport = async (
+  type: string,
+  query: FinancialReportQuery,
+  branchId?: string
+) => {
+  const build = BUILDERS[type as FinancialReportType];
+  if (!build) {
+    throw new HttpError(
+      404,
+      `Unknown report. Available: ${Object.keys(FINANCIAL_REPORTS).join(", ")}.`
+    );
+  }
+  const period = resolvePeriod(query);
+  const compare = resolveComparison(query.compare);
+
+  let branchName = ALL_BRANCHES;
+  if (branchId) {
+    const branch = await prisma.branch.findUnique({
+      where: { id: branchId },
+      select: { name: true },
+    });
+    if (!branch) {
+      throw new HttpError(404, "Branch not found.");
+    }
+    branchName = branch.name;
+  }
+
+  const built = await build({ branchId: branchId ?? null, period, compare });
+  return {
+    report: {
+      type: type as FinancialReportType,
+      title: FINANCIAL_REPORTS[type as FinancialReportType],
+      branchId: branchId ?? null,
+      branchName,
+      from: built.period.from,
+      to: built.period.to,
+      compare,
+      comparisonFrom: built.comparisonPeriod?.from ?? null,
+      comparisonTo: built.comparisonPeriod?.to ?? null,
+      generatedAt: new Date(),
+      ...built.data,
+    },
+    tables: built.tables,
+  };
+};
+
+export type FinancialReport = Awaited<
+  ReturnType<typeof getFinancialReport>
+>["report"];
+
+// --- Export ---
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+const COMPARISON_LABELS: Record<ReportComparison, string> = {
+  none: "None",
+  previous_period: "Previous period",
+  previous_session: "Same period last session",
+};
+
+const describeComparison = (report: FinancialReport) => {
+  if (report.compare === "none") return COMPARISON_LABELS.none;
+  if (report.comparisonFrom && report.comparisonTo) {
+    return `${COMPARISON_LABELS[report.compare]} (${formatDate(
+      report.comparisonFrom
+    )} - ${formatDate(report.comparisonTo)})`;
+  }
+  return report.compare === "previous_session"
+    ? "Same month last session"
+    : "Previous month";
+};
+
+const reportInfo = (report: FinancialReport): [string, string][] => [
+  ["Report", report.title],
+  ["Branch", report.branchName],
+  ["Period", `${formatDate(report.from)} - ${formatDate(report.to)}`],
+  ["Compared with", describeComparison(report)],
+  ["Generated", report.generatedAt.toLocaleString("en-IN")],
+];
+
+const formatCell = (value: Cell, kind: ColumnKind) => {
+  if (value === null || value === "") return "-";
+  if (typeof value === "string") return value;
+  if (kind === "percent") return `${value.toFixed(1)}%`;
+  return value.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+};
+
+const CONTENT_TYPES: Record<Exclude<ReportFormat, "json">, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+/**
+ * Renders a report as a file. CSV stacks the sections one under another,
+ * XLSX puts each on its own sheet after a cover sheet, and the PDF lays
+ * them out for printing.
+ */
+export const renderFinancialReport = async (
+  report: FinancialReport,
+  tables: ReportTable[],
+  format: Exclude<ReportFormat, "json">
+) => {
+  const fileName = `${report.type}_${businessDateOf(
+    report.from
+  )}_${businessDateOf(report.to)}.${format}`;
+  const contentType = CONTENT_TYPES[format];
+
+  if (format === "csv") {
+    const rows: unknown[][] = [...reportInfo(report), []];
+    for (const table of tables) {
+      rows.push(
+        [table.title],
+        table.columns.map((c) => c.label),
+        ...table.rows,
+        []
+      );
+    }
+    return { fileName, contentType, content: toCsv(rows) };
+  }
+
+  if (format === "xlsx") {
+    const content = toXlsx([
+      { name: "Report", rows: [["Field", "Value"], ...reportInfo(report)] },
+      ...tables.map((table) => ({
+        name: table.title,
+        rows: [table.columns.map((c) => c.label), ...table.rows],
+      })),
+    ]);
+    return { fileName, contentType, content };
+  }
+
+  const content = await renderPdf((doc) => {
+    const width =
+      doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    doc.font("Helvetica-Bold").fontSize(16).text(report.title);
+    doc.font("Helvetica").fontSize(10).moveDown(0.5);
+    reportInfo(report)
+      .slice(1)
+      .forEach(([label, value]) => doc.text(`${label}: ${value}`));
+    doc.text("Amounts in INR.").moveDown();
+
+    for (const table of tables) {
+      const count = table.columns.length;
+      const first = count > 5 ? 105 : 155;
+      const rest = (width - first) / (count - 1);
+      doc.font("Helvetica-Bold").fontSize(12).text(table.title).moveDown(0.3);
+      drawTable(
+        doc,
+        table.columns.map((c) => c.label),
+        table.rows.map((row) =>
+          row.map((cell, i) => formatCell(cell, table.columns[i].kind))
+        ),
+        [first, ...Array(count - 1).fill(rest)],
+        {
+          align: table.columns.map((c) =>
+            c.kind === "text" ? "left" : "right"
+          ),
+          fontSize: 8,
+        }
+      );
+    }
+  });
+  return { fileName, contentType, content };
+};
@@ -0,0 +1,384 @@
+// src/services/lateFeeService.ts
+import {
+  LateFeeChargeStatus,
+  LateFeeChargeType,
+  LateFeeRule,
+  StudentCategory,
+} from "@prisma/client";
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { recordFeeAdjustment } from "./feeAdjustmentService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SYSTEM_ACTOR = "System (Late Fee Evaluator)";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface LateFeeRuleInput {
+  name?: string;
+  chargeType?: LateFeeChargeType;
+  amount?: number;
+  graceDays?: number;
+  chargePerDay?: boolean;
+  maxAmount?: number | null;
+  waivedCategories?: StudentCategory[];
+  isActive?: boolean;
+}
+
+const validateRuleInput = (input: LateFeeRuleInput, isCreate: boolean) => {
+  if (isCreate && (!input.name || !input.chargeType || input.amount == null)) {
+    throw new HttpError(400, "name, chargeType and amount are required.");
+  }
+  if (
+    input.chargeType !== undefined &&
+    !Object.values(LateFeeChargeType).includes(input.chargeType)
+  ) {
+    throw new HttpError(400, "chargeType must be 'flat' or 'percentage'.");
+  }
+  if (input.amount !== undefined) {
+    if (!Number.isFinite(Number(input.amount)) || Number(input.amount) <= 0) {
+      throw new HttpError(400, "amount must be a positive number.");
+    }
+    if (input.chargeType === "percentage" && Number(input.amount) > 100) {
+      throw new HttpError(400, "A percentage charge cannot exceed 100.");
+    }
+  }
+  if (
+    input.graceDays !== undefined &&
+    (!Number.isInteger(Number(input.graceDays)) || Number(input.graceDays) < 0)
+  ) {
+    throw new HttpError(400, "graceDays must be a whole number of days.");
+  }
+  if (
+    input.maxAmount !== undefined &&
+    input.maxAmount !== null &&
+    (!Number.isFinite(Number(input.maxAmount)) || Number(input.maxAmount) <= 0)
+  ) {
+    throw new HttpError(400, "maxAmount must be a positive number.");
+  }
+  if (
+    input.waivedCategories !== undefined &&
+    (!Array.isArray(input.waivedCategories) ||
+      input.waivedCategories.some(
+        (c) => !Object.values(StudentCategory).includes(c)
+      ))
+  ) {
+    throw new HttpError(400, "waivedCategories contains an unknown category.");
+  }
+};
+
+const toRuleData = (input: LateFeeRuleInput) => ({
+  name: input.name,
+  chargeType: input.chargeType,
+  amount: input.amount === undefined ? undefined : Number(input.amount),
+  graceDays:
+    input.graceDays === undefined ? undefined : Number(input.graceDays),
+  chargePerDay: input.chargePerDay,
+  maxAmount:
+    input.maxAmount === undefined || input.maxAmount === null
+      ? input.maxAmount
+      : Number(input.maxAmount),
+  waivedCategories: input.waivedCategories,
+  isActive: input.isActive,
+});
+
+export const listLateFeeRules = (branchId: string) =>
+  prisma.lateFeeRule.findMany({
+    where: { branchId },
+    orderBy: { createdAt: "asc" },
+  });
+
+export const createLateFeeRule = async (
+  branchId: string,
+  createdById: string,
+  input: LateFeeRuleInput
+) => {
+  validateRuleInput(input, true);
+  const data = toRuleData(input);
+  return prisma.lateFeeRule.create({
+    data: {
+      ...data,
+      name: input.name!,
+      chargeType: input.chargeType!,
+      amount: Number(input.amount),
+      branchId,
+      createdById,
+    },
+  });
+};
+
+export const updateLateFeeRule = async (
+  branchId: string,
+  ruleId: string,
+  input: LateFeeRuleInput
+) => {
+  const rule = await prisma.lateFeeRule.findFirst({
+    where: { id: ruleId, branchId },
+  });
+  if (!rule) {
+    throw new HttpError(404, "Late fee rule not found in your branch.");
+  }
+  validateRuleInput({ chargeType: rule.chargeType, ...input }, false);
+  return prisma.lateFeeRule.update({
+    where: { id: ruleId },
+    data: toRuleData(input),
+  });
+};
+
+/**
+ * Rules that have already charged someone are deactivated rather than
+ * deleted, so their charges keep pointing at a rule.
+ */
+export const deleteLateFeeRule = async (branchId: string, ruleId: string) => {
+  const rule = await prisma.lateFeeRule.findFirst({
+    where: { id: ruleId, branchId },
+    include: { _count: { select: { charges: true } } },
+  });
+  if (!rule) {
+    throw new HttpError(404, "Late fee rule not found in your branch.");
+  }
+  if (rule._count.charges > 0) {
+    await prisma.lateFeeRule.update({
+      where: { id: ruleId },
+      data: { isActive: false },
+    });
+    return { deleted: false, deactivated: true };
+  }
+  await prisma.lateFeeRule.delete({ where: { id: ruleId } });
+  return { deleted: true, deactivated: false };
+};
+
+/**
+ * What a rule should have charged in total on an instalment by `asOf`.
+ * Zero while the instalment is still inside its grace period.
+ */
+export const computeLateFee = (
+  rule: Pick<
+    LateFeeRule,
+    "chargeType" | "amount" | "graceDays" | "chargePerDay" | "maxAmount"
+  >,
+  instalment: { dueDate: Date; pendingAmount: number },
+  asOf: Date
+) => {
+  const daysPastDue = Math.floor(
+    (asOf.getTime() - instalment.dueDate.getTime()) / DAY_MS
+  );
+  const daysLate = daysPastDue - rule.graceDays;
+  if (daysLate <= 0 || instalment.pendingAmount <= 0) {
+    return { daysLate: Math.max(0, daysLate), amount: 0 };
+  }
+
+  const perCharge =
+    rule.chargeType === "flat"
+      ? rule.amount
+      : (instalment.pendingAmount * rule.amount) / 100;
+  const total = rule.chargePerDay ? perCharge * daysLate : perCharge;
+  const capped =
+    rule.maxAmount != null ? Math.min(total, rule.maxAmount) : total;
+
+  return { daysLate, amount: round2(capped) };
+};
+
+/**
+ * Applies every active late-fee rule to overdue instalments. Charges only
+ * ever grow: each run posts the difference between what the rule should have
+ * charged so far and what it already has, as a FeeAdjustment of type charge.
+ * Waived charges and students in a waived category are skipped, and so are
+ * records closed by the session rollover: their unpaid dues are billed on
+ * the next session's record as previous-session dues.
+ */
+export const evaluateLateFees = async (
+  options: { branchId?: string; asOf?: Date } = {}
+) => {
+  const asOf = options.asOf ?? new Date();
+  const rules = await prisma.lateFeeRule.findMany({
+    where: { isActive: true, branchId: options.branchId },
+  });
+
+  let chargesPosted = 0;
+  let amountPosted = 0;
+
+  for (const rule of rules) {
+    // Nothing can be late before due date + grace days.
+    const latestDueDate = new Date(asOf.getTime() - rule.graceDays * DAY_MS);
+    const instalments = await prisma.feeInstalment.findMany({
+      where: {
+        dueDate: { lt: latestDueDate },
+        paidAmount: { lt: prisma.feeInstalment.fields.amount },
+        feeRecord: {
+          student: { branchId: rule.branchId, status: "active" },
+          carriedForwardTo: null,
+        },
+      },
+      include: {
+        feeRecord: {
+          select: {
+            id: true,
+            student: { select: { id: true, category: true } },
+          },
+        },
+        lateFeeCharges: { where: { ruleId: rule.id } },
+      },
+    });
+
+    for (const instalment of instalments) {
+      const student = instalment.feeRecord.student;
+      if (student.category && rule.waivedCategories.includes(student.category))
+        continue;
+
+      const existing = instalment.lateFeeCharges[0];
+      if (existing?.status === "waived") continue;
+
+      const { daysLate, amount } = computeLateFee(
+        rule,
+        {
+          dueDate: instalment.dueDate,
+          pendingAmount: instalment.amount - instalment.paidAmount,
+        },
+        asOf
+      );
+      const delta = round2(amount - (existing?.amount ?? 0));
+      if (delta <= 0) continue;
+
+      await prisma.$transaction(async (tx) => {
+        const charge = existing
+          ? await tx.lateFeeCharge.update({
+              where: { id: existing.id },
+              data: { amount, daysLate },
+            })
+          : await tx.lateFeeCharge.create({
+              data: {
+                branchId: rule.branchId,
+                ruleId: rule.id,
+                instalmentId: instalment.id,
+                studentId: student.id,
+                amount,
+                daysLate,
+              },
+            });
+
+        await recordFeeAdjustment(tx, {
+          studentId: student.id,
+          feeRecordId: instalment.feeRecord.id,
+          type: "charge",
+          amount: delta,
+          reason: `Late Fee: ${rule.name} on ${instalment.label} (${daysLate} day(s) late)`,
+          adjustedBy: SYSTEM_ACTOR,
+          date: asOf,
+          account: "LATE_FEE_INCOME",
+          lateFeeChargeId: charge.id,
+        });
+      });
+
+      chargesPosted++;
+      amountPosted = round2(amountPosted + delta);
+    }
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      actorName: SYSTEM_ACTOR,
+      actorRole: "System",
+      action: "LATE_FEE_EVALUATION",
+      targetId: options.branchId,
+      targetType: options.branchId ? "Branch" : undefined,
+      statusCode: 200,
+      details: {
+        asOf: asOf.toISOString(),
+        rulesEvaluated: rules.length,
+        chargesPosted,
+        amountPosted,
+      },
+    },
+  });
+
+  return { rulesEvaluated: rules.length, chargesPosted, amountPosted };
+};
+
+export const listLateFeeCharges = (
+  branchId: string,
+  status?: LateFeeChargeStatus
+) =>
+  prisma.lateFeeCharge.findMany({
+    where: { branchId, status },
+    include: {
+      rule: { select: { name: true } },
+      instalment: { select: { label: true, dueDate: true } },
+      student: { select: { name: true, classId: true } },
+      adjustments: { orderBy: { date: "asc" } },
+    },
+    orderBy: { updatedAt: "desc" },
+  });
+
+/**
+ * Cancels everything a late-fee charge has posted with a matching concession
+ * and stops the rule from charging that instalment again.
+ */
+export const waiveLateFeeCharge = async (
+  branchId: string,
+  chargeId: string,
+  reason: string,
+  actor: { id: string; name: string; role: string }
+) => {
+  if (!reason) {
+    throw new HttpError(400, "A reason is required to waive a late fee.");
+  }
+
+  const waived = await prisma.$transaction(async (tx) => {
+    const charge = await tx.lateFeeCharge.findFirst({
+      where: { id: chargeId, branchId },
+      include: {
+        rule: { select: { name: true } },
+        instalment: { select: { label: true, feeRecordId: true } },
+      },
+    });
+    if (!charge) {
+      throw new HttpError(404, "Late fee charge not found in your branch.");
+    }
+
+    const claimed = await tx.lateFeeCharge.updateMany({
+      where: { id: charge.id, status: "applied" },
+      data: {
+        status: "waived",
+        waivedById: actor.id,
+        waivedByName: actor.name,
+        waiverReason: reason,
+        waivedAt: new Date(),
+      },
+    });
+    if (claimed.count === 0) {
+      throw new HttpError(400, "This late fee has already been waived.");
+    }
+
+    if (charge.amount > 0) {
+      // Waiving cancels the income the charge booked.
+      await recordFeeAdjustment(tx, {
+        studentId: charge.studentId,
+        feeRecordId: charge.instalment.feeRecordId,
+        type: "concession",
+        amount: charge.amount,
+        reason: `Late Fee Waived: ${charge.rule.name} on ${charge.instalment.label} (${reason})`,
+        adjustedBy: actor.name,
+        account: "LATE_FEE_INCOME",
+        lateFeeChargeId: charge.id,
+      });
+    }
+
+    return charge;
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: actor.id,
+      actorName: actor.name,
+      actorRole: actor.role,
+      action: "LATE_FEE_WAIVE",
+      targetId: waived.id,
+      targetType: "LateFeeCharge",
+      statusCode: 200,
+      details: { amount: waived.amount, reason },
+    },
+  });
+
+  return { chargeId: waived.id, amountWaived: waived.amount };
+};
@@ -0,0 +1,757 @@
+// src/services/ledgerService.ts
+import { LedgerAccountType, ManualExpenseCategory } from "@prisma/client";
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+
+type Tx = PrismaTransactionClient;
+
+/**
+ * The system accounts every branch gets. Codes follow the usual ranges:
+ * 1xxx assets, 2xxx liabilities, 3xxx equity, 4xxx income, 5xxx expenses.
+ */
+export const LEDGER_ACCOUNTS = {
+  CASH: { code: "1000", name: "Cash in Hand", type: "asset" },
+  BANK: { code: "1010", name: "Bank Account", type: "asset" },
+  FEES_RECEIVABLE: { code: "1100", name: "Fees Receivable", type: "asset" },
+  PAYROLL_DEDUCTIONS_PAYABLE: {
+    code: "2100",
+    name: "Payroll Deductions Payable",
+    type: "liability",
+  },
+  ERP_PAYABLE: {
+    code: "2200",
+    name: "ERP Subscription Payable",
+    type: "liability",
+  },
+  STUDENT_ADVANCES: {
+    code: "2300",
+    name: "Student Advances (Wallets)",
+    type: "liability",
+  },
+  SESSION_CARRY_FORWARD: {
+    code: "2900",
+    name: "Session Carry-forward Clearing",
+    type: "liability",
+  },
+  TUITION_INCOME: { code: "4000", name: "Tuition Fee Income", type: "income" },
+  HOSTEL_INCOME: { code: "4010", name: "Hostel Fee Income", type: "income" },
+  TRANSPORT_INCOME: {
+    code: "4020",
+    name: "Transport Fee Income",
+    type: "income",
+  },
+  LATE_FEE_INCOME: { code: "4030", name: "Late Fee Income", type: "income" },
+  OTHER_FEE_INCOME: { code: "4090", name: "Other Fee Income", type: "income" },
+  FEE_CONCESSIONS: {
+    code: "5000",
+    name: "Fee Concessions & Discounts",
+    type: "expense",
+  },
+  SALARIES: { code: "5100", name: "Salaries & Wages", type: "expense" },
+  EMPLOYER_CONTRIBUTIONS: {
+    code: "5110",
+    name: "Employer PF & ESI Contributions",
+    type: "expense",
+  },
+  UTILITIES: { code: "5200", name: "Utilities", type: "expense" },
+  SUPPLIES: { code: "5210", name: "Supplies", type: "expense" },
+  MAINTENANCE: { code: "5220", name: "Maintenance", type: "expense" },
+  EVENTS: { code: "5230", name: "Events", type: "expense" },
+  MISC_EXPENSES: {
+    code: "5290",
+    name: "Miscellaneous Expenses",
+    type: "expense",
+  },
+  ERP_SUBSCRIPTION: {
+    code: "5300",
+    name: "ERP Subscription",
+    type: "expense",
+  },
+} as const satisfies Record<
+  string,
+  { code: string; name: string; type: LedgerAccountType }
+>;
+
+export type LedgerAccountKey = keyof typeof LEDGER_ACCOUNTS;
+
+const EXPENSE_CATEGORY_ACCOUNTS: Record<
+  ManualExpenseCategory,
+  LedgerAccountKey
+> = {
+  Utilities: "UTILITIES",
+  Supplies: "SUPPLIES",
+  Maintenance: "MAINTENANCE",
+  Events: "EVENTS",
+  Miscellaneous: "MISC_EXPENSES",
+};
+
+export interface JournalLineInput {
+  account: LedgerAccountKey;
+  debit?: number;
+  credit?: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Cash counter takings go to cash, wallet money comes out of student
+// advances; everything else lands in the bank.
+export const cashAccountFor = (paymentMode?: string | null): LedgerAccountKey => {
+  const mode = (paymentMode || "Cash").toLowerCase();
+  if (mode === "cash") return "CASH";
+  return mode === "wallet" ? "STUDENT_ADVANCES" : "BANK";
+};
+
+/**
+ * Resolves system account ids for a branch, creating any the branch does not
+ * have yet.
+ */
+const getLedgerAccountIds = async (
+  client: Tx,
+  branchId: string,
+  keys: LedgerAccountKey[]
+) => {
+  const codes = keys.map((key) => LEDGER_ACCOUNTS[key].code);
+  let accounts = await client.ledgerAccount.findMany({
+    where: { branchId, code: { in: codes } },
+    select: { id: true, code: true },
+  });
+
+  if (accounts.length < new Set(codes).size) {
+    await client.ledgerAccount.createMany({
+      data: Object.values(LEDGER_ACCOUNTS).map((account) => ({
+        ...account,
+        branchId,
+        isSystem: true,
+      })),
+      skipDuplicates: true,
+    });
+    accounts = await client.ledgerAccount.findMany({
+      where: { branchId, code: { in: codes } },
+      select: { id: true, code: true },
+    });
+  }
+
+  const idsByCode = new Map(accounts.map((a) => [a.code, a.id]));
+  return (key: LedgerAccountKey) => idsByCode.get(LEDGER_ACCOUNTS[key].code)!;
+};
+
+/**
+ * Posts a balanced journal entry. Must run in the transaction that records
+ * the underlying event so the books can never disagree with it. Entries that
+ * come to zero are skipped.
+ */
+export const postJournalEntry = async (
+  tx: Tx,
+  entry: {
+    branchId: string;
+    date: Date;
+    description: string;
+    sourceType: string;
+    sourceId?: string;
+    lines: JournalLineInput[];
+  }
+) => {
+  const lines = entry.lines
+    .map((line) => ({
+      account: line.account,
+      debit: round2(line.debit ?? 0),
+      credit: round2(line.credit ?? 0),
+    }))
+    .filter((line) => line.debit !== 0 || line.credit !== 0);
+  if (lines.length === 0) return null;
+
+  const debits = round2(lines.reduce((sum, l) => sum + l.debit, 0));
+  const credits = round2(lines.reduce((sum, l) => sum + l.credit, 0));
+  if (debits !== credits) {
+    throw new HttpError(
+      500,
+      `Unbalanced journal entry for ${entry.sourceType}: ${debits} != ${credits}.`
+    );
+  }
+
+  const accountId = await getLedgerAccountIds(
+    tx,
+    entry.branchId,
+    lines.map((l) => l.account)
+  );
+  return tx.journalEntry.create({
+    data: {
+      branchId: entry.branchId,
+      date: entry.date,
+      description: entry.description,
+      sourceType: entry.sourceType,
+      sourceId: entry.sourceId,
+      lines: {
+        create: lines.map((line) => ({
+          accountId: accountId(line.account),
+          debit: line.debit,
+          credit: line.credit,
+        })),
+      },
+    },
+  });
+};
+
+/**
+ * Debits (or, for a negative amount, credits) fees receivable against the
+ * given account. Used for fee billing and fee adjustments, where a positive
+ * amount raises what the student owes.
+ */
+export const postReceivableMovement = (
+  tx: Tx,
+  entry: {
+    branchId: string;
+    date: Date;
+    description: string;
+    sourceType: string;
+    sourceId?: string;
+    amount: number;
+    account: LedgerAccountKey;
+  }
+) => {
+  const amount = Math.abs(entry.amount);
+  const raises = entry.amount > 0;
+  return postJournalEntry(tx, {
+    ...entry,
+    lines: [
+      {
+        account: "FEES_RECEIVABLE",
+        debit: raises ? amount : 0,
+        credit: raises ? 0 : amount,
+      },
+      {
+        account: entry.account,
+        debit: raises ? 0 : amount,
+        credit: raises ? amount : 0,
+      },
+    ],
+  });
+};
+
+// A collected payment moves receivable into cash/bank; a reversal (negative
+// amount) moves it back. Money beyond what was owed is held in student
+// advances until the wallet is applied to later dues, and a reversal's
+// (negative) advanceAmount is taken back out of them.
+export const postFeePayment = (
+  tx: Tx,
+  branchId: string,
+  payment: {
+    id: string;
+    amount: number;
+    advanceAmount?: number;
+    paidDate: Date;
+    paymentMode: string | null;
+    transactionId: string;
+  }
+) => {
+  const amount = Math.abs(payment.amount);
+  const advance = Math.abs(payment.advanceAmount ?? 0);
+  const incoming = payment.amount + (payment.advanceAmount ?? 0) > 0;
+  return postJournalEntry(tx, {
+    branchId,
+    date: payment.paidDate,
+    description: `${incoming ? "Fee collected" : "Fee refunded"} (${
+      payment.paymentMode || "Cash"
+    }, ${payment.transactionId})`,
+    sourceType: "FeePayment",
+    sourceId: payment.id,
+    lines: [
+      {
+        account: cashAccountFor(payment.paymentMode),
+        debit: incoming ? amount + advance : 0,
+        credit: incoming ? 0 : amount + advance,
+      },
+      {
+        account: "FEES_RECEIVABLE",
+        debit: incoming ? 0 : amount,
+        credit: incoming ? amount : 0,
+      },
+      {
+        account: "STUDENT_ADVANCES",
+        debit: incoming ? 0 : advance,
+        credit: incoming ? advance : 0,
+      },
+    ],
+  });
+};
+
+export const postManualExpense = (
+  tx: Tx,
+  expense: {
+    id: string;
+    branchId: string;
+    description: string;
+    category: ManualExpenseCategory;
+    amount: number;
+    date: Date;
+  }
+) =>
+  postJournalEntry(tx, {
+    branchId: expense.branchId,
+    date: expense.date,
+    description: `Expense: ${expense.description}`,
+    sourceType: "ManualExpense",
+    sourceId: expense.id,
+    lines: [
+      {
+        account: EXPENSE_CATEGORY_ACCOUNTS[expense.category],
+        debit: expense.amount,
+      },
+      { account: "BANK", credit: expense.amount },
+    ],
+  });
+
+/**
+ * Salary expense is the gross (net pay plus what was withheld); withheld
+ * PF/ESI/PT/TDS and the employer's contributions sit in payroll deductions
+ * payable until they are remitted.
+ */
+export const postPayrollPayment = (
+  tx: Tx,
+  record: {
+    id: string;
+    branchId: string;
+    staffName: string;
+    month: string;
+    netPayable: number | null;
+    totalDeductions?: number | null;
+    employerContributions?: unknown;
+    paidAt: Date | null;
+  }
+) => {
+  const net = record.netPayable ?? 0;
+  const withheld = record.totalDeductions ?? 0;
+  const employer = (
+    (record.employerContributions as { amount: number }[] | null) || []
+  ).reduce((sum, c) => sum + c.amount, 0);
+  return postJournalEntry(tx, {
+    branchId: record.branchId,
+    date: record.paidAt ?? new Date(),
+    description: `Salary paid: ${record.staffName} (${record.month})`,
+    sourceType: "PayrollRecord",
+    sourceId: record.id,
+    lines: [
+      { account: "SALARIES", debit: net + withheld },
+      { account: "EMPLOYER_CONTRIBUTIONS", debit: employer },
+      { account: "BANK", credit: net },
+      { account: "PAYROLL_DEDUCTIONS_PAYABLE", credit: withheld + employer },
+    ],
+  });
+};
+
+/**
+ * Accrues an ERP invoice when it is issued (or reverses it when voided).
+ */
+export const postErpInvoice = (
+  tx: Tx,
+  invoice: {
+    id: string;
+    branchId: string;
+    invoiceNumber: string;
+    totalAmount: number;
+    issuedAt: Date;
+  },
+  voided = false
+) =>
+  postJournalEntry(tx, {
+    branchId: invoice.branchId,
+    date: voided ? new Date() : invoice.issuedAt,
+    description: `ERP invoice ${invoice.invoiceNumber}${voided ? " voided" : ""}`,
+    sourceType: voided ? "ErpInvoiceVoid" : "ErpInvoice",
+    sourceId: invoice.id,
+    lines: voided
+      ? [
+          { account: "ERP_PAYABLE", debit: invoice.totalAmount },
+          { account: "ERP_SUBSCRIPTION", credit: invoice.totalAmount },
+        ]
+      : [
+          { account: "ERP_SUBSCRIPTION", debit: invoice.totalAmount },
+          { account: "ERP_PAYABLE", credit: invoice.totalAmount },
+        ],
+  });
+
+/** A credit note lowers both the accrued payable and the expense. */
+export const postErpCreditNote = (
+  tx: Tx,
+  branchId: string,
+  creditNote: {
+    id: string;
+    creditNoteNumber: string;
+    totalAmount: number;
+    issuedAt: Date;
+  }
+) =>
+  postJournalEntry(tx, {
+    branchId,
+    date: creditNote.issuedAt,
+    description: `ERP credit note ${creditNote.creditNoteNumber}`,
+    sourceType: "ErpCreditNote",
+    sourceId: creditNote.id,
+    lines: [
+      { account: "ERP_PAYABLE", debit: creditNote.totalAmount },
+      { account: "ERP_SUBSCRIPTION", credit: creditNote.totalAmount },
+    ],
+  });
+
+/**
+ * A payment against an invoice settles the accrued payable; older payments
+ * made before invoicing existed are booked straight to the expense.
+ */
+export const postErpPayment = (
+  tx: Tx,
+  payment: {
+    id: string;
+    branchId: string;
+    invoiceId?: string | null;
+    amount: number;
+    paymentDate: Date;
+    transactionId: string;
+  }
+) =>
+  postJournalEntry(tx, {
+    branchId: payment.branchId,
+    date: payment.paymentDate,
+    description: `ERP bill paid (${payment.transactionId})`,
+    sourceType: "ErpPayment",
+    sourceId: payment.id,
+    lines: [
+      {
+        account: payment.invoiceId ? "ERP_PAYABLE" : "ERP_SUBSCRIPTION",
+        debit: payment.amount,
+      },
+      { account: "BANK", credit: payment.amount },
+    ],
+  });
+
+// --- Chart of accounts ---
+
+export const listLedgerAccounts = async (branchId: string) => {
+  await getLedgerAccountIds(prisma, branchId, ["CASH"]);
+  return prisma.ledgerAccount.findMany({
+    where: { branchId },
+    orderBy: { code: "asc" },
+  });
+};
+
+export const createLedgerAccount = async (
+  branchId: string,
+  input: { code?: string; name?: string; type?: LedgerAccountType }
+) => {
+  if (!input.code || !input.name || !input.type) {
+    throw new HttpError(400, "code, name and type are required.");
+  }
+  if (!Object.values(LedgerAccountType).includes(input.type)) {
+    throw new HttpError(400, "Unknown account type.");
+  }
+  const existing = await prisma.ledgerAccount.findUnique({
+    where: { branchId_code: { branchId, code: input.code } },
+  });
+  if (existing) {
+    throw new HttpError(409, `Account code ${input.code} is already in use.`);
+  }
+  return prisma.ledgerAccount.create({
+    data: { branchId, code: input.code, name: input.name, type: input.type },
+  });
+};
+
+// --- Reports ---
+
+const sumLinesByAccount = async (
+  branchId: string,
+  date: { gte?: Date; lte?: Date }
+) => {
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { branchId },
+    orderBy: { code: "asc" },
+  });
+  const sums = await prisma.journalLine.groupBy({
+    by: "accountId",
+    where: { entry: { branchId, date } },
+    _sum: { debit: true, credit: true },
+  });
+  return accounts.map((account) => {
+    const sum = sums.find((s) => s.accountId === account.id)?._sum;
+    return {
+      ...account,
+      debit: round2(sum?.debit ?? 0),
+      credit: round2(sum?.credit ?? 0),
+    };
+  });
+};
+
+const isDebitNormal = (type: LedgerAccountType) =>
+  type === "asset" || type === "expense";
+
+/**
+ * Balance of every account as of a date. Debit-normal accounts (assets,
+ * expenses) show their balance as a debit, the rest as a credit.
+ */
+export const getTrialBalance = async (branchId: string, asOf = new Date()) => {
+  const accounts = await sumLinesByAccount(branchId, { lte: asOf });
+  const rows = accounts
+    .map((account) => {
+      const net = round2(account.debit - account.credit);
+      return {
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debit: net > 0 ? net : 0,
+        credit: net < 0 ? -net : 0,
+      };
+    })
+    .filter((row) => row.debit !== 0 || row.credit !== 0);
+
+  const totalDebit = round2(rows.reduce((sum, r) => sum + r.debit, 0));
+  const totalCredit = round2(rows.reduce((sum, r) => sum + r.credit, 0));
+  return {
+    asOf,
+    accounts: rows,
+    totalDebit,
+    totalCredit,
+    isBalanced: totalDebit === totalCredit,
+  };
+};
+
+export const getIncomeStatement = async (
+  branchId: string,
+  from: Date,
+  to: Date
+) => {
+  const accounts = await sumLinesByAccount(branchId, { gte: from, lte: to });
+  const section = (type: LedgerAccountType) =>
+    accounts
+      .filter((a) => a.type === type)
+      .map((a) => ({
+        accountId: a.id,
+        code: a.code,
+        name: a.name,
+        amount: round2(
+          isDebitNormal(type) ? a.debit - a.credit : a.credit - a.debit
+        ),
+      }))
+      .filter((a) => a.amount !== 0);
+
+  const income = section("income");
+  const expenses = section("expense");
+  const totalIncome = round2(income.reduce((sum, a) => sum + a.amount, 0));
+  const totalExpenses = round2(expenses.reduce((sum, a) => sum + a.amount, 0));
+  return {
+    from,
+    to,
+    income,
+    expenses,
+    totalIncome,
+    totalExpenses,
+    netIncome: round2(totalIncome - totalExpenses),
+  };
+};
+
+/**
+ * Day-by-day movements of the cash (or bank) account with a running balance.
+ */
+export const getCashBook = async (
+  branchId: string,
+  options: { from: Date; to: Date; account?: "CASH" | "BANK" }
+) => {
+  const key = options.account ?? "CASH";
+  const accountId = (await getLedgerAccountIds(prisma, branchId, [key]))(key);
+
+  const opening = await prisma.journalLine.aggregate({
+    where: { accountId, entry: { date: { lt: options.from } } },
+    _sum: { debit: true, credit: true },
+  });
+  const lines = await prisma.journalLine.findMany({
+    where: {
+      accountId,
+      entry: { date: { gte: options.from, lte: options.to } },
+    },
+    include: { entry: true },
+    orderBy: { entry: { date: "asc" } },
+  });
+
+  const openingBalance = round2(
+    (opening._sum.debit ?? 0) - (opening._sum.credit ?? 0)
+  );
+  let balance = openingBalance;
+  const entries = lines.map((line) => {
+    balance = round2(balance + line.debit - line.credit);
+    return {
+      entryId: line.entryId,
+      date: line.entry.date,
+      description: line.entry.description,
+      sourceType: line.entry.sourceType,
+      sourceId: line.entry.sourceId,
+      receipt: line.debit,
+      payment: line.credit,
+      balance,
+    };
+  });
+
+  return {
+    account: LEDGER_ACCOUNTS[key].name,
+    from: options.from,
+    to: options.to,
+    openingBalance,
+    totalReceipts: round2(entries.reduce((sum, e) => sum + e.receipt, 0)),
+    totalPayments: round2(entries.reduce((sum, e) => sum + e.payment, 0)),
+    closingBalance: balance,
+    entries,
+  };
+};
+
+export const getAccountBalance = async (
+  branchId: string,
+  key: LedgerAccountKey
+) => {
+  const result = await prisma.journalLine.aggregate({
+    where: {
+      entry: { branchId },
+      account: { code: LEDGER_ACCOUNTS[key].code },
+    },
+    _sum: { debit: true, credit: true },
+  });
+  return round2((result._sum.debit ?? 0) - (result._sum.credit ?? 0));
+};
+
+// --- Backfill ---
+
+const hasEntry = async (sourceType: string, sourceId: string) =>
+  (await prisma.journalEntry.count({ where: { sourceType, sourceId } })) > 0;
+
+/**
+ * Posts entries for anything recorded before the ledger existed (or while
+ * posting failed). Safe to re-run: sources that already have an entry are
+ * skipped, and each fee record gets a balancing billing entry so fees
+ * receivable matches what students actually owe.
+ */
+export const syncBranchLedger = async (branchId: string) => {
+  let entriesPosted = 0;
+  const post = async (
+    sourceType: string,
+    sourceId: string,
+    write: (tx: Tx) => Promise<unknown>
+  ) => {
+    if (await hasEntry(sourceType, sourceId)) return;
+    await prisma.$transaction(async (tx) => {
+      if (await write(tx)) entriesPosted++;
+    });
+  };
+
+  const [payments, adjustments, expenses, payroll, erpInvoices, erpPayments] =
+    await Promise.all([
+      prisma.feePayment.findMany({ where: { student: { branchId } } }),
+      prisma.feeAdjustment.findMany({
+        where: { student: { branchId }, feeRecordId: { not: null } },
+      }),
+      prisma.manualExpense.findMany({ where: { branchId } }),
+      prisma.payrollRecord.findMany({ where: { branchId, status: "Paid" } }),
+      prisma.erpInvoice.findMany({
+        where: { branchId },
+        include: { creditNotes: true },
+      }),
+      prisma.erpPayment.findMany({ where: { branchId } }),
+    ]);
+
+  for (const payment of payments) {
+    await post("FeePayment", payment.id, (tx) =>
+      postFeePayment(tx, branchId, payment)
+    );
+  }
+  for (const adjustment of adjustments) {
+    await post("FeeAdjustment", adjustment.id, (tx) =>
+      postReceivableMovement(tx, {
+        branchId,
+        date: adjustment.date,
+        description: adjustment.reason,
+        sourceType: "FeeAdjustment",
+        sourceId: adjustment.id,
+        amount:
+          adjustment.type === "charge" ? adjustment.amount : -adjustment.amount,
+        account:
+          adjustment.type === "charge" ? "OTHER_FEE_INCOME" : "FEE_CONCESSIONS",
+      })
+    );
+  }
+  for (const expense of expenses) {
+    await post("ManualExpense", expense.id, (tx) =>
+      postManualExpense(tx, expense)
+    );
+  }
+  for (const record of payroll) {
+    await post("PayrollRecord", record.id, (tx) =>
+      postPayrollPayment(tx, record)
+    );
+  }
+  for (const invoice of erpInvoices) {
+    await post("ErpInvoice", invoice.id, (tx) => postErpInvoice(tx, invoice));
+    if (invoice.status === "void") {
+      await post("ErpInvoiceVoid", invoice.id, (tx) =>
+        postErpInvoice(tx, invoice, true)
+      );
+    }
+    for (const creditNote of invoice.creditNotes) {
+      await post("ErpCreditNote", creditNote.id, (tx) =>
+        postErpCreditNote(tx, branchId, creditNote)
+      );
+    }
+  }
+  for (const payment of erpPayments) {
+    await post("ErpPayment", payment.id, (tx) => postErpPayment(tx, payment));
+  }
+
+  // Whatever part of each record's total is not explained by its posted
+  // adjustments and earlier billing entries is booked as tuition billing.
+  const records = await prisma.feeRecord.findMany({
+    where: { student: { branchId } },
+    include: {
+      adjustments: { select: { id: true, type: true, amount: true } },
+    },
+  });
+  for (const record of records) {
+    const [billed, postedAdjustments] = await Promise.all([
+      prisma.journalLine.aggregate({
+        where: {
+          entry: { sourceType: "FeeRecord", sourceId: record.id },
+          account: { code: LEDGER_ACCOUNTS.FEES_RECEIVABLE.code },
+        },
+        _sum: { debit: true, credit: true },
+      }),
+      prisma.journalEntry.findMany({
+        where: {
+          sourceType: "FeeAdjustment",
+          sourceId: { in: record.adjustments.map((a) => a.id) },
+        },
+        select: { sourceId: true },
+      }),
+    ]);
+    const postedIds = new Set(postedAdjustments.map((e) => e.sourceId));
+    const adjustmentsNet = record.adjustments
+      .filter((a) => postedIds.has(a.id))
+      .reduce(
+        (sum, a) => sum + (a.type === "charge" ? a.amount : -a.amount),
+        0
+      );
+    const missing = round2(
+      record.totalAmount -
+        adjustmentsNet -
+        ((billed._sum.debit ?? 0) - (billed._sum.credit ?? 0))
+    );
+    if (missing === 0) continue;
+
+    await prisma.$transaction(async (tx) => {
+      await postReceivableMovement(tx, {
+        branchId,
+        date: record.createdAt,
+        description: "Fee billing (opening balance)",
+        sourceType: "FeeRecord",
+        sourceId: record.id,
+        amount: missing,
+        account: "TUITION_INCOME",
+      });
+    });
+    entriesPosted++;
+  }
+
+  return { entriesPosted };
+};
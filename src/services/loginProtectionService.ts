@@ -0,0 +1,292 @@
+// src/services/loginProtectionService.ts
+import { LoginResult, UserRole } from "@prisma/client";
+import prisma from "../prisma";
+import { now } from "../utils/clock";
+import { HttpError } from "../utils/httpError";
+import { ClientInfo } from "./authSessionService";
+import { notifyUser } from "./notificationService";
+
+const LOGIN_MAX_FAILURES = Number(process.env.LOGIN_MAX_FAILURES || 5);
+const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15);
+const LOGIN_BACKOFF_BASE_SECONDS = Number(
+  process.env.LOGIN_BACKOFF_BASE_SECONDS || 1
+);
+// A run of failures this old no longer counts towards a lockout.
+const LOGIN_FAILURE_RESET_HOURS = Number(
+  process.env.LOGIN_FAILURE_RESET_HOURS || 24
+);
+const LOGIN_IP_MAX_FAILURES = Number(process.env.LOGIN_IP_MAX_FAILURES || 20);
+const LOGIN_IP_WINDOW_MINUTES = Number(
+  process.env.LOGIN_IP_WINDOW_MINUTES || 15
+);
+const LOGIN_HISTORY_RETENTION_DAYS = Number(
+  process.env.LOGIN_HISTORY_RETENTION_DAYS || 90
+);
+
+const MINUTE_MS = 60 * 1000;
+
+// Wrong guesses at either step count towards the same limits.
+const FAILED_RESULTS: LoginResult[] = [
+  "invalid_credentials",
+  "second_factor_failed",
+];
+
+export interface LoginGuardState {
+  failedLoginCount: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+export type LoginCheck =
+  | { allowed: true }
+  | {
+      allowed: false;
+      result: LoginResult;
+      status: number;
+      message: string;
+      retryAfterSeconds: number;
+    };
+
+const isStale = (user: LoginGuardState, at: Date) =>
+  !user.lastFailedLoginAt ||
+  at.getTime() - user.lastFailedLoginAt.getTime() >
+    LOGIN_FAILURE_RESET_HOURS * 60 * MINUTE_MS;
+
+// Wait after the nth consecutive failure: base, 2 × base, 4 × base, …
+const backoffSeconds = (failures: number) =>
+  LOGIN_BACKOFF_BASE_SECONDS * 2 ** Math.max(failures - 1, 0);
+
+/**
+ * Decides whether a password may be checked at all, before any bcrypt work
+ * is done: the address must be under its failure limit, and the account
+ * must be neither locked nor still inside its backoff after a failure.
+ */
+export const checkLoginAllowed = async (
+  client: ClientInfo,
+  user: LoginGuardState | null
+): Promise<LoginCheck> => {
+  const at = now();
+
+  if (client.ipAddress) {
+    const since = new Date(at.getTime() - LOGIN_IP_WINDOW_MINUTES * MINUTE_MS);
+    const failures = await prisma.loginAttempt.findMany({
+      where: {
+        ipAddress: client.ipAddress,
+        result: { in: FAILED_RESULTS },
+        createdAt: { gte: since },
+      },
+      select: { createdAt: true },
+      orderBy: { createdAt: "asc" },
+      take: LOGIN_IP_MAX_FAILURES,
+    });
+    if (failures.length >= LOGIN_IP_MAX_FAILURES) {
+      // Free again once the oldest counted failure leaves the window.
+      const freeAt =
+        failures[0].createdAt.getTime() + LOGIN_IP_WINDOW_MINUTES * MINUTE_MS;
+      return {
+        allowed: false,
+        result: "rate_limited",
+        status: 429,
+        message:
+          "Too many failed sign-in attempts from this network. Please try again later.",
+        retryAfterSeconds: Math.max(
+          Math.ceil((freeAt - at.getTime()) / 1000),
+          1
+        ),
+      };
+    }
+  }
+
+  if (!user) return { allowed: true };
+
+  if (user.lockedUntil && user.lockedUntil > at) {
+    const seconds = Math.ceil(
+      (user.lockedUntil.getTime() - at.getTime()) / 1000
+    );
+    return {
+      allowed: false,
+      result: "account_locked",
+      status: 423,
+      message: `This account is locked after too many failed sign-in attempts. Try again in ${Math.ceil(
+        seconds / 60
+      )} minute(s) or ask an administrator to unlock it.`,
+      retryAfterSeconds: seconds,
+    };
+  }
+
+  if (user.failedLoginCount > 0 && !isStale(user, at)) {
+    const readyAt =
+      user.lastFailedLoginAt!.getTime() +
+      backoffSeconds(user.failedLoginCount) * 1000;
+    if (readyAt > at.getTime()) {
+      const seconds = Math.ceil((readyAt - at.getTime()) / 1000);
+      return {
+        allowed: false,
+        result: "rate_limited",
+        status: 429,
+        message: `Too many failed sign-in attempts. Please wait ${seconds} second(s) and try again.`,
+        retryAfterSeconds: seconds,
+      };
+    }
+  }
+
+  return { allowed: true };
+};
+
+export const recordLoginAttempt = (
+  identifier: string,
+  result: LoginResult,
+  client: ClientInfo,
+  userId?: string
+) =>
+  prisma.loginAttempt.create({
+    data: {
+      userId: userId ?? null,
+      identifier: identifier.slice(0, 255),
+      result,
+      ipAddress: client.ipAddress || null,
+      userAgent: client.userAgent?.slice(0, 255) || null,
+      createdAt: now(),
+    },
+  });
+
+/**
+ * Records a wrong password, or a wrong second-factor code when `result` is
+ * `second_factor_failed`. The LOGIN_MAX_FAILURES-th failure in a row locks
+ * the account for LOGIN_LOCKOUT_MINUTES and tells the owner; each further
+ * failure after a lockout runs out locks it again.
+ */
+export const registerLoginFailure = async (
+  user: LoginGuardState & { id: string },
+  identifier: string,
+  client: ClientInfo,
+  result: "invalid_credentials" | "second_factor_failed" = "invalid_credentials"
+) => {
+  const at = now();
+  await recordLoginAttempt(identifier, result, client, user.id);
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginCount: isStale(user, at) ? 1 : { increment: 1 },
+      lastFailedLoginAt: at,
+    },
+    select: { failedLoginCount: true },
+  });
+  if (updated.failedLoginCount < LOGIN_MAX_FAILURES) return;
+
+  const lockedUntil = new Date(
+    at.getTime() + LOGIN_LOCKOUT_MINUTES * MINUTE_MS
+  );
+  // Only the request that actually locks the account sends the notice.
+  const locked = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: at } }],
+    },
+    data: { lockedUntil },
+  });
+  if (locked.count === 0) return;
+
+  await notifyUser(user.id, {
+    title: "Account temporarily locked",
+    message: `Your account was locked for ${LOGIN_LOCKOUT_MINUTES} minutes after ${
+      updated.failedLoginCount
+    } failed sign-in attempts${
+      client.ipAddress ? ` (last from ${client.ipAddress})` : ""
+    }. If this wasn't you, reset your password once the lock ends or ask an administrator to unlock your account.`,
+    type: "security",
+  });
+};
+
+/**
+ * Records a correct password. The run of failures is only cleared once the
+ * sign-in is complete, so a second step still to come can be locked out.
+ */
+export const registerLoginSuccess = async (
+  user: LoginGuardState & { id: string },
+  identifier: string,
+  result: "success" | "second_factor_required",
+  client: ClientInfo
+) => {
+  await recordLoginAttempt(identifier, result, client, user.id);
+  if (
+    result === "success" &&
+    (user.failedLoginCount > 0 || user.lockedUntil)
+  ) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+    });
+  }
+};
+
+/** Lifts a lockout and forgets earlier failures, on an administrator's request. */
+export const unlockAccount = async (
+  userId: string,
+  actor: { id: string; name: string; role: UserRole }
+) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      userId: true,
+      failedLoginCount: true,
+      lockedUntil: true,
+    },
+  });
+  if (!user) throw new HttpError(404, "User not found.");
+
+  const wasLocked = !!user.lockedUntil && user.lockedUntil > now();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
+  await prisma.auditLog.create({
+    data: {
+      actorId: actor.id,
+      actorName: actor.name,
+      actorRole: actor.role,
+      action: "ACCOUNT_UNLOCKED",
+      targetId: userId,
+      targetType: "User",
+      statusCode: 200,
+      details: { wasLocked, failedLoginCount: user.failedLoginCount },
+    },
+  });
+  if (wasLocked) {
+    await notifyUser(userId, {
+      title: "Account unlocked",
+      message: `${actor.name} unlocked your account. You can sign in again.`,
+      type: "security",
+    });
+  }
+  return { userId: user.userId, wasLocked };
+};
+
+/** A user's own sign-in attempts, newest first. */
+export const listLoginHistory = (userId: string, limit: unknown) => {
+  const take = Math.min(Math.max(Number(limit) || 50, 1), 200);
+  return prisma.loginAttempt.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      result: true,
+      ipAddress: true,
+      userAgent: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+};
+
+/** Deletes attempts older than LOGIN_HISTORY_RETENTION_DAYS. */
+export const pruneLoginAttempts = async () => {
+  const cutoff = new Date(
+    now().getTime() - LOGIN_HISTORY_RETENTION_DAYS * 24 * 60 * MINUTE_MS
+  );
+  const result = await prisma.loginAttempt.deleteMany({
+    where: { createdAt: { lt: cutoff } },
+  });
+  return { loginAttemptsDeleted: result.count };
+};
@@ -0,0 +1,112 @@
+// src/services/messageChannelService.ts
+import axios from "axios";
+import { sendEmail } from "./emailService";
+
+export type MessageChannel = "email" | "sms";
+
+export interface OutboundMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/** Delivers messages for one channel. Swap with `setMessageTransport`. */
+export interface MessageTransport {
+  name: string;
+  send: (message: OutboundMessage) => Promise<void>;
+}
+
+export interface CapturedMessage extends OutboundMessage {
+  channel: MessageChannel;
+  sentAt: Date;
+}
+
+const captured: CapturedMessage[] = [];
+const MAX_CAPTURED = 100;
+
+/**
+ * Keeps messages in memory instead of sending them, for local development
+ * and tests (`EMAIL_TRANSPORT=capture` / `SMS_TRANSPORT=capture`). Read them
+ * back with `getCapturedMessages`.
+ */
+export const captureTransport = (
+  channel: MessageChannel
+): MessageTransport => ({
+  name: "capture",
+  send: async (message) => {
+    captured.push({ ...message, channel, sentAt: new Date() });
+    if (captured.length > MAX_CAPTURED) captured.shift();
+    console.log(`[capture:${channel}] message to ${message.to} captured`);
+  },
+});
+
+const sendGridTransport: MessageTransport = {
+  name: "sendgrid",
+  send: (message) => sendEmail(message),
+};
+
+/**
+ * Posts `{ to, message, senderId }` to SMS_GATEWAY_URL with the API key as
+ * a bearer token; most Indian SMS gateways accept this shape or can be
+ * fronted by a small adapter.
+ */
+const httpSmsTransport: MessageTransport = {
+  name: "http",
+  send: async (message) => {
+    const url = process.env.SMS_GATEWAY_URL;
+    if (!url) {
+      throw new Error("SMS gateway is not configured (SMS_GATEWAY_URL).");
+    }
+    await axios.post(
+      url,
+      {
+        to: message.to,
+        message: message.text,
+        senderId: process.env.SMS_SENDER_ID,
+      },
+      {
+        headers: { Authorization: `Bearer ${process.env.SMS_GATEWAY_API_KEY}` },
+        timeout: 10000,
+      }
+    );
+  },
+};
+
+// EMAIL_TRANSPORT / SMS_TRANSPORT pick the transport. Messages are only
+// captured when explicitly configured with `capture`.
+const defaultTransport = (channel: MessageChannel): MessageTransport => {
+  if (channel === "email") {
+    return process.env.EMAIL_TRANSPORT === "capture"
+      ? captureTransport("email")
+      : sendGridTransport;
+  }
+  return process.env.SMS_TRANSPORT === "capture"
+    ? captureTransport("sms")
+    : httpSmsTransport;
+};
+
+const transports: Record<MessageChannel, MessageTransport> = {
+  email: defaultTransport("email"),
+  sms: defaultTransport("sms"),
+};
+
+export const setMessageTransport = (
+  channel: MessageChannel,
+  transport: MessageTransport
+) => {
+  transports[channel] = transport;
+};
+
+export const sendMessage = (
+  channel: MessageChannel,
+  message: OutboundMessage
+) => transports[channel].send(message);
+
+/** Messages kept by the capture transport, optionally only to one address. */
+export const getCapturedMessages = (to?: string) =>
+  captured.filter((message) => !to || message.to === to);
+
+export const clearCapturedMessages = () => {
+  captured.length = 0;
+};
@@ -0,0 +1,56 @@
+// src/services/notificationService.ts
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { buildNotificationEmail } from "./emailService";
+import { sendMessage } from "./messageChannelService";
+
+/**
+ * Stores an in-app notification for a user and, when they have an email
+ * address, mails it too. Email is best effort: a delivery failure is logged
+ * and never fails the action that triggered the notification.
+ */
+export const notifyUser = async (
+  userId: string,
+  notification: {
+    title: string;
+    message: string;
+    type?: string;
+    targetId?: string;
+  }
+) => {
+  const created = await prisma.userNotification.create({
+    data: { userId, ...notification },
+    include: { user: { select: { email: true } } },
+  });
+
+  if (created.user.email) {
+    sendMessage("email", {
+      to: created.user.email,
+      ...buildNotificationEmail(notification.title, notification.message),
+    }).catch((error) =>
+      console.error(`Notification email to user ${userId} failed:`, error)
+    );
+  }
+
+  return created;
+};
+
+export const listNotifications = (userId: string, unreadOnly = false) =>
+  prisma.userNotification.findMany({
+    where: { userId, readAt: unreadOnly ? null : undefined },
+    orderBy: { createdAt: "desc" },
+    take: 100,
+  });
+
+export const markNotificationRead = async (userId: string, id: string) => {
+  const result = await prisma.userNotification.updateMany({
+    where: { id, userId, readAt: null },
+    data: { readAt: new Date() },
+  });
+  if (result.count === 0) {
+    const exists = await prisma.userNotification.count({
+      where: { id, userId },
+    });
+    if (!exists) throw new HttpError(404, "Notification not found.");
+  }
+};
@@ -0,0 +1,375 @@
+// src/services/otpService.ts
+import { createHmac, randomInt, randomUUID, timingSafeEqual } from "crypto";
+import { OtpChallenge, OtpChannel, OtpPurpose } from "@prisma/client";
+import prisma from "../prisma";
+import { now as clockNow } from "../utils/clock";
+import { HttpError } from "../utils/httpError";
+import { buildOtpEmail } from "./emailService";
+import { MessageChannel, sendMessage } from "./messageChannelService";
+
+// Checked on load, so the server refuses to start without a key rather than
+// hashing codes with one anyone could look up.
+const OTP_SECRET = process.env.OTP_SECRET || process.env.JWT_SECRET;
+if (!OTP_SECRET) {
+  throw new Error(
+    "OTP_SECRET environment variable is not set (JWT_SECRET is used if it is)."
+  );
+}
+
+const OTP_TTL_MINUTES = Number(process.env.OTP_TTL_MINUTES || 10);
+const OTP_MAX_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS || 5);
+const OTP_RESEND_COOLDOWN_SECONDS = Number(
+  process.env.OTP_RESEND_COOLDOWN_SECONDS || 60
+);
+const OTP_MAX_SENDS_PER_HOUR = Number(process.env.OTP_MAX_SENDS_PER_HOUR || 5);
+const TOTP_MAX_FAILURES_PER_HOUR = Number(
+  process.env.TOTP_MAX_FAILURES_PER_HOUR || 10
+);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface OtpRecipient {
+  id: string;
+  email: string;
+  phone: string | null;
+}
+
+// The challenge id is part of the MAC, so equal codes never hash alike.
+const hashCode = (challengeId: string, code: string) =>
+  createHmac("sha256", OTP_SECRET)
+    .update(`${challengeId}:${code}`)
+    .digest("hex");
+
+const codeMatches = (challengeId: string, code: string, codeHash: string) => {
+  const expected = Buffer.from(codeHash, "hex");
+  const actual = Buffer.from(hashCode(challengeId, code), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const maskEmail = (email: string) => {
+  const [name, domain] = email.split("@");
+  return `${name.slice(0, 1)}***@${domain}`;
+};
+
+const maskPhone = (phone: string) => `******${phone.slice(-4)}`;
+
+const pickChannel = (
+  user: OtpRecipient,
+  requested: unknown,
+  fallback: OtpChannel
+): MessageChannel => {
+  if (requested !== undefined && requested !== "email" && requested !== "sms") {
+    throw new HttpError(400, "channel must be email or sms.");
+  }
+  // Authenticator codes are never sent; fall back to email for those.
+  const channel =
+    (requested as MessageChannel | undefined) ??
+    (fallback === "totp" ? "email" : fallback);
+  if (channel === "sms" && !user.phone) {
+    if (requested) {
+      throw new HttpError(
+        400,
+        "No mobile number is registered for this account."
+      );
+    }
+    return "email";
+  }
+  return channel;
+};
+
+const expireOpenChallenges = (
+  userId: string,
+  purpose: OtpPurpose,
+  now: number
+) =>
+  prisma.otpChallenge.updateMany({
+    where: {
+      userId,
+      purpose,
+      consumedAt: null,
+      expiresAt: { gt: new Date(now) },
+    },
+    data: { expiresAt: new Date(now) },
+  });
+
+/**
+ * Refuses to send another code once OTP_MAX_SENDS_PER_HOUR have been sent
+ * for `purpose` in the last hour, whatever their channel; each one brings
+ * fresh attempts. Returns those challenges, newest first.
+ */
+const assertUnderHourlyLimit = async (
+  userId: string,
+  purpose: OtpPurpose,
+  now: number
+) => {
+  const recent = await prisma.otpChallenge.findMany({
+    where: {
+      userId,
+      purpose,
+      channel: { not: "totp" },
+      createdAt: { gte: new Date(now - HOUR_MS) },
+    },
+    select: { channel: true, createdAt: true },
+    orderBy: { createdAt: "desc" },
+  });
+  if (recent.length >= OTP_MAX_SENDS_PER_HOUR) {
+    throw new HttpError(
+      429,
+      "Too many codes requested. Please try again in an hour."
+    );
+  }
+  return recent;
+};
+
+/**
+ * Refuses authenticator answers for `purpose` once
+ * TOTP_MAX_FAILURES_PER_HOUR wrong ones have been given in the last hour,
+ * across however many challenges they were spread over. Nothing is sent
+ * for these, so only the failures are limited.
+ */
+const assertUnderTotpFailureLimit = async (
+  userId: string,
+  purpose: OtpPurpose,
+  now: number
+) => {
+  const recent = await prisma.otpChallenge.findMany({
+    where: {
+      userId,
+      purpose,
+      channel: "totp",
+      createdAt: { gte: new Date(now - HOUR_MS) },
+    },
+    select: { attempts: true, consumedAt: true },
+  });
+  // A used-up challenge's last attempt was the right one.
+  const failures = recent.reduce(
+    (sum, challenge) =>
+      sum + challenge.attempts - (challenge.consumedAt ? 1 : 0),
+    0
+  );
+  if (failures >= TOTP_MAX_FAILURES_PER_HOUR) {
+    throw new HttpError(
+      429,
+      "Too many incorrect authenticator codes. Please try again in an hour."
+    );
+  }
+};
+
+/**
+ * Sends a new code to the user for `purpose` and expires any earlier one.
+ * At most one code per cooldown and OTP_MAX_SENDS_PER_HOUR per hour are
+ * sent, so resending cannot be used to flood a user or to get extra
+ * guesses. Returns where the code went, masked for display.
+ */
+export const issueOtp = async (
+  user: OtpRecipient,
+  purpose: OtpPurpose,
+  options: { channel?: unknown; defaultChannel?: OtpChannel } = {}
+) => {
+  const channel = pickChannel(
+    user,
+    options.channel,
+    options.defaultChannel ?? "email"
+  );
+
+  const now = clockNow().getTime();
+  const recent = await assertUnderHourlyLimit(user.id, purpose, now);
+  const lastSent = recent.find((challenge) => challenge.channel !== "totp");
+  const wait = Math.ceil(
+    (lastSent?.createdAt.getTime() ?? 0) / 1000 +
+      OTP_RESEND_COOLDOWN_SECONDS -
+      now / 1000
+  );
+  if (wait > 0) {
+    throw new HttpError(
+      429,
+      `Please wait ${wait} seconds before requesting another code.`
+    );
+  }
+
+  await expireOpenChallenges(user.id, purpose, now);
+
+  const id = randomUUID();
+  const code = randomInt(0, 1000000).toString().padStart(6, "0");
+  const challenge = await prisma.otpChallenge.create({
+    data: {
+      id,
+      userId: user.id,
+      purpose,
+      channel,
+      codeHash: hashCode(id, code),
+      expiresAt: new Date(now + OTP_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  const email = buildOtpEmail(code, OTP_TTL_MINUTES);
+  try {
+    await sendMessage(channel, {
+      to: channel === "sms" ? user.phone! : user.email,
+      subject: email.subject,
+      text:
+        channel === "sms"
+          ? `${code} is your Verticx verification code. It expires in ${OTP_TTL_MINUTES} minutes. Do not share it with anyone.`
+          : email.text,
+      html: channel === "email" ? email.html : undefined,
+    });
+  } catch (error) {
+    console.error(`Could not send ${purpose} OTP to user ${user.id}:`, error);
+    await prisma.otpChallenge.delete({ where: { id } });
+    throw new HttpError(
+      502,
+      "Could not send the verification code. Please try again."
+    );
+  }
+
+  return {
+    channel,
+    destination:
+      channel === "sms" ? maskPhone(user.phone!) : maskEmail(user.email),
+    expiresAt: challenge.expiresAt,
+    resendAfterSeconds: OTP_RESEND_COOLDOWN_SECONDS,
+  };
+};
+
+/**
+ * Sends the code again on request, for a user who already has a code for
+ * `purpose` from the last hour (e.g. who got past the password step).
+ */
+export const resendOtp = async (
+  user: OtpRecipient,
+  purpose: OtpPurpose,
+  channel?: unknown
+) => {
+  const previous = await prisma.otpChallenge.findFirst({
+    where: {
+      userId: user.id,
+      purpose,
+      createdAt: { gte: new Date(clockNow().getTime() - HOUR_MS) },
+    },
+    orderBy: { createdAt: "desc" },
+    select: { channel: true },
+  });
+  if (!previous) {
+    throw new HttpError(400, "No code was requested. Please start again.");
+  }
+  if (channel === "totp" || (!channel && previous.channel === "totp")) {
+    throw new HttpError(
+      400,
+      "Enter the code shown in your authenticator app; it is not sent."
+    );
+  }
+  return issueOtp(user, purpose, { channel, defaultChannel: previous.channel });
+};
+
+/**
+ * Opens a challenge that is answered from an authenticator app rather than
+ * with a sent code. It expires and limits attempts like a sent code, and
+ * wrong answers count towards TOTP_MAX_FAILURES_PER_HOUR instead of the
+ * send limit, so the authenticator cannot be guessed at more freely than
+ * an OTP.
+ */
+export const openTotpChallenge = async (
+  userId: string,
+  purpose: OtpPurpose
+) => {
+  const now = clockNow().getTime();
+  await assertUnderTotpFailureLimit(userId, purpose, now);
+  await expireOpenChallenges(userId, purpose, now);
+  const challenge = await prisma.otpChallenge.create({
+    data: {
+      userId,
+      purpose,
+      channel: "totp",
+      codeHash: "",
+      expiresAt: new Date(now + OTP_TTL_MINUTES * 60 * 1000),
+    },
+  });
+  return { channel: challenge.channel, expiresAt: challenge.expiresAt };
+};
+
+/**
+ * Answers the user's current challenge for `purpose`: `check` decides
+ * whether the answer is right, and on success the challenge is used up.
+ * Every answer counts; after OTP_MAX_ATTEMPTS wrong ones the challenge is
+ * dead and a new one must be requested.
+ */
+export const answerOtpChallenge = async (
+  userId: string,
+  purpose: OtpPurpose,
+  check: (challenge: OtpChallenge) => boolean | Promise<boolean>,
+  label = "OTP"
+) => {
+  const challenge = await prisma.otpChallenge.findFirst({
+    where: {
+      userId,
+      purpose,
+      consumedAt: null,
+      expiresAt: { gt: clockNow() },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!challenge) {
+    throw new HttpError(400, "No OTP was requested or it has expired.");
+  }
+  if (challenge.channel === "totp") {
+    await assertUnderTotpFailureLimit(
+      userId,
+      purpose,
+      clockNow().getTime()
+    );
+  }
+
+  // Count the attempt before checking, so parallel guesses are counted too.
+  const counted = await prisma.otpChallenge.updateMany({
+    where: { id: challenge.id, attempts: { lt: OTP_MAX_ATTEMPTS } },
+    data: { attempts: { increment: 1 } },
+  });
+  if (counted.count === 0) {
+    throw new HttpError(
+      429,
+      "Too many incorrect attempts. Please request a new code."
+    );
+  }
+
+  if (!(await check(challenge))) {
+    const remaining = OTP_MAX_ATTEMPTS - challenge.attempts - 1;
+    throw new HttpError(
+      401,
+      remaining > 0
+        ? `Invalid ${label}. ${remaining} attempt(s) left.`
+        : `Invalid ${label}. Please request a new code.`
+    );
+  }
+
+  const consumed = await prisma.otpChallenge.updateMany({
+    where: { id: challenge.id, consumedAt: null },
+    data: { consumedAt: clockNow() },
+  });
+  if (consumed.count === 0) {
+    throw new HttpError(400, "No OTP was requested or it has expired.");
+  }
+};
+
+/** Checks a sent code against the user's current challenge for `purpose`. */
+export const verifyOtpCode = async (
+  userId: string,
+  purpose: OtpPurpose,
+  code: unknown
+) => {
+  if (typeof code !== "string" || !/^\d{6}$/.test(code.trim())) {
+    throw new HttpError(400, "OTP must be a 6-digit code.");
+  }
+  await answerOtpChallenge(userId, purpose, (challenge) =>
+    codeMatches(challenge.id, code.trim(), challenge.codeHash)
+  );
+};
+
+/** Deletes challenges older than a day; they can no longer be used or counted. */
+export const pruneOtpChallenges = async () => {
+  const result = await prisma.otpChallenge.deleteMany({
+    where: {
+      createdAt: { lt: new Date(clockNow().getTime() - 24 * HOUR_MS) },
+    },
+  });
+  return { otpChallengesDeleted: result.count };
+};
@@ -0,0 +1,224 @@
+// src/services/passwordService.ts
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { generatePassword } from "../utils/helpers";
+import { revokeAllSessions } from "./authSessionService";
+import { sendMessage } from "./messageChannelService";
+import { escapeHtml } from "./emailService";
+
+const PASSWORD_MIN_LENGTH = Number(process.env.PASSWORD_MIN_LENGTH || 8);
+const PASSWORD_RESET_TTL_MINUTES = Number(
+  process.env.PASSWORD_RESET_TTL_MINUTES || 30
+);
+const PASSWORD_RESET_MAX_PER_HOUR = 3;
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * What is wrong with a proposed password, or an empty list if it is fine:
+ * at least PASSWORD_MIN_LENGTH characters with upper- and lowercase letters
+ * and a digit, and not built from the user's login ID or email name.
+ */
+export const checkPasswordPolicy = (
+  password: string,
+  user?: { userId: string; email: string }
+) => {
+  const problems: string[] = [];
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    problems.push(`be at least ${PASSWORD_MIN_LENGTH} characters long`);
+  }
+  if (password.length > 128) problems.push("be at most 128 characters long");
+  if (!/[a-z]/.test(password)) problems.push("contain a lowercase letter");
+  if (!/[A-Z]/.test(password)) problems.push("contain an uppercase letter");
+  if (!/\d/.test(password)) problems.push("contain a digit");
+  if (user) {
+    const lower = password.toLowerCase();
+    const emailName = user.email.split("@")[0].toLowerCase();
+    if (
+      lower.includes(user.userId.toLowerCase()) ||
+      (emailName.length >= 4 && lower.includes(emailName))
+    ) {
+      problems.push("not contain your login ID or email");
+    }
+  }
+  return problems;
+};
+
+export const assertPasswordPolicy = (
+  password: unknown,
+  user?: { userId: string; email: string }
+): string => {
+  if (typeof password !== "string" || !password) {
+    throw new HttpError(400, "New password is required.");
+  }
+  const problems = checkPasswordPolicy(password, user);
+  if (problems.length) {
+    throw new HttpError(400, `Password must ${problems.join(", ")}.`);
+  }
+  return password;
+};
+
+/**
+ * Replaces a user's password and signs them out everywhere (except
+ * `keepSessionId`, the session making the change). Any outstanding reset
+ * links stop working and any login lockout is lifted.
+ */
+export const setUserPassword = async (
+  userId: string,
+  password: string,
+  options: { mustChange?: boolean; keepSessionId?: string; reason: string }
+) => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      passwordHash: await bcrypt.hash(password, 10),
+      mustChangePassword: options.mustChange ?? false,
+      passwordChangedAt: new Date(),
+      failedLoginCount: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+    },
+  });
+  await prisma.passwordResetToken.updateMany({
+    where: { userId, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  await revokeAllSessions(userId, options.reason, options.keepSessionId);
+};
+
+/**
+ * Gives a user a new temporary password, which they must change when they
+ * next sign in. Returns the password so it can be handed over.
+ */
+export const resetToTemporaryPassword = async (userId: string) => {
+  const password = generatePassword();
+  await setUserPassword(userId, password, {
+    mustChange: true,
+    reason: "password_reset",
+  });
+  return password;
+};
+
+/**
+ * Emails a reset link to the account with this email or login ID. The
+ * lookup and sending happen after this returns, so neither the response nor
+ * its timing shows whether the account exists.
+ */
+export const requestPasswordReset = async (
+  identifier: unknown,
+  requestedIp?: string
+) => {
+  if (typeof identifier !== "string" || !identifier.trim()) {
+    throw new HttpError(400, "Email or login ID is required.");
+  }
+  sendPasswordResetLink(identifier.trim(), requestedIp).catch((error) =>
+    console.error("Password reset request failed:", error)
+  );
+};
+
+const sendPasswordResetLink = async (
+  identifier: string,
+  requestedIp?: string
+) => {
+  const user = await prisma.user.findFirst({
+    where: {
+      OR: [{ email: identifier }, { userId: identifier }],
+    },
+    select: { id: true, email: true, name: true, status: true },
+  });
+  if (!user || (user.status && user.status !== "active")) return;
+
+  const recent = await prisma.passwordResetToken.count({
+    where: {
+      userId: user.id,
+      createdAt: { gte: new Date(Date.now() - HOUR_MS) },
+    },
+  });
+  if (recent >= PASSWORD_RESET_MAX_PER_HOUR) return;
+
+  // Only the newest link works.
+  await prisma.passwordResetToken.updateMany({
+    where: { userId: user.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  const token = randomBytes(32).toString("base64url");
+  await prisma.passwordResetToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      requestedIp,
+    },
+  });
+
+  const link = `${APP_URL}/reset-password?token=${token}`;
+  try {
+    await sendMessage("email", {
+      to: user.email,
+      subject: "Reset your Verticx password",
+      text: `Hello ${user.name},\n\nUse this link to set a new password. It works once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes:\n${link}\n\nIf you did not ask for this, ignore this email; your password stays the same.`,
+      html: `
+      <div style="font-family: sans-serif; padding: 20px; border: 1px solid #ddd; border-radius: 8px;">
+        <h2 style="color: #333;">Reset your password</h2>
+        <p style="color: #444;">Hello ${escapeHtml(user.name)}, use the button below to set a new password. The link works once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes.</p>
+        <p><a href="${link}" style="background: #007bff; color: #fff; padding: 10px 18px; border-radius: 4px; text-decoration: none;">Set a new password</a></p>
+        <p style="font-size: 12px; color: #999;">If you did not ask for this, ignore this email; your password stays the same.</p>
+      </div>
+    `,
+    });
+  } catch (error) {
+    console.error(`Password reset email to user ${user.id} failed:`, error);
+  }
+};
+
+/**
+ * Sets a new password from a reset link. The link is used up, and every
+ * session of the account is signed out.
+ */
+export const resetPasswordWithToken = async (
+  token: unknown,
+  newPassword: unknown
+) => {
+  if (typeof token !== "string" || !token) {
+    throw new HttpError(400, "Reset token is required.");
+  }
+  const stored = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: {
+        select: { id: true, userId: true, email: true, name: true, role: true },
+      },
+    },
+  });
+  if (!stored || stored.usedAt || stored.expiresAt <= new Date()) {
+    throw new HttpError(400, "This reset link is invalid or has expired.");
+  }
+  const password = assertPasswordPolicy(newPassword, stored.user);
+
+  const claimed = await prisma.passwordResetToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new HttpError(400, "This reset link is invalid or has expired.");
+  }
+  await setUserPassword(stored.user.id, password, { reason: "password_reset" });
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: stored.user.id,
+      actorName: stored.user.name,
+      actorRole: stored.user.role,
+      action: "PASSWORD_RESET",
+      targetId: stored.user.id,
+      targetType: "User",
+      statusCode: 200,
+    },
+  });
+};
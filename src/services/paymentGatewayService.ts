@@ -0,0 +1,182 @@
+// src/services/paymentGatewayService.ts
+import { Branch } from "@prisma/client";
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+} from "../utils/encryption";
+import { createGatewayClient, PaymentGatewayClient } from "../utils/razorpay";
+
+export interface BranchGateway {
+  client: PaymentGatewayClient;
+  keySecret: string;
+  webhookSecret: string | null;
+}
+
+/**
+ * Resolves the gateway client for a branch using that branch's own keys.
+ * Every school collects fees into its own account, so there is deliberately
+ * no global fallback.
+ */
+export const getBranchGateway = async (
+  branchId: string
+): Promise<BranchGateway> => {
+  const branch = await prisma.branch.findUnique({
+    where: { id: branchId },
+    select: {
+      id: true,
+      paymentGatewayPublicKey: true,
+      paymentGatewaySecretKey: true,
+      paymentGatewayWebhookSecret: true,
+    },
+  });
+  if (!branch) {
+    throw new HttpError(404, "Branch not found.");
+  }
+  if (!branch.paymentGatewayPublicKey || !branch.paymentGatewaySecretKey) {
+    throw new HttpError(
+      400,
+      "Online payments are not configured for this school."
+    );
+  }
+
+  await encryptLegacyGatewaySecrets(branch);
+
+  const keySecret = decryptSecret(branch.paymentGatewaySecretKey);
+  return {
+    client: createGatewayClient({
+      keyId: branch.paymentGatewayPublicKey,
+      keySecret,
+    }),
+    keySecret,
+    webhookSecret: branch.paymentGatewayWebhookSecret
+      ? decryptSecret(branch.paymentGatewayWebhookSecret)
+      : null,
+  };
+};
+
+/**
+ * Rows saved before encryption was introduced still hold plaintext secrets.
+ * Encrypt them the first time they are used.
+ */
+const encryptLegacyGatewaySecrets = async (branch: {
+  id: string;
+  paymentGatewaySecretKey: string | null;
+  paymentGatewayWebhookSecret: string | null;
+}) => {
+  const data: Record<string, string> = {};
+  if (
+    branch.paymentGatewaySecretKey &&
+    !isEncryptedSecret(branch.paymentGatewaySecretKey)
+  ) {
+    data.paymentGatewaySecretKey = encryptSecret(
+      branch.paymentGatewaySecretKey
+    );
+  }
+  if (
+    branch.paymentGatewayWebhookSecret &&
+    !isEncryptedSecret(branch.paymentGatewayWebhookSecret)
+  ) {
+    data.paymentGatewayWebhookSecret = encryptSecret(
+      branch.paymentGatewayWebhookSecret
+    );
+  }
+  if (Object.keys(data).length > 0) {
+    await prisma.branch.update({ where: { id: branch.id }, data });
+  }
+};
+
+/**
+ * Picks the gateway fields out of an update payload and encrypts the secrets.
+ * Secrets are never sent to clients, so an empty or absent secret means
+ * "unchanged"; a secret is only cleared through its `clear...` flag. An
+ * empty public key clears it.
+ */
+export const buildGatewayCredentialUpdate = (input: {
+  paymentGatewayPublicKey?: string | null;
+  paymentGatewaySecretKey?: string | null;
+  paymentGatewayWebhookSecret?: string | null;
+  clearPaymentGatewaySecretKey?: boolean;
+  clearPaymentGatewayWebhookSecret?: boolean;
+}) => {
+  const data: {
+    paymentGatewayPublicKey?: string | null;
+    paymentGatewaySecretKey?: string | null;
+    paymentGatewayWebhookSecret?: string | null;
+  } = {};
+
+  if (input.paymentGatewayPublicKey !== undefined) {
+    data.paymentGatewayPublicKey = input.paymentGatewayPublicKey || null;
+  }
+  if (input.clearPaymentGatewaySecretKey === true) {
+    data.paymentGatewaySecretKey = null;
+  } else if (input.paymentGatewaySecretKey) {
+    data.paymentGatewaySecretKey = encryptSecret(input.paymentGatewaySecretKey);
+  }
+  if (input.clearPaymentGatewayWebhookSecret === true) {
+    data.paymentGatewayWebhookSecret = null;
+  } else if (input.paymentGatewayWebhookSecret) {
+    data.paymentGatewayWebhookSecret = encryptSecret(
+      input.paymentGatewayWebhookSecret
+    );
+  }
+  return data;
+};
+
+/**
+ * Strips gateway secrets from a branch before it is sent to any client.
+ * Only whether they are configured is exposed.
+ */
+export const toPublicBranch = <
+  T extends Pick<
+    Branch,
+    "paymentGatewaySecretKey" | "paymentGatewayWebhookSecret"
+  >
+>(
+  branch: T
+) => {
+  const {
+    paymentGatewaySecretKey,
+    paymentGatewayWebhookSecret,
+    ...publicBranch
+  } = branch;
+  return {
+    ...publicBranch,
+    isPaymentGatewaySecretKeySet: !!paymentGatewaySecretKey,
+    isPaymentGatewayWebhookSecretSet: !!paymentGatewayWebhookSecret,
+  };
+};
+
+/**
+ * Checks a key pair against the gateway. Candidate keys (not yet saved) may be
+ * passed in; otherwise the branch's stored keys are used.
+ */
+export const testGatewayConnection = async (
+  branchId: string,
+  candidate?: { keyId?: string; keySecret?: string }
+) => {
+  let client: PaymentGatewayClient;
+  if (candidate?.keyId && candidate?.keySecret) {
+    client = createGatewayClient({
+      keyId: candidate.keyId,
+      keySecret: candidate.keySecret,
+    });
+  } else {
+    client = (await getBranchGateway(branchId)).client;
+  }
+
+  try {
+    await client.testConnection();
+    return { success: true, message: "Payment gateway connection verified." };
+  } catch (error: any) {
+    return {
+      success: false,
+      message:
+        error?.error?.description ||
+        error?.message ||
+        "The payment gateway rejected these credentials.",
+    };
+  }
+};
@@ -0,0 +1,743 @@
+// src/services/payrollService.ts
+import { Prisma, UserRole } from "@prisma/client";
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { drawTable, formatCurrency, renderPdf } from "../utils/pdf";
+import { getSessionStartYear } from "./feeScheduleService";
+import { postPayrollPayment } from "./ledgerService";
+import {
+  PayHead,
+  computeStatutoryPay,
+  getStatutorySettings,
+  getStructureGross,
+} from "./salaryStructureService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STAFF_ROLES: UserRole[] = [
+  "Teacher",
+  "Registrar",
+  "Librarian",
+  "SupportStaff",
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export interface PayrollBreakdown {
+  unpaidDays: { date: string; days: number; reason: string }[];
+  adjustments: { amount: number; reason: string }[];
+}
+
+export interface ComputedPay {
+  staffId: string;
+  staffName: string;
+  staffRole: UserRole;
+  baseSalary: number | null;
+  daysInMonth: number;
+  unpaidLeaveDays: number;
+  leaveDeductions: number | null;
+  manualAdjustmentsTotal: number;
+  netPayable: number | null;
+  breakdown: PayrollBreakdown;
+  // Set for staff with a salary structure.
+  grossEarnings: number | null;
+  earnings: PayHead[] | null;
+  deductions: PayHead[] | null;
+  employerContributions: PayHead[] | null;
+  totalDeductions: number | null;
+}
+
+/** Validates a `YYYY-MM` month and returns its UTC bounds. */
+export const parsePayrollMonth = (month: string) => {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month || "");
+  if (!match) {
+    throw new HttpError(400, "month must be in YYYY-MM format.");
+  }
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  const start = new Date(Date.UTC(year, monthIndex, 1));
+  const end = new Date(Date.UTC(year, monthIndex + 1, 1));
+  return {
+    start,
+    end,
+    daysInMonth: Math.round((end.getTime() - start.getTime()) / DAY_MS),
+  };
+};
+
+/**
+ * Net pay for one month. Each unpaid day costs a calendar day's share of the
+ * monthly salary; adjustments (bonuses are positive, recoveries negative) are
+ * added on top. Net pay never goes below zero.
+ */
+export const computeNetPay = (
+  baseSalary: number,
+  daysInMonth: number,
+  unpaidDays: number,
+  adjustmentsTotal: number
+) => {
+  const leaveDeductions = round2(
+    (baseSalary / daysInMonth) * Math.min(unpaidDays, daysInMonth)
+  );
+  return {
+    leaveDeductions,
+    netPayable: Math.max(
+      0,
+      round2(baseSalary - leaveDeductions + adjustmentsTotal)
+    ),
+  };
+};
+
+type LeaveDay = { paid: number; unpaid: number; type: string };
+
+/**
+ * Spreads a staff member's approved leave over days. Sick and casual leave
+ * are paid until the session's entitlement runs out; the rest of those days
+ * are unpaid. Other leave types are paid.
+ */
+const buildLeaveDays = (
+  leaves: {
+    fromDate: string;
+    toDate: string;
+    leaveType: string;
+    isHalfDay: boolean;
+  }[],
+  entitlement: { sick: number; casual: number },
+  sessionStart: Date,
+  monthEnd: Date
+) => {
+  const remaining: Record<string, number> = { ...entitlement };
+  const days = new Map<string, LeaveDay>();
+
+  const sorted = [...leaves].sort(
+    (a, b) => new Date(a.fromDate).getTime() - new Date(b.fromDate).getTime()
+  );
+  for (const leave of sorted) {
+    const from = new Date(leave.fromDate);
+    const to = new Date(leave.isHalfDay ? leave.fromDate : leave.toDate);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) continue;
+    const weight = leave.isHalfDay ? 0.5 : 1;
+    const type = leave.leaveType.toLowerCase();
+
+    for (
+      let day = new Date(dayKey(from));
+      day <= to && day < monthEnd;
+      day = new Date(day.getTime() + DAY_MS)
+    ) {
+      if (day < sessionStart) continue;
+      let paid = weight;
+      if (type in remaining) {
+        paid = Math.min(weight, Math.max(0, remaining[type]));
+        remaining[type] -= paid;
+      }
+      const key = dayKey(day);
+      const existing = days.get(key);
+      days.set(key, {
+        paid: Math.min(1, (existing?.paid ?? 0) + paid),
+        unpaid: Math.min(1, (existing?.unpaid ?? 0) + weight - paid),
+        type,
+      });
+    }
+  }
+  return days;
+};
+
+/**
+ * Gross pay and TDS already paid this financial year, before `month`, from
+ * paid payroll records.
+ */
+const getYearToDate = async (
+  branchId: string,
+  staffIds: string[],
+  month: string
+) => {
+  const { start } = parsePayrollMonth(month);
+  const fyStart = `${getSessionStartYear(start)}-04`;
+  const paid = await prisma.payrollRecord.findMany({
+    where: {
+      branchId,
+      staffId: { in: staffIds },
+      status: "Paid",
+      month: { gte: fyStart, lt: month },
+    },
+  });
+
+  const totals = new Map<string, { gross: number; tds: number }>();
+  for (const record of paid) {
+    const gross =
+      record.grossEarnings ??
+      (record.baseSalary ?? 0) - (record.leaveDeductions ?? 0);
+    const tds =
+      ((record.deductions as unknown as PayHead[]) || []).find(
+        (h) => h.code === "TDS"
+      )?.amount ?? 0;
+    const current = totals.get(record.staffId) ?? { gross: 0, tds: 0 };
+    totals.set(record.staffId, {
+      gross: round2(current.gross + gross),
+      tds: round2(current.tds + tds),
+    });
+  }
+  return totals;
+};
+
+/**
+ * Works out every active staff member's pay for a month from their salary,
+ * attendance, approved leave and the month's manual adjustments. Staff with
+ * a salary structure also get their earnings heads and statutory deductions.
+ * Nothing is saved; see `lockPayrollRun`.
+ */
+export const computePayrollForMonth = async (
+  branchId: string,
+  month: string
+): Promise<ComputedPay[]> => {
+  const { start, end, daysInMonth } = parsePayrollMonth(month);
+  const sessionStart = new Date(Date.UTC(getSessionStartYear(start), 3, 1));
+
+  const branch = await prisma.branch.findUnique({
+    where: { id: branchId },
+    select: { principalId: true },
+  });
+  if (!branch) {
+    throw new HttpError(404, "Branch not found.");
+  }
+
+  const staff = await prisma.user.findMany({
+    where: {
+      branchId,
+      role: { in: STAFF_ROLES },
+      status: "active",
+      id: branch.principalId ? { not: branch.principalId } : undefined,
+    },
+    include: { teacher: { select: { id: true, salary: true } } },
+    orderBy: { name: "asc" },
+  });
+  const staffIds = staff.map((s) => s.id);
+
+  const staffAttendance = await prisma.staffAttendanceRecord.findMany({
+    where: {
+      branchId,
+      userId: { in: staffIds },
+      date: { gte: start, lt: end },
+    },
+  });
+  const teacherAttendance = await prisma.teacherAttendanceRecord.findMany({
+    where: {
+      branchId,
+      teacherId: {
+        in: staff.flatMap((s) => (s.teacher ? [s.teacher.id] : [])),
+      },
+      date: { gte: start, lt: end },
+    },
+  });
+  const leaves = await prisma.leaveApplication.findMany({
+    where: { applicantId: { in: staffIds }, status: "Approved" },
+  });
+  const adjustments = await prisma.manualSalaryAdjustment.findMany({
+    where: { branchId, month },
+    orderBy: { adjustedAt: "asc" },
+  });
+  const settings = await prisma.leaveSettings.findUnique({
+    where: { branchId },
+  });
+  const structures = await prisma.salaryStructure.findMany({
+    where: { branchId, staffId: { in: staffIds } },
+  });
+  const statutorySettings = structures.length
+    ? await getStatutorySettings(branchId)
+    : null;
+  const yearToDate = structures.length
+    ? await getYearToDate(
+        branchId,
+        structures.map((st) => st.staffId),
+        month
+      )
+    : new Map<string, { gross: number; tds: number }>();
+
+  return staff.map((member) => {
+    const entitlement =
+      member.role === "Teacher"
+        ? {
+            sick: settings?.defaultTeacherSick ?? 12,
+            casual: settings?.defaultTeacherCasual ?? 10,
+          }
+        : {
+            sick: settings?.defaultStaffSick ?? 12,
+            casual: settings?.defaultStaffCasual ?? 7,
+          };
+    const leaveDays = buildLeaveDays(
+      leaves.filter((l) => l.applicantId === member.id),
+      entitlement,
+      sessionStart,
+      end
+    );
+
+    const attendance = new Map<string, string>();
+    for (const record of member.teacher
+      ? teacherAttendance.filter((r) => r.teacherId === member.teacher!.id)
+      : staffAttendance.filter((r) => r.userId === member.id)) {
+      attendance.set(dayKey(record.date), record.status);
+    }
+
+    const breakdown: PayrollBreakdown = { unpaidDays: [], adjustments: [] };
+    let unpaidLeaveDays = 0;
+    for (let i = 0; i < daysInMonth; i++) {
+      const key = dayKey(new Date(start.getTime() + i * DAY_MS));
+      const leave = leaveDays.get(key);
+      const status = attendance.get(key);
+
+      // Time away that day: what attendance says, or the leave itself when
+      // attendance wasn't marked. Approved paid leave covers it first.
+      const away =
+        status === "Absent" || status === "OnLeave"
+          ? 1
+          : status === "HalfDay"
+          ? 0.5
+          : status === "Present"
+          ? 0
+          : Math.min(1, (leave?.paid ?? 0) + (leave?.unpaid ?? 0));
+      const unpaid = round2(away - Math.min(away, leave?.paid ?? 0));
+      if (unpaid <= 0) continue;
+
+      unpaidLeaveDays += unpaid;
+      breakdown.unpaidDays.push({
+        date: key,
+        days: unpaid,
+        reason:
+          leave && leave.unpaid > 0
+            ? `${leave.type} leave beyond entitlement`
+            : status === "HalfDay"
+            ? "Half day without approved leave"
+            : "Absent without approved leave",
+      });
+    }
+
+    const memberAdjustments = adjustments.filter(
+      (a) => a.staffId === member.id
+    );
+    breakdown.adjustments = memberAdjustments.map((a) => ({
+      amount: a.amount,
+      reason: a.reason,
+    }));
+    const manualAdjustmentsTotal = round2(
+      memberAdjustments.reduce((sum, a) => sum + a.amount, 0)
+    );
+
+    const identity = {
+      staffId: member.id,
+      staffName: member.name,
+      staffRole: member.role,
+      daysInMonth,
+      unpaidLeaveDays: round2(unpaidLeaveDays),
+      manualAdjustmentsTotal,
+      breakdown,
+    };
+
+    const structure = structures.find((st) => st.staffId === member.id);
+    if (structure && statutorySettings) {
+      const statutory = computeStatutoryPay(structure, statutorySettings, {
+        daysInMonth,
+        unpaidDays: unpaidLeaveDays,
+        calendarMonth: start.getUTCMonth() + 1,
+        yearToDate: yearToDate.get(member.id) ?? { gross: 0, tds: 0 },
+      });
+      const fullGross = getStructureGross(structure);
+      return {
+        ...identity,
+        baseSalary: fullGross,
+        leaveDeductions: round2(fullGross - statutory.grossEarnings),
+        netPayable: Math.max(
+          0,
+          round2(
+            statutory.grossEarnings -
+              statutory.totalDeductions +
+              manualAdjustmentsTotal
+          )
+        ),
+        ...statutory,
+      };
+    }
+
+    const baseSalary = member.teacher?.salary ?? member.salary ?? null;
+    const pay =
+      baseSalary === null
+        ? null
+        : computeNetPay(
+            baseSalary,
+            daysInMonth,
+            unpaidLeaveDays,
+            manualAdjustmentsTotal
+          );
+
+    return {
+      ...identity,
+      baseSalary,
+      leaveDeductions: pay?.leaveDeductions ?? null,
+      netPayable: pay?.netPayable ?? null,
+      grossEarnings: null,
+      earnings: null,
+      deductions: null,
+      employerContributions: null,
+      totalDeductions: null,
+    };
+  });
+};
+
+/**
+ * The month as the principal sees it: paid records, then the current locked
+ * run, then a live preview for anyone not yet in a run.
+ */
+export const getPayrollForMonth = async (branchId: string, month: string) => {
+  const computed = await computePayrollForMonth(branchId, month);
+  const records = await prisma.payrollRecord.findMany({
+    where: { branchId, month, status: { not: "Superseded" } },
+    include: { run: { select: { version: true, status: true } } },
+  });
+
+  return computed.map((pay) => {
+    const record =
+      records.find((r) => r.staffId === pay.staffId && r.status === "Paid") ??
+      records.find(
+        (r) => r.staffId === pay.staffId && r.run?.status === "locked"
+      );
+    if (record) return record;
+
+    return {
+      id: `pending-${pay.staffId}`,
+      branchId,
+      runId: null,
+      month,
+      ...pay,
+      status: pay.baseSalary === null ? "Salary Not Set" : "Pending",
+      paidAt: null,
+      paidBy: null,
+    };
+  });
+};
+
+export const listPayrollRuns = (branchId: string, month?: string) =>
+  prisma.payrollRun.findMany({
+    where: { branchId, month },
+    include: {
+      _count: { select: { records: true } },
+    },
+    orderBy: [{ month: "desc" }, { version: "desc" }],
+  });
+
+const toJson = (heads: PayHead[] | null) =>
+  heads === null
+    ? Prisma.JsonNull
+    : (heads as unknown as Prisma.InputJsonValue);
+
+/**
+ * Computes the month and freezes it as the next run version. Staff who have
+ * already been paid this month, or have no salary set, are left out. The
+ * previous run is superseded and its unpaid records with it.
+ */
+export const lockPayrollRun = async (
+  branchId: string,
+  month: string,
+  actor: { id: string; name: string }
+) => {
+  const inBank = await prisma.payrollRecord.count({
+    where: { branchId, month, status: "Processing" },
+  });
+  if (inBank > 0) {
+    throw new HttpError(
+      409,
+      "Some salaries for this month are still out with the bank. Import the bank's response file first."
+    );
+  }
+
+  const computed = await computePayrollForMonth(branchId, month);
+  const paid = await prisma.payrollRecord.findMany({
+    where: { branchId, month, status: "Paid" },
+    select: { staffId: true },
+  });
+  const paidIds = new Set(paid.map((r) => r.staffId));
+  const payable = computed.filter(
+    (pay) => pay.netPayable !== null && !paidIds.has(pay.staffId)
+  );
+  if (payable.length === 0) {
+    throw new HttpError(
+      400,
+      "Nobody is left to pay for this month (already paid or salary not set)."
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const previous = await tx.payrollRun.findFirst({
+      where: { branchId, month },
+      orderBy: { version: "desc" },
+    });
+    if (previous?.status === "locked") {
+      await tx.payrollRun.update({
+        where: { id: previous.id },
+        data: { status: "superseded", supersededAt: new Date() },
+      });
+      await tx.payrollRecord.updateMany({
+        where: {
+          runId: previous.id,
+          OR: [{ status: "Pending" }, { status: "Failed" }],
+        },
+        data: { status: "Superseded" },
+      });
+    }
+
+    // The (branch, month, version) unique key makes a concurrent lock fail
+    // rather than produce two runs with the same version.
+    return tx.payrollRun.create({
+      data: {
+        branchId,
+        month,
+        version: (previous?.version ?? 0) + 1,
+        totalNetPay: round2(
+          payable.reduce((sum, pay) => sum + (pay.netPayable ?? 0), 0)
+        ),
+        computedById: actor.id,
+        computedByName: actor.name,
+        records: {
+          create: payable.map((pay) => ({
+            branchId,
+            month,
+            staffId: pay.staffId,
+            staffName: pay.staffName,
+            staffRole: pay.staffRole,
+            baseSalary: pay.baseSalary,
+            daysInMonth: pay.daysInMonth,
+            unpaidLeaveDays: pay.unpaidLeaveDays,
+            leaveDeductions: pay.leaveDeductions,
+            manualAdjustmentsTotal: pay.manualAdjustmentsTotal,
+            netPayable: pay.netPayable,
+            breakdown: pay.breakdown as unknown as Prisma.InputJsonValue,
+            grossEarnings: pay.grossEarnings,
+            earnings: toJson(pay.earnings),
+            deductions: toJson(pay.deductions),
+            employerContributions: toJson(pay.employerContributions),
+            totalDeductions: pay.totalDeductions,
+            status: "Pending",
+          })),
+        },
+      },
+      include: { records: { orderBy: { staffName: "asc" } } },
+    });
+  });
+};
+
+/**
+ * Pays staff from the month's current locked run (locking one first if the
+ * month has none). Amounts always come from the run, never from the caller.
+ * `staffIds` limits the payment to those staff; omit it to pay everyone.
+ * Records whose bank transfer failed can be paid this way too; records out
+ * with the bank are left alone.
+ */
+export const payPayrollRecords = async (
+  branchId: string,
+  month: string,
+  staffIds: string[] | undefined,
+  actor: { id: string; name: string }
+) => {
+  let run = await prisma.payrollRun.findFirst({
+    where: { branchId, month, status: "locked" },
+  });
+  if (!run) {
+    run = await lockPayrollRun(branchId, month, actor);
+  }
+  const runId = run.id;
+
+  return prisma.$transaction(async (tx) => {
+    const pending = await tx.payrollRecord.findMany({
+      where: {
+        runId,
+        OR: [{ status: "Pending" }, { status: "Failed" }],
+        staffId: staffIds ? { in: staffIds } : undefined,
+      },
+    });
+
+    let paidCount = 0;
+    let totalPaid = 0;
+    for (const record of pending) {
+      const claimed = await tx.payrollRecord.updateMany({
+        where: { id: record.id, status: record.status },
+        data: { status: "Paid", paidAt: new Date(), paidBy: actor.name },
+      });
+      if (claimed.count === 0) continue;
+      const paid = await tx.payrollRecord.findUniqueOrThrow({
+        where: { id: record.id },
+      });
+      await postPayrollPayment(tx, paid);
+      paidCount++;
+      totalPaid = round2(totalPaid + (paid.netPayable ?? 0));
+    }
+    return { runId, version: run!.version, paid: paidCount, totalPaid };
+  });
+};
+
+// What a staff member can see as a payslip: paid records and the current
+// locked run's unpaid ones.
+const issuedPayslip: Prisma.PayrollRecordWhereInput = {
+  OR: [
+    { status: "Paid" },
+    { status: { not: "Superseded" }, run: { status: "locked" } },
+  ],
+};
+
+export const listPayslips = (staffId: string) =>
+  prisma.payrollRecord.findMany({
+    where: { staffId, ...issuedPayslip },
+    orderBy: { month: "desc" },
+  });
+
+/**
+ * Renders a payslip. `where` must scope the lookup to what the caller may
+ * see (the principal's branch or the staff member's own records).
+ */
+export const renderPayslipPdf = async (
+  where: Prisma.PayrollRecordWhereInput
+) => {
+  const scoped: Prisma.PayrollRecordWhereInput = {
+    AND: [where, issuedPayslip],
+  };
+  const record = await prisma.payrollRecord.findFirst({
+    where: scoped,
+    include: {
+      branch: { select: { name: true, location: true } },
+      run: { select: { version: true } },
+    },
+  });
+  if (!record) {
+    throw new HttpError(404, "Payslip not found.");
+  }
+
+  const breakdown = (record.breakdown as unknown as PayrollBreakdown) || {
+    unpaidDays: [],
+    adjustments: [],
+  };
+  const { start } = parsePayrollMonth(record.month);
+  const monthLabel = start.toLocaleString("en-IN", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+  const pdf = await renderPdf((doc) => {
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(16)
+      .text(record.branch.name, { align: "center" })
+      .font("Helvetica")
+      .fontSize(9)
+      .text(record.branch.location, { align: "center" })
+      .moveDown()
+      .font("Helvetica-Bold")
+      .fontSize(13)
+      .text(`PAYSLIP - ${monthLabel.toUpperCase()}`, { align: "center" })
+      .moveDown();
+
+    const details: [string, string][] = [
+      ["Employee", record.staffName],
+      ["Role", record.staffRole],
+      ["Pay Period", monthLabel],
+      ["Days in Month", String(record.daysInMonth ?? "-")],
+      ["Unpaid Days", String(record.unpaidLeaveDays)],
+      [
+        "Status",
+        record.status === "Paid" && record.paidAt
+          ? `Paid on ${record.paidAt.toLocaleDateString("en-IN")}`
+          : "Pending",
+      ],
+    ];
+    doc.fontSize(10);
+    details.forEach(([label, value]) => {
+      doc
+        .font("Helvetica-Bold")
+        .text(`${label}: `, { continued: true })
+        .font("Helvetica")
+        .text(value);
+    });
+    doc.moveDown();
+
+    const earnings = record.earnings as unknown as PayHead[] | null;
+    const deductions = record.deductions as unknown as PayHead[] | null;
+    const adjustmentRows = breakdown.adjustments.map((a) => [
+      `Adjustment: ${a.reason}`,
+      formatCurrency(a.amount),
+    ]);
+
+    if (earnings && deductions) {
+      drawTable(
+        doc,
+        ["Earnings", "Amount"],
+        [
+          ...earnings.map((h) => [h.name, formatCurrency(h.amount)]),
+          ["Gross Earnings", formatCurrency(record.grossEarnings ?? 0)],
+        ],
+        [370, 125]
+      );
+      doc.moveDown();
+      drawTable(
+        doc,
+        ["Deductions", "Amount"],
+        [
+          ...deductions.map((h) => [h.name, formatCurrency(h.amount)]),
+          ["Total Deductions", formatCurrency(record.totalDeductions ?? 0)],
+        ],
+        [370, 125]
+      );
+      doc.moveDown();
+      drawTable(
+        doc,
+        ["Summary", "Amount"],
+        [
+          ["Gross Earnings", formatCurrency(record.grossEarnings ?? 0)],
+          ["Total Deductions", formatCurrency(-(record.totalDeductions ?? 0))],
+          ...adjustmentRows,
+          ["Net Pay", formatCurrency(record.netPayable ?? 0)],
+        ],
+        [370, 125]
+      );
+    } else {
+      drawTable(
+        doc,
+        ["Component", "Amount"],
+        [
+          ["Basic Salary", formatCurrency(record.baseSalary ?? 0)],
+          [
+            `Unpaid Leave (${record.unpaidLeaveDays} day(s))`,
+            formatCurrency(-(record.leaveDeductions ?? 0)),
+          ],
+          ...adjustmentRows,
+          ["Net Pay", formatCurrency(record.netPayable ?? 0)],
+        ],
+        [370, 125]
+      );
+    }
+
+    if (breakdown.unpaidDays.length > 0) {
+      doc.moveDown().font("Helvetica-Bold").text("Unpaid Days").moveDown(0.5);
+      drawTable(
+        doc,
+        ["Date", "Reason", "Days"],
+        breakdown.unpaidDays.map((d) => [d.date, d.reason, String(d.days)]),
+        [100, 320, 75]
+      );
+    }
+
+    doc
+      .moveDown(2)
+      .fontSize(8)
+      .fillColor("#666666")
+      .text(
+        `Computed in payroll run v${
+          record.run?.version ?? "-"
+        }. This is a computer-generated payslip and does not require a signature.`,
+        { align: "center" }
+      );
+  });
+
+  return {
+    fileName: `Payslip-${record.month}-${record.staffName.replace(
+      /[^A-Za-z0-9]+/g,
+      "_"
+    )}.pdf`,
+    pdf,
+  };
+};
@@ -3,6 +3,7 @@ import { db, saveDb } from './database';
 import type { User, Teacher, FacultyApplication, TeacherProfile, FeeRecord, SchoolClass, Subject, Branch, PrincipalDashboardData, SchoolEvent, FeeRectificationRequest, TeacherAttendanceRectificationRequest, TeacherAttendanceRecord, LeaveApplication, ComplaintAboutStudent, TeacherComplaint, FeeAdjustment, Student, Announcement, SmsMessage, Examination, StudentWithExamMarks, SuspensionRecord, AttendanceRecord, ExamMark, PrincipalAttendanceOverview, TeacherAttendanceStatus, PrincipalFinancialsOverview, ClassFeeSummary, ManualExpense, PayrollStaffDetails, ManualSalaryAdjustment, PayrollRecord, Grade, Lecture, UserRole, FeeTemplate, Course, RectificationRequest, Hostel, ErpPayment, PrincipalQuery, ErpFinancials, FeePayment } from '../types/api';
 import { BaseApiService, generateUniqueId } from './baseApiService';
 import prisma from "../prisma";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
 import type { Prisma } from "@prisma/client";
 
 
@@ -586,6 +587,7 @@ export class PrincipalApiService extends BaseApiService {
     const updatedUser = await prisma.user.update({
       where: { id: staffUserId },
       data: { status: "suspended" },
+      omit: USER_PRIVATE_FIELDS,
     });
 
     // If a Teacher row exists, update its status too (if you track it there)
@@ -610,6 +612,7 @@ export class PrincipalApiService extends BaseApiService {
     const updatedUser = await prisma.user.update({
       where: { id: staffUserId },
       data: { status: "active" },
+      omit: USER_PRIVATE_FIELDS,
     });
 
     await prisma.teacher.updateMany({
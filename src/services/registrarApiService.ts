@@ -53,6 +53,7 @@ import type {
 } from "../types/api";
 import { BaseApiService, generateUniqueId } from "./baseApiService";
 import prisma from "../prisma";
+import { USER_PRIVATE_FIELDS } from "../utils/authUtils";
 
 export class RegistrarApiService extends BaseApiService {
   async getRegistrarDashboardData(
@@ -917,6 +918,7 @@ export class RegistrarApiService extends BaseApiService {
         branchId: branchId ?? undefined,
         role: { in: staffRoles },
       },
+      omit: USER_PRIVATE_FIELDS,
       include: {
         teacher: true,
       },
@@ -0,0 +1,645 @@
+// src/services/salaryStructureService.ts
+import {
+  PayrollStatutorySettings,
+  Prisma,
+  SalaryStructure,
+  UserRole,
+} from "@prisma/client";
+import prisma from "../prisma";
+import { HttpError } from "../utils/httpError";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const PAYROLL_ROLES: UserRole[] = [
+  "Teacher",
+  "Registrar",
+  "Librarian",
+  "SupportStaff",
+];
+
+export interface PayHead {
+  // PF, ESI, PT and TDS for statutory heads; absent for the rest.
+  code?: string;
+  name: string;
+  amount: number;
+  // The wages a statutory head was worked out on.
+  wages?: number;
+}
+
+export interface ProfessionalTaxSlab {
+  minGross: number;
+  maxGross?: number | null;
+  amount: number;
+  februaryAmount?: number | null;
+}
+
+export interface TdsSlab {
+  upTo?: number | null;
+  rate: number;
+}
+
+// Maharashtra's slabs, the most common starting point; branches in other
+// states change them in their settings.
+export const DEFAULT_PT_SLABS: ProfessionalTaxSlab[] = [
+  { minGross: 0, maxGross: 7500, amount: 0 },
+  { minGross: 7500.01, maxGross: 10000, amount: 175 },
+  { minGross: 10000.01, amount: 200, februaryAmount: 300 },
+];
+
+// New tax regime slabs on yearly taxable income.
+export const DEFAULT_TDS_SLABS: TdsSlab[] = [
+  { upTo: 400000, rate: 0 },
+  { upTo: 800000, rate: 5 },
+  { upTo: 1200000, rate: 10 },
+  { upTo: 1600000, rate: 15 },
+  { upTo: 2000000, rate: 20 },
+  { upTo: 2400000, rate: 25 },
+  { rate: 30 },
+];
+
+// --- Branch settings ---
+
+/** The branch's statutory settings, created with the defaults on first use. */
+export const getStatutorySettings = (branchId: string) =>
+  prisma.payrollStatutorySettings.upsert({
+    where: { branchId },
+    create: {
+      branchId,
+      ptSlabs: DEFAULT_PT_SLABS as unknown as Prisma.InputJsonValue,
+      tdsSlabs: DEFAULT_TDS_SLABS as unknown as Prisma.InputJsonValue,
+    },
+    update: {},
+  });
+
+const RATE_FIELDS = [
+  "pfEmployeeRate",
+  "pfEmployerRate",
+  "esiEmployeeRate",
+  "esiEmployerRate",
+  "tdsCessRate",
+] as const;
+const AMOUNT_FIELDS = [
+  "esiWageLimit",
+  "tdsStandardDeduction",
+  "tdsRebateLimit",
+] as const;
+const FLAG_FIELDS = [
+  "pfEnabled",
+  "esiEnabled",
+  "ptEnabled",
+  "tdsEnabled",
+] as const;
+
+export type StatutorySettingsInput = Partial<
+  Record<(typeof RATE_FIELDS)[number], number> &
+    Record<(typeof AMOUNT_FIELDS)[number], number> &
+    Record<(typeof FLAG_FIELDS)[number], boolean> & {
+      pfWageCeiling: number | null;
+      ptSlabs: ProfessionalTaxSlab[];
+      tdsSlabs: TdsSlab[];
+    }
+>;
+
+const isNonNegative = (value: unknown) =>
+  Number.isFinite(Number(value)) && Number(value) >= 0;
+
+export const updateStatutorySettings = async (
+  branchId: string,
+  input: StatutorySettingsInput
+) => {
+  const data: Prisma.PayrollStatutorySettingsUpdateInput = {};
+
+  for (const field of RATE_FIELDS) {
+    if (input[field] === undefined) continue;
+    if (!isNonNegative(input[field]) || Number(input[field]) > 100) {
+      throw new HttpError(400, `${field} must be a percentage from 0 to 100.`);
+    }
+    data[field] = Number(input[field]);
+  }
+  for (const field of AMOUNT_FIELDS) {
+    if (input[field] === undefined) continue;
+    if (!isNonNegative(input[field])) {
+      throw new HttpError(400, `${field} must be a non-negative amount.`);
+    }
+    data[field] = Number(input[field]);
+  }
+  for (const field of FLAG_FIELDS) {
+    if (input[field] !== undefined) data[field] = Boolean(input[field]);
+  }
+  if (input.pfWageCeiling !== undefined) {
+    if (input.pfWageCeiling !== null && !isNonNegative(input.pfWageCeiling)) {
+      throw new HttpError(400, "pfWageCeiling must be an amount or null.");
+    }
+    data.pfWageCeiling =
+      input.pfWageCeiling === null ? null : Number(input.pfWageCeiling);
+  }
+  if (input.ptSlabs !== undefined) {
+    if (
+      !Array.isArray(input.ptSlabs) ||
+      input.ptSlabs.some(
+        (slab) =>
+          !isNonNegative(slab?.minGross) ||
+          !isNonNegative(slab?.amount) ||
+          (slab.maxGross != null && !isNonNegative(slab.maxGross)) ||
+          (slab.februaryAmount != null && !isNonNegative(slab.februaryAmount))
+      )
+    ) {
+      throw new HttpError(
+        400,
+        "ptSlabs must be a list of { minGross, maxGross?, amount, februaryAmount? }."
+      );
+    }
+    data.ptSlabs = input.ptSlabs as unknown as Prisma.InputJsonValue;
+  }
+  if (input.tdsSlabs !== undefined) {
+    const slabs = input.tdsSlabs;
+    if (
+      !Array.isArray(slabs) ||
+      slabs.length === 0 ||
+      slabs.some(
+        (slab, i) =>
+          !isNonNegative(slab?.rate) ||
+          slab.rate > 100 ||
+          (slab.upTo == null
+            ? i !== slabs.length - 1
+            : !isNonNegative(slab.upTo) ||
+              (i > 0 && Number(slab.upTo) <= Number(slabs[i - 1].upTo)))
+      )
+    ) {
+      throw new HttpError(
+        400,
+        "tdsSlabs must be ascending { upTo, rate } slabs; only the last may omit upTo."
+      );
+    }
+    data.tdsSlabs = slabs as unknown as Prisma.InputJsonValue;
+  }
+
+  await getStatutorySettings(branchId);
+  return prisma.payrollStatutorySettings.update({ where: { branchId }, data });
+};
+
+// --- Salary structures ---
+
+export interface SalaryStructureInput {
+  basic?: number;
+  dearnessAllowance?: number;
+  houseRentAllowance?: number;
+  otherAllowances?: PayHead[];
+  otherDeductions?: PayHead[];
+  pfApplicable?: boolean;
+  esiApplicable?: boolean;
+  professionalTaxApplicable?: boolean;
+  tdsApplicable?: boolean;
+  declaredAnnualExemptions?: number;
+  pan?: string | null;
+  uan?: string | null;
+  esiNumber?: string | null;
+}
+
+const toHeads = (value: unknown, field: string): PayHead[] => {
+  if (
+    !Array.isArray(value) ||
+    value.some((h) => !h?.name || !isNonNegative(h?.amount))
+  ) {
+    throw new HttpError(400, `${field} must be a list of { name, amount }.`);
+  }
+  return value.map((h) => ({ name: String(h.name), amount: Number(h.amount) }));
+};
+
+export const getStructureGross = (
+  structure: Pick<
+    SalaryStructure,
+    "basic" | "dearnessAllowance" | "houseRentAllowance" | "otherAllowances"
+  >
+) =>
+  round2(
+    structure.basic +
+      structure.dearnessAllowance +
+      structure.houseRentAllowance +
+      ((structure.otherAllowances as unknown as PayHead[]) || []).reduce(
+        (sum, h) => sum + h.amount,
+        0
+      )
+  );
+
+export const listSalaryStructures = (branchId: string) =>
+  prisma.salaryStructure.findMany({
+    where: { branchId },
+    include: { staff: { select: { name: true, role: true } } },
+    orderBy: { staff: { name: "asc" } },
+  });
+
+/**
+ * Creates or replaces a staff member's structure. The user's (and teacher's)
+ * flat `salary` is kept equal to the structure's monthly gross so the
+ * screens that still read it stay consistent.
+ */
+export const saveSalaryStructure = async (
+  branchId: string,
+  staffId: string,
+  input: SalaryStructureInput,
+  actorName: string
+) => {
+  const staff = await prisma.user.findFirst({
+    where: {
+      id: staffId,
+      branchId,
+      role: { in: PAYROLL_ROLES },
+    },
+    include: { teacher: { select: { id: true } } },
+  });
+  if (!staff) {
+    throw new HttpError(404, "Staff member not found in your branch.");
+  }
+  if (input.basic == null || !isNonNegative(input.basic)) {
+    throw new HttpError(400, "basic must be a non-negative amount.");
+  }
+  for (const field of [
+    "dearnessAllowance",
+    "houseRentAllowance",
+    "declaredAnnualExemptions",
+  ] as const) {
+    if (input[field] !== undefined && !isNonNegative(input[field])) {
+      throw new HttpError(400, `${field} must be a non-negative amount.`);
+    }
+  }
+
+  const data = {
+    basic: Number(input.basic),
+    dearnessAllowance: Number(input.dearnessAllowance ?? 0),
+    houseRentAllowance: Number(input.houseRentAllowance ?? 0),
+    otherAllowances: toHeads(
+      input.otherAllowances ?? [],
+      "otherAllowances"
+    ) as unknown as Prisma.InputJsonValue,
+    otherDeductions: toHeads(
+      input.otherDeductions ?? [],
+      "otherDeductions"
+    ) as unknown as Prisma.InputJsonValue,
+    pfApplicable: input.pfApplicable ?? true,
+    esiApplicable: input.esiApplicable ?? true,
+    professionalTaxApplicable: input.professionalTaxApplicable ?? true,
+    tdsApplicable: input.tdsApplicable ?? true,
+    declaredAnnualExemptions: Number(input.declaredAnnualExemptions ?? 0),
+    pan: input.pan || null,
+    uan: input.uan || null,
+    esiNumber: input.esiNumber || null,
+    updatedByName: actorName,
+  };
+
+  return prisma.$transaction(async (tx) => {
+    const structure = await tx.salaryStructure.upsert({
+      where: { staffId },
+      create: { ...data, branchId, staffId },
+      update: data,
+    });
+    const gross = getStructureGross(structure);
+    await tx.user.update({ where: { id: staffId }, data: { salary: gross } });
+    if (staff.teacher) {
+      await tx.teacher.update({
+        where: { id: staff.teacher.id },
+        data: { salary: gross },
+      });
+    }
+    return structure;
+  });
+};
+
+export const deleteSalaryStructure = async (
+  branchId: string,
+  staffId: string
+) => {
+  const result = await prisma.salaryStructure.deleteMany({
+    where: { branchId, staffId },
+  });
+  if (result.count === 0) {
+    throw new HttpError(404, "Salary structure not found in your branch.");
+  }
+};
+
+// --- Computation ---
+
+const professionalTaxFor = (
+  slabs: ProfessionalTaxSlab[],
+  gross: number,
+  isFebruary: boolean
+) => {
+  const slab = slabs.find(
+    (s) => gross >= s.minGross && (s.maxGross == null || gross <= s.maxGross)
+  );
+  if (!slab) return 0;
+  return isFebruary && slab.februaryAmount != null
+    ? slab.februaryAmount
+    : slab.amount;
+};
+
+/** Yearly income tax on `taxable`, after the rebate and with cess. */
+export const computeAnnualTax = (
+  settings: Pick<
+    PayrollStatutorySettings,
+    "tdsSlabs" | "tdsRebateLimit" | "tdsCessRate"
+  >,
+  taxable: number
+) => {
+  if (taxable <= settings.tdsRebateLimit) return 0;
+  const slabs = (settings.tdsSlabs as unknown as TdsSlab[]) || [];
+  let tax = 0;
+  let lower = 0;
+  for (const slab of slabs) {
+    const upper = slab.upTo ?? Infinity;
+    if (taxable > lower) {
+      tax += ((Math.min(taxable, upper) - lower) * slab.rate) / 100;
+    }
+    lower = upper;
+  }
+  return round2(tax * (1 + settings.tdsCessRate / 100));
+};
+
+export interface StatutoryPay {
+  grossEarnings: number;
+  earnings: PayHead[];
+  deductions: PayHead[];
+  employerContributions: PayHead[];
+  totalDeductions: number;
+}
+
+/**
+ * One month's earnings and deductions for a structured salary.
+ *
+ * Every earnings head is prorated for unpaid days. PF is taken on earned
+ * basic + DA up to the wage ceiling; ESI applies while the full monthly gross
+ * is within the wage limit and is rounded up to the rupee; professional tax
+ * comes from the slab the earned gross falls in. TDS projects the year's
+ * income (what was paid so far plus this month's gross for each remaining
+ * month), taxes it and spreads what is still owed over the remaining months.
+ */
+export const computeStatutoryPay = (
+  structure: SalaryStructure,
+  settings: PayrollStatutorySettings,
+  period: {
+    daysInMonth: number;
+    unpaidDays: number;
+    // 1-12
+    calendarMonth: number;
+    yearToDate: { gross: number; tds: number };
+  }
+): StatutoryPay => {
+  const factor =
+    Math.max(0, period.daysInMonth - period.unpaidDays) / period.daysInMonth;
+  const earn = (amount: number) => round2(amount * factor);
+
+  const earnings: PayHead[] = [
+    { name: "Basic", amount: earn(structure.basic) },
+    { name: "Dearness Allowance", amount: earn(structure.dearnessAllowance) },
+    {
+      name: "House Rent Allowance",
+      amount: earn(structure.houseRentAllowance),
+    },
+    ...((structure.otherAllowances as unknown as PayHead[]) || []).map((h) => ({
+      name: h.name,
+      amount: earn(h.amount),
+    })),
+  ].filter((h) => h.amount > 0);
+  const grossEarnings = round2(earnings.reduce((sum, h) => sum + h.amount, 0));
+
+  const deductions: PayHead[] = [];
+  const employerContributions: PayHead[] = [];
+
+  if (settings.pfEnabled && structure.pfApplicable) {
+    const earnedPfBase = earn(structure.basic + structure.dearnessAllowance);
+    const wages =
+      settings.pfWageCeiling != null
+        ? Math.min(earnedPfBase, settings.pfWageCeiling)
+        : earnedPfBase;
+    deductions.push({
+      code: "PF",
+      name: "Provident Fund",
+      amount: Math.round((wages * settings.pfEmployeeRate) / 100),
+      wages,
+    });
+    // The employer's share is split: 8.33% of wages up to 15,000 goes to the
+    // pension scheme, the rest to the employee's PF account.
+    const employerShare = Math.round((wages * settings.pfEmployerRate) / 100);
+    const pension = Math.min(
+      employerShare,
+      Math.round((Math.min(wages, 15000) * 8.33) / 100)
+    );
+    employerContributions.push(
+      { code: "EPS", name: "Employer Pension (EPS)", amount: pension, wages },
+      {
+        code: "EPF",
+        name: "Employer PF (EPF)",
+        amount: employerShare - pension,
+        wages,
+      }
+    );
+  }
+
+  if (
+    settings.esiEnabled &&
+    structure.esiApplicable &&
+    getStructureGross(structure) <= settings.esiWageLimit &&
+    grossEarnings > 0
+  ) {
+    deductions.push({
+      code: "ESI",
+      name: "ESI",
+      amount: Math.ceil((grossEarnings * settings.esiEmployeeRate) / 100),
+      wages: grossEarnings,
+    });
+    employerContributions.push({
+      code: "ESI",
+      name: "Employer ESI",
+      amount: Math.ceil((grossEarnings * settings.esiEmployerRate) / 100),
+      wages: grossEarnings,
+    });
+  }
+
+  if (settings.ptEnabled && structure.professionalTaxApplicable) {
+    const amount = professionalTaxFor(
+      (settings.ptSlabs as unknown as ProfessionalTaxSlab[]) || [],
+      grossEarnings,
+      period.calendarMonth === 2
+    );
+    if (amount > 0) {
+      deductions.push({
+        code: "PT",
+        name: "Professional Tax",
+        amount,
+        wages: grossEarnings,
+      });
+    }
+  }
+
+  if (settings.tdsEnabled && structure.tdsApplicable) {
+    // April is month 1 of the financial year.
+    const remainingMonths = 12 - ((period.calendarMonth + 8) % 12);
+    const projectedIncome =
+      period.yearToDate.gross + grossEarnings * remainingMonths;
+    const taxable = Math.max(
+      0,
+      projectedIncome -
+        settings.tdsStandardDeduction -
+        structure.declaredAnnualExemptions
+    );
+    const annualTax = computeAnnualTax(settings, taxable);
+    const amount = Math.max(
+      0,
+      Math.round((annualTax - period.yearToDate.tds) / remainingMonths)
+    );
+    if (amount > 0) {
+      deductions.push({
+        code: "TDS",
+        name: "Income Tax (TDS)",
+        amount,
+        wages: round2(projectedIncome),
+      });
+    }
+  }
+
+  deductions.push(
+    ...((structure.otherDeductions as unknown as PayHead[]) || []).filter(
+      (h) => h.amount > 0
+    )
+  );
+
+  return {
+    grossEarnings,
+    earnings,
+    deductions,
+    employerContributions,
+    totalDeductions: round2(deductions.reduce((sum, h) => sum + h.amount, 0)),
+  };
+};
+
+// --- Reports ---
+
+export type StatutoryReportType = "pf" | "esi" | "pt" | "tds";
+
+const headAmount = (heads: unknown, code: string) =>
+  ((heads as PayHead[]) || []).find((h) => h.code === code);
+
+/**
+ * The month's statutory figures from its payroll (paid records and the
+ * current locked run). Without `report` it returns the totals per head; with
+ * one it returns the rows for that return, in the `{ fileName, data }` shape
+ * the other exports use.
+ */
+export const getStatutoryReport = async (
+  branchId: string,
+  month: string,
+  report?: StatutoryReportType
+) => {
+  const records = await prisma.payrollRecord.findMany({
+    where: {
+      branchId,
+      month,
+      status: { not: "Superseded" },
+      grossEarnings: { not: null },
+    },
+    orderBy: { staffName: "asc" },
+  });
+  const structures = await prisma.salaryStructure.findMany({
+    where: { branchId },
+    select: { staffId: true, pan: true, uan: true, esiNumber: true },
+  });
+
+  const rows = records.map((r) => {
+    const pf = headAmount(r.deductions, "PF");
+    const esi = headAmount(r.deductions, "ESI");
+    return {
+      record: r,
+      ids: structures.find((s) => s.staffId === r.staffId),
+      pf,
+      eps: headAmount(r.employerContributions, "EPS"),
+      epf: headAmount(r.employerContributions, "EPF"),
+      esi,
+      esiEmployer: headAmount(r.employerContributions, "ESI"),
+      pt: headAmount(r.deductions, "PT"),
+      tds: headAmount(r.deductions, "TDS"),
+    };
+  });
+  const total = (pick: (row: (typeof rows)[number]) => number | undefined) =>
+    round2(rows.reduce((sum, row) => sum + (pick(row) ?? 0), 0));
+
+  if (!report) {
+    return {
+      month,
+      staffCount: rows.length,
+      grossEarnings: total((row) => row.record.grossEarnings ?? 0),
+      pf: {
+        wages: total((row) => row.pf?.wages),
+        employee: total((row) => row.pf?.amount),
+        employerEpf: total((row) => row.epf?.amount),
+        employerEps: total((row) => row.eps?.amount),
+      },
+      esi: {
+        wages: total((row) => row.esi?.wages),
+        employee: total((row) => row.esi?.amount),
+        employer: total((row) => row.esiEmployer?.amount),
+      },
+      professionalTax: total((row) => row.pt?.amount),
+      tds: total((row) => row.tds?.amount),
+    };
+  }
+
+  const base = (row: (typeof rows)[number]) => ({
+    "Employee Name": row.record.staffName,
+    Role: row.record.staffRole,
+    Status: row.record.status,
+  });
+  let data: Record<string, string | number>[];
+  switch (report) {
+    case "pf":
+      data = rows
+        .filter((row) => row.pf)
+        .map((row) => ({
+          UAN: row.ids?.uan || "",
+          ...base(row),
+          "Gross Wages": row.record.grossEarnings ?? 0,
+          "EPF Wages": row.pf!.wages ?? 0,
+          "EE Share": row.pf!.amount,
+          "EPS Contribution": row.eps?.amount ?? 0,
+          "ER EPF Share": row.epf?.amount ?? 0,
+          "NCP Days": row.record.unpaidLeaveDays,
+        }));
+      break;
+    case "esi":
+      data = rows
+        .filter((row) => row.esi)
+        .map((row) => ({
+          "IP Number": row.ids?.esiNumber || "",
+          ...base(row),
+          "Days Paid":
+            (row.record.daysInMonth ?? 0) - row.record.unpaidLeaveDays,
+          "ESI Wages": row.esi!.wages ?? 0,
+          "EE Contribution": row.esi!.amount,
+          "ER Contribution": row.esiEmployer?.amount ?? 0,
+        }));
+      break;
+    case "pt":
+      data = rows
+        .filter((row) => row.pt)
+        .map((row) => ({
+          ...base(row),
+          "Gross Wages": row.record.grossEarnings ?? 0,
+          "Professional Tax": row.pt!.amount,
+        }));
+      break;
+    case "tds":
+      data = rows
+        .filter((row) => row.tds)
+        .map((row) => ({
+          PAN: row.ids?.pan || "PANNOTAVBL",
+          ...base(row),
+          "Gross Salary": row.record.grossEarnings ?? 0,
+          "Projected Annual Income": row.tds!.wages ?? 0,
+          "TDS Deducted": row.tds!.amount,
+        }));
+      break;
+    default:
+      throw new HttpError(400, "report must be one of pf, esi, pt or tds.");
+  }
+
+  return { fileName: `${report.toUpperCase()}_${month}.csv`, data };
+};
@@ -0,0 +1,202 @@
+// src/services/studentWalletService.ts
+import prisma, { PrismaTransactionClient } from "../prisma";
+import { HttpError } from "../utils/httpError";
+import { allocateFeeRecordPayments } from "./feeScheduleService";
+import { postFeePayment } from "./ledgerService";
+
+type Tx = PrismaTransactionClient;
+
+export const WALLET_PAYMENT_MODE = "Wallet";
+const SYSTEM_ACTOR = "System (Student Wallet)";
+
+export interface WalletActor {
+  id?: string;
+  name: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Adds money to a student's wallet and writes the matching wallet
+ * transaction. The ledger side is posted by whatever brought the money in
+ * (the fee payment, or the session carry-forward).
+ */
+export const creditWallet = async (
+  tx: Tx,
+  params: {
+    studentId: string;
+    amount: number;
+    reason: string;
+    feeRecordId?: string;
+    feePaymentId?: string;
+    actor?: WalletActor;
+  }
+) => {
+  const amount = round2(params.amount);
+  if (amount <= 0) return null;
+
+  const student = await tx.student.update({
+    where: { id: params.studentId },
+    data: { walletBalance: { increment: amount } },
+    select: { branchId: true, walletBalance: true },
+  });
+  return tx.walletTransaction.create({
+    data: {
+      branchId: student.branchId,
+      studentId: params.studentId,
+      type: "credit",
+      amount,
+      balanceAfter: round2(student.walletBalance),
+      reason: params.reason,
+      feeRecordId: params.feeRecordId,
+      feePaymentId: params.feePaymentId,
+      createdById: params.actor?.id,
+      createdByName: params.actor?.name ?? SYSTEM_ACTOR,
+    },
+  });
+};
+
+/**
+ * Takes money back out of a student's wallet (e.g. when the overpayment that
+ * was credited to it is refunded). Guarded like any other spend, so it
+ * returns null instead of taking the balance below zero.
+ */
+export const debitWallet = async (
+  tx: Tx,
+  params: {
+    studentId: string;
+    amount: number;
+    reason: string;
+    feeRecordId?: string;
+    feePaymentId?: string;
+    actor?: WalletActor;
+  }
+) => {
+  const amount = round2(params.amount);
+  if (amount <= 0) return null;
+
+  const claimed = await tx.student.updateMany({
+    where: { id: params.studentId, walletBalance: { gte: amount } },
+    data: { walletBalance: { decrement: amount } },
+  });
+  if (claimed.count === 0) return null;
+
+  const student = await tx.student.findUniqueOrThrow({
+    where: { id: params.studentId },
+    select: { branchId: true, walletBalance: true },
+  });
+  return tx.walletTransaction.create({
+    data: {
+      branchId: student.branchId,
+      studentId: params.studentId,
+      type: "debit",
+      amount,
+      balanceAfter: round2(student.walletBalance),
+      reason: params.reason,
+      feeRecordId: params.feeRecordId,
+      feePaymentId: params.feePaymentId,
+      createdById: params.actor?.id,
+      createdByName: params.actor?.name ?? SYSTEM_ACTOR,
+    },
+  });
+};
+
+/**
+ * Pays as much of a fee record's outstanding balance as the student's wallet
+ * covers. The wallet money is recorded as a FeePayment in `Wallet` mode, so
+ * it is allocated to instalments like any other payment; it gets no receipt
+ * because the money was receipted when it came in. Returns the payment, or
+ * null when there was nothing to apply.
+ */
+export const applyWalletToFeeRecord = async (
+  tx: Tx,
+  studentId: string,
+  feeRecordId: string,
+  actor?: WalletActor
+) => {
+  const [student, record] = await Promise.all([
+    tx.student.findUnique({
+      where: { id: studentId },
+      select: { branchId: true, walletBalance: true },
+    }),
+    tx.feeRecord.findFirst({
+      where: { id: feeRecordId, studentId },
+      select: { totalAmount: true, paidAmount: true },
+    }),
+  ]);
+  if (!student || !record) return null;
+
+  const amount = round2(
+    Math.min(student.walletBalance, record.totalAmount - record.paidAmount)
+  );
+  if (amount <= 0) return null;
+
+  // Guarded so two transactions cannot spend the same balance.
+  const claimed = await tx.student.updateMany({
+    where: { id: studentId, walletBalance: { gte: amount } },
+    data: { walletBalance: { decrement: amount } },
+  });
+  if (claimed.count === 0) return null;
+
+  const payment = await tx.feePayment.create({
+    data: {
+      studentId,
+      feeRecordId,
+      amount,
+      paidDate: new Date(),
+      transactionId: `WALLET-${Date.now()}`,
+      details: "Applied from student wallet",
+      paymentMode: WALLET_PAYMENT_MODE,
+    },
+  });
+  await tx.feeRecord.update({
+    where: { id: feeRecordId },
+    data: { paidAmount: { increment: amount } },
+  });
+  await allocateFeeRecordPayments(tx, feeRecordId);
+  await postFeePayment(tx, student.branchId, payment);
+
+  await tx.walletTransaction.create({
+    data: {
+      branchId: student.branchId,
+      studentId,
+      type: "debit",
+      amount,
+      balanceAfter: round2(student.walletBalance - amount),
+      reason: "Applied to fee dues",
+      feeRecordId,
+      feePaymentId: payment.id,
+      createdById: actor?.id,
+      createdByName: actor?.name ?? SYSTEM_ACTOR,
+    },
+  });
+
+  return payment;
+};
+
+/**
+ * A student's wallet balance and its most recent movements, newest first.
+ */
+export const getStudentWallet = async (
+  studentId: string,
+  branchId?: string
+) => {
+  const student = await prisma.student.findFirst({
+    where: { id: studentId, branchId },
+    select: {
+      id: true,
+      name: true,
+      walletBalance: true,
+      walletTransactions: { orderBy: { createdAt: "desc" }, take: 100 },
+    },
+  });
+  if (!student) {
+    throw new HttpError(404, "Student not found.");
+  }
+  return {
+    studentId: student.id,
+    studentName: student.name,
+    balance: student.walletBalance,
+    transactions: student.walletTransactions,
+  };
+};
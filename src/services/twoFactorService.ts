@@ -0,0 +1,530 @@
+// src/services/twoFactorService.ts
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import { OtpPurpose, UserRole } from "@prisma/client";
+import prisma from "../prisma";
+import { now } from "../utils/clock";
+import { decryptSecret, encryptSecret } from "../utils/encryption";
+import { HttpError } from "../utils/httpError";
+import {
+  base32Encode,
+  buildOtpauthUrl,
+  formatTotpSecret,
+  generateTotpSecret,
+  matchTotpStep,
+} from "../utils/totp";
+import { notifyUser } from "./notificationService";
+import {
+  OtpRecipient,
+  answerOtpChallenge,
+  issueOtp,
+  openTotpChallenge,
+  resendOtp,
+  verifyOtpCode,
+} from "./otpService";
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Verticx";
+const BACKUP_CODE_COUNT = 10;
+
+// Policies change rarely but are checked on every request of a user
+// without an authenticator, so they are cached briefly.
+const POLICY_CACHE_MS = 60 * 1000;
+const policyCache = new Map<string, { roles: UserRole[]; loadedAt: number }>();
+
+const ALL_ROLES = Object.values(UserRole);
+
+export interface TwoFactorUser extends OtpRecipient {
+  role: UserRole;
+  branchId: string | null;
+  totpEnabledAt: Date | null;
+}
+
+export interface SecondFactorAnswer {
+  otp?: unknown;
+  totpCode?: unknown;
+  backupCode?: unknown;
+}
+
+const hashBackupCode = (code: string) =>
+  createHash("sha256")
+    .update(code.toUpperCase().replace(/[\s-]/g, ""))
+    .digest("hex");
+
+// --- Policy ---
+
+const cachedRoles = async (
+  key: string,
+  load: () => Promise<UserRole[] | undefined>
+) => {
+  const cached = policyCache.get(key);
+  if (cached && now().getTime() - cached.loadedAt < POLICY_CACHE_MS) {
+    return cached.roles;
+  }
+  const roles = (await load()) ?? [];
+  policyCache.set(key, { roles, loadedAt: now().getTime() });
+  return roles;
+};
+
+/**
+ * Validates a list of roles for a two-factor policy. Branch policies cannot
+ * name SuperAdmin, who belongs to no branch.
+ */
+export const parseTwoFactorRoles = (
+  value: unknown,
+  scope: "system" | "branch"
+): UserRole[] => {
+  if (!Array.isArray(value)) {
+    throw new HttpError(400, "twoFactorRequiredRoles must be a list of roles.");
+  }
+  const allowed =
+    scope === "branch"
+      ? ALL_ROLES.filter((role) => role !== "SuperAdmin")
+      : ALL_ROLES;
+  const invalid = value.filter((role) => !allowed.includes(role));
+  if (invalid.length) {
+    throw new HttpError(
+      400,
+      `Unknown or unsupported role(s): ${invalid.join(", ")}.`
+    );
+  }
+  return [...new Set(value as UserRole[])];
+};
+
+/**
+ * Whether the user must sign in with an authenticator app: their role is
+ * listed in the system-wide policy or in their branch's.
+ */
+export const isTwoFactorRequired = async (user: {
+  id: string;
+  role: UserRole;
+  branchId: string | null;
+}) => {
+  const systemRoles = await cachedRoles("system", async () => {
+    const settings = await prisma.systemSettings.findUnique({
+      where: { id: "global" },
+      select: { twoFactorRequiredRoles: true },
+    });
+    return settings?.twoFactorRequiredRoles;
+  });
+  if (systemRoles.includes(user.role)) return true;
+
+  // A principal's branch is the one they run, not the (null) branchId.
+  let branchId = user.branchId;
+  if (user.role === "Principal") {
+    const branch = await prisma.branch.findUnique({
+      where: { principalId: user.id },
+      select: { id: true },
+    });
+    branchId = branch?.id ?? null;
+  }
+  if (!branchId) return false;
+  const branchRoles = await cachedRoles(`branch:${branchId}`, async () => {
+    const branch = await prisma.branch.findUnique({
+      where: { id: branchId! },
+      select: { twoFactorRequiredRoles: true },
+    });
+    return branch?.twoFactorRequiredRoles;
+  });
+  return branchRoles.includes(user.role);
+};
+
+export const getBranchTwoFactorPolicy = async (branchId: string) => {
+  const branch = await prisma.branch.findUnique({
+    where: { id: branchId },
+    select: { id: true, twoFactorRequiredRoles: true },
+  });
+  if (!branch) throw new HttpError(404, "Branch not found.");
+  return { branchId: branch.id, requiredRoles: branch.twoFactorRequiredRoles };
+};
+
+export const setBranchTwoFactorPolicy = async (
+  branchId: string,
+  roles: unknown
+) => {
+  const requiredRoles = parseTwoFactorRoles(roles, "branch");
+  const exists = await prisma.branch.count({ where: { id: branchId } });
+  if (!exists) throw new HttpError(404, "Branch not found.");
+  await prisma.branch.update({
+    where: { id: branchId },
+    data: { twoFactorRequiredRoles: requiredRoles },
+  });
+  policyCache.delete(`branch:${branchId}`);
+  return { branchId, requiredRoles };
+};
+
+/** Drops the cached system-wide policy after the master config changes. */
+export const clearSystemTwoFactorPolicyCache = () => {
+  policyCache.delete("system");
+};
+
+// --- Enrolment ---
+
+const loadTotpUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      role: true,
+      email: true,
+      branchId: true,
+      passwordHash: true,
+      totpSecret: true,
+      totpPendingSecret: true,
+      totpEnabledAt: true,
+      totpLastStep: true,
+    },
+  });
+  if (!user) throw new HttpError(404, "User not found.");
+  return user;
+};
+
+const recordTwoFactorEvent = (
+  user: { id: string; name: string; role: UserRole },
+  action: string,
+  actor?: { id: string; name: string; role: UserRole }
+) =>
+  prisma.auditLog.create({
+    data: {
+      actorId: (actor ?? user).id,
+      actorName: (actor ?? user).name,
+      actorRole: (actor ?? user).role,
+      action,
+      targetId: user.id,
+      targetType: "User",
+      statusCode: 200,
+    },
+  });
+
+/** Replaces the user's backup codes and returns the new ones (shown once). */
+const issueBackupCodes = async (userId: string) => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(5));
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  });
+  await prisma.$transaction([
+    prisma.totpBackupCode.deleteMany({ where: { userId } }),
+    prisma.totpBackupCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashBackupCode(code) })),
+    }),
+  ]);
+  return codes;
+};
+
+export const getTwoFactorStatus = async (userId: string) => {
+  const user = await loadTotpUser(userId);
+  const backupCodesRemaining = user.totpEnabledAt
+    ? await prisma.totpBackupCode.count({ where: { userId, usedAt: null } })
+    : 0;
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt,
+    backupCodesRemaining,
+    required: await isTwoFactorRequired(user),
+  };
+};
+
+const assertPassword = async (
+  user: { passwordHash: string },
+  password: unknown
+) => {
+  if (
+    typeof password !== "string" ||
+    !(await bcrypt.compare(password, user.passwordHash))
+  ) {
+    throw new HttpError(401, "Incorrect password.");
+  }
+};
+
+/**
+ * Starts setting up an authenticator app. Needs the password, so a stolen
+ * session alone cannot enrol another device. Returns the otpauth:// URI,
+ * which the client draws as the QR code to scan (no image is made here),
+ * and the secret, also as `manualEntryKey` for typing in by hand. Nothing
+ * changes for the user until `confirmTotpSetup` succeeds.
+ */
+export const beginTotpSetup = async (userId: string, password: unknown) => {
+  const user = await loadTotpUser(userId);
+  if (user.totpEnabledAt) {
+    throw new HttpError(
+      409,
+      "An authenticator app is already set up. Turn it off before adding a new one."
+    );
+  }
+  await assertPassword(user, password);
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpPendingSecret: encryptSecret(secret) },
+  });
+  return {
+    secret,
+    manualEntryKey: formatTotpSecret(secret),
+    otpauthUrl: buildOtpauthUrl({
+      issuer: TOTP_ISSUER,
+      account: user.email,
+      secret,
+    }),
+  };
+};
+
+/**
+ * Turns the authenticator on once the user gives their password again and
+ * proves their app shows the right codes, and returns a fresh set of
+ * backup codes.
+ */
+export const confirmTotpSetup = async (
+  userId: string,
+  code: unknown,
+  password: unknown
+) => {
+  const user = await loadTotpUser(userId);
+  if (user.totpEnabledAt) {
+    throw new HttpError(409, "An authenticator app is already set up.");
+  }
+  if (!user.totpPendingSecret) {
+    throw new HttpError(400, "Start the authenticator setup first.");
+  }
+  await assertPassword(user, password);
+  const secret = decryptSecret(user.totpPendingSecret);
+  const step =
+    typeof code === "string" ? matchTotpStep(secret, code.trim(), now()) : null;
+  if (step === null) {
+    throw new HttpError(
+      400,
+      "That code is not valid. Check that your device's clock is correct and try again."
+    );
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totpSecret: user.totpPendingSecret,
+      totpPendingSecret: null,
+      totpEnabledAt: now(),
+      totpLastStep: step,
+    },
+  });
+  const backupCodes = await issueBackupCodes(userId);
+  await recordTwoFactorEvent(user, "TWO_FACTOR_ENABLED");
+  return { backupCodes };
+};
+
+/**
+ * Checks an authenticator or backup code for a user with an authenticator
+ * set up. An accepted code is used up: the TOTP step cannot be used again
+ * and a backup code is spent.
+ */
+const checkAuthenticatorCode = async (
+  userId: string,
+  answer: { totpCode?: unknown; backupCode?: unknown }
+) => {
+  const user = await loadTotpUser(userId);
+  if (!user.totpEnabledAt || !user.totpSecret) {
+    throw new HttpError(
+      400,
+      "No authenticator app is set up for this account."
+    );
+  }
+
+  if (typeof answer.totpCode === "string" && answer.totpCode.trim()) {
+    const step = matchTotpStep(
+      decryptSecret(user.totpSecret),
+      answer.totpCode.trim(),
+      now()
+    );
+    if (step === null) return false;
+    // Claim the step; a replay or a concurrent use of the same code loses.
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+      },
+      data: { totpLastStep: step },
+    });
+    return claimed.count > 0;
+  }
+
+  if (typeof answer.backupCode === "string" && answer.backupCode.trim()) {
+    const spent = await prisma.totpBackupCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashBackupCode(answer.backupCode),
+        usedAt: null,
+      },
+      data: { usedAt: now() },
+    });
+    if (spent.count === 0) return false;
+    const remaining = await prisma.totpBackupCode.count({
+      where: { userId, usedAt: null },
+    });
+    await notifyUser(userId, {
+      title: "Backup code used",
+      message: `A backup code was used to verify your account. ${remaining} backup code(s) left.`,
+      type: "security",
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/** New backup codes for a user who has used up or lost the old ones. */
+export const regenerateBackupCodes = async (
+  userId: string,
+  totpCode: unknown
+) => {
+  if (!(await checkAuthenticatorCode(userId, { totpCode }))) {
+    throw new HttpError(401, "Invalid authenticator code.");
+  }
+  const user = await loadTotpUser(userId);
+  const backupCodes = await issueBackupCodes(userId);
+  await recordTwoFactorEvent(user, "TWO_FACTOR_BACKUP_CODES_REGENERATED");
+  return { backupCodes };
+};
+
+const clearTotp = (userId: string) =>
+  prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpSecret: null,
+        totpPendingSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+      },
+    }),
+    prisma.totpBackupCode.deleteMany({ where: { userId } }),
+  ]);
+
+/**
+ * Turns the authenticator off. Needs the password and a current code, and
+ * is refused while a policy requires two-factor sign-in for the user.
+ */
+export const disableTotp = async (
+  userId: string,
+  answer: { password?: unknown; totpCode?: unknown; backupCode?: unknown }
+) => {
+  const user = await loadTotpUser(userId);
+  if (!user.totpEnabledAt) {
+    throw new HttpError(
+      400,
+      "No authenticator app is set up for this account."
+    );
+  }
+  await assertPassword(user, answer.password);
+  if (await isTwoFactorRequired(user)) {
+    throw new HttpError(
+      403,
+      "Two-factor sign-in is required for your account and cannot be turned off."
+    );
+  }
+  if (!(await checkAuthenticatorCode(userId, answer))) {
+    throw new HttpError(401, "Invalid authenticator or backup code.");
+  }
+  await clearTotp(userId);
+  await recordTwoFactorEvent(user, "TWO_FACTOR_DISABLED");
+  await notifyUser(userId, {
+    title: "Two-factor sign-in turned off",
+    message:
+      "The authenticator app was removed from your account. If this wasn't you, change your password.",
+    type: "security",
+  });
+};
+
+/**
+ * Removes a user's authenticator for them, e.g. when they have lost both
+ * the device and their backup codes. They are signed in with a sent code
+ * until they set it up again.
+ */
+export const resetTwoFactor = async (
+  userId: string,
+  actor: { id: string; name: string; role: UserRole }
+) => {
+  const user = await loadTotpUser(userId);
+  if (!user.totpEnabledAt && !user.totpPendingSecret) {
+    throw new HttpError(400, "No authenticator app is set up for this user.");
+  }
+  await clearTotp(userId);
+  await recordTwoFactorEvent(user, "TWO_FACTOR_RESET", actor);
+  await notifyUser(userId, {
+    title: "Two-factor sign-in reset",
+    message: `${actor.name} removed the authenticator app from your account. Set it up again from your security settings.`,
+    type: "security",
+  });
+};
+
+// --- Verification ---
+
+/**
+ * Starts the second step of `purpose`. Users with an authenticator answer
+ * from their app unless they ask for a sent code, which users whose policy
+ * requires two-factor sign-in may not; everyone else is sent an OTP.
+ */
+export const startSecondFactor = async (
+  user: TwoFactorUser,
+  purpose: OtpPurpose,
+  options: { channel?: unknown; defaultChannel?: "email" | "sms" } = {}
+) => {
+  if (user.totpEnabledAt) {
+    if (options.channel === undefined || options.channel === "totp") {
+      return openTotpChallenge(user.id, purpose);
+    }
+    await assertSentCodeAllowed(user);
+  } else if (options.channel === "totp") {
+    throw new HttpError(
+      400,
+      "No authenticator app is set up for this account."
+    );
+  }
+  return issueOtp(user, purpose, options);
+};
+
+const assertSentCodeAllowed = async (user: TwoFactorUser) => {
+  if (user.totpEnabledAt && (await isTwoFactorRequired(user))) {
+    throw new HttpError(
+      403,
+      "Use your authenticator app or a backup code to verify."
+    );
+  }
+};
+
+/** Sends the code for `purpose` again, with the same rules as `startSecondFactor`. */
+export const resendSecondFactor = async (
+  user: TwoFactorUser,
+  purpose: OtpPurpose,
+  channel?: unknown
+) => {
+  if (channel !== undefined && channel !== "totp") {
+    await assertSentCodeAllowed(user);
+  }
+  return resendOtp(user, purpose, channel);
+};
+
+/**
+ * Completes the second step of `purpose` with whichever answer was given:
+ * a sent OTP, an authenticator code or a backup code. All of them answer
+ * the same challenge, so they share its expiry and attempt limit.
+ */
+export const verifySecondFactor = async (
+  userId: string,
+  purpose: OtpPurpose,
+  answer: SecondFactorAnswer
+) => {
+  if (answer.totpCode || answer.backupCode) {
+    await answerOtpChallenge(
+      userId,
+      purpose,
+      () => checkAuthenticatorCode(userId, answer),
+      answer.totpCode ? "authenticator code" : "backup code"
+    );
+    return;
+  }
+  if (!answer.otp) {
+    throw new HttpError(
+      400,
+      "An OTP, authenticator code or backup code is required."
+    );
+  }
+  await verifyOtpCode(userId, purpose, answer.otp);
+};
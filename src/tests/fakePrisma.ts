@@ -0,0 +1,346 @@
+// src/tests/fakePrisma.ts
+import { randomUUID } from "crypto";
+import prisma from "../prisma";
+import { now } from "../utils/clock";
+
+/**
+ * An in-memory stand-in for the Prisma models a test touches. It supports
+ * the subset of Prisma's API the services use: equality and null checks,
+ * gt/gte/lt/lte/in/not (also against another column through
+ * `prisma.model.fields`), OR/AND, compound unique keys, `increment` and
+ * `decrement`, orderBy and take. Relations a test declares can be filtered
+ * on and are attached when named in `include` or `select`; otherwise
+ * `select` is ignored and whole rows are returned.
+ */
+type Row = Record<string, any>;
+
+/**
+ * Rows of `model` whose `field` equals this row's `references`, e.g.
+ * FeePayment.reversals is `{ model: "feePayment", field: "reversalOfId",
+ * references: "id", many: true }`.
+ */
+export interface FakeRelation {
+  model: string;
+  field: string;
+  references: string;
+  many?: boolean;
+}
+
+export interface FakeModelOptions {
+  defaults?: Row;
+  /** Unique fields; an array names a compound key. */
+  unique?: (string | string[])[];
+  relations?: Record<string, FakeRelation>;
+}
+
+type FindArgs = {
+  where?: Row;
+  orderBy?: Row | Row[];
+  take?: number;
+  include?: Row;
+  select?: Row;
+};
+
+const OPERATORS = ["gt", "gte", "lt", "lte", "in", "not"];
+
+const compare = (a: any, b: any) =>
+  a instanceof Date || b instanceof Date
+    ? new Date(a).getTime() - new Date(b).getTime()
+    : a < b
+    ? -1
+    : a > b
+    ? 1
+    : 0;
+
+const isOperator = (value: any) =>
+  value !== null &&
+  typeof value === "object" &&
+  !(value instanceof Date) &&
+  !Array.isArray(value);
+
+// A `prisma.model.fields.x` reference compares against the row's own column.
+const isFieldRef = (value: any) =>
+  isOperator(value) && "modelName" in value && "name" in value;
+
+const resolveFieldRefs = (row: Row, expected: any) =>
+  isOperator(expected) && !isFieldRef(expected)
+    ? Object.fromEntries(
+        Object.entries(expected).map(([op, value]) => [
+          op,
+          isFieldRef(value) ? row[(value as Row).name] : value,
+        ])
+      )
+    : expected;
+
+const matchesValue = (actual: any, expected: any): boolean => {
+  if (expected === undefined) return true;
+  if (!isOperator(expected)) {
+    if (expected === null) return actual === null || actual === undefined;
+    return compare(actual, expected) === 0;
+  }
+  return Object.entries(expected).every(([op, value]) => {
+    if (value === undefined) return true;
+    switch (op) {
+      case "gt":
+        return actual != null && compare(actual, value) > 0;
+      case "gte":
+        return actual != null && compare(actual, value) >= 0;
+      case "lt":
+        return actual != null && compare(actual, value) < 0;
+      case "lte":
+        return actual != null && compare(actual, value) <= 0;
+      case "in":
+        return (value as any[]).some((v) => compare(actual, v) === 0);
+      case "not":
+        return !matchesValue(actual, value);
+      default:
+        throw new Error(`fakePrisma: unsupported filter "${op}"`);
+    }
+  });
+};
+
+const applyData = (row: Row, data: Row) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    row[key] =
+      isOperator(value) && "increment" in value
+        ? (row[key] ?? 0) + value.increment
+        : isOperator(value) && "decrement" in value
+        ? (row[key] ?? 0) - value.decrement
+        : value;
+  }
+  return row;
+};
+
+const sortRows = (rows: Row[], orderBy?: Row | Row[]) => {
+  const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+  return [...rows].sort((a, b) => {
+    for (const order of orders) {
+      const [key, direction] = Object.entries(order)[0];
+      const result = compare(a[key], b[key]);
+      if (result !== 0) return direction === "desc" ? -result : result;
+    }
+    return 0;
+  });
+};
+
+const uniqueViolation = () =>
+  Object.assign(new Error("Unique constraint failed"), { code: "P2002" });
+
+const notFound = () =>
+  Object.assign(new Error("Record to update not found."), { code: "P2025" });
+
+export class FakeTable {
+  rows: Row[] = [];
+
+  constructor(
+    private tables: Record<string, FakeTable>,
+    private defaults: Row = {},
+    private uniqueKeys: (string | string[])[] = [],
+    private relations: Record<string, FakeRelation> = {}
+  ) {}
+
+  private related = (row: Row, relation: FakeRelation) => {
+    const table = this.tables[relation.model];
+    if (!table) {
+      throw new Error(`fakePrisma: model "${relation.model}" is not faked`);
+    }
+    return table.rows.filter(
+      (other) => other[relation.field] === row[relation.references]
+    );
+  };
+
+  matches = (row: Row, where: Row = {}): boolean =>
+    Object.entries(where).every(([key, expected]) => {
+      if (key === "OR") {
+        return (expected as Row[]).some((w) => this.matches(row, w));
+      }
+      if (key === "AND") {
+        return (expected as Row[]).every((w) => this.matches(row, w));
+      }
+      const relation = this.relations[key];
+      if (relation) {
+        if (relation.many) {
+          throw new Error(`fakePrisma: cannot filter on list "${key}"`);
+        }
+        const [other] = this.related(row, relation);
+        if (expected === null) return !other;
+        return (
+          !!other && this.tables[relation.model].matches(other, expected)
+        );
+      }
+      // A compound unique key, e.g. `branchId_code: { branchId, code }`.
+      if (
+        isOperator(expected) &&
+        Object.keys(expected).some((op) => !OPERATORS.includes(op))
+      ) {
+        return this.matches(row, expected);
+      }
+      return matchesValue(row[key], resolveFieldRefs(row, expected));
+    });
+
+  private find = (args: FindArgs = {}) =>
+    sortRows(
+      this.rows.filter((row) => this.matches(row, args.where)),
+      args.orderBy
+    );
+
+  // Attaches the relations named in `include`/`select`, recursively.
+  private shape = (row: Row, args: FindArgs = {}): Row => {
+    const wanted: Row = { ...args.select, ...args.include };
+    const names = Object.keys(wanted).filter(
+      (key) => this.relations[key] && wanted[key]
+    );
+    if (names.length === 0) return row;
+
+    const shaped = { ...row };
+    for (const name of names) {
+      const relation = this.relations[name];
+      const table = this.tables[relation.model];
+      const nested: FindArgs = wanted[name] === true ? {} : wanted[name];
+      const rows = sortRows(
+        this.related(row, relation).filter((other) =>
+          table.matches(other, nested.where)
+        ),
+        nested.orderBy
+      ).map((other) => table.shape(other, nested));
+      shaped[name] = relation.many ? rows : rows[0] ?? null;
+    }
+    return shaped;
+  };
+
+  // Like the database, a null in a unique key never conflicts.
+  private violatesUnique = (row: Row) =>
+    this.uniqueKeys.some((key) => {
+      const fields = Array.isArray(key) ? key : [key];
+      return (
+        fields.every((field) => row[field] != null) &&
+        this.rows.some((other) =>
+          fields.every((field) => other[field] === row[field])
+        )
+      );
+    });
+
+  findUnique = async (args: FindArgs) => {
+    const row = this.find(args)[0];
+    return row ? this.shape(row, args) : null;
+  };
+  findFirst = async (args: FindArgs = {}) => {
+    const row = this.find(args)[0];
+    return row ? this.shape(row, args) : null;
+  };
+  findUniqueOrThrow = async (args: FindArgs) => {
+    const row = this.find(args)[0];
+    if (!row) throw notFound();
+    return this.shape(row, args);
+  };
+  findMany = async (args: FindArgs = {}) =>
+    this.find(args)
+      .slice(0, args.take ?? Infinity)
+      .map((row) => this.shape(row, args));
+  count = async (args: { where?: Row } = {}) => this.find(args).length;
+
+  create = async (args: { data: Row } & FindArgs) => {
+    const row = applyData(
+      { id: randomUUID(), createdAt: now(), ...this.defaults },
+      args.data
+    );
+    if (this.violatesUnique(row)) {
+      throw uniqueViolation();
+    }
+    this.rows.push(row);
+    return this.shape(row, args);
+  };
+  createMany = async (args: { data: Row[]; skipDuplicates?: boolean }) => {
+    let count = 0;
+    for (const data of args.data) {
+      try {
+        await this.create({ data });
+        count++;
+      } catch (error: any) {
+        if (!(args.skipDuplicates && error.code === "P2002")) throw error;
+      }
+    }
+    return { count };
+  };
+  upsert = async (args: { where: Row; create: Row; update: Row }) => {
+    const row = this.find(args)[0];
+    return row
+      ? applyData(row, args.update)
+      : this.create({ data: args.create });
+  };
+  update = async (args: { where: Row; data: Row } & FindArgs) => {
+    const row = this.find(args)[0];
+    if (!row) throw notFound();
+    return this.shape(applyData(row, args.data), args);
+  };
+  updateMany = async (args: { where?: Row; data: Row }) => {
+    const rows = this.find(args);
+    rows.forEach((row) => applyData(row, args.data));
+    return { count: rows.length };
+  };
+  delete = async (args: { where: Row }) => {
+    const row = this.find(args)[0];
+    if (!row) throw notFound();
+    this.rows = this.rows.filter((r) => r !== row);
+    return row;
+  };
+  deleteMany = async (args: { where?: Row } = {}) => {
+    const before = this.rows.length;
+    this.rows = this.rows.filter((row) => !this.matches(row, args.where));
+    return { count: before - this.rows.length };
+  };
+}
+
+/**
+ * Replaces the given models on the shared Prisma client with fresh
+ * in-memory tables and returns them. Transactions run their callback (or
+ * array of queries) against the same tables and put the rows back as they
+ * were if it throws.
+ */
+export const useFakePrisma = <T extends string>(
+  models: Partial<Record<T, FakeModelOptions>>
+) => {
+  const client = prisma as any;
+  const tables = {} as Record<T, FakeTable>;
+  for (const [model, options] of Object.entries(models) as [
+    T,
+    FakeModelOptions
+  ][]) {
+    const table = new FakeTable(
+      tables,
+      options.defaults,
+      options.unique,
+      options.relations
+    );
+    Object.assign(client[model], {
+      findUnique: table.findUnique,
+      findUniqueOrThrow: table.findUniqueOrThrow,
+      findFirst: table.findFirst,
+      findMany: table.findMany,
+      count: table.count,
+      create: table.create,
+      createMany: table.createMany,
+      upsert: table.upsert,
+      update: table.update,
+      updateMany: table.updateMany,
+      delete: table.delete,
+      deleteMany: table.deleteMany,
+    });
+    tables[model] = table;
+  }
+  client.$transaction = async (work: any) => {
+    const snapshot = Object.values<FakeTable>(tables).map(
+      (table) => [table, table.rows.map((row) => ({ ...row }))] as const
+    );
+    try {
+      return await (typeof work === "function"
+        ? work(client)
+        : Promise.all(work));
+    } catch (error) {
+      snapshot.forEach(([table, rows]) => (table.rows = rows));
+      throw error;
+    }
+  };
+  return tables;
+};
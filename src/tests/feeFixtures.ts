@@ -0,0 +1,163 @@
+// src/tests/feeFixtures.ts
+import { encryptSecret } from "../utils/encryption";
+import { LocalGatewayClient } from "../utils/razorpay";
+import { useFakePrisma } from "./fakePrisma";
+
+/**
+ * The models fee collection touches (records, instalments, receipts, wallet,
+ * ledger, gateway orders, refunds, late fees and session carry-forwards),
+ * faked with the relations the fee services read, plus one branch with local
+ * gateway credentials, a student and their current fee record.
+ */
+export const GATEWAY = {
+  keyId: "rzp_test_localkey123",
+  keySecret: "local-key-secret-0123456789",
+  webhookSecret: "local-webhook-secret",
+};
+
+export const gateway = new LocalGatewayClient(GATEWAY);
+
+export const useFeeModels = () => {
+  const tables = useFakePrisma({
+    branch: {},
+    user: {},
+    student: { defaults: { walletBalance: 0 } },
+    feeRecord: {
+      defaults: { paidAmount: 0, previousSessionDues: null },
+      relations: {
+        student: { model: "student", field: "id", references: "studentId" },
+        carriedForwardTo: {
+          model: "feeCarryForward",
+          field: "fromFeeRecordId",
+          references: "id",
+        },
+      },
+    },
+    feeInstalment: {
+      defaults: { paidAmount: 0 },
+      relations: {
+        feeRecord: { model: "feeRecord", field: "id", references: "feeRecordId" },
+        lateFeeCharges: {
+          model: "lateFeeCharge",
+          field: "instalmentId",
+          references: "id",
+          many: true,
+        },
+      },
+    },
+    feePayment: {
+      defaults: { advanceAmount: 0, reversalOfId: null },
+      relations: {
+        student: { model: "student", field: "id", references: "studentId" },
+        feeRecord: { model: "feeRecord", field: "id", references: "feeRecordId" },
+        reversals: {
+          model: "feePayment",
+          field: "reversalOfId",
+          references: "id",
+          many: true,
+        },
+        allocations: {
+          model: "feePaymentAllocation",
+          field: "feePaymentId",
+          references: "id",
+          many: true,
+        },
+        receipt: { model: "feeReceipt", field: "feePaymentId", references: "id" },
+        paymentOrder: {
+          model: "paymentOrder",
+          field: "feePaymentId",
+          references: "id",
+        },
+        refundRequests: {
+          model: "feeRefundRequest",
+          field: "feePaymentId",
+          references: "id",
+          many: true,
+        },
+      },
+    },
+    feePaymentAllocation: {
+      relations: {
+        instalment: {
+          model: "feeInstalment",
+          field: "id",
+          references: "instalmentId",
+        },
+      },
+    },
+    feeReceiptSequence: { unique: [["branchId", "sessionStartYear"]] },
+    feeReceipt: {
+      defaults: { status: "issued" },
+      unique: ["feePaymentId", ["branchId", "receiptNumber"]],
+    },
+    walletTransaction: {},
+    ledgerAccount: { unique: [["branchId", "code"]] },
+    journalEntry: {},
+    paymentOrder: {
+      defaults: { status: "created", refundedAmount: 0, currency: "INR" },
+      unique: ["gatewayOrderId", "gatewayPaymentId"],
+    },
+    paymentWebhookEvent: { unique: ["eventId"] },
+    feeAdjustment: {
+      relations: {
+        student: { model: "student", field: "id", references: "studentId" },
+      },
+    },
+    lateFeeRule: { defaults: { isActive: true, waivedCategories: [] } },
+    lateFeeCharge: {
+      defaults: { status: "applied" },
+      unique: [["ruleId", "instalmentId"]],
+    },
+    feeCarryForward: { unique: ["fromFeeRecordId"] },
+    auditLog: {},
+    feeRefundRequest: {
+      defaults: { status: "Pending" },
+      relations: {
+        feePayment: {
+          model: "feePayment",
+          field: "id",
+          references: "feePaymentId",
+        },
+        student: { model: "student", field: "id", references: "studentId" },
+      },
+    },
+  });
+
+  tables.branch.rows.push({
+    id: "branch-1",
+    paymentGatewayPublicKey: GATEWAY.keyId,
+    paymentGatewaySecretKey: encryptSecret(GATEWAY.keySecret),
+    paymentGatewayWebhookSecret: encryptSecret(GATEWAY.webhookSecret),
+  });
+  tables.user.rows.push({ id: "principal-1", name: "R. Menon" });
+  tables.student.rows.push({
+    id: "student-1",
+    name: "Kavya Iyer",
+    branchId: "branch-1",
+    status: "active",
+    category: null,
+    walletBalance: 0,
+  });
+  tables.feeRecord.rows.push({
+    id: "record-1",
+    studentId: "student-1",
+    totalAmount: 1000,
+    paidAmount: 0,
+    previousSessionDues: null,
+    dueDate: new Date("2026-04-10T00:00:00Z"),
+    sessionStartYear: 2026,
+  });
+
+  return tables;
+};
+
+export type FeeTables = ReturnType<typeof useFeeModels>;
+
+/** Net movement of a ledger account across every posted journal line. */
+export const ledgerBalance = (tables: FeeTables, code: string) => {
+  const account = tables.ledgerAccount.rows.find((a) => a.code === code);
+  return tables.journalEntry.rows
+    .flatMap((entry) => entry.lines.create)
+    .filter((line: any) => line.accountId === account?.id)
+    .reduce((sum: number, line: any) => sum + line.debit - line.credit, 0);
+};
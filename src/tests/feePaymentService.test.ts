@@ -0,0 +1,92 @@
+// src/tests/feePaymentService.test.ts
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createFeePaymentOrder,
+  settleFeePaymentOrder,
+  verifyAndSettleCheckout,
+} from "../services/feePaymentService";
+import { FeeTables, gateway, useFeeModels } from "./feeFixtures";
+
+let tables: FeeTables;
+
+const rejectsWith = (promise: Promise<unknown>, status: number) =>
+  assert.rejects(promise, (error: any) => {
+    assert.equal(error.status, status);
+    return true;
+  });
+
+// An order for the whole balance, paid in Checkout.
+const checkout = async () => {
+  const order = await createFeePaymentOrder({
+    studentId: "student-1",
+    createdById: "parent-1",
+  });
+  assert.equal(order.amount, 1000);
+  return gateway.signCheckout(order.orderId);
+};
+
+const assertSettledOnce = () => {
+  assert.equal(tables.paymentOrder.rows[0].status, "paid");
+  assert.equal(tables.feePayment.rows.length, 1);
+  assert.equal(tables.feeReceipt.rows.length, 1);
+  assert.equal(
+    tables.feeReceipt.rows[0].feePaymentId,
+    tables.feePayment.rows[0].id
+  );
+  assert.equal(tables.feeRecord.rows[0].paidAmount, 1000);
+};
+
+beforeEach(() => {
+  tables = useFeeModels();
+});
+
+test("a verified checkout records the payment and its receipt", async () => {
+  const paid = await checkout();
+
+  const result = await verifyAndSettleCheckout(paid);
+  assert.equal(result.alreadySettled, false);
+  assert.equal(
+    tables.paymentOrder.rows[0].gatewayPaymentId,
+    paid.razorpay_payment_id
+  );
+  assertSettledOnce();
+});
+
+test("a checkout whose signature does not verify records nothing", async () => {
+  const paid = await checkout();
+
+  await rejectsWith(
+    verifyAndSettleCheckout({
+      ...paid,
+      razorpay_payment_id: "pay_someone_else",
+    }),
+    400
+  );
+  assert.equal(tables.paymentOrder.rows[0].status, "created");
+  assert.equal(tables.feePayment.rows.length, 0);
+  assert.equal(tables.feeReceipt.rows.length, 0);
+});
+
+test("checkout and webhook settle the same payment once, in either order", async () => {
+  const paid = await checkout();
+  await verifyAndSettleCheckout(paid);
+  const webhook = await settleFeePaymentOrder(
+    paid.razorpay_order_id,
+    paid.razorpay_payment_id,
+    "webhook"
+  );
+  assert.equal(webhook.alreadySettled, true);
+  assertSettledOnce();
+
+  tables = useFeeModels();
+  const again = await checkout();
+  await settleFeePaymentOrder(
+    again.razorpay_order_id,
+    again.razorpay_payment_id,
+    "webhook"
+  );
+  const late = await verifyAndSettleCheckout(again);
+  assert.equal(late.alreadySettled, true);
+  assertSettledOnce();
+});
@@ -0,0 +1,168 @@
+// src/tests/feeRefundService.test.ts
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import prisma from "../prisma";
+import {
+  recordFeePaymentInTransaction,
+  recordGatewayRefund,
+  settleFeePaymentOrder,
+} from "../services/feePaymentService";
+import {
+  createFeeRefundRequest,
+  processFeeRefundRequest,
+} from "../services/feeRefundService";
+import { applyWalletToFeeRecord } from "../services/studentWalletService";
+import { FeeTables, ledgerBalance, useFeeModels } from "./feeFixtures";
+
+let tables: FeeTables;
+
+const registrar = { id: "registrar-1", name: "S. Pillai" };
+const principal = { id: "principal-1" };
+
+const student = () => tables.student.rows[0];
+const record = () => tables.feeRecord.rows[0];
+
+const pay = (amount: number, paymentMode = "Cheque") =>
+  prisma.$transaction((tx) =>
+    recordFeePaymentInTransaction(tx, {
+      studentId: "student-1",
+      feeRecordId: "record-1",
+      amount,
+      transactionId: `CHQ-${amount}`,
+      details: "Counter payment",
+      paymentMode,
+    })
+  );
+
+const rejectsWith = (promise: Promise<unknown>, status: number) =>
+  assert.rejects(promise, (error: any) => {
+    assert.equal(error.status, status);
+    return true;
+  });
+
+beforeEach(() => {
+  tables = useFeeModels();
+});
+
+test("a payment made entirely as an advance can be refunded", async () => {
+  await pay(1000);
+  const { payment } = await pay(500);
+  assert.equal(payment.amount, 0);
+  assert.equal(payment.advanceAmount, 500);
+  assert.equal(student().walletBalance, 500);
+
+  const request = await createFeeRefundRequest("branch-1", registrar, {
+    feePaymentId: payment.id,
+    requestType: "refund",
+    reason: "Paid twice",
+  });
+  assert.equal(request.amount, 500);
+  await processFeeRefundRequest("branch-1", request.id, principal, {
+    status: "Approved",
+  });
+
+  const reversal = tables.feePayment.rows.find(
+    (p) => p.reversalOfId === payment.id
+  )!;
+  assert.equal(reversal.advanceAmount, -500);
+  assert.equal(student().walletBalance, 0);
+  assert.equal(record().paidAmount, 1000);
+  assert.deepEqual(
+    tables.walletTransaction.rows.map((t) => [t.type, t.amount]),
+    [
+      ["credit", 500],
+      ["debit", 500],
+    ]
+  );
+  assert.equal(ledgerBalance(tables, "2300"), 0);
+  assert.equal(
+    tables.feeReceipt.rows.find((r) => r.feePaymentId === payment.id)!.status,
+    "void"
+  );
+});
+
+test("a bounced cheque takes its overpayment back out of the wallet", async () => {
+  const { payment } = await pay(1500);
+  assert.equal(payment.amount, 1000);
+  assert.equal(payment.advanceAmount, 500);
+
+  const request = await createFeeRefundRequest("branch-1", registrar, {
+    feePaymentId: payment.id,
+    requestType: "reversal",
+    reason: "Cheque bounced",
+  });
+  assert.equal(request.amount, 1500);
+  await processFeeRefundRequest("branch-1", request.id, principal, {
+    status: "Approved",
+  });
+
+  assert.equal(student().walletBalance, 0);
+  assert.equal(record().paidAmount, 0);
+  assert.equal(ledgerBalance(tables, "1010"), 0);
+  assert.equal(ledgerBalance(tables, "1100"), 0);
+  assert.equal(ledgerBalance(tables, "2300"), 0);
+});
+
+test("an overpayment that has been spent from the wallet is not refunded", async () => {
+  const { payment } = await pay(1500);
+  // The 500 advance pays towards dues added later.
+  record().totalAmount = 1500;
+  await prisma.$transaction((tx) =>
+    applyWalletToFeeRecord(tx, "student-1", "record-1")
+  );
+  assert.equal(student().walletBalance, 0);
+
+  const request = await createFeeRefundRequest("branch-1", registrar, {
+    feePaymentId: payment.id,
+    requestType: "reversal",
+    reason: "Cheque bounced",
+  });
+  await rejectsWith(
+    processFeeRefundRequest("branch-1", request.id, principal, {
+      status: "Approved",
+    }),
+    409
+  );
+
+  assert.equal(
+    tables.feeRefundRequest.rows.find((r) => r.id === request.id)!.status,
+    "Pending"
+  );
+  assert.equal(
+    tables.feePayment.rows.filter((p) => p.reversalOfId === payment.id).length,
+    0
+  );
+  assert.equal(record().paidAmount, 1500);
+});
+
+test("a gateway refund of the full captured amount includes its advance", async () => {
+  // Paid at the counter, then paid again online.
+  await pay(1000, "Cash");
+  tables.paymentOrder.rows.push({
+    id: "po-1",
+    branchId: "branch-1",
+    studentId: "student-1",
+    feeRecordId: "record-1",
+    gatewayOrderId: "order_1",
+    amount: 1000,
+    status: "created",
+    refundedAmount: 0,
+  });
+  await settleFeePaymentOrder("order_1", "pay_1", "webhook");
+  assert.equal(student().walletBalance, 1000);
+
+  const refunded = await recordGatewayRefund("pay_1", "rfnd_1", 1000);
+  assert.equal(refunded.alreadyRecorded, false);
+  assert.equal(refunded.order!.status, "refunded");
+  assert.equal(refunded.order!.refundedAmount, 1000);
+  assert.equal(student().walletBalance, 0);
+  assert.equal(record().paidAmount, 1000);
+
+  // The gateway's redelivery is not booked twice.
+  const again = await recordGatewayRefund("pay_1", "rfnd_1", 1000);
+  assert.equal(again.alreadyRecorded, true);
+  assert.equal(
+    tables.feePayment.rows.filter((p) => p.reversalOfId).length,
+    1
+  );
+});
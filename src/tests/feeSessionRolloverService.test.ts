@@ -0,0 +1,70 @@
+// src/tests/feeSessionRolloverService.test.ts
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { rollOverFeeSession } from "../services/feeSessionRolloverService";
+import { evaluateLateFees } from "../services/lateFeeService";
+import { FeeTables, useFeeModels } from "./feeFixtures";
+
+let tables: FeeTables;
+
+const recordOf = (id: string) =>
+  tables.feeRecord.rows.find((r) => r.id === id)!;
+
+beforeEach(() => {
+  tables = useFeeModels();
+  // Last session's record, 400 of 1000 paid on an instalment due in June.
+  Object.assign(recordOf("record-1"), {
+    totalAmount: 1000,
+    paidAmount: 400,
+    sessionStartYear: 2025,
+    dueDate: new Date("2025-06-10T00:00:00Z"),
+    createdAt: new Date("2025-04-01T00:00:00Z"),
+  });
+  tables.feeInstalment.rows.push({
+    id: "instalment-1",
+    feeRecordId: "record-1",
+    sequence: 1,
+    label: "Term 1",
+    dueDate: new Date("2025-06-10T00:00:00Z"),
+    amount: 1000,
+    paidAmount: 400,
+  });
+  tables.lateFeeRule.rows.push({
+    id: "rule-1",
+    branchId: "branch-1",
+    name: "Daily late fee",
+    chargeType: "flat",
+    amount: 2,
+    graceDays: 0,
+    chargePerDay: true,
+    maxAmount: null,
+    waivedCategories: [],
+    isActive: true,
+  });
+});
+
+test("late fees stop on a record closed by the session rollover", async () => {
+  const before = await evaluateLateFees({
+    branchId: "branch-1",
+    asOf: new Date("2025-06-20T00:00:00Z"),
+  });
+  assert.equal(before.chargesPosted, 1);
+  assert.equal(recordOf("record-1").totalAmount, 1020);
+
+  const rollover = await rollOverFeeSession("branch-1", {
+    toSessionStartYear: 2026,
+  });
+  assert.equal(rollover.studentsRolledOver, 1);
+  assert.equal(rollover.duesCarried, 620);
+
+  const after = await evaluateLateFees({
+    branchId: "branch-1",
+    asOf: new Date("2026-04-20T00:00:00Z"),
+  });
+  assert.equal(after.chargesPosted, 0);
+  assert.equal(recordOf("record-1").totalAmount, 400);
+  const next = recordOf(rollover.carried[0].toFeeRecordId);
+  assert.equal(next.totalAmount, 620);
+  assert.equal(next.previousSessionDues, 620);
+  assert.equal(tables.lateFeeCharge.rows[0].amount, 20);
+});
@@ -0,0 +1,141 @@
+// src/tests/otpService.test.ts
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  captureTransport,
+  clearCapturedMessages,
+  getCapturedMessages,
+  setMessageTransport,
+} from "../services/messageChannelService";
+import {
+  answerOtpChallenge,
+  issueOtp,
+  openTotpChallenge,
+  resendOtp,
+  verifyOtpCode,
+} from "../services/otpService";
+import { resetClock, setClock } from "../utils/clock";
+import { useFakePrisma } from "./fakePrisma";
+
+const user = { id: "user-1", email: "asha@example.com", phone: "9876543210" };
+
+let tables: ReturnType<typeof setup>;
+
+const setup = () =>
+  useFakePrisma({
+    otpChallenge: { defaults: { attempts: 0, consumedAt: null } },
+  });
+
+let clock = new Date("2026-04-01T09:00:00Z");
+const advance = (seconds: number) => {
+  clock = new Date(clock.getTime() + seconds * 1000);
+};
+
+const lastCode = (to = user.email) => {
+  const messages = getCapturedMessages(to);
+  return messages[messages.length - 1].text.match(/\d{6}/)![0];
+};
+
+const wrongCode = (code: string) =>
+  String((Number(code) + 1) % 1000000).padStart(6, "0");
+
+const rejectsWith = (promise: Promise<unknown>, status: number) =>
+  assert.rejects(promise, (error: any) => {
+    assert.equal(error.status, status);
+    return true;
+  });
+
+beforeEach(() => {
+  tables = setup();
+  clock = new Date("2026-04-01T09:00:00Z");
+  setClock(() => clock);
+  setMessageTransport("email", captureTransport("email"));
+  setMessageTransport("sms", captureTransport("sms"));
+  clearCapturedMessages();
+});
+
+afterEach(() => resetClock());
+
+test("a sent code verifies once", async () => {
+  const delivery = await issueOtp(user, "login");
+  assert.equal(delivery.channel, "email");
+  assert.equal(delivery.destination, "a***@example.com");
+
+  const code = lastCode();
+  await verifyOtpCode(user.id, "login", code);
+  await rejectsWith(verifyOtpCode(user.id, "login", code), 400);
+});
+
+test("a code stops working once it expires", async () => {
+  await issueOtp(user, "login", { channel: "sms" });
+  const code = lastCode(user.phone);
+
+  advance(10 * 60 + 1);
+  await rejectsWith(verifyOtpCode(user.id, "login", code), 400);
+});
+
+test("five wrong answers use up the challenge", async () => {
+  await issueOtp(user, "login");
+  const code = lastCode();
+
+  for (let attempt = 1; attempt <= 5; attempt++) {
+    await rejectsWith(verifyOtpCode(user.id, "login", wrongCode(code)), 401);
+  }
+  // Even the right code is refused now; a new one has to be requested.
+  await rejectsWith(verifyOtpCode(user.id, "login", code), 429);
+});
+
+test("codes cannot be resent inside the cooldown", async () => {
+  await issueOtp(user, "login");
+  advance(59);
+  await assert.rejects(resendOtp(user, "login"), {
+    status: 429,
+    message: "Please wait 1 seconds before requesting another code.",
+  });
+  assert.equal(getCapturedMessages(user.email).length, 1);
+
+  advance(1);
+  await resendOtp(user, "login");
+  assert.equal(getCapturedMessages(user.email).length, 2);
+
+  // The resend closes the first challenge, so only the newest code works.
+  const [first, second] = tables.otpChallenge.rows;
+  assert.ok(first.expiresAt <= clock);
+  assert.ok(second.expiresAt > clock);
+  await verifyOtpCode(user.id, "login", lastCode());
+});
+
+test("at most five codes are sent an hour", async () => {
+  for (let sent = 0; sent < 5; sent++) {
+    await issueOtp(user, "login");
+    advance(61);
+  }
+  await rejectsWith(issueOtp(user, "login"), 429);
+  assert.equal(getCapturedMessages(user.email).length, 5);
+
+  advance(60 * 60);
+  await issueOtp(user, "login");
+});
+
+test("authenticator challenges do not use up the codes sent an hour", async () => {
+  for (let opened = 0; opened < 5; opened++) {
+    await openTotpChallenge(user.id, "login");
+  }
+  await issueOtp(user, "login");
+});
+
+test("wrong authenticator codes are limited to ten an hour", async () => {
+  const wrongAnswer = () =>
+    answerOtpChallenge(user.id, "login", () => false, "authenticator code");
+  for (let challenge = 0; challenge < 2; challenge++) {
+    await openTotpChallenge(user.id, "login");
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await rejectsWith(wrongAnswer(), 401);
+    }
+  }
+  await rejectsWith(openTotpChallenge(user.id, "login"), 429);
+
+  advance(60 * 60 + 1);
+  await openTotpChallenge(user.id, "login");
+  await answerOtpChallenge(user.id, "login", () => true);
+});
@@ -0,0 +1,104 @@
+// src/tests/razorpay.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  LocalGatewayClient,
+  verifyPaymentSignature,
+  verifyWebhookSignature,
+} from "../utils/razorpay";
+
+const credentials = {
+  keyId: "rzp_test_localkey123",
+  keySecret: "local-key-secret-0123456789",
+};
+const gateway = new LocalGatewayClient(credentials);
+
+test("a Checkout signature from the gateway verifies", async () => {
+  const order = await gateway.createOrder({
+    amount: 1500,
+    currency: "INR",
+    receipt: "rcpt_1",
+  });
+  const checkout = gateway.signCheckout(order.id);
+
+  assert.equal(
+    verifyPaymentSignature(
+      checkout.razorpay_order_id,
+      checkout.razorpay_payment_id,
+      checkout.razorpay_signature,
+      credentials.keySecret
+    ),
+    true
+  );
+});
+
+test("a Checkout signature is rejected for another payment, order or key", async () => {
+  const order = await gateway.createOrder({
+    amount: 1500,
+    currency: "INR",
+    receipt: "rcpt_2",
+  });
+  const checkout = gateway.signCheckout(order.id);
+  const other = gateway.signCheckout(order.id);
+
+  assert.equal(
+    verifyPaymentSignature(
+      checkout.razorpay_order_id,
+      other.razorpay_payment_id,
+      checkout.razorpay_signature,
+      credentials.keySecret
+    ),
+    false
+  );
+  assert.equal(
+    verifyPaymentSignature(
+      "order_someone_else",
+      checkout.razorpay_payment_id,
+      checkout.razorpay_signature,
+      credentials.keySecret
+    ),
+    false
+  );
+  assert.equal(
+    verifyPaymentSignature(
+      checkout.razorpay_order_id,
+      checkout.razorpay_payment_id,
+      checkout.razorpay_signature,
+      "another-key-secret-0123456789"
+    ),
+    false
+  );
+  assert.equal(
+    verifyPaymentSignature(
+      checkout.razorpay_order_id,
+      checkout.razorpay_payment_id,
+      "not-a-signature",
+      credentials.keySecret
+    ),
+    false
+  );
+});
+
+test("a webhook signature covers the exact body", () => {
+  const webhookSecret = "local-webhook-secret";
+  const { body, signature } = gateway.signWebhook(
+    "payment.captured",
+    { payment: { entity: { id: "pay_1", order_id: "order_1" } } },
+    webhookSecret
+  );
+
+  assert.equal(verifyWebhookSignature(body, signature, webhookSecret), true);
+  assert.equal(
+    verifyWebhookSignature(Buffer.from(body), signature, webhookSecret),
+    true
+  );
+  assert.equal(
+    verifyWebhookSignature(
+      body.replace("pay_1", "pay_2"),
+      signature,
+      webhookSecret
+    ),
+    false
+  );
+  assert.equal(verifyWebhookSignature(body, signature, "other-secret"), false);
+});
@@ -0,0 +1,9 @@
+// src/tests/setup.ts
+// Loaded before every test file (see the `test` script). The client never
+// connects: tests swap the models they use for in-memory tables.
+process.env.DATABASE_URL ??= "prisma://localhost/?api_key=test";
+process.env.SECRETS_ENCRYPTION_KEY ??= Buffer.alloc(32, 7).toString("base64");
+process.env.OTP_SECRET ??= "test-otp-secret";
+process.env.RAZORPAY_MODE = "local";
+process.env.EMAIL_TRANSPORT = "capture";
+process.env.SMS_TRANSPORT = "capture";
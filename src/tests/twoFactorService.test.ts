@@ -0,0 +1,138 @@
+// src/tests/twoFactorService.test.ts
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import bcrypt from "bcryptjs";
+import {
+  beginTotpSetup,
+  confirmTotpSetup,
+  startSecondFactor,
+  verifySecondFactor,
+} from "../services/twoFactorService";
+import { resetClock, setClock } from "../utils/clock";
+import { encryptSecret } from "../utils/encryption";
+import { generateTotp, generateTotpSecret } from "../utils/totp";
+import { useFakePrisma } from "./fakePrisma";
+
+const secret = generateTotpSecret();
+const passwordHash = bcrypt.hashSync("Correct-Horse-9", 4);
+
+let clock = new Date("2026-04-01T09:00:05Z");
+const advance = (seconds: number) => {
+  clock = new Date(clock.getTime() + seconds * 1000);
+};
+
+let tables: ReturnType<typeof setup>;
+
+const setup = () =>
+  useFakePrisma({
+    user: {},
+    otpChallenge: { defaults: { attempts: 0, consumedAt: null } },
+    totpBackupCode: {},
+    auditLog: {},
+  });
+
+const user = () => tables.user.rows[0] as any;
+
+const rejectsWith = (promise: Promise<unknown>, status: number) =>
+  assert.rejects(promise, (error: any) => {
+    assert.equal(error.status, status);
+    return true;
+  });
+
+beforeEach(() => {
+  tables = setup();
+  clock = new Date("2026-04-01T09:00:05Z");
+  setClock(() => clock);
+});
+
+afterEach(() => resetClock());
+
+const enrolledUser = () =>
+  tables.user.rows.push({
+    id: "user-1",
+    name: "Asha Rao",
+    role: "Teacher",
+    email: "asha@example.com",
+    phone: null,
+    branchId: "branch-1",
+    passwordHash,
+    totpSecret: encryptSecret(secret),
+    totpPendingSecret: null,
+    totpEnabledAt: new Date("2026-03-01T00:00:00Z"),
+    totpLastStep: null,
+  });
+
+test("an authenticator code signs in once and cannot be replayed", async () => {
+  enrolledUser();
+  const code = generateTotp(secret, clock);
+
+  const challenge = await startSecondFactor(user(), "login");
+  assert.equal(challenge.channel, "totp");
+  await verifySecondFactor(user().id, "login", { totpCode: code });
+
+  // Same code, still inside its time step, on a fresh challenge.
+  advance(5);
+  await startSecondFactor(user(), "login");
+  await rejectsWith(
+    verifySecondFactor(user().id, "login", { totpCode: code }),
+    401
+  );
+
+  // The next step's code is accepted.
+  advance(30);
+  await verifySecondFactor(user().id, "login", {
+    totpCode: generateTotp(secret, clock),
+  });
+});
+
+test("an earlier code is refused once a later one has been used", async () => {
+  enrolledUser();
+  const earlier = generateTotp(secret, clock);
+  advance(30);
+
+  await startSecondFactor(user(), "login");
+  await verifySecondFactor(user().id, "login", {
+    totpCode: generateTotp(secret, clock),
+  });
+
+  await startSecondFactor(user(), "login");
+  await rejectsWith(
+    verifySecondFactor(user().id, "login", { totpCode: earlier }),
+    401
+  );
+});
+
+test("setting up an authenticator needs the password", async () => {
+  enrolledUser();
+  Object.assign(user(), { totpSecret: null, totpEnabledAt: null });
+
+  await rejectsWith(beginTotpSetup(user().id, undefined), 401);
+  await rejectsWith(beginTotpSetup(user().id, "wrong-password"), 401);
+  assert.equal(user().totpPendingSecret, null);
+
+  const setup = await beginTotpSetup(user().id, "Correct-Horse-9");
+  assert.match(setup.otpauthUrl, /^otpauth:\/\/totp\//);
+  assert.notEqual(user().totpPendingSecret, null);
+});
+
+test("setup gives a QR link and a key to type in by hand", async () => {
+  enrolledUser();
+  Object.assign(user(), { totpSecret: null, totpEnabledAt: null });
+
+  const setup = await beginTotpSetup(user().id, "Correct-Horse-9");
+  assert.match(setup.manualEntryKey, /^([A-Z2-7]{4} )+[A-Z2-7]{1,4}$/);
+  assert.equal(setup.manualEntryKey.replace(/ /g, ""), setup.secret);
+  const url = new URL(setup.otpauthUrl);
+  assert.equal(url.searchParams.get("secret"), setup.secret);
+  assert.equal(url.searchParams.get("issuer"), "Verticx");
+
+  // An app set up from the typed key shows codes that turn it on.
+  const { backupCodes } = await confirmTotpSetup(
+    user().id,
+    generateTotp(setup.manualEntryKey, clock),
+    "Correct-Horse-9"
+  );
+  assert.equal(backupCodes.length, 10);
+  assert.notEqual(user().totpEnabledAt, null);
+  assert.equal(user().totpPendingSecret, null);
+});
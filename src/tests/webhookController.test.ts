@@ -0,0 +1,140 @@
+// src/tests/webhookController.test.ts
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import prisma from "../prisma";
+import { handleRazorpayWebhook } from "../controllers/webhookController";
+import { FeeTables, GATEWAY, gateway, useFeeModels } from "./feeFixtures";
+
+let tables: FeeTables;
+
+beforeEach(() => {
+  tables = useFeeModels();
+  tables.paymentOrder.rows.push({
+    id: "po-1",
+    branchId: "branch-1",
+    studentId: "student-1",
+    feeRecordId: "record-1",
+    gatewayOrderId: "order_1",
+    amount: 1000,
+    status: "created",
+    refundedAmount: 0,
+  });
+});
+
+const deliver = async (delivery: {
+  eventId: string;
+  body: string;
+  signature: string;
+}) => {
+  const headers: Record<string, string> = {
+    "x-razorpay-signature": delivery.signature,
+    "x-razorpay-event-id": delivery.eventId,
+  };
+  const req = {
+    body: Buffer.from(delivery.body),
+    header: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+  const result: { status?: number; body?: any; error?: any } = {};
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(body: any) {
+      result.body = body;
+      return this;
+    },
+  } as unknown as Response;
+  await handleRazorpayWebhook(req, res, (error?: any) => {
+    result.error = error;
+  });
+  return result;
+};
+
+const paymentFailed = () =>
+  gateway.signWebhook(
+    "payment.failed",
+    {
+      payment: {
+        entity: {
+          id: "pay_1",
+          order_id: "order_1",
+          error_description: "Card declined",
+        },
+      },
+    },
+    GATEWAY.webhookSecret
+  );
+
+const paymentCaptured = () =>
+  gateway.signWebhook(
+    "payment.captured",
+    { payment: { entity: { id: "pay_1", order_id: "order_1" } } },
+    GATEWAY.webhookSecret
+  );
+
+test("an event is applied once and its redelivery is acknowledged", async () => {
+  const event = paymentFailed();
+
+  const first = await deliver(event);
+  assert.equal(first.status, 200);
+  assert.deepEqual(first.body, { status: "ok" });
+  assert.equal(tables.paymentOrder.rows[0].status, "failed");
+  assert.equal(tables.paymentOrder.rows[0].failureReason, "Card declined");
+
+  const again = await deliver(event);
+  assert.equal(again.status, 200);
+  assert.deepEqual(again.body, { status: "duplicate" });
+  assert.equal(tables.paymentWebhookEvent.rows.length, 1);
+});
+
+test("a captured payment is recorded once, with its receipt", async () => {
+  const event = paymentCaptured();
+
+  const first = await deliver(event);
+  assert.deepEqual(first.body, { status: "ok" });
+  const order = tables.paymentOrder.rows[0];
+  assert.equal(order.status, "paid");
+  assert.equal(order.gatewayPaymentId, "pay_1");
+  assert.equal(tables.feePayment.rows.length, 1);
+  assert.equal(order.feePaymentId, tables.feePayment.rows[0].id);
+  assert.equal(tables.feePayment.rows[0].amount, 1000);
+  assert.equal(tables.feeReceipt.rows.length, 1);
+  assert.equal(tables.feeRecord.rows[0].paidAmount, 1000);
+
+  // The same capture delivered again under a new event id settles nothing.
+  const again = await deliver(paymentCaptured());
+  assert.deepEqual(again.body, { status: "ok" });
+  assert.equal(tables.feePayment.rows.length, 1);
+  assert.equal(tables.feeReceipt.rows.length, 1);
+});
+
+test("a body that does not match its signature is rejected", async () => {
+  const event = paymentFailed();
+  const result = await deliver({
+    ...event,
+    body: event.body.replace("Card declined", "Tampered"),
+  });
+
+  assert.equal(result.status, 401);
+  assert.equal(tables.paymentOrder.rows[0].status, "created");
+  assert.equal(tables.paymentWebhookEvent.rows.length, 0);
+});
+
+test("an event whose handling fails is processed on the gateway's retry", async () => {
+  const event = paymentFailed();
+  const updateMany = (prisma as any).paymentOrder.updateMany;
+  (prisma as any).paymentOrder.updateMany = async () => {
+    throw new Error("database unavailable");
+  };
+
+  const first = await deliver(event);
+  assert.equal(first.error?.message, "database unavailable");
+  assert.equal(tables.paymentWebhookEvent.rows.length, 0);
+
+  (prisma as any).paymentOrder.updateMany = updateMany;
+  const retry = await deliver(event);
+  assert.deepEqual(retry.body, { status: "ok" });
+  assert.equal(tables.paymentOrder.rows[0].status, "failed");
+});
@@ -311,6 +311,7 @@ export interface FeeRecord {
   paidAmount: number;
   dueDate: Date;
   previousSessionDues?: number;
+  walletBalance?: number; // Student wallet credit, applied to the next dues
 }
 
 export interface FeePayment {
@@ -339,9 +340,12 @@ export interface ManualExpense {
   branchId: string;
   description: string;
   category: 'Utilities' | 'Supplies' | 'Maintenance' | 'Events' | 'Miscellaneous';
+  categoryId?: string; // Budget category (built-in or custom)
   amount: number;
   date: string;
   enteredBy: string;
+  receiptUrl?: string;
+  receiptFileName?: string;
 }
 
 export interface ManualSalaryAdjustment {
@@ -1,5 +1,6 @@
 // src/utils/authUtils.ts
 import { Request } from 'express';
+import { Prisma } from '@prisma/client';
 
 export function getBranchId(req: Request): string {
   // Use req.user for consistency with other controllers
@@ -7,4 +8,32 @@ export function getBranchId(req: Request): string {
     throw new Error('Branch ID not found in request user object');
   }
   return req.user.branchId;
-}
\ No newline at end of file
+}
+
+/**
+ * User columns that must never reach a response: the password hash, the
+ * authenticator secrets and the sign-in lockout state. Pass it as `omit` on
+ * any User query or include whose rows are sent back.
+ */
+export const USER_PRIVATE_FIELDS = {
+  passwordHash: true,
+  totpSecret: true,
+  totpPendingSecret: true,
+  totpLastStep: true,
+  failedLoginCount: true,
+  lastFailedLoginAt: true,
+  lockedUntil: true,
+} satisfies Prisma.UserOmit;
+
+type UserPrivateField = keyof typeof USER_PRIVATE_FIELDS;
+
+/** Strips USER_PRIVATE_FIELDS from a User row that was loaded with them. */
+export function toPublicUser<T extends Partial<Record<UserPrivateField, unknown>>>(
+  user: T
+): Omit<T, UserPrivateField> {
+  const publicUser: Partial<T> = { ...user };
+  for (const field of Object.keys(USER_PRIVATE_FIELDS) as UserPrivateField[]) {
+    delete publicUser[field];
+  }
+  return publicUser as Omit<T, UserPrivateField>;
+}
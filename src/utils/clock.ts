@@ -0,0 +1,18 @@
+// src/utils/clock.ts
+
+/**
+ * The current time for code whose behaviour depends on it (one-time codes,
+ * authenticator time steps). Tests pin it with `setClock` instead of
+ * waiting for real time to pass.
+ */
+let source: () => Date = () => new Date();
+
+export const now = (): Date => source();
+
+export const setClock = (clock: () => Date) => {
+  source = clock;
+};
+
+export const resetClock = () => {
+  source = () => new Date();
+};
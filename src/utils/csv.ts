@@ -0,0 +1,93 @@
+// src/utils/csv.ts
+
+// Spreadsheet apps run a cell that starts with one of these as a formula.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Prefixes text that a spreadsheet would treat as a formula with `'`, so
+ * names and remarks typed by users are shown rather than run. Negative
+ * numbers are left alone.
+ */
+export const neutraliseFormula = (text: string) =>
+  FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text) ? `'${text}` : text;
+
+const escapeCell = (value: unknown, neutralise: boolean) => {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (neutralise && typeof value === "string") text = neutraliseFormula(text);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises rows (the first usually being the header) as RFC 4180 CSV.
+ * Cells that would run as formulas are neutralised unless `rawCells` is set,
+ * which bank upload layouts need as the banks reject the extra quote.
+ */
+export const toCsv = (
+  rows: unknown[][],
+  options: { rawCells?: boolean } = {}
+) =>
+  rows
+    .map((row) =>
+      row.map((cell) => escapeCell(cell, !options.rawCells)).join(",")
+    )
+    .join("\r\n") + "\r\n";
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with embedded
+ * commas, quotes and line breaks; blank lines are dropped and a leading BOM
+ * is ignored.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+};
+
+/**
+ * Parses CSV with a header row into objects keyed by lower-cased, trimmed
+ * header names.
+ */
+export const parseCsvRecords = (text: string) => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim().toLowerCase());
+  return rows.map((cells) =>
+    Object.fromEntries(keys.map((key, i) => [key, (cells[i] ?? "").trim()]))
+  );
+};
@@ -0,0 +1,75 @@
+// src/utils/encryption.ts
+import crypto from "crypto";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Envelope encryption for secrets stored in the database.
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is itself encrypted ("wrapped") with the master key taken from
+ * SECRETS_ENCRYPTION_KEY (32 bytes, base64). Rotating the master key only
+ * requires re-wrapping data keys, never touching the payloads.
+ *
+ * Stored format: enc:v1:<wrapped data key>.<encrypted payload>
+ * where each part is base64(iv | auth tag | ciphertext).
+ */
+
+const PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const getMasterKey = (): Buffer => {
+  const encoded = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!encoded) {
+    throw new Error("SECRETS_ENCRYPTION_KEY environment variable is not set.");
+  }
+  const key = Buffer.from(encoded, "base64");
+  if (key.length !== 32) {
+    throw new Error("SECRETS_ENCRYPTION_KEY must be 32 bytes, base64 encoded.");
+  }
+  return key;
+};
+
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64"
+  );
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const raw = Buffer.from(sealed, "base64");
+  const iv = raw.subarray(0, IV_LENGTH);
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = raw.subarray(IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+export const isEncryptedSecret = (value: string): boolean =>
+  value.startsWith(PREFIX);
+
+export const encryptSecret = (plaintext: string): string => {
+  const dataKey = crypto.randomBytes(32);
+  const payload = seal(dataKey, Buffer.from(plaintext, "utf8"));
+  const wrappedKey = seal(getMasterKey(), dataKey);
+  return `${PREFIX}${wrappedKey}.${payload}`;
+};
+
+/**
+ * Decrypts a value produced by encryptSecret. Values written before
+ * encryption was introduced are plaintext and are returned unchanged.
+ */
+export const decryptSecret = (stored: string): string => {
+  if (!isEncryptedSecret(stored)) {
+    return stored;
+  }
+  const [wrappedKey, payload] = stored.slice(PREFIX.length).split(".");
+  const dataKey = open(getMasterKey(), wrappedKey);
+  return open(dataKey, payload).toString("utf8");
+};
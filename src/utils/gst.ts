@@ -0,0 +1,158 @@
+// src/utils/gst.ts
+
+/** GST state and union territory codes, as used in GSTINs and returns. */
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+// Other spellings seen in addresses, checked after the official names.
+const STATE_ALIASES: [string, string][] = [
+  ["new delhi", "07"],
+  ["orissa", "21"],
+  ["pondicherry", "34"],
+  ["daman", "26"],
+  ["diu", "26"],
+  ["dadra", "26"],
+  ["j&k", "01"],
+  ["uttaranchal", "05"],
+];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/** Check character of a GSTIN (mod-36 with alternating weights 1 and 2). */
+const gstinCheckChar = (body: string) => {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const product = GSTIN_CHARSET.indexOf(body[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+export const normalizeGstin = (gstin: string) =>
+  gstin.trim().toUpperCase().replace(/\s+/g, "");
+
+export const isValidGstin = (gstin: string) => {
+  const value = normalizeGstin(gstin);
+  return (
+    GSTIN_PATTERN.test(value) &&
+    GST_STATES[value.slice(0, 2)] !== undefined &&
+    gstinCheckChar(value.slice(0, 14)) === value[14]
+  );
+};
+
+export const stateCodeFromGstin = (gstin: string | null | undefined) =>
+  gstin && GST_STATES[gstin.slice(0, 2)] ? gstin.slice(0, 2) : null;
+
+/**
+ * Finds the state named in a free-text address such as a branch's
+ * `location`. When several names match, the longest wins.
+ */
+export const stateCodeFromAddress = (address: string | null | undefined) => {
+  if (!address) return null;
+  const text = address.toLowerCase();
+  const candidates: [string, string][] = [
+    ...Object.entries(GST_STATES).map(
+      ([code, name]) => [name.toLowerCase(), code] as [string, string]
+    ),
+    ...STATE_ALIASES,
+  ];
+  let match: { code: string; length: number } | null = null;
+  for (const [name, code] of candidates) {
+    const pattern = new RegExp(
+      `(^|[^a-z])${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}([^a-z]|$)`
+    );
+    if (pattern.test(text) && (!match || name.length > match.length)) {
+      match = { code, length: name.length };
+    }
+  }
+  return match?.code ?? null;
+};
+
+export const formatPlaceOfSupply = (stateCode: string) =>
+  `${stateCode}-${GST_STATES[stateCode] ?? "Unknown"}`;
+
+export interface GstSplit {
+  taxableAmount: number;
+  cgstRate: number;
+  cgstAmount: number;
+  sgstRate: number;
+  sgstAmount: number;
+  igstRate: number;
+  igstAmount: number;
+  taxAmount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Splits GST on a taxable value: CGST + SGST (half the rate each) within a
+ * state, IGST across states.
+ */
+export const computeGst = (
+  taxableAmount: number,
+  rate: number,
+  intraState: boolean
+): GstSplit => {
+  const taxable = round2(taxableAmount);
+  if (intraState) {
+    const half = round2((taxable * rate) / 200);
+    return {
+      taxableAmount: taxable,
+      cgstRate: rate / 2,
+      cgstAmount: half,
+      sgstRate: rate / 2,
+      sgstAmount: half,
+      igstRate: 0,
+      igstAmount: 0,
+      taxAmount: round2(half * 2),
+    };
+  }
+  const igst = round2((taxable * rate) / 100);
+  return {
+    taxableAmount: taxable,
+    cgstRate: 0,
+    cgstAmount: 0,
+    sgstRate: 0,
+    sgstAmount: 0,
+    igstRate: rate,
+    igstAmount: igst,
+    taxAmount: igst,
+  };
+};
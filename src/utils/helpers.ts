@@ -1,10 +1,29 @@
 // src/utils/helpers.ts
+import { randomInt } from "crypto";
+
+// Letters and digits that cannot be mistaken for one another when read out.
+const LOWER = "abcdefghjkmnpqrstuvwxyz";
+const UPPER = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+const DIGITS = "23456789";
+const SYMBOLS = "@#$%&*!?";
+
+const pick = (chars: string) => chars[randomInt(chars.length)];
 
 /**
- * Generates a simple random string to be used as a temporary password.
- * @param length The desired length of the password.
+ * Generates a random temporary password from a cryptographic source. It
+ * always has a lowercase and uppercase letter, a digit and a symbol, so it
+ * passes the password policy.
+ * @param length The desired length of the password (at least 8).
  * @returns A random string.
  */
-export const generatePassword = (length = 8): string => {
-  return Math.random().toString(36).slice(-length);
+export const generatePassword = (length = 12): string => {
+  const all = LOWER + UPPER + DIGITS + SYMBOLS;
+  const chars = [pick(LOWER), pick(UPPER), pick(DIGITS), pick(SYMBOLS)];
+  while (chars.length < Math.max(length, 8)) chars.push(pick(all));
+  // Fisher-Yates, so the required characters are not always up front.
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join("");
 };
@@ -0,0 +1,15 @@
+// src/utils/httpError.ts
+
+/**
+ * An error that carries the HTTP status it should be reported with.
+ * Services throw it; controllers simply forward it with `next(error)`.
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
@@ -0,0 +1,125 @@
+// src/utils/pdf.ts
+import PDFDocument from "pdfkit";
+import axios from "axios";
+
+export type PdfDoc = PDFKit.PDFDocument;
+
+/**
+ * Builds a PDF in memory. `draw` gets a fresh A4 document and may be async
+ * (e.g. to fetch a logo first).
+ */
+export const renderPdf = async (
+  draw: (doc: PdfDoc) => void | Promise<void>
+): Promise<Buffer> => {
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  await draw(doc);
+  doc.end();
+  return done;
+};
+
+// Images are only fetched from blob storage (where logos are uploaded), so
+// an editable logo URL cannot make the server call internal addresses.
+// PDF_IMAGE_HOSTS adds more hosts (subdomains included), comma separated.
+const PDF_IMAGE_HOSTS = [
+  "public.blob.vercel-storage.com",
+  ...(process.env.PDF_IMAGE_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase().replace(/^\./, ""))
+    .filter(Boolean),
+];
+
+const isAllowedImageUrl = (url: string) => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    const host = hostname.toLowerCase();
+    return (
+      protocol === "https:" &&
+      PDF_IMAGE_HOSTS.some(
+        (allowed) => host === allowed || host.endsWith(`.${allowed}`)
+      )
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Downloads an image for embedding. Returns null instead of failing the whole
+ * document when the image is missing, unreachable or not on an allowed host.
+ */
+export const fetchPdfImage = async (
+  url: string | null | undefined
+): Promise<Buffer | null> => {
+  if (!url) return null;
+  if (!isAllowedImageUrl(url)) {
+    console.error("Image host is not allowed for PDFs:", url);
+    return null;
+  }
+  try {
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: "arraybuffer",
+      timeout: 5000,
+    });
+    return Buffer.from(response.data);
+  } catch (error) {
+    console.error("Could not load image for PDF:", url);
+    return null;
+  }
+};
+
+export const formatCurrency = (amount: number) =>
+  `INR ${amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Draws a simple two-or-more column table. The last column is right-aligned,
+ * which suits amount columns; pass `align` to set each column instead.
+ */
+export const drawTable = (
+  doc: PdfDoc,
+  headers: string[],
+  rows: string[][],
+  columnWidths: number[],
+  options: { align?: ("left" | "right")[]; fontSize?: number } = {}
+) => {
+  const left = doc.page.margins.left;
+  const drawRow = (cells: string[], bold: boolean) => {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 30) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    let x = left;
+    doc
+      .font(bold ? "Helvetica-Bold" : "Helvetica")
+      .fontSize(options.fontSize ?? 10);
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 4, y + 4, {
+        width: columnWidths[i] - 8,
+        align:
+          options.align?.[i] ?? (i === cells.length - 1 ? "right" : "left"),
+      });
+      x += columnWidths[i];
+    });
+    const rowBottom = Math.max(doc.y, y + 18) + 4;
+    doc
+      .moveTo(left, rowBottom)
+      .lineTo(left + columnWidths.reduce((a, b) => a + b, 0), rowBottom)
+      .strokeColor("#cccccc")
+      .stroke();
+    doc.x = left;
+    doc.y = rowBottom;
+  };
+
+  drawRow(headers, true);
+  rows.forEach((row) => drawRow(row, false));
+  doc.moveDown();
+};
@@ -1,17 +1,209 @@
 import Razorpay from "razorpay";
+import crypto from "crypto";
 import dotenv from "dotenv";
 
 dotenv.config();
 
-const RAZORPAY_KEY = process.env.RAZORPAY_KEY ?? "dummy_key";
-const RAZORPAY_SECRET = process.env.RAZORPAY_SECRET ?? "dummy_secret";
-
-export const razorpay = new Razorpay({
-  key_id: RAZORPAY_KEY,
-  key_secret: RAZORPAY_SECRET,
-});
+// "local" swaps Razorpay for an in-process fake gateway (development & testing).
+const RAZORPAY_MODE = process.env.RAZORPAY_MODE ?? "live";
 
 console.log(
-  "Razorpay initialized with key:",
-  RAZORPAY_KEY === "dummy_key" ? "dummy_key (fallback)" : "env key"
+  "Razorpay gateway mode:",
+  RAZORPAY_MODE === "local" ? "local (fake gateway)" : "live"
 );
+
+// --- Gateway client ---
+
+export interface GatewayCredentials {
+  keyId: string;
+  keySecret: string;
+}
+
+export interface GatewayOrder {
+  id: string;
+  amount: number; // In rupees, as stored on our side
+  currency: string;
+}
+
+export interface CreateGatewayOrderParams {
+  amount: number; // In rupees
+  currency: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayRefund {
+  id: string;
+  amount: number; // In rupees
+  status: string; // "pending" | "processed" | "failed"
+}
+
+export interface PaymentGatewayClient {
+  keyId: string;
+  createOrder(params: CreateGatewayOrderParams): Promise<GatewayOrder>;
+  refundPayment(
+    paymentId: string,
+    amount: number,
+    notes?: Record<string, string>
+  ): Promise<GatewayRefund>;
+  /** Throws if the gateway rejects the credentials. */
+  testConnection(): Promise<void>;
+}
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+class RazorpayGatewayClient implements PaymentGatewayClient {
+  keyId: string;
+  private client: Razorpay;
+
+  constructor(credentials: GatewayCredentials) {
+    this.keyId = credentials.keyId;
+    this.client = new Razorpay({
+      key_id: credentials.keyId,
+      key_secret: credentials.keySecret,
+    });
+  }
+
+  async createOrder(params: CreateGatewayOrderParams): Promise<GatewayOrder> {
+    const order = await this.client.orders.create({
+      amount: toPaise(params.amount),
+      currency: params.currency,
+      receipt: params.receipt,
+      notes: params.notes,
+    });
+    return {
+      id: order.id,
+      amount: Number(order.amount) / 100,
+      currency: order.currency,
+    };
+  }
+
+  async refundPayment(
+    paymentId: string,
+    amount: number,
+    notes?: Record<string, string>
+  ): Promise<GatewayRefund> {
+    const refund = await this.client.payments.refund(paymentId, {
+      amount: toPaise(amount),
+      notes,
+    });
+    return {
+      id: refund.id,
+      amount: Number(refund.amount) / 100,
+      status: refund.status,
+    };
+  }
+
+  async testConnection(): Promise<void> {
+    // Any authenticated read will do; a bad key pair fails with 401.
+    await this.client.orders.all({ count: 1 });
+  }
+}
+
+/**
+ * A fake gateway that never leaves the process. It issues order ids and can
+ * produce the exact checkout and webhook signatures Razorpay would, so the
+ * whole verify/webhook path can be exercised locally.
+ */
+export class LocalGatewayClient implements PaymentGatewayClient {
+  keyId: string;
+  private keySecret: string;
+
+  constructor(credentials: GatewayCredentials) {
+    this.keyId = credentials.keyId;
+    this.keySecret = credentials.keySecret;
+  }
+
+  async createOrder(params: CreateGatewayOrderParams): Promise<GatewayOrder> {
+    return {
+      id: `order_local_${crypto.randomBytes(8).toString("hex")}`,
+      amount: params.amount,
+      currency: params.currency,
+    };
+  }
+
+  async refundPayment(
+    paymentId: string,
+    amount: number
+  ): Promise<GatewayRefund> {
+    return {
+      id: `rfnd_local_${crypto.randomBytes(8).toString("hex")}`,
+      amount,
+      status: "processed",
+    };
+  }
+
+  async testConnection(): Promise<void> {
+    // Mirror the checks Razorpay itself performs on a key pair.
+    if (!/^rzp_(test|live)_[A-Za-z0-9]{8,}$/.test(this.keyId)) {
+      throw new Error("Key ID is not a valid Razorpay key.");
+    }
+    if (this.keySecret.length < 16) {
+      throw new Error("Key secret is too short.");
+    }
+  }
+
+  signCheckout(orderId: string) {
+    const paymentId = `pay_local_${crypto.randomBytes(8).toString("hex")}`;
+    return {
+      razorpay_order_id: orderId,
+      razorpay_payment_id: paymentId,
+      razorpay_signature: hmacSha256(`${orderId}|${paymentId}`, this.keySecret),
+    };
+  }
+
+  signWebhook(
+    event: string,
+    payload: Record<string, { entity: Record<string, unknown> }>,
+    webhookSecret: string
+  ) {
+    const body = JSON.stringify({ entity: "event", event, payload });
+    return {
+      eventId: `evt_local_${crypto.randomBytes(8).toString("hex")}`,
+      body,
+      signature: hmacSha256(body, webhookSecret),
+    };
+  }
+}
+
+export const isLocalGatewayMode = (): boolean => RAZORPAY_MODE === "local";
+
+export const createGatewayClient = (
+  credentials: GatewayCredentials
+): PaymentGatewayClient =>
+  isLocalGatewayMode()
+    ? new LocalGatewayClient(credentials)
+    : new RazorpayGatewayClient(credentials);
+
+// --- Signatures ---
+
+export const hmacSha256 = (payload: string | Buffer, secret: string): string =>
+  crypto.createHmac("sha256", secret).update(payload).digest("hex");
+
+const safeEqual = (expected: string, received: string): boolean => {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Checks the `razorpay_signature` returned by Checkout, which is
+ * HMAC-SHA256("<order_id>|<payment_id>") keyed with the API key secret.
+ */
+export const verifyPaymentSignature = (
+  orderId: string,
+  paymentId: string,
+  signature: string,
+  keySecret: string
+): boolean =>
+  safeEqual(hmacSha256(`${orderId}|${paymentId}`, keySecret), signature);
+
+/**
+ * Checks the `X-Razorpay-Signature` header, which is HMAC-SHA256 of the raw
+ * request body keyed with the webhook secret.
+ */
+export const verifyWebhookSignature = (
+  rawBody: string | Buffer,
+  signature: string,
+  webhookSecret: string
+): boolean => safeEqual(hmacSha256(rawBody, webhookSecret), signature);